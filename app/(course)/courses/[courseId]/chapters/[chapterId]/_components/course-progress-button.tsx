@@ -1,4 +1,5 @@
 import { Chapter } from "@prisma/client";
+import { MathHtml } from "@/components/math-text";
 
 interface CourseProgressButtonProps {
   chapter: Chapter;
@@ -13,7 +14,7 @@ export const CourseProgressButton = ({
         {chapter.title}
       </div>
               <div className="prose prose-sm max-w-none space-y-4">
-        <div dangerouslySetInnerHTML={{ __html: chapter.description! }} />
+        <MathHtml html={chapter.description} />
       </div>
     </div>
   );
@@ -1,24 +1,40 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter, useParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
 import axios, { AxiosError } from "axios";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight, CheckCircle2, Circle, Lock, FileText, Download } from "lucide-react";
+import { ChevronLeft, ChevronRight, CheckCircle2, Circle, Lock, FileText, Download, RotateCcw, Play } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
 import { PlyrVideoPlayer } from "@/components/plyr-video-player";
+import { MathHtml } from "@/components/math-text";
+import { useWatchTracker, ViewStatus, WatchReport } from "@/hooks/use-watch-tracker";
+import { formatDuration } from "@/lib/format";
 
 interface Chapter {
   id: string;
   title: string;
   description: string | null;
   isFree: boolean;
+  price: number | null;
+  hasAccess?: boolean;
   videoUrl: string | null;
   videoType: "UPLOAD" | "YOUTUBE" | null;
   youtubeVideoId: string | null;
+  hlsUrl: string | null;
+  posterUrl: string | null;
   documentUrl: string | null;
   documentName: string | null;
+  completionThreshold: number | null;
+  resumePosition: number | null;
+  views: ViewStatus | null;
+  viewSessionId: string | null;
+  course: {
+    watermarkEnabled: boolean;
+    watermarkOpacity: number;
+  };
   nextChapterId?: string;
   previousChapterId?: string;
   nextContentType?: 'chapter' | 'quiz' | null;
@@ -32,18 +48,56 @@ interface Chapter {
   }[];
   userProgress?: {
     isCompleted: boolean;
+    watchedSeconds: number;
+    duration: number | null;
   }[];
 }
 
 const ChapterPage = () => {
   const router = useRouter();
   const routeParams = useParams() as { courseId: string; chapterId: string };
+  // Links from "continue watching" open the video at ?t=<seconds>
+  const linkedTime = Number(useSearchParams().get("t"));
+  const { data: session } = useSession();
   const [chapter, setChapter] = useState<Chapter | null>(null);
   const [loading, setLoading] = useState(true);
   const [isCompleted, setIsCompleted] = useState(false);
   const [courseProgress, setCourseProgress] = useState(0);
   const [hasAccess, setHasAccess] = useState(false);
+  const [isExpired, setIsExpired] = useState(false);
   const [studyTypeError, setStudyTypeError] = useState<string | null>(null);
+  const [watchedPercentage, setWatchedPercentage] = useState(0);
+  const [startTime, setStartTime] = useState<number | undefined>(undefined);
+  const [resumePrompt, setResumePrompt] = useState<number | null>(null);
+  const [views, setViews] = useState<ViewStatus | null>(null);
+
+  const onWatchReport = useCallback((report: WatchReport) => {
+    setWatchedPercentage(report.watchedPercentage);
+    setViews(report.views);
+    if (report.isCompleted) {
+      setIsCompleted(true);
+    }
+  }, []);
+
+  // Another tab used the last view while this one was open
+  const onViewsExhausted = useCallback(() => {
+    setViews(current => current ? { ...current, used: current.max, remaining: 0 } : current);
+    setChapter(current => current ? { ...current, videoUrl: null, youtubeVideoId: null, hlsUrl: null } : current);
+  }, []);
+
+  const onViewSessionExpired = useCallback(() => {
+    toast.error("انتهت جلسة المشاهدة، أعد تحميل الصفحة لمتابعة المشاهدة");
+  }, []);
+
+  const { onTimeUpdate, flush: flushWatchTime } = useWatchTracker({
+    courseId: routeParams.courseId,
+    chapterId: routeParams.chapterId,
+    sessionId: chapter?.viewSessionId ?? null,
+    enabled: !!chapter?.videoUrl,
+    onReport: onWatchReport,
+    onViewsExhausted,
+    onSessionExpired: onViewSessionExpired,
+  });
 
   console.log("🔍 ChapterPage render:", {
     chapterId: routeParams.chapterId,
@@ -204,9 +258,21 @@ const ChapterPage = () => {
         });
         
         setChapter(chapterResponse.data);
-        setIsCompleted(chapterResponse.data.userProgress?.[0]?.isCompleted || false);
+        setViews(chapterResponse.data.views);
+        const progress = chapterResponse.data.userProgress?.[0];
+        setIsCompleted(progress?.isCompleted || false);
+        setWatchedPercentage(
+          progress?.duration ? Math.min(100, Math.round((progress.watchedSeconds / progress.duration) * 100)) : 0
+        );
+        if (linkedTime > 0) {
+          setStartTime(linkedTime);
+        } else {
+          setResumePrompt(chapterResponse.data.resumePosition);
+        }
         setCourseProgress(progressResponse.data.progress);
-        setHasAccess(accessResponse.data.hasAccess);
+        // The chapter may have been bought on its own, without the course
+        setHasAccess(accessResponse.data.hasAccess || chapterResponse.data.hasAccess);
+        setIsExpired(accessResponse.data.isExpired || false);
         setStudyTypeError(null); // Clear any previous study type error
       } catch (error) {
         const axiosError = error as AxiosError;
@@ -270,7 +336,7 @@ const ChapterPage = () => {
     };
 
     fetchData();
-  }, [routeParams.courseId, routeParams.chapterId]);
+  }, [routeParams.courseId, routeParams.chapterId, linkedTime]);
 
   const toggleCompletion = async () => {
     try {
@@ -288,6 +354,11 @@ const ChapterPage = () => {
   };
 
   const onEnd = async () => {
+    // Chapters with a completion threshold complete from the watch time reported to the server
+    if (chapter?.completionThreshold) {
+      flushWatchTime();
+      return;
+    }
     try {
       if (!isCompleted) {
         await axios.put(`/api/courses/${routeParams.courseId}/chapters/${routeParams.chapterId}/progress`);
@@ -365,10 +436,22 @@ const ChapterPage = () => {
         <div className="text-center space-y-4 max-w-md">
           <Lock className="h-12 w-12 mx-auto text-muted-foreground" />
           <h2 className="text-2xl font-semibold">هذا الفصل مغلق</h2>
-          <p className="text-muted-foreground">شراء الكورس للوصول إلى جميع الفصول</p>
-          <Button onClick={() => router.push(`/courses/${routeParams.courseId}/purchase`)}>
-            شراء الكورس
-          </Button>
+          <p className="text-muted-foreground">
+            {isExpired ? "انتهى اشتراكك في هذا الكورس، جدد الاشتراك للوصول إلى جميع الفصول" : "شراء الكورس للوصول إلى جميع الفصول"}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
+            <Button onClick={() => router.push(`/courses/${routeParams.courseId}/purchase`)}>
+              {isExpired ? "تجديد الاشتراك" : "شراء الكورس"}
+            </Button>
+            {!!chapter.price && (
+              <Button
+                variant="outline"
+                onClick={() => router.push(`/courses/${routeParams.courseId}/purchase?chapterId=${chapter.id}`)}
+              >
+                شراء هذه المحاضرة فقط
+              </Button>
+            )}
+          </div>
         </div>
       </div>
     );
@@ -387,6 +470,35 @@ const ChapterPage = () => {
             <Progress value={courseProgress} className="h-2" />
           </div>
 
+          {/* Resume Prompt */}
+          {resumePrompt !== null && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 border rounded-lg bg-card">
+              <p className="text-sm">توقفت عند {formatDuration(resumePrompt)} في آخر مرة شاهدت فيها هذا الفيديو</p>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => {
+                    setStartTime(resumePrompt);
+                    setResumePrompt(null);
+                  }}
+                  className="flex items-center gap-2"
+                >
+                  <Play className="h-4 w-4" />
+                  متابعة من {formatDuration(resumePrompt)}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setResumePrompt(null)}
+                  className="flex items-center gap-2"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  البدء من البداية
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Video Player Section */}
           <div className="aspect-video relative bg-black rounded-lg overflow-hidden">
             {chapter.videoUrl ? (
@@ -401,19 +513,27 @@ const ChapterPage = () => {
                   <PlyrVideoPlayer
                     key={`${chapter.id}-${chapter.videoUrl}-${chapter.videoType}`}
                     videoUrl={chapter.videoType === "UPLOAD" ? chapter.videoUrl : undefined}
+                    hlsUrl={chapter.videoType === "UPLOAD" ? chapter.hlsUrl ?? undefined : undefined}
+                    posterUrl={chapter.posterUrl ?? undefined}
                     youtubeVideoId={chapter.videoType === "YOUTUBE" ? chapter.youtubeVideoId || undefined : undefined}
                     videoType={(chapter.videoType as "UPLOAD" | "YOUTUBE") || "UPLOAD"}
                     className="w-full h-full"
                     onEnded={onEnd}
-                    onTimeUpdate={(currentTime) => {
-                      // Only log in development
-                      if (process.env.NODE_ENV === 'development') {
-                        console.log("🔍 Video time update:", currentTime);
-                      }
-                    }}
+                    onTimeUpdate={onTimeUpdate}
+                    startTime={startTime}
+                    watermark={chapter.course.watermarkEnabled && session?.user ? {
+                      lines: [session.user.name, session.user.phoneNumber ?? ""].filter(Boolean),
+                      opacity: chapter.course.watermarkOpacity / 100,
+                    } : undefined}
                   />
                 );
               })()
+            ) : views?.remaining === 0 ? (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-white">
+                <Lock className="h-8 w-8" />
+                <p>لقد استنفدت عدد مرات المشاهدة المسموح بها لهذا الفصل ({views.max})</p>
+                <p className="text-sm text-white/70">تواصل مع المدرس لزيادة عدد مرات المشاهدة</p>
+              </div>
             ) : (
               <div className="absolute inset-0 flex items-center justify-center text-white">
                 لا يوجد فيديو متاح
@@ -424,10 +544,26 @@ const ChapterPage = () => {
           {/* Chapter Information */}
           <div className="flex flex-col gap-6">
             <div className="flex items-center justify-between">
-              <h1 className="text-2xl font-bold">{chapter.title}</h1>
+              <div className="space-y-1">
+                <h1 className="text-2xl font-bold">{chapter.title}</h1>
+                {chapter.videoUrl && (
+                  <p className="text-sm text-muted-foreground">
+                    شاهدت {watchedPercentage}% من الفيديو
+                    {chapter.completionThreshold && !isCompleted
+                      ? ` - يكتمل الفصل بعد مشاهدة ${chapter.completionThreshold}%`
+                      : ""}
+                  </p>
+                )}
+                {views && (
+                  <p className="text-sm text-muted-foreground">
+                    مرات المشاهدة المتبقية: {views.remaining} من {views.max}
+                  </p>
+                )}
+              </div>
               <Button
                 variant="outline"
                 onClick={toggleCompletion}
+                disabled={!isCompleted && !!chapter.completionThreshold && watchedPercentage < chapter.completionThreshold}
                 className="flex items-center gap-2"
               >
                 {isCompleted ? (
@@ -445,7 +581,7 @@ const ChapterPage = () => {
             </div>
             
             <div className="prose max-w-none">
-              <div dangerouslySetInnerHTML={{ __html: chapter.description || "" }} />
+              <MathHtml html={chapter.description} />
             </div>
             
             {/* Attachments Section */}
@@ -6,10 +6,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { ArrowLeft, BookOpen, FileQuestion, CheckCircle, Circle, ShoppingCart, Download, Ticket, X } from "lucide-react";
+import { ArrowLeft, BookOpen, FileQuestion, CheckCircle, Circle, ShoppingCart, Download, Ticket, X, RefreshCw, CalendarClock } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import { Input } from "@/components/ui/input";
+import { formatAccessWindow } from "@/lib/course-access";
 
 interface Course {
     id: string;
@@ -17,6 +18,8 @@ interface Course {
     description?: string | null;
     imageUrl?: string | null;
     price?: number | null;
+    accessEndsAt: string | null;
+    accessDays: number | null;
 }
 
 interface CourseContent {
@@ -25,6 +28,9 @@ interface CourseContent {
     position: number;
     type: 'chapter' | 'quiz';
     isFree?: boolean;
+    // Chapters sold on their own
+    price?: number | null;
+    isPurchased?: boolean;
 }
 
 export default function CoursePreviewPage({
@@ -41,6 +47,7 @@ export default function CoursePreviewPage({
     const [hasAccess, setHasAccess] = useState(false);
     const [isCheckingAccess, setIsCheckingAccess] = useState(true);
     const [hasPurchase, setHasPurchase] = useState(false);
+    const [isExpired, setIsExpired] = useState(false);
     const [promocode, setPromocode] = useState("");
     const [isValidatingPromocode, setIsValidatingPromocode] = useState(false);
     const [promocodeValidation, setPromocodeValidation] = useState<{
@@ -96,6 +103,7 @@ export default function CoursePreviewPage({
                 const data = await response.json();
                 setHasAccess(data.hasAccess);
                 setHasPurchase(data.hasPurchase || false);
+                setIsExpired(data.isExpired || false);
                 
                 // Only redirect if user has access AND a purchase record
                 // This ensures free courses require a purchase record before accessing quizzes
@@ -191,7 +199,7 @@ export default function CoursePreviewPage({
             });
 
             if (response.ok) {
-                toast.success("تم الحصول على الكورس بنجاح!");
+                toast.success(isExpired ? "تم تجديد الاشتراك بنجاح!" : "تم الحصول على الكورس بنجاح!");
                 setHasAccess(true);
                 // Redirect to first accessible content
                 try {
@@ -250,6 +258,7 @@ export default function CoursePreviewPage({
     }
 
     const isFree = (course.price || 0) === 0;
+    const accessWindow = formatAccessWindow(course);
     const sortedContent = [...content].sort((a, b) => a.position - b.position);
 
     return (
@@ -320,12 +329,24 @@ export default function CoursePreviewPage({
                                                 </div>
                                             </div>
                                         )}
+                                        {accessWindow && (
+                                            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                                                <CalendarClock className="h-4 w-4" />
+                                                <span>{accessWindow}</span>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             </div>
                         </CardHeader>
                     </Card>
 
+                    {isExpired && (
+                        <div className="p-4 border border-orange-200 rounded-lg bg-orange-50 text-orange-800 text-sm">
+                            انتهى اشتراكك في هذا الكورس، جدد الاشتراك للعودة إلى المحتوى
+                        </div>
+                    )}
+
                     {/* Course Content */}
                     <Card>
                         <CardHeader>
@@ -362,8 +383,20 @@ export default function CoursePreviewPage({
                                                             مجاني
                                                         </Badge>
                                                     )}
+                                                    {item.type === 'chapter' && item.isPurchased && (
+                                                        <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700">
+                                                            تم شراؤها
+                                                        </Badge>
+                                                    )}
                                                 </div>
                                             </div>
+                                            {item.type === 'chapter' && !hasAccess && !item.isFree && !item.isPurchased && !!item.price && (
+                                                <Button variant="outline" size="sm" asChild>
+                                                    <Link href={`/courses/${courseId}/purchase?chapterId=${item.id}`}>
+                                                        شراء المحاضرة ({item.price} جنيه)
+                                                    </Link>
+                                                </Button>
+                                            )}
                                             <div className="text-sm text-muted-foreground">
                                                 {index + 1}
                                             </div>
@@ -452,6 +485,11 @@ export default function CoursePreviewPage({
                             >
                                 {isPurchasing ? (
                                     "جاري المعالجة..."
+                                ) : isExpired ? (
+                                    <>
+                                        <RefreshCw className="h-5 w-5 ml-2" />
+                                        تجديد الاشتراك
+                                    </>
                                 ) : isFree ? (
                                     <>
                                         <Download className="h-5 w-5 ml-2" />
@@ -1,14 +1,15 @@
 "use client";
 
 import { useState, useEffect, use } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
 import { auth } from "@/lib/auth";
-import { ArrowLeft, CreditCard, Wallet, AlertCircle, Ticket, CheckCircle, X } from "lucide-react";
+import { ArrowLeft, CreditCard, Wallet, AlertCircle, Ticket, CheckCircle, X, BookOpen } from "lucide-react";
 import Link from "next/link";
 import { Input } from "@/components/ui/input";
+import { formatAccessWindow, getDaysLeft } from "@/lib/course-access";
 
 interface Course {
   id: string;
@@ -16,6 +17,11 @@ interface Course {
   description?: string | null;
   imageUrl?: string | null;
   price?: number | null;
+  accessEndsAt: string | null;
+  accessDays: number | null;
+  // The student's active purchase, if any, which this purchase renews
+  purchases?: { expiresAt: string | null }[];
+  chapters?: { id: string; title: string; price: number | null; isFree: boolean }[];
 }
 
 export default function PurchasePage({
@@ -25,9 +31,15 @@ export default function PurchasePage({
 }) {
   const router = useRouter();
   const { courseId } = use(params);
+  // Set when the student came to buy a single lecture
+  const chapterId = useSearchParams().get("chapterId");
   const [course, setCourse] = useState<Course | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [isPurchasingChapter, setIsPurchasingChapter] = useState(false);
+  // Sent with every purchase request from this page, so a retried or double submitted purchase is only charged once
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+  const [chapterIdempotencyKey] = useState(() => crypto.randomUUID());
   const [userBalance, setUserBalance] = useState(0);
   const [isLoadingBalance, setIsLoadingBalance] = useState(true);
   const [promocode, setPromocode] = useState("");
@@ -135,6 +147,7 @@ export default function PurchasePage({
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
         },
         body: JSON.stringify({
           promocode: promocodeValidation?.valid ? promocode.trim() : null,
@@ -143,7 +156,7 @@ export default function PurchasePage({
 
       if (response.ok) {
         const data = await response.json();
-        toast.success("تم شراء الكورس بنجاح!");
+        toast.success(data.renewed ? "تم تجديد الاشتراك بنجاح!" : "تم شراء الكورس بنجاح!");
         router.push("/dashboard");
       } else {
         const error = await response.text();
@@ -163,12 +176,57 @@ export default function PurchasePage({
     }
   };
 
+  const handlePurchaseChapter = async () => {
+    if (!selectedChapter) return;
+
+    setIsPurchasingChapter(true);
+    try {
+      const response = await fetch(`/api/courses/${courseId}/chapters/${selectedChapter.id}/purchase`, {
+        method: "POST",
+        headers: {
+          "Idempotency-Key": chapterIdempotencyKey,
+        },
+      });
+
+      if (response.ok) {
+        toast.success("تم شراء المحاضرة بنجاح!");
+        router.push(`/courses/${courseId}/chapters/${selectedChapter.id}`);
+      } else {
+        const error = await response.text();
+        if (error.includes("Insufficient balance")) {
+          toast.error("رصيد غير كافي. يرجى إضافة رصيد إلى حسابك");
+        } else if (error.includes("already purchased")) {
+          toast.error("لقد قمت بشراء هذه المحاضرة مسبقاً");
+        } else if (error.includes("through the course")) {
+          toast.error("لديك بالفعل وصول لهذه المحاضرة من خلال الكورس");
+        } else {
+          toast.error(error || "حدث خطأ أثناء الشراء");
+        }
+      }
+    } catch (error) {
+      console.error("Error purchasing chapter:", error);
+      toast.error("حدث خطأ أثناء الشراء");
+    } finally {
+      setIsPurchasingChapter(false);
+    }
+  };
+
   const finalPrice = promocodeValidation?.valid 
     ? parseFloat(promocodeValidation.finalPrice)
     : (course?.price || 0);
   
   const hasSufficientBalance = course && userBalance >= finalPrice;
 
+  const currentExpiry = course?.purchases?.[0]?.expiresAt ?? null;
+  const isRenewal = currentExpiry !== null;
+  const daysLeft = getDaysLeft(currentExpiry);
+  const accessWindow = course ? formatAccessWindow(course) : null;
+
+  // Only offered to students who don't have the course yet
+  const selectedChapter = !isRenewal
+    ? course?.chapters?.find((chapter) => chapter.id === chapterId && !chapter.isFree && !!chapter.price) ?? null
+    : null;
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -204,7 +262,7 @@ export default function PurchasePage({
               <ArrowLeft className="h-4 w-4" />
               رجوع
             </Button>
-            <h1 className="text-2xl font-bold">شراء الكورس</h1>
+            <h1 className="text-2xl font-bold">{isRenewal ? "تجديد الاشتراك" : "شراء الكورس"}</h1>
           </div>
 
           {/* Course Details */}
@@ -245,10 +303,50 @@ export default function PurchasePage({
                     {finalPrice.toFixed(2)} جنيه
                   </div>
                 </div>
+                {accessWindow && (
+                  <p className="text-sm text-muted-foreground">{accessWindow}</p>
+                )}
+                {isRenewal && (
+                  <p className="text-sm text-orange-600">
+                    {daysLeft === 0 ? "انتهى اشتراكك في هذا الكورس" : `متبقي ${daysLeft} يوم على انتهاء اشتراكك`}
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Single Lecture */}
+          {selectedChapter && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  شراء هذه المحاضرة فقط
+                </CardTitle>
+                <CardDescription>
+                  {selectedChapter.title}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="text-xl font-bold text-[#0083d3]">
+                    {selectedChapter.price!.toFixed(2)} جنيه
+                  </div>
+                  <Button
+                    onClick={handlePurchaseChapter}
+                    disabled={isPurchasingChapter || isLoadingBalance || userBalance < selectedChapter.price!}
+                    variant="outline"
+                  >
+                    {isPurchasingChapter ? "جاري الشراء..." : "شراء المحاضرة"}
+                  </Button>
+                </div>
+                {!isLoadingBalance && userBalance < selectedChapter.price! && (
+                  <p className="text-sm text-amber-600 mt-2">رصيد غير كافي لشراء هذه المحاضرة</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Promocode Section */}
           <Card>
             <CardHeader>
@@ -365,7 +463,7 @@ export default function PurchasePage({
               ) : (
                 <div className="flex items-center gap-2">
                   <CreditCard className="h-5 w-5" />
-                  شراء الكورس
+                  {isRenewal ? "تجديد الاشتراك" : "شراء الكورس"}
                 </div>
               )}
             </Button>
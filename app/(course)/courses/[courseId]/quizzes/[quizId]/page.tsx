@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, use, useRef } from "react";
+import { useState, useEffect, useCallback, use, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,15 +8,20 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { ArrowLeft, Clock, CheckCircle, AlertCircle } from "lucide-react";
 import { parseQuizOptions } from "@/lib/utils";
+import { hasQuestionOptions, parseOptionIndices, QuestionType } from "@/lib/quiz";
+import { parseMathExpression } from "@/lib/math-expression";
+import { MathText } from "@/components/math-text";
+import { useDebounce } from "@/hooks/use-debounce";
 
 interface Question {
     id: string;
     text: string;
-    type: "MULTIPLE_CHOICE" | "TRUE_FALSE" | "SHORT_ANSWER";
+    type: QuestionType;
     options?: string[] | string;
     correctAnswer: string;
     points: number;
@@ -32,14 +37,18 @@ interface Quiz {
     currentAttempt?: number;
     previousAttempts?: number;
     isRetry?: boolean;
-    retryReason?: "submitted" | "incomplete" | "completed";
+    retryReason?: "submitted" | "expired" | "completed";
     remainingAttempts?: number;
+    remainingSeconds?: number | null; // Seconds left on the server-side deadline, null for untimed quizzes
+    draftAnswers?: QuizAnswer[]; // Autosaved answers of the attempt in progress
+    currentQuestionIndex?: number;
     questions: Question[];
 }
 
 interface QuizAnswer {
     questionId: string;
-    answer: string;
+    answer: string; // JSON array of displayed option positions for multi-select questions
+    optionIndex?: number; // Displayed position of the chosen option, for multiple choice questions
 }
 
 export default function QuizPage({
@@ -54,7 +63,12 @@ export default function QuizPage({
     const [submitting, setSubmitting] = useState(false);
     const [answers, setAnswers] = useState<QuizAnswer[]>([]);
     const [currentQuestion, setCurrentQuestion] = useState(0);
-    const [timeLeft, setTimeLeft] = useState(0);
+    const [timeLeft, setTimeLeft] = useState<number | null>(null);
+    const deadlineRef = useRef<number | null>(null);
+    const isSubmittingRef = useRef(false);
+    const lastSavedDraftRef = useRef<string | null>(null);
+    const [draftStatus, setDraftStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
+    const debouncedDraft = useDebounce(JSON.stringify({ answers, currentQuestionIndex: currentQuestion }), 800);
     const [navigation, setNavigation] = useState<{
         nextContentId: string | null;
         previousContentId: string | null;
@@ -73,6 +87,53 @@ export default function QuizPage({
         fetchNavigation();
     }, [quizId]);
 
+    const saveDraft = useCallback(async (draft: string) => {
+        setDraftStatus("saving");
+        try {
+            const response = await fetch(`/api/courses/${courseId}/quizzes/${quizId}/draft`, {
+                method: "PUT",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: draft,
+                keepalive: true,
+            });
+
+            if (response.ok) {
+                lastSavedDraftRef.current = draft;
+                setDraftStatus("saved");
+                return;
+            }
+
+            const errorText = await response.text();
+            let errorData: { error?: string; isExpired?: boolean } = {};
+            try {
+                errorData = JSON.parse(errorText);
+            } catch {
+                // Plain text error
+            }
+
+            if (errorData.isExpired) {
+                isSubmittingRef.current = true;
+                toast.error(errorData.error || "انتهى وقت الاختبار");
+                router.push(`/courses/${courseId}/quizzes/${quizId}/result`);
+                return;
+            }
+
+            setDraftStatus("error");
+        } catch (error) {
+            console.error("Error saving quiz draft:", error);
+            setDraftStatus("error");
+        }
+    }, [courseId, quizId, router]);
+
+    useEffect(() => {
+        if (!quiz || isSubmittingRef.current || debouncedDraft === lastSavedDraftRef.current) {
+            return;
+        }
+        saveDraft(debouncedDraft);
+    }, [debouncedDraft, quiz, saveDraft]);
+
     useEffect(() => {
         if (redirectToResult) {
             router.push(`/courses/${courseId}/quizzes/${quizId}/result`);
@@ -80,10 +141,17 @@ export default function QuizPage({
     }, [redirectToResult, courseId, quizId, router]);
 
     useEffect(() => {
+        if (timeLeft === null || !quiz) {
+            return;
+        }
         if (timeLeft > 0) {
-            const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000);
+            // Count down against the server deadline so throttled tabs don't drift
+            const timer = setTimeout(() => {
+                const deadline = deadlineRef.current ?? Date.now();
+                setTimeLeft(Math.max(0, Math.round((deadline - Date.now()) / 1000)));
+            }, 1000);
             return () => clearTimeout(timer);
-        } else if (timeLeft === 0 && quiz) {
+        } else {
             handleSubmit();
         }
     }, [timeLeft]);
@@ -94,9 +162,26 @@ export default function QuizPage({
             if (response.ok) {
                 const data = await response.json();
                 setQuiz(data);
-                // Set timer from database or default to 30 minutes
-                const timerInSeconds = (data.timer || 30) * 60;
-                setTimeLeft(timerInSeconds);
+                // Restore autosaved progress of a resumed attempt
+                const restoredAnswers: QuizAnswer[] = data.draftAnswers || [];
+                const restoredIndex = Math.min(
+                    Math.max(0, data.currentQuestionIndex || 0),
+                    Math.max(0, (data.questions?.length || 1) - 1)
+                );
+                setAnswers(restoredAnswers);
+                setCurrentQuestion(restoredIndex);
+                lastSavedDraftRef.current = JSON.stringify({ answers: restoredAnswers, currentQuestionIndex: restoredIndex });
+                if (restoredAnswers.length > 0) {
+                    toast.info("تم استعادة إجاباتك المحفوظة");
+                }
+                // Remaining time comes from the attempt deadline stored on the server
+                if (typeof data.remainingSeconds === "number") {
+                    deadlineRef.current = Date.now() + data.remainingSeconds * 1000;
+                    setTimeLeft(data.remainingSeconds);
+                } else {
+                    deadlineRef.current = null;
+                    setTimeLeft(null);
+                }
             } else {
                 if (response.status === 403) {
                     // Quiz is locked, try to parse error message
@@ -160,20 +245,21 @@ export default function QuizPage({
         }
     };
 
-    const handleAnswerChange = (questionId: string, answer: string) => {
+    const handleAnswerChange = (questionId: string, answer: string, optionIndex?: number) => {
         setAnswers(prev => {
             const existing = prev.find(a => a.questionId === questionId);
             if (existing) {
-                return prev.map(a => a.questionId === questionId ? { ...a, answer } : a);
+                return prev.map(a => a.questionId === questionId ? { ...a, answer, optionIndex } : a);
             } else {
-                return [...prev, { questionId, answer }];
+                return [...prev, { questionId, answer, optionIndex }];
             }
         });
     };
 
     const handleSubmit = async () => {
-        if (!quiz) return;
+        if (!quiz || isSubmittingRef.current) return;
 
+        isSubmittingRef.current = true;
         setSubmitting(true);
         try {
             const response = await fetch(`/api/courses/${courseId}/quizzes/${quizId}/submit`, {
@@ -185,16 +271,31 @@ export default function QuizPage({
             });
 
             if (response.ok) {
-                const result = await response.json();
                 toast.success("تم إرسال الاختبار بنجاح!");
                 router.push(`/courses/${courseId}/quizzes/${quizId}/result`);
-            } else {
-                const error = await response.text();
-                toast.error(error || "حدث خطأ أثناء إرسال الاختبار");
+                return;
             }
+
+            const errorText = await response.text();
+            let errorData: { error?: string; isExpired?: boolean } = {};
+            try {
+                errorData = JSON.parse(errorText);
+            } catch {
+                // Plain text error
+            }
+
+            if (errorData.isExpired) {
+                toast.error(errorData.error || "انتهى وقت الاختبار");
+                router.push(`/courses/${courseId}/quizzes/${quizId}/result`);
+                return;
+            }
+
+            toast.error(errorText || "حدث خطأ أثناء إرسال الاختبار");
+            isSubmittingRef.current = false;
         } catch (error) {
             console.error("Error submitting quiz:", error);
             toast.error("حدث خطأ أثناء إرسال الاختبار");
+            isSubmittingRef.current = false;
         } finally {
             setSubmitting(false);
         }
@@ -260,6 +361,17 @@ export default function QuizPage({
 
     const currentQuestionData = quiz.questions[currentQuestion];
     const progress = ((currentQuestion + 1) / quiz.questions.length) * 100;
+    const currentOptions = currentQuestionData && hasQuestionOptions(currentQuestionData.type)
+        ? (Array.isArray(currentQuestionData.options) ? currentQuestionData.options : parseQuizOptions(currentQuestionData.options || null))
+        : [];
+    const currentAnswer = answers.find(a => a.questionId === currentQuestionData?.id);
+    // Options are tracked by position so identical option texts stay distinct
+    const selectedOptionIndex = currentAnswer
+        ? currentAnswer.optionIndex ?? currentOptions.indexOf(currentAnswer.answer)
+        : -1;
+    const selectedOptionIndices = parseOptionIndices(currentAnswer?.answer ?? null);
+    const isInvalidExpression = currentQuestionData?.type === "MATH_EXPRESSION" &&
+        !!currentAnswer?.answer.trim() && !parseMathExpression(currentAnswer.answer);
 
     return (
         <div className="min-h-screen bg-background">
@@ -276,7 +388,7 @@ export default function QuizPage({
                             رجوع
                         </Button>
                         <div className="flex items-center gap-4">
-                            {quiz.timer && (
+                            {timeLeft !== null && (
                                 <div className="flex items-center gap-2 text-amber-600">
                                     <Clock className="h-4 w-4" />
                                     <span className="font-medium">{formatTime(timeLeft)}</span>
@@ -290,6 +402,13 @@ export default function QuizPage({
                             <Badge variant="secondary">
                                 السؤال {currentQuestion + 1} من {quiz.questions.length}
                             </Badge>
+                            {draftStatus !== "idle" && (
+                                <span className={`text-xs ${draftStatus === "error" ? "text-red-600" : "text-muted-foreground"}`}>
+                                    {draftStatus === "saving" && "جاري الحفظ..."}
+                                    {draftStatus === "saved" && "تم حفظ الإجابات"}
+                                    {draftStatus === "error" && "تعذر حفظ الإجابات"}
+                                </span>
+                            )}
                         </div>
                     </div>
 
@@ -302,14 +421,14 @@ export default function QuizPage({
                                     <div className="flex-1">
                                         <div className="font-medium text-blue-900 mb-1">
                                             {quiz.retryReason === "submitted" && "إعادة محاولة الاختبار"}
-                                            {quiz.retryReason === "incomplete" && "إعادة محاولة بعد محاولة غير مكتملة"}
+                                            {quiz.retryReason === "expired" && "إعادة محاولة بعد انتهاء وقت المحاولة السابقة"}
                                             {quiz.retryReason === "completed" && "إعادة محاولة الاختبار"}
                                         </div>
                                         <p className="text-sm text-blue-800">
                                             {quiz.retryReason === "submitted" && 
                                                 `أنت تقوم بإعادة محاولة الاختبار. هذه المحاولة رقم ${quiz.currentAttempt || 1} من ${quiz.maxAttempts}.`}
-                                            {quiz.retryReason === "incomplete" && 
-                                                `تم احتساب محاولتك السابقة غير المكتملة كمحاولة. هذه المحاولة رقم ${quiz.currentAttempt || 1} من ${quiz.maxAttempts}.`}
+                                            {quiz.retryReason === "expired" && 
+                                                `انتهى وقت محاولتك السابقة وتم تصحيحها تلقائياً. هذه المحاولة رقم ${quiz.currentAttempt || 1} من ${quiz.maxAttempts}.`}
                                             {quiz.retryReason === "completed" && 
                                                 `أنت تقوم بإعادة محاولة الاختبار. هذه المحاولة رقم ${quiz.currentAttempt || 1} من ${quiz.maxAttempts}.`}
                                             {quiz.remainingAttempts !== undefined && quiz.remainingAttempts > 0 && (
@@ -358,7 +477,7 @@ export default function QuizPage({
                             </CardTitle>
                         </CardHeader>
                         <CardContent className="space-y-6">
-                            <div className="text-lg">{currentQuestionData.text}</div>
+                            <div className="text-lg"><MathText text={currentQuestionData.text} /></div>
 
                             {/* Question Image */}
                             {currentQuestionData.imageUrl && (
@@ -373,16 +492,16 @@ export default function QuizPage({
 
                             {currentQuestionData.type === "MULTIPLE_CHOICE" && (
                                 <RadioGroup
-                                    value={answers.find(a => a.questionId === currentQuestionData.id)?.answer || ""}
-                                    onValueChange={(value) => handleAnswerChange(currentQuestionData.id, value)}
+                                    value={selectedOptionIndex >= 0 ? String(selectedOptionIndex) : ""}
+                                    onValueChange={(value) => handleAnswerChange(currentQuestionData.id, currentOptions[Number(value)], Number(value))}
                                     className="space-y-3"
                                 >
-                                    {(Array.isArray(currentQuestionData.options) ? currentQuestionData.options : parseQuizOptions(currentQuestionData.options || null)).map((option: string, index: number) => (
+                                    {currentOptions.map((option: string, index: number) => (
                                         <div key={index} className="flex items-center justify-end gap-3">
                                             <Label htmlFor={`option-${index}`} className="text-right">
-                                                {option}
+                                                <MathText text={option} />
                                             </Label>
-                                            <RadioGroupItem value={option} id={`option-${index}`} />
+                                            <RadioGroupItem value={String(index)} id={`option-${index}`} />
                                         </div>
                                     ))}
                                 </RadioGroup>
@@ -412,6 +531,57 @@ export default function QuizPage({
                                     rows={4}
                                 />
                             )}
+
+                            {currentQuestionData.type === "MULTI_SELECT" && (
+                                <div className="space-y-3">
+                                    <p className="text-sm text-muted-foreground">اختر كل الإجابات الصحيحة</p>
+                                    {currentOptions.map((option: string, index: number) => (
+                                        <div key={index} className="flex items-center justify-end gap-3">
+                                            <Label htmlFor={`option-${index}`} className="text-right">
+                                                <MathText text={option} />
+                                            </Label>
+                                            <Checkbox
+                                                id={`option-${index}`}
+                                                checked={selectedOptionIndices.includes(index)}
+                                                onCheckedChange={(checked) => handleAnswerChange(
+                                                    currentQuestionData.id,
+                                                    JSON.stringify(checked === true
+                                                        ? [...selectedOptionIndices, index].sort((a, b) => a - b)
+                                                        : selectedOptionIndices.filter(selected => selected !== index))
+                                                )}
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {currentQuestionData.type === "NUMERIC" && (
+                                <Input
+                                    placeholder="اكتب الناتج كرقم..."
+                                    value={currentAnswer?.answer || ""}
+                                    onChange={(e) => handleAnswerChange(currentQuestionData.id, e.target.value)}
+                                    inputMode="decimal"
+                                    dir="ltr"
+                                />
+                            )}
+
+                            {currentQuestionData.type === "MATH_EXPRESSION" && (
+                                <div className="space-y-2">
+                                    <Input
+                                        placeholder="مثال: 2x+1"
+                                        value={currentAnswer?.answer || ""}
+                                        onChange={(e) => handleAnswerChange(currentQuestionData.id, e.target.value)}
+                                        dir="ltr"
+                                    />
+                                    {isInvalidExpression ? (
+                                        <p className="text-xs text-red-600">التعبير غير مكتمل أو غير صالح</p>
+                                    ) : (
+                                        <p className="text-xs text-muted-foreground">
+                                            استخدم ^ للأس (x^2) و sqrt() للجذر التربيعي و * أو المسافة للضرب
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
 
@@ -453,7 +623,7 @@ export default function QuizPage({
                                 <span className="font-medium">تنبيه</span>
                             </div>
                             <p className="text-amber-700 mt-2">
-                                تأكد من إجابة جميع الأسئلة قبل إنهاء الاختبار. لا يمكنك العودة للاختبار بعد الإرسال أو مغادرة الصفحة.
+                                تأكد من إجابة جميع الأسئلة قبل إنهاء الاختبار. لا يمكنك العودة للاختبار بعد الإرسال، ووقت الاختبار يستمر في الاحتساب حتى إذا غادرت الصفحة.
                             </p>
                         </CardContent>
                     </Card>
@@ -9,19 +9,30 @@ import { Progress } from "@/components/ui/progress";
 import { ArrowLeft, CheckCircle, XCircle, Award, RotateCcw } from "lucide-react";
 import { toast } from "sonner";
 import { parseQuizOptions } from "@/lib/utils";
+import { MathText } from "@/components/math-text";
+import { formatNumericAnswer, hasPassedQuiz, hasQuestionOptions, isManuallyGraded } from "@/lib/quiz";
 
 interface QuizAnswer {
     questionId: string;
     studentAnswer: string;
+    selectedOptionIndex?: number | null; // Displayed position of the chosen option
+    correctOptionIndex?: number | null; // Displayed position of the correct option
+    selectedOptionIndices?: number[] | null; // Displayed positions of the chosen options, for multi-select questions
+    correctOptionIndices?: number[] | null; // Displayed positions of the correct options, for multi-select questions
     correctAnswer: string;
     isCorrect: boolean;
     pointsEarned: number;
+    isOverridden?: boolean; // Graded by the teacher instead of the auto-grader
+    teacherComment?: string | null;
+    gradedAt?: string | null;
     question: {
         text: string;
         type: string;
         points: number;
         imageUrl?: string | null;
         options?: string | null;
+        tolerance?: number | null;
+        toleranceType?: string | null;
     };
 }
 
@@ -34,6 +45,7 @@ interface QuizResult {
     attemptNumber: number;
     maxAttempts?: number;
     totalAttempts?: number;
+    passingPercentage: number;
     answers: QuizAnswer[];
 }
 
@@ -185,6 +197,13 @@ export default function QuizResultPage({
         return answer;
     };
 
+    const formatCorrectAnswer = (answer: QuizAnswer) => {
+        if (answer.question.type === "NUMERIC") {
+            return formatNumericAnswer(answer.correctAnswer, answer.question.tolerance, answer.question.toleranceType);
+        }
+        return formatAnswer(answer.correctAnswer, answer.question.type);
+    };
+
     const renderQuestionChoices = (answer: QuizAnswer) => {
         if (answer.question.type === "MULTIPLE_CHOICE" && answer.question.options) {
             const options = parseQuizOptions(answer.question.options);
@@ -195,8 +214,13 @@ export default function QuizResultPage({
                     <h5 className="font-medium text-sm">الخيارات:</h5>
                     <div className="space-y-1">
                         {options.map((option: string, optionIndex: number) => {
-                            const isStudentAnswer = option === answer.studentAnswer;
-                            const isCorrectAnswer = option === answer.correctAnswer;
+                            // Results saved before option positions were stored fall back to comparing texts
+                            const isStudentAnswer = answer.selectedOptionIndex != null
+                                ? optionIndex === answer.selectedOptionIndex
+                                : option === answer.studentAnswer;
+                            const isCorrectAnswer = answer.correctOptionIndex != null
+                                ? optionIndex === answer.correctOptionIndex
+                                : option === answer.correctAnswer;
                             
                             return (
                                 <div
@@ -213,7 +237,7 @@ export default function QuizResultPage({
                                 >
                                     <span className="text-sm flex items-center justify-between">
                                         <span>
-                                            {optionIndex + 1}. {option}
+                                            {optionIndex + 1}. <MathText text={option} />
                                         </span>
                                         <div className="flex gap-2">
                                             {isStudentAnswer && (
@@ -235,6 +259,56 @@ export default function QuizResultPage({
                 </div>
             );
         }
+
+        if (answer.question.type === "MULTI_SELECT" && answer.question.options) {
+            const options = parseQuizOptions(answer.question.options);
+            if (options.length === 0) return null;
+
+            return (
+                <div className="space-y-2 mt-3">
+                    <h5 className="font-medium text-sm">الخيارات:</h5>
+                    <div className="space-y-1">
+                        {options.map((option: string, optionIndex: number) => {
+                            const isStudentAnswer = answer.selectedOptionIndices?.includes(optionIndex) ?? false;
+                            const isCorrectAnswer = answer.correctOptionIndices?.includes(optionIndex) ?? false;
+
+                            return (
+                                <div
+                                    key={optionIndex}
+                                    className={`p-2 rounded border ${
+                                        isStudentAnswer
+                                            ? isCorrectAnswer
+                                                ? "bg-green-50 border-green-200"
+                                                : "bg-red-50 border-red-200"
+                                            : isCorrectAnswer
+                                            ? "bg-green-50 border-green-200"
+                                            : "bg-gray-50"
+                                    }`}
+                                >
+                                    <span className="text-sm flex items-center justify-between">
+                                        <span>
+                                            {optionIndex + 1}. <MathText text={option} />
+                                        </span>
+                                        <div className="flex gap-2">
+                                            {isStudentAnswer && (
+                                                <Badge variant={isCorrectAnswer ? "default" : "destructive"} className="text-xs">
+                                                    إجابتك
+                                                </Badge>
+                                            )}
+                                            {isCorrectAnswer && !isStudentAnswer && (
+                                                <Badge variant="default" className="text-xs bg-green-600">
+                                                    إجابة صحيحة
+                                                </Badge>
+                                            )}
+                                        </div>
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            );
+        }
         return null;
     };
 
@@ -259,6 +333,7 @@ export default function QuizResultPage({
 
     const correctAnswers = result.answers.filter(a => a.isCorrect).length;
     const incorrectAnswers = result.answers.filter(a => !a.isCorrect).length;
+    const isPassed = hasPassedQuiz(result.percentage, result.passingPercentage);
 
     return (
         <div className="min-h-screen bg-background">
@@ -280,6 +355,9 @@ export default function QuizResultPage({
                             <CardTitle className="flex items-center gap-2">
                                 <Award className="h-5 w-5" />
                                 ملخص النتيجة
+                                <Badge variant={isPassed ? "default" : "destructive"} className={isPassed ? "bg-green-600 text-white" : ""}>
+                                    {isPassed ? "ناجح" : "لم تجتز الاختبار"}
+                                </Badge>
                             </CardTitle>
                             {result.maxAttempts && (
                                 <CardDescription>
@@ -320,6 +398,9 @@ export default function QuizResultPage({
                                     <span className="text-sm font-medium">{result.percentage.toFixed(1)}%</span>
                                 </div>
                                 <Progress value={result.percentage} className="w-full" />
+                                <p className="text-xs text-muted-foreground">
+                                    نسبة النجاح المطلوبة: {result.passingPercentage}%
+                                </p>
                             </div>
                         </CardContent>
                     </Card>
@@ -345,11 +426,16 @@ export default function QuizResultPage({
                                                     <XCircle className="h-4 w-4 text-red-600" />
                                                 )}
                                                 <Badge variant={answer.isCorrect ? "default" : "destructive"}>
-                                                    {answer.isCorrect ? "صحيح" : "خاطئ"}
+                                                    {answer.isCorrect ? "صحيح" : answer.pointsEarned > 0 ? "صحيح جزئياً" : "خاطئ"}
                                                 </Badge>
+                                                {answer.isOverridden ? (
+                                                    <Badge variant="secondary">صححها المعلم</Badge>
+                                                ) : isManuallyGraded(answer.question.type) && !answer.gradedAt && (
+                                                    <Badge variant="outline">بانتظار مراجعة المعلم</Badge>
+                                                )}
                                             </div>
                                         </div>
-                                        <p className="text-sm text-muted-foreground mb-2">{answer.question.text}</p>
+                                        <p className="text-sm text-muted-foreground mb-2"><MathText text={answer.question.text} /></p>
                                         {answer.question.imageUrl && (
                                             <div className="mb-4">
                                                 <img 
@@ -360,7 +446,7 @@ export default function QuizResultPage({
                                             </div>
                                         )}
                                         {renderQuestionChoices(answer)}
-                                        {answer.question.type !== "MULTIPLE_CHOICE" && (
+                                        {!hasQuestionOptions(answer.question.type) && (
                                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mt-4">
                                                 <div>
                                                     <span className="font-medium">إجابتك:</span>
@@ -374,7 +460,7 @@ export default function QuizResultPage({
                                                 <div>
                                                     <span className="font-medium">الإجابة الصحيحة:</span>
                                                     <p className="text-green-600">
-                                                        {formatAnswer(answer.correctAnswer, answer.question.type)}
+                                                        <MathText text={formatCorrectAnswer(answer)} />
                                                     </p>
                                                 </div>
                                             </div>
@@ -385,6 +471,12 @@ export default function QuizResultPage({
                                                 {" "}{answer.pointsEarned}/{answer.question.points}
                                             </span>
                                         </div>
+                                        {answer.teacherComment && (
+                                            <div className="mt-2 text-sm p-2 rounded border bg-blue-50 border-blue-200">
+                                                <span className="font-medium">تعليق المعلم:</span>
+                                                <p className="text-muted-foreground whitespace-pre-wrap">{answer.teacherComment}</p>
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
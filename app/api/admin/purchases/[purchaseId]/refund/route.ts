@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { toPiastres } from "@/lib/ledger";
+import { PURCHASE_REFUND_STATUSES, PurchaseError, PurchaseRefundStatus, refundPurchase } from "@/lib/purchases";
+
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ purchaseId: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (session.user.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const { purchaseId } = await params;
+        const { amount, status, reason, restorePromoUsage } = await req.json();
+
+        if (typeof amount !== "number" || !Number.isFinite(amount) || amount < 0) {
+            return new NextResponse("Invalid refund amount", { status: 400 });
+        }
+
+        if (!PURCHASE_REFUND_STATUSES.includes(status)) {
+            return new NextResponse("Status must be REFUNDED or REVOKED", { status: 400 });
+        }
+
+        if (typeof reason !== "string" || !reason.trim()) {
+            return new NextResponse("A reason is required to refund a purchase", { status: 400 });
+        }
+
+        const result = await refundPurchase({
+            purchaseId,
+            amount: toPiastres(amount),
+            status: status as PurchaseRefundStatus,
+            reason,
+            actorId: session.user.id,
+            restorePromoUsage: restorePromoUsage === true
+        });
+
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof PurchaseError) {
+            return new NextResponse(error.message, { status: error.status });
+        }
+        console.error("[ADMIN_PURCHASE_REFUND]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { adjustBalanceTo, LedgerError, toPiastres } from "@/lib/ledger";
 
 export async function PATCH(
     req: NextRequest,
@@ -18,12 +19,16 @@ export async function PATCH(
             return new NextResponse("Forbidden", { status: 403 });
         }
 
-        const { newBalance } = await req.json();
+        const { newBalance, reason } = await req.json();
 
         if (typeof newBalance !== "number" || newBalance < 0) {
             return new NextResponse("Invalid balance amount", { status: 400 });
         }
 
+        if (typeof reason !== "string" || !reason.trim()) {
+            return new NextResponse("A reason is required to change a balance", { status: 400 });
+        }
+
         const user = await db.user.findUnique({
             where: {
                 id: params.userId
@@ -34,17 +39,19 @@ export async function PATCH(
             return new NextResponse("User not found", { status: 404 });
         }
 
-        await db.user.update({
-            where: {
-                id: params.userId
-            },
-            data: {
-                balance: newBalance
-            }
+        // The new balance is recorded as an adjustment of the difference, with the reason and who made it
+        await adjustBalanceTo({
+            userId: params.userId,
+            balance: toPiastres(newBalance),
+            reason,
+            actorId: session.user.id
         });
 
         return NextResponse.json({ message: "Balance updated successfully" });
     } catch (error) {
+        if (error instanceof LedgerError && error.code === "BALANCE_CHANGED") {
+            return new NextResponse("The balance changed, please try again", { status: 409 });
+        }
         console.error("[ADMIN_USER_BALANCE_PATCH]", error);
         return new NextResponse("Internal Error", { status: 500 });
     }
@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { getStudentChapterViews } from "@/lib/watch-time";
+
+// GET - The student's views of the chapters that limit them
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (user?.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        return NextResponse.json(await getStudentChapterViews(resolvedParams.userId));
+    } catch (error) {
+        console.error("[ADMIN_USER_CHAPTER_VIEWS_GET]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+// POST - Set the student's maximum views of a chapter (overrides chapter.maxViews)
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const { chapterId, maxViews } = await req.json();
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (user?.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        if (!chapterId || !Number.isInteger(maxViews) || maxViews < 1) {
+            return new NextResponse("Invalid request data", { status: 400 });
+        }
+
+        const [student, chapter] = await Promise.all([
+            db.user.findUnique({
+                where: {
+                    id: resolvedParams.userId
+                },
+                select: {
+                    id: true
+                }
+            }),
+            db.chapter.findUnique({
+                where: {
+                    id: chapterId
+                },
+                select: {
+                    id: true
+                }
+            })
+        ]);
+
+        if (!student || !chapter) {
+            return new NextResponse("Student or chapter not found", { status: 404 });
+        }
+
+        const settings = await db.chapterStudentSettings.upsert({
+            where: {
+                studentId_chapterId: {
+                    studentId: student.id,
+                    chapterId: chapter.id
+                }
+            },
+            update: {
+                maxViews
+            },
+            create: {
+                studentId: student.id,
+                chapterId: chapter.id,
+                maxViews
+            }
+        });
+
+        return NextResponse.json(settings);
+    } catch (error) {
+        console.error("[ADMIN_USER_CHAPTER_VIEWS_POST]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+// DELETE - Remove the student's maximum views (revert to chapter.maxViews)
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const { searchParams } = new URL(req.url);
+        const chapterId = searchParams.get("chapterId");
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (user?.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        if (!chapterId) {
+            return new NextResponse("Chapter ID required", { status: 400 });
+        }
+
+        await db.chapterStudentSettings.deleteMany({
+            where: {
+                studentId: resolvedParams.userId,
+                chapterId
+            }
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("[ADMIN_USER_CHAPTER_VIEWS_DELETE]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { fromPiastres } from "@/lib/ledger";
+import { getRefundableAmount } from "@/lib/purchases";
 
 export async function GET(
   req: Request,
@@ -40,7 +42,14 @@ export async function GET(
       orderBy: { createdAt: "desc" },
     });
 
-    const ownedCourses = purchases.map((p) => p.course);
+    // Each course comes with its purchase, so it can be refunded from the admin dashboard
+    const ownedCourses = purchases.map((p) => ({
+      ...p.course,
+      purchaseId: p.id,
+      amountPaid: p.amountPaid === null ? null : fromPiastres(p.amountPaid),
+      refundableAmount: fromPiastres(getRefundableAmount(p, p.course.price || 0)),
+      hasPromoCode: p.promoCodeId !== null,
+    }));
 
     return NextResponse.json({ courses: ownedCourses });
   } catch (error) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { fromPiastres } from "@/lib/ledger";
 
 export async function GET(req: NextRequest) {
     try {
@@ -33,7 +34,12 @@ export async function GET(req: NextRequest) {
                     select: {
                         courses: true,
                         purchases: true,
-                        userProgress: true
+                        // Rows are also kept for chapters the student only started watching
+                        userProgress: {
+                            where: {
+                                isCompleted: true
+                            }
+                        }
                     }
                 }
             },
@@ -42,7 +48,7 @@ export async function GET(req: NextRequest) {
             }
         });
 
-        return NextResponse.json(users);
+        return NextResponse.json(users.map((user: { balance: number }) => ({ ...user, balance: fromPiastres(user.balance) })));
     } catch (error) {
         console.error("[ADMIN_USERS_GET]", error);
         return new NextResponse("Internal Error", { status: 500 });
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { exportVoucherBatchCsv, getVoucherBatch } from "@/lib/vouchers";
+
+// GET - Download a batch's codes as CSV
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ batchId: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (session.user.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const { batchId } = await params;
+        const batch = await getVoucherBatch(batchId);
+
+        if (!batch) {
+            return new NextResponse("Batch not found", { status: 404 });
+        }
+
+        const fileName = `${batch.name.trim() || "vouchers"}.csv`;
+
+        return new NextResponse(exportVoucherBatchCsv(batch), {
+            headers: {
+                "Content-Type": "text/csv; charset=utf-8",
+                "Content-Disposition": `attachment; filename="vouchers.csv"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+            }
+        });
+    } catch (error) {
+        console.error("[ADMIN_VOUCHER_BATCH_EXPORT]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
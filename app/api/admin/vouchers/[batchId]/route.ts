@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { fromPiastres } from "@/lib/ledger";
+import { formatVoucherCode, getVoucherBatch, getVoucherStatus } from "@/lib/vouchers";
+
+// GET - A batch with its codes, for the printable sheet
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ batchId: string }> }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (session.user.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const { batchId } = await params;
+        const batch = await getVoucherBatch(batchId);
+
+        if (!batch) {
+            return new NextResponse("Batch not found", { status: 404 });
+        }
+
+        return NextResponse.json({
+            id: batch.id,
+            name: batch.name,
+            value: fromPiastres(batch.value),
+            expiresAt: batch.expiresAt,
+            vouchers: batch.vouchers.map(voucher => ({
+                id: voucher.id,
+                code: formatVoucherCode(voucher.code),
+                status: getVoucherStatus(voucher, batch.expiresAt),
+                redeemedAt: voucher.redeemedAt,
+                redeemedBy: voucher.redeemedBy?.fullName ?? null
+            }))
+        });
+    } catch (error) {
+        console.error("[ADMIN_VOUCHER_BATCH_GET]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { toPiastres } from "@/lib/ledger";
+import { createVoucherBatch, getVoucherBatchReports, VoucherError } from "@/lib/vouchers";
+
+// GET - Every voucher batch with its redeemed and outstanding codes
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (session.user.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        return NextResponse.json(await getVoucherBatchReports());
+    } catch (error) {
+        console.error("[ADMIN_VOUCHERS_GET]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+// POST - Generate a batch of codes with a value in EGP and an expiry date
+export async function POST(req: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+
+        if (!session?.user) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (session.user.role !== "ADMIN") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const { name, value, count, expiresAt } = await req.json();
+
+        if (typeof name !== "string" || !name.trim()) {
+            return new NextResponse("A batch name is required", { status: 400 });
+        }
+
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            return new NextResponse("Invalid voucher value", { status: 400 });
+        }
+
+        const expiryDate = new Date(expiresAt);
+        if (typeof expiresAt !== "string" || isNaN(expiryDate.getTime())) {
+            return new NextResponse("Invalid expiry date", { status: 400 });
+        }
+
+        const batch = await createVoucherBatch({
+            name,
+            value: toPiastres(value),
+            count,
+            expiresAt: expiryDate,
+            createdById: session.user.id
+        });
+
+        return NextResponse.json({ id: batch.id });
+    } catch (error) {
+        if (error instanceof VoucherError) {
+            return new NextResponse(error.message, { status: error.status });
+        }
+        console.error("[ADMIN_VOUCHERS_POST]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { db } from "@/lib/db";
+import { fromPiastres, postLedgerTransaction, toPiastres } from "@/lib/ledger";
 
 export async function POST(req: NextRequest) {
   try {
@@ -16,35 +16,21 @@ export async function POST(req: NextRequest) {
 
     const { amount } = await req.json();
 
-    if (!amount || amount <= 0) {
+    if (typeof amount !== "number" || toPiastres(amount) <= 0) {
       return new NextResponse("Invalid amount", { status: 400 });
     }
 
-    // Update user balance
-    const updatedUser = await db.user.update({
-      where: {
-        id: session.user.id,
-      },
-      data: {
-        balance: {
-          increment: amount,
-        },
-      },
-    });
-
-    // Create balance transaction record
-    await db.balanceTransaction.create({
-      data: {
-        userId: session.user.id,
-        amount,
-        type: "DEPOSIT",
-        description: `تم إضافة ${amount} جنيه إلى الرصيد`,
-      },
+    const { balance } = await postLedgerTransaction({
+      userId: session.user.id,
+      type: "DEPOSIT",
+      amount: toPiastres(amount),
+      description: `تم إضافة ${amount} جنيه إلى الرصيد`,
+      actorId: session.user.id,
     });
 
     return NextResponse.json({
       success: true,
-      newBalance: updatedUser.balance,
+      newBalance: fromPiastres(balance),
     });
   } catch (error) {
     console.error("[BALANCE_ADD_ERROR]", error);
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { renderReceiptPdf } from "@/lib/receipt-pdf";
+import { getReceipt, ReceiptError } from "@/lib/receipts";
+
+// GET ?format=pdf downloads the receipt as a PDF instead of JSON
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ transactionId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { transactionId } = await params;
+    const receipt = await getReceipt(transactionId);
+
+    // Students only see their own receipts, staff print them from the user management pages
+    const isStaff = session.user.role === "ADMIN" || session.user.role === "TEACHER";
+    if (receipt.student.id !== session.user.id && !isStaff) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    if (req.nextUrl.searchParams.get("format") === "pdf") {
+      const pdf = await renderReceiptPdf(receipt);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="receipt-${receipt.number}.pdf"`,
+        },
+      });
+    }
+
+    return NextResponse.json(receipt);
+  } catch (error) {
+    if (error instanceof ReceiptError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.error("[BALANCE_RECEIPT_ERROR]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { redeemVoucher, VoucherError } from "@/lib/vouchers";
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { code } = await req.json();
+
+    if (typeof code !== "string" || !code.trim()) {
+      return new NextResponse("يرجى إدخال رقم الكارت", { status: 400 });
+    }
+
+    const result = await redeemVoucher(session.user.id, code);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof VoucherError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.error("[BALANCE_REDEEM_ERROR]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
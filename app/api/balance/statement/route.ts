@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { renderStatementPdf } from "@/lib/receipt-pdf";
+import { getMonthlyStatement, parseStatementMonth, ReceiptError } from "@/lib/receipts";
+
+// GET ?month=YYYY-MM&userId=&format=pdf, the signed in user's current month as JSON by default
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const userId = searchParams.get("userId") || session.user.id;
+
+    // Staff can get the statement of any student
+    const isStaff = session.user.role === "ADMIN" || session.user.role === "TEACHER";
+    if (userId !== session.user.id && !isStaff) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const { year, month } = parseStatementMonth(searchParams.get("month"));
+    const statement = await getMonthlyStatement(userId, year, month);
+
+    if (searchParams.get("format") === "pdf") {
+      const pdf = await renderStatementPdf(statement);
+      const fileName = `statement-${year}-${String(month).padStart(2, "0")}.pdf`;
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(statement);
+  } catch (error) {
+    if (error instanceof ReceiptError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.error("[BALANCE_STATEMENT_ERROR]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { db } from "@/lib/db";
+import { fromPiastres, getLedgerHistory } from "@/lib/ledger";
 
 export async function GET(req: NextRequest) {
   try {
@@ -9,14 +9,16 @@ export async function GET(req: NextRequest) {
       return new NextResponse("Unauthorized", { status: 401 });
     }
 
-    const transactions = await db.balanceTransaction.findMany({
-      where: {
-        userId: session.user.id,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    });
+    const entries = await getLedgerHistory(session.user.id);
+
+    const transactions = entries.map((entry) => ({
+      id: entry.transaction.id,
+      amount: fromPiastres(entry.amount),
+      type: entry.transaction.type,
+      description: entry.transaction.description,
+      reason: entry.transaction.reason,
+      createdAt: entry.createdAt,
+    }));
 
     return NextResponse.json(transactions);
   } catch (error) {
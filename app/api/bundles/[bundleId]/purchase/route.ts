@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { purchaseBundle } from "@/lib/bundles";
+import { getIdempotencyKey } from "@/lib/idempotency";
+import { PurchaseError } from "@/lib/purchases";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ bundleId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { bundleId } = await params;
+
+    if (!userId) {
+      return new NextResponse("Unauthorized - Please sign in to make a purchase", { status: 401 });
+    }
+
+    console.log(`[BUNDLE_PURCHASE_ATTEMPT] User ${userId} attempting to purchase bundle ${bundleId}`);
+
+    const { result, replayed } = await purchaseBundle({
+      userId,
+      bundleId,
+      idempotencyKey: getIdempotencyKey(req),
+    });
+
+    if (!replayed) {
+      console.log(`[BUNDLE_PURCHASE_SUCCESS] User ${userId} successfully purchased bundle ${bundleId}`);
+    }
+
+    return NextResponse.json(result, {
+      headers: replayed ? { "Idempotent-Replayed": "true" } : undefined,
+    });
+  } catch (error) {
+    if (error instanceof PurchaseError) {
+      console.log(`[BUNDLE_PURCHASE_ERROR] ${error.message}`);
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.error("[BUNDLE_PURCHASE_ERROR] Unexpected error:", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
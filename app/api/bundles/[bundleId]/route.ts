@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { BundleError, getBundleQuote, getPublishedBundle, parseBundleInput, updateBundle } from "@/lib/bundles";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+// GET - A published bundle with what it costs the student, after the credit for courses they already own
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ bundleId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        const { bundleId } = await params;
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        const bundle = await getPublishedBundle(bundleId);
+
+        if (!bundle) {
+            return new NextResponse("Not found", { status: 404 });
+        }
+
+        const quote = await getBundleQuote(bundle, userId);
+
+        return NextResponse.json({
+            id: bundle.id,
+            title: bundle.title,
+            description: bundle.description,
+            imageUrl: bundle.imageUrl,
+            courses: bundle.courses.map(item => ({
+                id: item.course.id,
+                title: item.course.title,
+                imageUrl: item.course.imageUrl,
+                price: item.course.price,
+            })),
+            ...quote,
+        });
+    } catch (error) {
+        console.error("[BUNDLE_ID_GET]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: Promise<{ bundleId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const { bundleId } = await params;
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const existing = await db.bundle.findUnique({
+            where: {
+                id: bundleId,
+            },
+        });
+
+        if (!existing) {
+            return new NextResponse("Not found", { status: 404 });
+        }
+
+        const input = await parseBundleInput(await req.json());
+        const bundle = await updateBundle(bundleId, input);
+
+        return NextResponse.json(bundle);
+    } catch (error) {
+        if (error instanceof BundleError) {
+            return new NextResponse(error.message, { status: error.status });
+        }
+        console.error("[BUNDLE_ID_PATCH]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+// DELETE - Removes a bundle, the courses bought with it stay with the students
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ bundleId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const { bundleId } = await params;
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const existing = await db.bundle.findUnique({
+            where: {
+                id: bundleId,
+            },
+        });
+
+        if (!existing) {
+            return new NextResponse("Not found", { status: 404 });
+        }
+
+        await db.bundle.delete({
+            where: {
+                id: bundleId,
+            },
+        });
+
+        return new NextResponse("Bundle deleted successfully", { status: 200 });
+    } catch (error) {
+        console.error("[BUNDLE_ID_DELETE]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
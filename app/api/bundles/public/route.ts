@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getPublishedBundles } from "@/lib/bundles";
+
+// GET - Published bundles for the landing page, no sign in needed
+export async function GET() {
+    try {
+        const bundles = await getPublishedBundles();
+
+        return NextResponse.json(bundles.map(bundle => ({
+            id: bundle.id,
+            title: bundle.title,
+            description: bundle.description,
+            imageUrl: bundle.imageUrl,
+            price: bundle.price,
+            listPrice: bundle.courses.reduce((sum, item) => sum + (item.course.price || 0), 0),
+            courses: bundle.courses.map(item => ({ id: item.course.id, title: item.course.title })),
+        })));
+    } catch (error) {
+        console.log("[BUNDLES_PUBLIC]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { BundleError, createBundle, parseBundleInput } from "@/lib/bundles";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+// GET - Every bundle, published or not, with its courses and number of sales
+export async function GET() {
+    try {
+        const { userId, user } = await auth();
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const bundles = await db.bundle.findMany({
+            include: {
+                courses: {
+                    include: {
+                        course: {
+                            select: {
+                                id: true,
+                                title: true,
+                                price: true,
+                            },
+                        },
+                    },
+                },
+                _count: {
+                    select: {
+                        purchases: true,
+                    },
+                },
+            },
+            orderBy: {
+                createdAt: "desc",
+            },
+        });
+
+        return NextResponse.json(bundles);
+    } catch (error) {
+        console.error("[BUNDLES_GET]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
+
+// POST - Create a bundle of at least two courses with its own price in EGP
+export async function POST(req: NextRequest) {
+    try {
+        const { userId, user } = await auth();
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const input = await parseBundleInput(await req.json());
+        const bundle = await createBundle(input, userId);
+
+        return NextResponse.json(bundle);
+    } catch (error) {
+        if (error instanceof BundleError) {
+            return new NextResponse(error.message, { status: error.status });
+        }
+        console.error("[BUNDLES_POST]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
+import { Purchase } from "@prisma/client";
 import { db } from "@/lib/db";
+import { getDaysLeft, isPurchaseActive, isPurchaseExpired } from "@/lib/course-access";
 
 export async function GET(
   req: Request,
@@ -34,16 +36,19 @@ export async function GET(
       return new NextResponse("Not found", { status: 404 });
     }
 
-    // Check if user has any purchase with ACTIVE status
-    const validPurchase = course.purchases.some(purchase => 
-      purchase.status === "ACTIVE"
-    );
+    // Check if user has any purchase with ACTIVE status that has not expired
+    const validPurchase = course.purchases.some((purchase: Purchase) => isPurchaseActive(purchase));
+    const activePurchase = course.purchases.find((purchase: Purchase) => purchase.status === "ACTIVE");
 
     // For both free and paid courses, require a purchase record to access quizzes
     // Free courses still need a purchase record to be created
     return NextResponse.json({ 
       hasAccess: validPurchase,
-      hasPurchase: validPurchase
+      hasPurchase: validPurchase,
+      // An expired purchase can be renewed
+      isExpired: activePurchase ? isPurchaseExpired(activePurchase) : false,
+      expiresAt: activePurchase?.expiresAt ?? null,
+      daysLeft: activePurchase ? getDaysLeft(activePurchase.expiresAt) : null
     });
   } catch (error) {
     console.error("[COURSE_ACCESS]", error);
@@ -1,6 +1,7 @@
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { activePurchaseWhere } from "@/lib/course-access";
 
 export async function GET(
     req: Request,
@@ -41,7 +42,7 @@ export async function GET(
             where: {
                 userId,
                 courseId: resolvedParams.courseId,
-                status: "ACTIVE"
+                ...activePurchaseWhere()
             }
         });
 
@@ -1,19 +1,54 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { canWatchChapter, hasWatchedEnough } from "@/lib/watch-time";
 
 export async function PUT(
   req: Request,
   { params }: { params: Promise<{ courseId: string; chapterId: string }> }
 ) {
   try {
-    const { userId } = await auth();
+    const { userId, user } = await auth();
     const resolvedParams = await params;
 
     if (!userId) {
       return new NextResponse("Unauthorized", { status: 401 });
     }
 
+    const chapter = await db.chapter.findUnique({
+      where: {
+        id: resolvedParams.chapterId,
+        courseId: resolvedParams.courseId,
+      },
+      select: {
+        id: true,
+        courseId: true,
+        isFree: true,
+        completionThreshold: true,
+        userProgress: {
+          where: {
+            userId,
+          },
+        },
+      },
+    });
+
+    if (!chapter) {
+      return new NextResponse("Chapter not found", { status: 404 });
+    }
+
+    if (!(await canWatchChapter({ id: userId, role: user?.role }, chapter))) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    // Chapters with a completion threshold are completed by watching the video
+    if (!hasWatchedEnough(chapter, chapter.userProgress[0] ?? null)) {
+      return new NextResponse(
+        JSON.stringify({ error: `يجب مشاهدة ${chapter.completionThreshold}% من الفيديو لإكمال هذا الفصل` }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
     const userProgress = await db.userProgress.upsert({
       where: {
         userId_chapterId: {
@@ -64,13 +99,17 @@ export async function DELETE(
       return new NextResponse("Not Found", { status: 404 });
     }
 
-    await db.userProgress.delete({
+    // Keeps the watch time, only the completion is undone
+    await db.userProgress.update({
       where: {
         userId_chapterId: {
           userId,
           chapterId: resolvedParams.chapterId,
         },
       },
+      data: {
+        isCompleted: false,
+      },
     });
 
     return new NextResponse(null, { status: 204 });
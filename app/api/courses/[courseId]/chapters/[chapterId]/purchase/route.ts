@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getIdempotencyKey } from "@/lib/idempotency";
+import { purchaseChapter, PurchaseError } from "@/lib/purchases";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ courseId: string; chapterId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const { courseId, chapterId } = await params;
+
+    if (!userId) {
+      return new NextResponse("Unauthorized - Please sign in to make a purchase", { status: 401 });
+    }
+
+    console.log(`[CHAPTER_PURCHASE_ATTEMPT] User ${userId} attempting to purchase chapter ${chapterId}`);
+
+    const { result, replayed } = await purchaseChapter({
+      userId,
+      courseId,
+      chapterId,
+      idempotencyKey: getIdempotencyKey(req),
+    });
+
+    if (!replayed) {
+      console.log(`[CHAPTER_PURCHASE_SUCCESS] User ${userId} successfully purchased chapter ${chapterId}`);
+    }
+
+    return NextResponse.json(result, {
+      headers: replayed ? { "Idempotent-Replayed": "true" } : undefined,
+    });
+  } catch (error) {
+    if (error instanceof PurchaseError) {
+      console.log(`[CHAPTER_PURCHASE_ERROR] ${error.message}`);
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.error("[CHAPTER_PURCHASE_ERROR] Unexpected error:", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
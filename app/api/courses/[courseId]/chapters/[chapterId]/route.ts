@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { activePurchaseWhere } from "@/lib/course-access";
+import { getPassingPercentage, hasPassedQuiz } from "@/lib/quiz";
+import { createViewSession, getMaxViews, getResumePosition, getViewStatus } from "@/lib/watch-time";
 
 const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
 
@@ -12,7 +15,7 @@ export async function GET(
     const resolvedParams = await params;
     const { courseId, chapterId } = resolvedParams;
     
-    const { userId } = await auth();
+    const { userId, user } = await auth();
 
     if (!userId) {
       return new NextResponse("Unauthorized", { status: 401 });
@@ -27,6 +30,8 @@ export async function GET(
         course: {
           select: {
             userId: true,
+            watermarkEnabled: true,
+            watermarkOpacity: true,
           }
         },
         userProgress: {
@@ -51,7 +56,7 @@ export async function GET(
       where: {
         userId,
         courseId: courseId,
-        status: "ACTIVE"
+        ...activePurchaseWhere()
       }
     });
 
@@ -60,7 +65,17 @@ export async function GET(
       select: { price: true }
     });
 
-    const hasAccess = course && (course.price === 0 || purchase !== null);
+    // The chapter can also be bought on its own, without the rest of the course
+    const chapterPurchase = purchase ? null : await db.chapterPurchase.findFirst({
+      where: {
+        userId,
+        chapterId,
+        status: "ACTIVE"
+      }
+    });
+
+    const hasCourseAccess = !!course && (course.price === 0 || purchase !== null);
+    const hasAccess = hasCourseAccess || chapterPurchase !== null;
 
     // Check if user's study type matches chapter's study types
     if (hasAccess && userId) {
@@ -111,8 +126,9 @@ export async function GET(
       }
     }
 
-    // Check if chapter is locked due to sequential access
-    if (hasAccess && userId) {
+    // Check if chapter is locked due to sequential access.
+    // Quizzes come with the course, so a chapter bought on its own is not locked behind them
+    if (hasCourseAccess && userId) {
       const [chapters, quizzes] = await db.$transaction([
         db.chapter.findMany({
           where: {
@@ -134,7 +150,8 @@ export async function GET(
           },
           select: {
             id: true,
-            position: true
+            position: true,
+            passingPercentage: true
           },
           orderBy: {
             position: "asc"
@@ -157,6 +174,7 @@ export async function GET(
           const prevContent = sortedContent[i];
           if (prevContent.type === 'quiz') {
             // Check if student passed this quiz
+            const passingPercentage = getPassingPercentage(prevContent);
             const quizResults = await db.quizResult.findMany({
               where: {
                 studentId: userId,
@@ -173,7 +191,7 @@ export async function GET(
             if (quizResults.length === 0) {
               return new NextResponse(
                 JSON.stringify({ 
-                  error: "يجب اجتياز الاختبار السابق بنسبة 50% على الأقل أولاً",
+                  error: `يجب اجتياز الاختبار السابق بنسبة ${passingPercentage}% على الأقل أولاً`,
                   isLocked: true 
                 }), 
                 { status: 403 }
@@ -184,10 +202,10 @@ export async function GET(
               current.percentage > best.percentage ? current : best
             );
 
-            if (bestResult.percentage < 50) {
+            if (!hasPassedQuiz(bestResult.percentage, passingPercentage)) {
               return new NextResponse(
                 JSON.stringify({ 
-                  error: "يجب اجتياز الاختبار السابق بنسبة 50% على الأقل أولاً",
+                  error: `يجب اجتياز الاختبار السابق بنسبة ${passingPercentage}% على الأقل أولاً`,
                   isLocked: true 
                 }), 
                 { status: 403 }
@@ -247,8 +265,29 @@ export async function GET(
       ? sortedContent[currentIndex - 1] 
       : null;
 
+    const progress = chapter.userProgress[0] ?? null;
+    const views = getViewStatus(
+      await getMaxViews({ id: userId, role: user?.role }, chapter),
+      progress?.viewCount ?? 0
+    );
+    // The video isn't sent once the student used all their views
+    const canPlay = !views || views.remaining > 0;
+    // Each opening of the video is a view session the player's heartbeats must name,
+    // only issued to those who can watch it, as the watch endpoint checks
+    const canWatch = hasAccess || chapter.isFree || isStaff(user?.role);
+    const viewSession = canWatch && canPlay && chapter.videoUrl ? await createViewSession(userId, chapter.id) : null;
+
     const response = {
       ...chapter,
+      videoUrl: canPlay ? chapter.videoUrl : null,
+      youtubeVideoId: canPlay ? chapter.youtubeVideoId : null,
+      hlsUrl: canPlay ? chapter.hlsUrl : null,
+      views,
+      viewSessionId: viewSession?.id ?? null,
+      hasAccess,
+      isPurchased: chapterPurchase !== null,
+      // Saved from the player's heartbeats, so it follows the student across devices
+      resumePosition: getResumePosition(progress),
       nextChapterId: nextContent?.id || null,
       previousChapterId: previousContent?.id || null,
       nextContentType: nextContent?.type || null,
@@ -292,6 +331,22 @@ export async function PATCH(
             return new NextResponse("Course not found", { status: 404 });
         }
 
+        // A chapter sold on its own needs a price, null stops selling it separately
+        if ("price" in values && values.price !== null && (typeof values.price !== "number" || values.price <= 0)) {
+            return new NextResponse("Chapter price must be a positive number", { status: 400 });
+        }
+
+        // Null lets students complete the chapter themselves
+        if ("completionThreshold" in values && values.completionThreshold !== null &&
+            (!Number.isInteger(values.completionThreshold) || values.completionThreshold < 1 || values.completionThreshold > 100)) {
+            return new NextResponse("Completion threshold must be a percentage between 1 and 100", { status: 400 });
+        }
+
+        // Null lets students watch the video without limit
+        if ("maxViews" in values && values.maxViews !== null && (!Number.isInteger(values.maxViews) || values.maxViews < 1)) {
+            return new NextResponse("Max views must be a positive whole number", { status: 400 });
+        }
+
         const chapter = await db.chapter.update({
             where: {
                 id: resolvedParams.chapterId,
@@ -1,6 +1,7 @@
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { queueVideoProcessing } from "@/lib/video-processing";
 
 export async function POST(
     req: Request,
@@ -44,6 +45,9 @@ export async function POST(
             }
         });
 
+        // The worker transcodes it into HLS renditions, the MP4 plays until they are ready
+        await queueVideoProcessing(resolvedParams.chapterId, url);
+
         return NextResponse.json({ 
             success: true,
             url: url
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { retryVideoProcessing, VideoProcessingError } from "@/lib/video-processing";
+
+// POST - Queue the chapter's uploaded video for HLS processing again, e.g. after it failed
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ courseId: string; chapterId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const { courseId, chapterId } = await params;
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (user?.role !== "ADMIN" && user?.role !== "TEACHER") {
+            return new NextResponse("Forbidden", { status: 403 });
+        }
+
+        const chapter = await db.chapter.findUnique({
+            where: {
+                id: chapterId,
+                courseId,
+            },
+            select: {
+                id: true,
+            },
+        });
+
+        if (!chapter) {
+            return new NextResponse("Chapter not found", { status: 404 });
+        }
+
+        const job = await retryVideoProcessing(chapter.id);
+
+        return NextResponse.json(job);
+    } catch (error) {
+        if (error instanceof VideoProcessingError) {
+            return new NextResponse(error.message, { status: error.status });
+        }
+        console.error("[CHAPTER_VIDEO_PROCESSING]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
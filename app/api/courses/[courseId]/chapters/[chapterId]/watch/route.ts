@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canWatchChapter, getMaxViews, recordWatchHeartbeat, WatchTimeError } from "@/lib/watch-time";
+
+// POST heartbeat from the video player: { sessionId, segments: [[start, end]], position, duration }, in seconds.
+// sessionId is the view session the chapter GET issued
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ courseId: string; chapterId: string }> }
+) {
+  try {
+    const { userId, user } = await auth();
+    const { courseId, chapterId } = await params;
+
+    if (!userId) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { sessionId, segments, position, duration } = await req.json();
+
+    if (typeof sessionId !== "string" || !sessionId) {
+      return new NextResponse("Missing session id", { status: 400 });
+    }
+
+    if (typeof position !== "number" || !Number.isFinite(position)) {
+      return new NextResponse("Invalid position", { status: 400 });
+    }
+
+    const chapter = await db.chapter.findUnique({
+      where: {
+        id: chapterId,
+        courseId,
+      },
+      select: {
+        id: true,
+        courseId: true,
+        isFree: true,
+        completionThreshold: true,
+        maxViews: true,
+        videoDuration: true,
+      },
+    });
+
+    if (!chapter) {
+      return new NextResponse("Chapter not found", { status: 404 });
+    }
+
+    if (!(await canWatchChapter({ id: userId, role: user?.role }, chapter))) {
+      return new NextResponse("Forbidden", { status: 403 });
+    }
+
+    const result = await recordWatchHeartbeat({
+      userId,
+      chapter,
+      sessionId,
+      maxViews: await getMaxViews({ id: userId, role: user?.role }, chapter),
+      segments,
+      position,
+      duration: typeof duration === "number" && Number.isFinite(duration) ? duration : null,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof WatchTimeError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+    console.log("[CHAPTER_WATCH]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
@@ -52,6 +52,10 @@ export async function POST(
                 videoUrl: youtubeUrl,
                 videoType: "YOUTUBE",
                 youtubeVideoId: youtubeVideoId,
+                videoStatus: null,
+                hlsUrl: null,
+                posterUrl: null,
+                videoDuration: null,
             }
         });
 
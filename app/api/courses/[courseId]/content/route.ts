@@ -1,6 +1,8 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
+import { activePurchaseWhere } from "@/lib/course-access";
 import { NextResponse } from "next/server";
+import { getPassingPercentage, hasPassedQuiz } from "@/lib/quiz";
 
 export async function GET(
     req: Request,
@@ -22,7 +24,7 @@ export async function GET(
                     purchases: {
                         where: {
                             userId,
-                            status: "ACTIVE"
+                            ...activePurchaseWhere()
                         }
                     }
                 }
@@ -34,6 +36,24 @@ export async function GET(
             }
         }
 
+        // Without the course, the student may still own some of its chapters
+        const purchasedChapterIds = new Set<string>();
+        if (userId && !hasAccess) {
+            const chapterPurchases: { chapterId: string }[] = await db.chapterPurchase.findMany({
+                where: {
+                    userId,
+                    status: "ACTIVE",
+                    chapter: {
+                        courseId: resolvedParams.courseId
+                    }
+                },
+                select: {
+                    chapterId: true
+                }
+            });
+            chapterPurchases.forEach((purchase) => purchasedChapterIds.add(purchase.chapterId));
+        }
+
         // Get chapters
         const chapters = await (db.chapter as any).findMany({
             where: {
@@ -57,7 +77,7 @@ export async function GET(
                         }
                     }
                 } : undefined,
-                userProgress: hasAccess && userId ? {
+                userProgress: userId ? {
                     where: {
                         userId
                     },
@@ -100,7 +120,8 @@ export async function GET(
             ...chapters.map((chapter: typeof chapters[0]) => ({
                 ...chapter,
                 type: 'chapter' as const,
-                userProgress: hasAccess ? chapter.userProgress : undefined
+                isPurchased: purchasedChapterIds.has(chapter.id),
+                userProgress: hasAccess || purchasedChapterIds.has(chapter.id) ? chapter.userProgress : undefined
             })),
             ...quizzes.map((quiz: typeof quizzes[0]) => ({
                 ...quiz,
@@ -121,16 +142,18 @@ export async function GET(
                 // We don't mark chapters as locked here so they remain clickable in sidebar
                 // The chapter page will show the error message when accessed
 
-                // First check explicit quiz requirement
-                if (!isLocked && chapter.requirePassingQuiz && chapter.requiredQuizId) {
+                // First check explicit quiz requirement.
+                // Quizzes come with the course, so a chapter bought on its own is not locked behind them
+                if (!isLocked && !chapter.isPurchased && chapter.requirePassingQuiz && chapter.requiredQuizId) {
                     if (!hasAccess || !userId) {
                         isLocked = true;
                         lockReason = "يجب شراء الكورس أولاً";
                     } else {
                         const quizResult = chapter.requiredQuiz?.quizResults?.[0];
-                        if (!quizResult || quizResult.percentage < 50) {
+                        const passingPercentage = getPassingPercentage(chapter.requiredQuiz);
+                        if (!quizResult || !hasPassedQuiz(quizResult.percentage, passingPercentage)) {
                             isLocked = true;
-                            lockReason = "يجب اجتياز الاختبار المطلوب بنسبة 50% على الأقل";
+                            lockReason = `يجب اجتياز الاختبار المطلوب بنسبة ${passingPercentage}% على الأقل`;
                         }
                     }
                 }
@@ -142,12 +165,13 @@ export async function GET(
                         const prevContent = allContentUnsorted[i];
                         if (prevContent.type === 'quiz') {
                             const prevQuiz = prevContent as typeof prevContent & { type: 'quiz' };
-                            // Check if student passed this quiz (50% or higher)
+                            // Check if student passed this quiz (at least the quiz's passing percentage)
+                            const passingPercentage = getPassingPercentage(prevQuiz);
                             const quizResults = prevQuiz.quizResults || [];
                             if (quizResults.length === 0) {
                                 // Student hasn't taken the quiz yet
                                 isLocked = true;
-                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة 50% على الأقل أولاً`;
+                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة ${passingPercentage}% على الأقل أولاً`;
                                 break;
                             }
                             
@@ -156,9 +180,9 @@ export async function GET(
                                 current.percentage > best.percentage ? current : best
                             );
                             
-                            if (bestResult.percentage < 50) {
+                            if (!hasPassedQuiz(bestResult.percentage, passingPercentage)) {
                                 isLocked = true;
-                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة 50% على الأقل أولاً`;
+                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة ${passingPercentage}% على الأقل أولاً`;
                                 break;
                             }
                             
@@ -184,12 +208,13 @@ export async function GET(
                         const prevContent = allContentUnsorted[i];
                         if (prevContent.type === 'quiz') {
                             const prevQuiz = prevContent as typeof prevContent & { type: 'quiz' };
-                            // Check if student passed this quiz (50% or higher)
+                            // Check if student passed this quiz (at least the quiz's passing percentage)
+                            const passingPercentage = getPassingPercentage(prevQuiz);
                             const quizResults = prevQuiz.quizResults || [];
                             if (quizResults.length === 0) {
                                 // Student hasn't taken the quiz yet
                                 isLocked = true;
-                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة 50% على الأقل أولاً`;
+                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة ${passingPercentage}% على الأقل أولاً`;
                                 break;
                             }
                             
@@ -198,9 +223,9 @@ export async function GET(
                                 current.percentage > best.percentage ? current : best
                             );
                             
-                            if (bestResult.percentage < 50) {
+                            if (!hasPassedQuiz(bestResult.percentage, passingPercentage)) {
                                 isLocked = true;
-                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة 50% على الأقل أولاً`;
+                                lockReason = `يجب اجتياز الاختبار "${prevQuiz.title}" بنسبة ${passingPercentage}% على الأقل أولاً`;
                                 break;
                             }
                             
@@ -1,6 +1,8 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
+import { activePurchaseWhere } from "@/lib/course-access";
 import { NextResponse } from "next/server";
+import { getPassingPercentage, hasPassedQuiz } from "@/lib/quiz";
 
 export async function GET(
     req: Request,
@@ -27,7 +29,7 @@ export async function GET(
                 purchases: {
                     where: {
                         userId,
-                        status: "ACTIVE"
+                        ...activePurchaseWhere()
                     }
                 }
             }
@@ -39,6 +41,24 @@ export async function GET(
 
         hasAccess = course.price === 0 || course.purchases.length > 0;
 
+        // Without the course, the student may still own some of its chapters
+        const purchasedChapterIds = new Set<string>();
+        if (!hasAccess) {
+            const chapterPurchases: { chapterId: string }[] = await db.chapterPurchase.findMany({
+                where: {
+                    userId,
+                    status: "ACTIVE",
+                    chapter: {
+                        courseId: resolvedParams.courseId
+                    }
+                },
+                select: {
+                    chapterId: true
+                }
+            });
+            chapterPurchases.forEach((purchase) => purchasedChapterIds.add(purchase.chapterId));
+        }
+
         // Get chapters - always include requiredQuiz, but conditionally include quizResults
         const chaptersQuery: any = {
             where: {
@@ -151,7 +171,7 @@ export async function GET(
                                 current.percentage > best.percentage ? current : best
                             );
                             
-                            if (bestResult.percentage < 50) {
+                            if (!hasPassedQuiz(bestResult.percentage, getPassingPercentage(prevQuiz))) {
                                 isLocked = true;
                                 break;
                             }
@@ -190,13 +210,13 @@ export async function GET(
                     }
                 }
 
-                // Check explicit quiz requirement
-                if (!isLocked && chapter.requirePassingQuiz && chapter.requiredQuizId) {
+                // Check explicit quiz requirement, which a chapter bought on its own skips
+                if (!isLocked && !purchasedChapterIds.has(chapter.id) && chapter.requirePassingQuiz && chapter.requiredQuizId) {
                     if (!hasAccess || !userId) {
                         isLocked = true;
                     } else {
                         const quizResult = chapter.requiredQuiz?.quizResults?.[0];
-                        if (!quizResult || quizResult.percentage < 50) {
+                        if (!quizResult || !hasPassedQuiz(quizResult.percentage, getPassingPercentage(chapter.requiredQuiz))) {
                             isLocked = true;
                         }
                     }
@@ -220,7 +240,7 @@ export async function GET(
                                 current.percentage > best.percentage ? current : best
                             );
                             
-                            if (bestResult.percentage < 50) {
+                            if (!hasPassedQuiz(bestResult.percentage, getPassingPercentage(prevQuiz))) {
                                 isLocked = true;
                                 break;
                             }
@@ -231,7 +251,7 @@ export async function GET(
                 }
 
                 // If chapter is not locked and user has access (or it's free), return it
-                if (!isLocked && (hasAccess || chapter.isFree)) {
+                if (!isLocked && (hasAccess || chapter.isFree || purchasedChapterIds.has(chapter.id))) {
                     return NextResponse.json({
                         id: chapter.id,
                         type: 'chapter'
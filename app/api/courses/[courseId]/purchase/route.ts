@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { db } from "@/lib/db";
+import { getIdempotencyKey } from "@/lib/idempotency";
+import { purchaseCourse, PurchaseError } from "@/lib/purchases";
 
 export async function POST(
   req: Request,
@@ -19,207 +20,31 @@ export async function POST(
 
     console.log(`[PURCHASE_ATTEMPT] User ${userId} attempting to purchase course ${resolvedParams.courseId}`);
 
-    const course = await db.course.findUnique({
-      where: {
-        id: resolvedParams.courseId,
-        isPublished: true,
-      },
+    const { result, replayed } = await purchaseCourse({
+      userId,
+      courseId: resolvedParams.courseId,
+      promocode: promocodeInput,
+      idempotencyKey: getIdempotencyKey(req),
     });
 
-    if (!course) {
-      console.log(`[PURCHASE_ERROR] Course ${resolvedParams.courseId} not found or not published`);
-      return new NextResponse("Course not found or not available for purchase", { status: 404 });
+    if (replayed) {
+      console.log(`[PURCHASE_REPLAYED] Returning the original result of purchase ${result.purchaseId} to user ${userId}`);
+    } else {
+      console.log(`[PURCHASE_SUCCESS] User ${userId} successfully purchased course ${resolvedParams.courseId}${result.promocode ? ` with promocode: ${result.promocode}` : ''}`);
     }
 
-    // Check if user already purchased this course
-    const existingPurchase = await db.purchase.findUnique({
-      where: {
-        userId_courseId: {
-          userId,
-          courseId: resolvedParams.courseId,
-        },
-      },
-    });
-
-    if (existingPurchase && existingPurchase.status === "ACTIVE") {
-      console.log(`[PURCHASE_ERROR] User ${userId} already has an active purchase for course ${resolvedParams.courseId}`);
-      return new NextResponse("You have already purchased this course", { status: 400 });
-    }
-
-    // Get user with current balance
-    const user = await db.user.findUnique({
-      where: {
-        id: userId,
-      },
-      select: {
-        balance: true,
-      },
-    });
-
-    if (!user) {
-      return new NextResponse("User not found", { status: 404 });
-    }
-
-    let coursePrice = course.price || 0;
-    let discountAmount = 0;
-    let promocodeId = null;
-    let appliedPromocode = null;
-
-    // Validate and apply promocode if provided
-    if (promocodeInput) {
-      const promocode = await db.promoCode.findUnique({
-        where: { code: promocodeInput.toUpperCase().trim() },
-        include: {
-          courses: true,
-        },
-      });
-
-      if (!promocode) {
-        return new NextResponse("رمز الكوبون غير صحيح", { status: 400 });
-      }
-
-      if (!promocode.isActive) {
-        return new NextResponse("هذا الكوبون غير نشط", { status: 400 });
-      }
-
-      // Check validity dates
-      const now = new Date();
-      if (promocode.validFrom && new Date(promocode.validFrom) > now) {
-        return new NextResponse("هذا الكوبون لم يبدأ بعد", { status: 400 });
-      }
-      if (promocode.validUntil && new Date(promocode.validUntil) < now) {
-        return new NextResponse("هذا الكوبون منتهي الصلاحية", { status: 400 });
-      }
-
-      // Check usage limit
-      if (promocode.usageLimit && promocode.usedCount >= promocode.usageLimit) {
-        return new NextResponse("تم استنفاذ عدد مرات استخدام هذا الكوبون", { status: 400 });
-      }
-
-      // Check if promocode applies to this course
-      // If promocode has courses associated, it only applies to those courses
-      // If no courses are associated, it applies to all courses
-      if (promocode.courses.length > 0) {
-        const appliesToCourse = promocode.courses.some(pc => pc.courseId === resolvedParams.courseId);
-        if (!appliesToCourse) {
-          return new NextResponse("هذا الكوبون لا ينطبق على هذا الكورس", { status: 400 });
-        }
-      }
-
-      // Check minimum purchase
-      if (promocode.minPurchase && coursePrice < promocode.minPurchase) {
-        return new NextResponse(
-          `يجب أن يكون سعر الشراء ${promocode.minPurchase} جنيه على الأقل`,
-          { status: 400 }
-        );
-      }
-
-      // Calculate discount
-      if (promocode.discountType === "PERCENTAGE") {
-        discountAmount = (coursePrice * promocode.discountValue) / 100;
-        if (promocode.maxDiscount && discountAmount > promocode.maxDiscount) {
-          discountAmount = promocode.maxDiscount;
-        }
-      } else {
-        discountAmount = promocode.discountValue;
-      }
-      
-      // Can't discount more than the course price
-      if (discountAmount > coursePrice) {
-        discountAmount = coursePrice;
-      }
-
-      coursePrice = Math.max(0, coursePrice - discountAmount);
-      promocodeId = promocode.id;
-      appliedPromocode = promocode.code;
-    }
-
-    // Check if user has sufficient balance (only for paid courses)
-    if (coursePrice > 0 && user.balance < coursePrice) {
-      console.log(`[PURCHASE_ERROR] User ${userId} has insufficient balance. Required: ${coursePrice}, Available: ${user.balance}`);
-      return new NextResponse("Insufficient balance", { status: 400 });
-    }
-
-    // Create purchase and update balance in a transaction
-    const result = await db.$transaction(async (tx) => {
-      // Delete any existing failed purchase
-      if (existingPurchase && existingPurchase.status === "FAILED") {
-        await tx.purchase.delete({
-          where: {
-            id: existingPurchase.id,
-          },
-        });
-      }
-
-      // Create the purchase
-      const purchase = await tx.purchase.create({
-        data: {
-          userId,
-          courseId: resolvedParams.courseId,
-          status: "ACTIVE",
-        },
-      });
-
-      // Update user balance only for paid courses
-      let updatedUser = user;
-      if (coursePrice > 0) {
-        updatedUser = await tx.user.update({
-          where: {
-            id: userId,
-          },
-          data: {
-            balance: {
-              decrement: coursePrice,
-            },
-          },
-        });
-
-        // Create balance transaction record only for paid courses
-        const transactionDescription = appliedPromocode
-          ? `تم شراء الكورس: ${course.title} (كوبون خصم: ${appliedPromocode})`
-          : `تم شراء الكورس: ${course.title}`;
-
-        await tx.balanceTransaction.create({
-          data: {
-            userId,
-            amount: -coursePrice,
-            type: "PURCHASE",
-            description: transactionDescription,
-          },
-        });
-      }
-
-      // Increment promocode usage count if applied
-      if (promocodeId) {
-        await tx.promoCode.update({
-          where: { id: promocodeId },
-          data: {
-            usedCount: {
-              increment: 1,
-            },
-          },
-        });
-      }
-
-      return { purchase, updatedUser };
-    });
-
-    console.log(`[PURCHASE_SUCCESS] User ${userId} successfully purchased course ${resolvedParams.courseId}${appliedPromocode ? ` with promocode: ${appliedPromocode}` : ''}`);
-
-    return NextResponse.json({
-      success: true,
-      purchaseId: result.purchase.id,
-      newBalance: result.updatedUser.balance,
-      originalPrice: (course.price || 0).toFixed(2),
-      discountAmount: discountAmount.toFixed(2),
-      finalPrice: coursePrice.toFixed(2),
-      promocode: appliedPromocode,
+    return NextResponse.json(result, {
+      headers: replayed ? { "Idempotent-Replayed": "true" } : undefined,
     });
   } catch (error) {
+    if (error instanceof PurchaseError) {
+      console.log(`[PURCHASE_ERROR] ${error.message}`);
+      return new NextResponse(error.message, { status: error.status });
+    }
     console.error("[PURCHASE_ERROR] Unexpected error:", error);
     if (error instanceof Error) {
       return new NextResponse(`Internal Error: ${error.message}`, { status: 500 });
     }
     return new NextResponse("Internal Error", { status: 500 });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+import { db } from "@/lib/db";
+import { isPurchaseActive } from "@/lib/course-access";
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { getRemainingSeconds, isAttemptExpired, normalizeSubmittedAnswers } from "@/lib/quiz";
+import { finalizeQuizAttempt } from "@/lib/quiz-attempts";
+
+// PUT - Autosave the answers of the attempt in progress
+export async function PUT(
+    req: Request,
+    { params }: { params: Promise<{ courseId: string; quizId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        const resolvedParams = await params;
+        const { answers, currentQuestionIndex } = await req.json();
+
+        if (!userId) {
+            return new NextResponse("Unauthorized", { status: 401 });
+        }
+
+        if (!Array.isArray(answers)) {
+            return new NextResponse("Answers must be an array", { status: 400 });
+        }
+
+        // Check if user has access to the course
+        const purchase = await db.purchase.findUnique({
+            where: {
+                userId_courseId: {
+                    userId,
+                    courseId: resolvedParams.courseId
+                }
+            }
+        });
+
+        if (!purchase || !isPurchaseActive(purchase)) {
+            return new NextResponse("Course access required", { status: 403 });
+        }
+
+        const attempt = await db.quizAttempt.findUnique({
+            where: {
+                studentId_quizId: {
+                    studentId: userId,
+                    quizId: resolvedParams.quizId
+                }
+            }
+        });
+
+        if (!attempt || attempt.completedAt) {
+            return new NextResponse("No quiz attempt in progress", { status: 400 });
+        }
+
+        // Once the deadline has passed the draft is frozen and graded
+        if (isAttemptExpired(attempt.expiresAt)) {
+            await finalizeQuizAttempt(userId, resolvedParams.quizId);
+            return NextResponse.json(
+                { error: "انتهى وقت الاختبار وتم تصحيح آخر إجابات محفوظة", isExpired: true },
+                { status: 400 }
+            );
+        }
+
+        const draftAnswers = normalizeSubmittedAnswers(answers);
+
+        const questionIndex = Number.isInteger(currentQuestionIndex) && currentQuestionIndex >= 0
+            ? currentQuestionIndex
+            : attempt.currentQuestionIndex;
+
+        // Only update the attempt while it is still open, a concurrent submit wins
+        const { count } = await db.quizAttempt.updateMany({
+            where: {
+                id: attempt.id,
+                completedAt: null
+            },
+            data: {
+                draftAnswers: JSON.stringify(draftAnswers),
+                currentQuestionIndex: questionIndex
+            }
+        });
+
+        if (count === 0) {
+            return new NextResponse("No quiz attempt in progress", { status: 400 });
+        }
+
+        return NextResponse.json({
+            success: true,
+            savedAt: new Date(),
+            remainingSeconds: getRemainingSeconds(attempt.expiresAt)
+        });
+    } catch (error) {
+        console.log("[QUIZ_DRAFT_PUT]", error);
+        return new NextResponse("Internal Error", { status: 500 });
+    }
+}
@@ -1,4 +1,5 @@
 import { db } from "@/lib/db";
+import { isPurchaseActive } from "@/lib/course-access";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 
@@ -24,7 +25,7 @@ export async function GET(
             }
         });
 
-        if (!purchase) {
+        if (!purchase || !isPurchaseActive(purchase)) {
             return new NextResponse("Course access required", { status: 403 });
         }
 
@@ -1,6 +1,8 @@
 import { db } from "@/lib/db";
+import { isPurchaseActive } from "@/lib/course-access";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
+import { arrangeAnswersAsShown, getPassingPercentage } from "@/lib/quiz";
 
 export async function GET(
     req: Request,
@@ -24,17 +26,18 @@ export async function GET(
             }
         });
 
-        if (!purchase) {
+        if (!purchase || !isPurchaseActive(purchase)) {
             return new NextResponse("Course access required", { status: 403 });
         }
 
-        // Get the quiz to get maxAttempts
+        // Get the quiz to get maxAttempts and the passing percentage
         const quiz = await db.quiz.findUnique({
             where: {
                 id: resolvedParams.quizId
             },
             select: {
-                maxAttempts: true
+                maxAttempts: true,
+                passingPercentage: true
             }
         });
 
@@ -81,7 +84,10 @@ export async function GET(
                                 points: true,
                                 position: true,
                                 imageUrl: true,
-                                options: true
+                                options: true,
+                                correctOptionIndex: true,
+                                tolerance: true,
+                                toleranceType: true
                             }
                         }
                     },
@@ -101,8 +107,11 @@ export async function GET(
         // Add maxAttempts and attempt info to the result
         const resultWithAttemptInfo = {
             ...quizResult,
+            // Questions and options in the order the student saw them
+            answers: arrangeAnswersAsShown(quizResult.answers, quizResult.questionOrder, quizResult.optionOrder),
             maxAttempts: maxAttempts,
-            totalAttempts: allResults.length
+            totalAttempts: allResults.length,
+            passingPercentage: getPassingPercentage(quiz)
         };
 
         return NextResponse.json(resultWithAttemptInfo);
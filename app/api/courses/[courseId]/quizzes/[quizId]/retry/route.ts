@@ -1,4 +1,5 @@
 import { db } from "@/lib/db";
+import { isPurchaseActive } from "@/lib/course-access";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 
@@ -25,7 +26,7 @@ export async function POST(
             }
         });
 
-        if (!purchase) {
+        if (!purchase || !isPurchaseActive(purchase)) {
             return new NextResponse("Course access required", { status: 403 });
         }
 
@@ -84,12 +85,15 @@ export async function POST(
 
         console.log(`[QUIZ_RETRY] Existing attempt found:`, existingAttempt ? { id: existingAttempt.id, completedAt: existingAttempt.completedAt } : "none");
 
-        // Delete any existing quiz attempt (completed or in progress)
-        // Use deleteMany to handle cases where multiple attempts might exist
+        // Delete the completed quiz attempt so a new one can be started
+        // An attempt still in progress is kept, otherwise its deadline could be reset by retrying
         const deleteResult = await db.quizAttempt.deleteMany({
             where: {
                 studentId: userId,
-                quizId: resolvedParams.quizId
+                quizId: resolvedParams.quizId,
+                completedAt: {
+                    not: null
+                }
             }
         });
 
@@ -105,7 +109,7 @@ export async function POST(
             }
         });
 
-        if (verifyAttempt) {
+        if (verifyAttempt?.completedAt) {
             console.error(`[QUIZ_RETRY] ERROR: Attempt still exists after deletion!`);
             return new NextResponse(
                 JSON.stringify({ error: "حدث خطأ أثناء إعادة تعيين المحاولة" }),
@@ -1,7 +1,18 @@
 import { db } from "@/lib/db";
+import { isPurchaseActive } from "@/lib/course-access";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 import { parseQuizOptions, stringifyQuizOptions } from "@/lib/utils";
+import {
+    applyOptionOrder,
+    getPassingPercentage,
+    getRemainingSeconds,
+    hasPassedQuiz,
+    isAttemptExpired,
+    parseDraftAnswers,
+    parseOptionOrder
+} from "@/lib/quiz";
+import { finalizeQuizAttempt, getAttemptQuestions, startQuizAttempt } from "@/lib/quiz-attempts";
 
 export async function GET(
     req: Request,
@@ -25,7 +36,7 @@ export async function GET(
             }
         });
 
-        if (!purchase) {
+        if (!purchase || !isPurchaseActive(purchase)) {
             return new NextResponse("Course access required", { status: 403 });
         }
 
@@ -35,27 +46,9 @@ export async function GET(
                 id: resolvedParams.quizId,
                 courseId: resolvedParams.courseId,
                 isPublished: true
-            },
-            include: {
-                questions: {
-                    select: {
-                        id: true,
-                        text: true,
-                        type: true,
-                        options: true,
-                        points: true,
-                        imageUrl: true
-                    },
-                    orderBy: {
-                        position: 'asc'
-                    }
-                }
             }
         });
 
-        // Don't parse options here - the frontend will handle parsing
-        // This keeps the original string format for consistency
-
         if (!quiz) {
             return new NextResponse("Quiz not found", { status: 404 });
         }
@@ -83,7 +76,8 @@ export async function GET(
                 select: {
                     id: true,
                     position: true,
-                    title: true
+                    title: true,
+                    passingPercentage: true
                 },
                 orderBy: {
                     position: "asc"
@@ -105,6 +99,7 @@ export async function GET(
                 const prevContent = sortedContent[i];
                 if (prevContent.type === 'quiz') {
                     // Check if student passed this quiz
+                    const passingPercentage = getPassingPercentage(prevContent);
                     const quizResults = await db.quizResult.findMany({
                         where: {
                             studentId: userId,
@@ -121,7 +116,7 @@ export async function GET(
                     if (quizResults.length === 0) {
                         return new NextResponse(
                             JSON.stringify({ 
-                                error: `يجب اجتياز الاختبار "${prevContent.title}" بنسبة 50% على الأقل أولاً`,
+                                error: `يجب اجتياز الاختبار "${prevContent.title}" بنسبة ${passingPercentage}% على الأقل أولاً`,
                                 isLocked: true 
                             }), 
                             { status: 403 }
@@ -132,10 +127,10 @@ export async function GET(
                         current.percentage > best.percentage ? current : best
                     );
 
-                    if (bestResult.percentage < 50) {
+                    if (!hasPassedQuiz(bestResult.percentage, passingPercentage)) {
                         return new NextResponse(
                             JSON.stringify({ 
-                                error: `يجب اجتياز الاختبار "${prevContent.title}" بنسبة 50% على الأقل أولاً`,
+                                error: `يجب اجتياز الاختبار "${prevContent.title}" بنسبة ${passingPercentage}% على الأقل أولاً`,
                                 isLocked: true 
                             }), 
                             { status: 403 }
@@ -162,13 +157,10 @@ export async function GET(
         const maxAttempts = studentSettings?.maxAttempts ?? quiz.maxAttempts;
 
         // Check if user has already taken this quiz and if they can take it again
-        const existingResults = await db.quizResult.findMany({
+        let submittedAttempts = await db.quizResult.count({
             where: {
                 studentId: userId,
                 quizId: resolvedParams.quizId
-            },
-            orderBy: {
-                attemptNumber: 'desc'
             }
         });
 
@@ -181,113 +173,62 @@ export async function GET(
             }
         });
 
-        // Count total attempts: submitted attempts (QuizResults) + incomplete attempts
-        const submittedAttempts = existingResults.length;
-        const hasIncompleteAttempt = existingAttempt && !existingAttempt.completedAt;
-        const totalAttempts = submittedAttempts + (hasIncompleteAttempt ? 1 : 0);
-
-        // Check if they've reached max attempts
-        if (totalAttempts >= maxAttempts) {
-            // If they have an incomplete attempt, they can't retry
-            if (hasIncompleteAttempt) {
-                return new NextResponse("Maximum attempts reached for this quiz. You have an incomplete attempt that counts as an attempt.", { status: 400 });
-            }
-            // If they only have submitted attempts and reached max, block
-            return new NextResponse("Maximum attempts reached for this quiz", { status: 400 });
-        }
-
-        const currentAttemptNumber = submittedAttempts + 1;
         let isRetry = false;
         let retryReason = null;
+        let attempt = existingAttempt;
 
-        // If there's an existing attempt
-        if (existingAttempt) {
-            // If the attempt is completed (has completedAt)
-            if (existingAttempt.completedAt) {
-                // Check if there's a corresponding QuizResult (meaning they submitted)
-                if (existingResults.length > 0) {
-                    // They already submitted, and we've confirmed they have retries left
-                    // Delete the completed attempt and create a new one for retry
-                    console.log(`[QUIZ_GET] Found completed and submitted attempt, allowing retry`);
-                    isRetry = true;
-                    retryReason = "submitted";
-                    await db.quizAttempt.delete({
-                        where: {
-                            studentId_quizId: {
-                                studentId: userId,
-                                quizId: resolvedParams.quizId
-                            }
-                        }
-                    });
-                    // Create a new attempt for retry
-                    await db.quizAttempt.create({
-                        data: {
-                            studentId: userId,
-                            quizId: resolvedParams.quizId
-                        }
-                    });
-                } else {
-                    // Completed attempt but no QuizResult (edge case - shouldn't happen normally)
-                    // Allow retry by deleting and creating new attempt
-                    console.log(`[QUIZ_GET] Found completed attempt without result, allowing retry`);
-                    isRetry = true;
-                    retryReason = "completed";
-                    await db.quizAttempt.delete({
-                        where: {
-                            studentId_quizId: {
-                                studentId: userId,
-                                quizId: resolvedParams.quizId
-                            }
-                        }
-                    });
-                    await db.quizAttempt.create({
-                        data: {
-                            studentId: userId,
-                            quizId: resolvedParams.quizId
-                        }
-                    });
-                }
+        if (existingAttempt && !existingAttempt.completedAt) {
+            if (!isAttemptExpired(existingAttempt.expiresAt)) {
+                // Attempt still running (e.g. page reload), resume it with the same deadline
+                console.log(`[QUIZ_GET] Resuming attempt in progress`);
             } else {
-                // If attempt is not completed (no completedAt), it counts as an attempt
-                // If they have retries left, delete the incomplete attempt and allow a new one
-                console.log(`[QUIZ_GET] Found incomplete attempt, counting as attempt. Total attempts: ${totalAttempts}, Max: ${maxAttempts}`);
-                
-                if (totalAttempts < maxAttempts) {
-                    // They have retries left, delete the incomplete attempt and create a new one
-                    console.log(`[QUIZ_GET] Allowing retry after incomplete attempt`);
-                    isRetry = true;
-                    retryReason = "incomplete";
-                    await db.quizAttempt.delete({
-                        where: {
-                            studentId_quizId: {
-                                studentId: userId,
-                                quizId: resolvedParams.quizId
-                            }
-                        }
-                    });
-                    // Create a new attempt for retry
-                    await db.quizAttempt.create({
-                        data: {
-                            studentId: userId,
-                            quizId: resolvedParams.quizId
-                        }
-                    });
-                } else {
-                    // No retries left, block access
-                    return new NextResponse("Maximum attempts reached for this quiz. Your incomplete attempt counts as an attempt.", { status: 400 });
+                // Deadline passed without a submission, grade the autosaved draft
+                console.log(`[QUIZ_GET] Attempt expired without submission, grading saved draft`);
+                const expiredResult = await finalizeQuizAttempt(userId, resolvedParams.quizId);
+                if (expiredResult) {
+                    submittedAttempts += 1;
                 }
+                retryReason = "expired";
+                attempt = null;
             }
         } else {
-            // No existing attempt, create a new one
-            console.log(`[QUIZ_GET] No existing attempt, creating new one`);
-            await db.quizAttempt.create({
-                data: {
-                    studentId: userId,
-                    quizId: resolvedParams.quizId
-                }
-            });
+            // No attempt in progress: either a first attempt or a retry after a submission
+            if (submittedAttempts > 0) {
+                retryReason = "submitted";
+            } else if (existingAttempt?.completedAt) {
+                retryReason = "completed";
+            }
+            attempt = null;
         }
 
+        if (!attempt) {
+            // Check if they've reached max attempts
+            if (submittedAttempts >= maxAttempts) {
+                return new NextResponse("Maximum attempts reached for this quiz", { status: 400 });
+            }
+
+            console.log(`[QUIZ_GET] Starting new attempt ${submittedAttempts + 1} of ${maxAttempts}`);
+            isRetry = retryReason !== null;
+            attempt = await startQuizAttempt(userId, quiz);
+        }
+
+        // Questions frozen for this attempt (drawn bank questions included)
+        // Options stay as JSON strings - the frontend will handle parsing
+        const attemptQuestions = await getAttemptQuestions(quiz.id, attempt.questionIds);
+        const optionOrder = parseOptionOrder(attempt.optionOrder);
+        const questions = attemptQuestions.map(question => ({
+            id: question.id,
+            text: question.text,
+            type: question.type,
+            options: optionOrder[question.id]
+                ? stringifyQuizOptions(applyOptionOrder(parseQuizOptions(question.options), optionOrder[question.id]))
+                : question.options,
+            points: question.points,
+            imageUrl: question.imageUrl
+        }));
+
+        const currentAttemptNumber = submittedAttempts + 1;
+
         // Calculate remaining attempts
         // Remaining = maxAttempts - currentAttemptNumber (current attempt is in progress, so it counts)
         const remainingAttempts = Math.max(0, maxAttempts - currentAttemptNumber);
@@ -295,12 +236,20 @@ export async function GET(
         // Add attempt information to the quiz response
         const quizWithAttemptInfo = {
             ...quiz,
+            questions,
             currentAttempt: currentAttemptNumber,
             maxAttempts: maxAttempts,
-            previousAttempts: existingResults.length,
+            previousAttempts: submittedAttempts,
             isRetry: isRetry,
             retryReason: retryReason,
-            remainingAttempts: remainingAttempts
+            remainingAttempts: remainingAttempts,
+            startedAt: attempt.startedAt,
+            expiresAt: attempt.expiresAt,
+            // Seconds left according to the server clock, null for untimed quizzes
+            remainingSeconds: getRemainingSeconds(attempt.expiresAt),
+            // Autosaved progress so a reload resumes where the student left off
+            draftAnswers: parseDraftAnswers(attempt.draftAnswers),
+            currentQuestionIndex: attempt.currentQuestionIndex
         };
 
         return NextResponse.json(quizWithAttemptInfo);
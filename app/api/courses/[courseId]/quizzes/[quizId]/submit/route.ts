@@ -1,7 +1,10 @@
 import { db } from "@/lib/db";
+import { isPurchaseActive } from "@/lib/course-access";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
 import { parseQuizOptions } from "@/lib/utils";
+import { arrangeAnswersAsShown, isAttemptExpired, normalizeSubmittedAnswers } from "@/lib/quiz";
+import { finalizeQuizAttempt } from "@/lib/quiz-attempts";
 
 export async function POST(
     req: Request,
@@ -26,32 +29,20 @@ export async function POST(
             }
         });
 
-        if (!purchase) {
+        if (!purchase || !isPurchaseActive(purchase)) {
             return new NextResponse("Course access required", { status: 403 });
         }
 
-        // Get the quiz with questions
+        // Get the quiz
         const quiz = await db.quiz.findFirst({
             where: {
                 id: resolvedParams.quizId,
                 courseId: resolvedParams.courseId,
                 isPublished: true
             },
-            include: {
-                questions: {
-                    select: {
-                        id: true,
-                        text: true,
-                        type: true,
-                        options: true,
-                        correctAnswer: true,
-                        points: true,
-                        imageUrl: true
-                    },
-                    orderBy: {
-                        position: 'asc'
-                    }
-                }
+            select: {
+                id: true,
+                maxAttempts: true
             }
         });
 
@@ -73,109 +64,53 @@ export async function POST(
         const maxAttempts = studentSettings?.maxAttempts ?? quiz.maxAttempts;
 
         // Check if user has already taken this quiz and if they can take it again
-        const existingResults = await db.quizResult.findMany({
+        const submittedAttempts = await db.quizResult.count({
             where: {
                 studentId: userId,
                 quizId: resolvedParams.quizId
-            },
-            orderBy: {
-                attemptNumber: 'desc'
             }
         });
 
-        const currentAttemptNumber = existingResults.length + 1;
-
-        if (existingResults.length >= maxAttempts) {
+        if (submittedAttempts >= maxAttempts) {
             return new NextResponse("Maximum attempts reached for this quiz", { status: 400 });
         }
 
-        // Calculate score
-        let totalScore = 0;
-        let totalPoints = 0;
-        const quizAnswers = [];
-
-        for (const question of quiz.questions) {
-            totalPoints += question.points;
-            const studentAnswer = answers.find((a: any) => a.questionId === question.id)?.answer || "";
-            
-            let isCorrect = false;
-            let pointsEarned = 0;
-
-            if (question.type === "MULTIPLE_CHOICE") {
-                // Parse options to get the correct answer format
-                const options = parseQuizOptions(question.options);
-                const correctAnswer = question.correctAnswer.trim();
-                
-                // Check if student answer matches any of the correct options
-                isCorrect = options.some(option => 
-                    option.trim() === correctAnswer && 
-                    option.trim() === studentAnswer.trim()
-                );
-            } else if (question.type === "TRUE_FALSE") {
-                isCorrect = studentAnswer.toLowerCase() === question.correctAnswer.toLowerCase();
-            } else if (question.type === "SHORT_ANSWER") {
-                // For short answer, do a case-insensitive comparison
-                isCorrect = studentAnswer.trim().toLowerCase() === question.correctAnswer.trim().toLowerCase();
-            }
-
-            if (isCorrect) {
-                pointsEarned = question.points;
-                totalScore += question.points;
-            }
-
-            quizAnswers.push({
-                questionId: question.id,
-                studentAnswer,
-                correctAnswer: question.correctAnswer,
-                isCorrect,
-                pointsEarned
-            });
-        }
-
-        const percentage = totalPoints > 0 ? (totalScore / totalPoints) * 100 : 0;
-
-        await db.quizAttempt.upsert({
+        // The attempt is started by the quiz GET route, which also fixes its deadline
+        const attempt = await db.quizAttempt.findUnique({
             where: {
                 studentId_quizId: {
                     studentId: userId,
                     quizId: resolvedParams.quizId
                 }
-            },
-            update: {
-                completedAt: new Date()
-            },
-            create: {
-                studentId: userId,
-                quizId: resolvedParams.quizId,
-                completedAt: new Date()
             }
         });
 
-        // Create quiz result
-        const quizResult = await db.quizResult.create({
-            data: {
-                studentId: userId,
-                quizId: resolvedParams.quizId,
-                score: totalScore,
-                totalPoints,
-                percentage,
-                attemptNumber: currentAttemptNumber,
-                answers: {
-                    create: quizAnswers
-                }
-            },
-            include: {
-                answers: {
-                    include: {
-                        question: true
-                    }
-                }
-            }
-        });
+        if (!attempt || attempt.completedAt) {
+            return new NextResponse("No quiz attempt in progress", { status: 400 });
+        }
+
+        // Submissions after the deadline (plus grace period) are ignored, the last autosaved draft is graded instead
+        if (isAttemptExpired(attempt.expiresAt)) {
+            await finalizeQuizAttempt(userId, resolvedParams.quizId);
+            return NextResponse.json(
+                { error: "انتهى وقت الاختبار وتم تصحيح آخر إجابات محفوظة", isExpired: true },
+                { status: 400 }
+            );
+        }
+
+        const quizResult = await finalizeQuizAttempt(
+            userId,
+            resolvedParams.quizId,
+            Array.isArray(answers) ? normalizeSubmittedAnswers(answers) : undefined
+        );
+
+        if (!quizResult) {
+            return new NextResponse("No quiz attempt in progress", { status: 400 });
+        }
 
         return NextResponse.json({
             ...quizResult,
-            answers: quizResult.answers.map(answer => ({
+            answers: arrangeAnswersAsShown(quizResult.answers, quizResult.questionOrder, quizResult.optionOrder).map(answer => ({
                 ...answer,
                 question: {
                     ...answer.question,
@@ -37,6 +37,7 @@ export async function GET(
                 purchases: {
                     where: {
                         userId,
+                        status: "ACTIVE",
                     },
                 },
             },
@@ -139,12 +140,41 @@ export async function PATCH(
 
         // Ensure price is 0 (not null) when course is free
         const updateData: any = { ...values };
-        if (updateData.price === null || updateData.price === undefined || updateData.price === '') {
-            // If price is explicitly set to null/undefined/empty, set to 0 for free courses
-            updateData.price = 0;
-        } else if (typeof updateData.price === 'number' && updateData.price < 0) {
-            // Ensure price is not negative
-            updateData.price = 0;
+        // Only touch the price when it is part of the update
+        if ("price" in updateData) {
+            if (updateData.price === null || updateData.price === undefined || updateData.price === '') {
+                // If price is explicitly set to null/undefined/empty, set to 0 for free courses
+                updateData.price = 0;
+            } else if (typeof updateData.price === 'number' && updateData.price < 0) {
+                // Ensure price is not negative
+                updateData.price = 0;
+            }
+        }
+
+        if ("accessDays" in updateData || "accessEndsAt" in updateData) {
+            const accessDays = updateData.accessDays ?? null;
+            const accessEndsAt = updateData.accessEndsAt ?? null;
+
+            if (accessDays !== null && (!Number.isInteger(accessDays) || accessDays <= 0)) {
+                return new NextResponse("Access days must be a positive whole number", { status: 400 });
+            }
+
+            if (accessEndsAt !== null && isNaN(new Date(accessEndsAt).getTime())) {
+                return new NextResponse("Invalid access end date", { status: 400 });
+            }
+
+            // A course has either a fixed end date or a number of days after purchase
+            if (accessDays !== null && accessEndsAt !== null) {
+                return new NextResponse("Set either an access end date or a number of access days, not both", { status: 400 });
+            }
+
+            updateData.accessDays = accessDays;
+            updateData.accessEndsAt = accessEndsAt === null ? null : new Date(accessEndsAt);
+        }
+
+        if ("watermarkOpacity" in updateData &&
+            (!Number.isInteger(updateData.watermarkOpacity) || updateData.watermarkOpacity < 5 || updateData.watermarkOpacity > 100)) {
+            return new NextResponse("Watermark opacity must be a percentage between 5 and 100", { status: 400 });
         }
 
         const course = await db.course.update({
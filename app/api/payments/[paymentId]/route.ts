@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { fromPiastres } from "@/lib/ledger";
+
+// GET - Status of an online payment, polled by the payment status pages
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ paymentId: string }> }
+) {
+  try {
+    const { userId, user } = await auth();
+    const resolvedParams = await params;
+
+    if (!userId) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const isStaff = user?.role === "ADMIN" || user?.role === "TEACHER";
+
+    const payment = await db.payment.findUnique({
+      where: {
+        id: resolvedParams.paymentId,
+      },
+    });
+
+    if (payment && (payment.userId === userId || isStaff)) {
+      return NextResponse.json({
+        id: payment.id,
+        status: payment.status,
+        amount: fromPiastres(payment.amount),
+        method: payment.method,
+        provider: payment.provider,
+        createdAt: payment.createdAt,
+        completedAt: payment.completedAt,
+      });
+    }
+
+    // Course purchases are paid from the balance, their status page looks them up here too
+    const purchase = await db.purchase.findUnique({
+      where: {
+        id: resolvedParams.paymentId,
+      },
+    });
+
+    if (!purchase || (purchase.userId !== userId && !isStaff)) {
+      return new NextResponse("Payment not found", { status: 404 });
+    }
+
+    return NextResponse.json({
+      status: purchase.status === "ACTIVE" ? "COMPLETED" : purchase.status,
+      purchase: {
+        status: purchase.status,
+      },
+    });
+  } catch (error) {
+    console.error("[PAYMENT_GET]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
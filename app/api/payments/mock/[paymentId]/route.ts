@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { getPaymentProvider } from "@/lib/payments";
+import { buildMockWebhook, MockPaymentOutcome } from "@/lib/payments/mock-provider";
+
+const OUTCOMES: MockPaymentOutcome[] = ["PAID", "FAILED", "CANCELED"];
+
+// POST - Finish a mock checkout: sends the signed webhook the mock gateway would send
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ paymentId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    const resolvedParams = await params;
+
+    if (!userId) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    if (getPaymentProvider()?.name !== "mock") {
+      return new NextResponse("Mock payments are disabled", { status: 404 });
+    }
+
+    const { outcome } = await req.json();
+
+    if (!OUTCOMES.includes(outcome)) {
+      return new NextResponse("Invalid outcome", { status: 400 });
+    }
+
+    const payment = await db.payment.findUnique({
+      where: {
+        id: resolvedParams.paymentId,
+      },
+    });
+
+    if (!payment || payment.userId !== userId || payment.provider !== "mock" || !payment.providerReference) {
+      return new NextResponse("Payment not found", { status: 404 });
+    }
+
+    const webhook = buildMockWebhook(payment.providerReference, outcome, payment.amount);
+    const response = await fetch(new URL("/api/payments/webhook/mock", req.url), {
+      method: "POST",
+      headers: webhook.headers,
+      body: webhook.payload,
+    });
+
+    if (!response.ok) {
+      return new NextResponse("Webhook delivery failed", { status: 502 });
+    }
+
+    return NextResponse.json(await response.json());
+  } catch (error) {
+    console.error("[PAYMENT_MOCK]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import {
+  getPaymentProvider,
+  isPaymentMethod,
+  MAX_TOP_UP_AMOUNT,
+  MIN_TOP_UP_AMOUNT,
+} from "@/lib/payments";
+import { toPiastres } from "@/lib/ledger";
+
+// POST - Start an online wallet top-up and return the provider's checkout URL
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const provider = getPaymentProvider();
+
+    if (!provider) {
+      return new NextResponse("الدفع الإلكتروني غير متاح حالياً", { status: 503 });
+    }
+
+    const { amount, method } = await req.json();
+
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount < MIN_TOP_UP_AMOUNT || amount > MAX_TOP_UP_AMOUNT) {
+      return new NextResponse(`يجب أن يكون المبلغ بين ${MIN_TOP_UP_AMOUNT} و ${MAX_TOP_UP_AMOUNT} جنيه`, { status: 400 });
+    }
+
+    if (!isPaymentMethod(method) || !provider.methods.includes(method)) {
+      return new NextResponse("طريقة الدفع غير مدعومة", { status: 400 });
+    }
+
+    const user = await db.user.findUnique({
+      where: {
+        id: userId,
+      },
+      select: {
+        fullName: true,
+        phoneNumber: true,
+      },
+    });
+
+    if (!user) {
+      return new NextResponse("User not found", { status: 404 });
+    }
+
+    const payment = await db.payment.create({
+      data: {
+        userId,
+        amount: toPiastres(amount),
+        method,
+        provider: provider.name,
+      },
+    });
+
+    try {
+      const returnUrl = new URL(`/dashboard/balance/payment-status?paymentId=${payment.id}`, req.url).toString();
+      const checkout = await provider.createCheckout({
+        paymentId: payment.id,
+        amountCents: payment.amount,
+        method,
+        customer: user,
+        returnUrl,
+      });
+
+      await db.payment.update({
+        where: {
+          id: payment.id,
+        },
+        data: {
+          providerReference: checkout.reference,
+        },
+      });
+
+      return NextResponse.json({
+        paymentId: payment.id,
+        checkoutUrl: checkout.checkoutUrl,
+      });
+    } catch (error) {
+      await db.payment.update({
+        where: {
+          id: payment.id,
+        },
+        data: {
+          status: "FAILED",
+          failureReason: error instanceof Error ? error.message : "Checkout could not be created",
+        },
+      });
+      throw error;
+    }
+  } catch (error) {
+    console.error("[PAYMENTS_POST]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
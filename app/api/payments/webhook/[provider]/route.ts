@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { applyPaymentWebhook, getPaymentProvider } from "@/lib/payments";
+
+// POST - Payment notifications from a provider, verified with the provider's signature
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const resolvedParams = await params;
+    const provider = getPaymentProvider(resolvedParams.provider);
+
+    if (!provider) {
+      return new NextResponse("Unknown payment provider", { status: 404 });
+    }
+
+    // The signature covers the exact bytes sent, so the body is read as text before parsing
+    const rawBody = await req.text();
+    const event = provider.parseWebhook(rawBody, req.headers);
+
+    if (!event) {
+      console.log("[PAYMENT_WEBHOOK] Rejected webhook with an invalid signature from", provider.name);
+      return new NextResponse("Invalid signature", { status: 401 });
+    }
+
+    const result = await applyPaymentWebhook(provider.name, event);
+
+    if (!result) {
+      return new NextResponse("Payment not found", { status: 404 });
+    }
+
+    return NextResponse.json({
+      received: true,
+      status: result.payment.status,
+      credited: result.credited,
+    });
+  } catch (error) {
+    console.error("[PAYMENT_WEBHOOK]", error);
+    return new NextResponse("Internal Error", { status: 500 });
+  }
+}
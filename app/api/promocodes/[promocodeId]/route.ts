@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { findStudentIdsByPhone, PricingError } from "@/lib/pricing";
 
 // GET single promocode
 export async function GET(
@@ -42,6 +43,15 @@ export async function GET(
                         },
                     },
                 },
+                students: {
+                    include: {
+                        user: {
+                            select: {
+                                phoneNumber: true,
+                            },
+                        },
+                    },
+                },
             },
         });
 
@@ -53,6 +63,7 @@ export async function GET(
         const transformedPromocode = {
             ...promocode,
             courseIds: promocode.courses.map((pc: any) => pc.courseId),
+            studentPhoneNumbers: promocode.students.map((ps: { user: { phoneNumber: string } }) => ps.user.phoneNumber),
         };
 
         return NextResponse.json(transformedPromocode);
@@ -93,6 +104,11 @@ export async function PATCH(
             validUntil,
             description,
             courseIds, // Array of course IDs (empty array means all courses)
+            perUserLimit,
+            firstPurchaseOnly,
+            grade,
+            division,
+            studentPhoneNumbers, // Phone numbers of the students allowed to use the code (empty array means all students)
         } = body;
 
         // Check if promocode exists
@@ -146,6 +162,10 @@ export async function PATCH(
         if (validFrom !== undefined) updateData.validFrom = validFrom ? new Date(validFrom) : null;
         if (validUntil !== undefined) updateData.validUntil = validUntil ? new Date(validUntil) : null;
         if (description !== undefined) updateData.description = description || null;
+        if (perUserLimit !== undefined) updateData.perUserLimit = perUserLimit || null;
+        if (firstPurchaseOnly !== undefined) updateData.firstPurchaseOnly = firstPurchaseOnly === true;
+        if (grade !== undefined) updateData.grade = grade || null;
+        if (division !== undefined) updateData.division = division || null;
 
         // Handle course associations if courseIds is provided
         if (courseIds !== undefined) {
@@ -164,6 +184,23 @@ export async function PATCH(
             }
         }
 
+        // Handle student restrictions if studentPhoneNumbers is provided
+        if (studentPhoneNumbers !== undefined) {
+            const studentIds = await findStudentIdsByPhone(studentPhoneNumbers);
+
+            await db.promoCodeStudent.deleteMany({
+                where: { promocodeId: resolvedParams.promocodeId },
+            });
+
+            if (studentIds.length > 0) {
+                updateData.students = {
+                    create: studentIds.map((userId: string) => ({
+                        userId,
+                    })),
+                };
+            }
+        }
+
         const promocode = await db.promoCode.update({
             where: { id: resolvedParams.promocodeId },
             data: updateData,
@@ -178,6 +215,15 @@ export async function PATCH(
                         },
                     },
                 },
+                students: {
+                    include: {
+                        user: {
+                            select: {
+                                phoneNumber: true,
+                            },
+                        },
+                    },
+                },
             },
         });
 
@@ -185,10 +231,17 @@ export async function PATCH(
         const transformedPromocode = {
             ...promocode,
             courseIds: promocode.courses.map((pc: any) => pc.courseId),
+            studentPhoneNumbers: promocode.students.map((ps: { user: { phoneNumber: string } }) => ps.user.phoneNumber),
         };
 
         return NextResponse.json(transformedPromocode);
     } catch (error) {
+        if (error instanceof PricingError) {
+            return new NextResponse(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { "Content-Type": "application/json" } }
+            );
+        }
         console.error("[PROMOCODE_PATCH]", error);
         if (error instanceof Error) {
             return new NextResponse(
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { findStudentIdsByPhone, PricingError } from "@/lib/pricing";
 
 // GET all promocodes - for teachers and admins
 export async function GET(req: NextRequest) {
@@ -37,6 +38,15 @@ export async function GET(req: NextRequest) {
                         },
                     },
                 },
+                students: {
+                    include: {
+                        user: {
+                            select: {
+                                phoneNumber: true,
+                            },
+                        },
+                    },
+                },
             },
             orderBy: {
                 createdAt: "desc",
@@ -47,6 +57,7 @@ export async function GET(req: NextRequest) {
         const transformedPromocodes = promocodes.map((promo: any) => ({
             ...promo,
             courseIds: promo.courses.map((pc: any) => pc.courseId),
+            studentPhoneNumbers: promo.students.map((ps: { user: { phoneNumber: string } }) => ps.user.phoneNumber),
         }));
 
         return NextResponse.json(transformedPromocodes);
@@ -91,6 +102,11 @@ export async function POST(req: NextRequest) {
             validUntil,
             description,
             courseIds, // Array of course IDs (empty array means all courses)
+            perUserLimit,
+            firstPurchaseOnly,
+            grade,
+            division,
+            studentPhoneNumbers, // Phone numbers of the students allowed to use the code (empty array means all students)
         } = body;
 
         // Validate required fields
@@ -126,6 +142,8 @@ export async function POST(req: NextRequest) {
             );
         }
 
+        const studentIds = await findStudentIdsByPhone(studentPhoneNumbers || []);
+
         // Check if code already exists
         const existingCode = await db.promoCode.findUnique({
             where: { code: code.toUpperCase().trim() },
@@ -151,11 +169,20 @@ export async function POST(req: NextRequest) {
                 validFrom: validFrom ? new Date(validFrom) : null,
                 validUntil: validUntil ? new Date(validUntil) : null,
                 description: description || null,
+                perUserLimit: perUserLimit || null,
+                firstPurchaseOnly: firstPurchaseOnly === true,
+                grade: grade || null,
+                division: division || null,
                 courses: courseIds && courseIds.length > 0 ? {
                     create: courseIds.map((courseId: string) => ({
                         courseId,
                     })),
                 } : undefined,
+                students: studentIds.length > 0 ? {
+                    create: studentIds.map((userId: string) => ({
+                        userId,
+                    })),
+                } : undefined,
             },
             include: {
                 courses: {
@@ -168,6 +195,15 @@ export async function POST(req: NextRequest) {
                         },
                     },
                 },
+                students: {
+                    include: {
+                        user: {
+                            select: {
+                                phoneNumber: true,
+                            },
+                        },
+                    },
+                },
             },
         });
 
@@ -175,10 +211,17 @@ export async function POST(req: NextRequest) {
         const transformedPromocode = {
             ...promocode,
             courseIds: promocode.courses.map(pc => pc.courseId),
+            studentPhoneNumbers: promocode.students.map(ps => ps.user.phoneNumber),
         };
 
         return NextResponse.json(transformedPromocode);
     } catch (error) {
+        if (error instanceof PricingError) {
+            return new NextResponse(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { "Content-Type": "application/json" } }
+            );
+        }
         console.error("[PROMOCODES_POST]", error);
         if (error instanceof Error) {
             return new NextResponse(
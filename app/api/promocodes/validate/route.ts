@@ -1,113 +1,46 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { priceCourse, PricingError } from "@/lib/pricing";
 
 // POST validate promocode
 export async function POST(req: NextRequest) {
     try {
         const { userId } = await auth();
         const body = await req.json();
-        const { code, coursePrice, courseId } = body; // courseId is now required for validation
+        const { code, courseId } = body;
 
         if (!userId) {
             return new NextResponse("Unauthorized", { status: 401 });
         }
 
-        if (!code || !coursePrice || !courseId) {
+        if (!code || !courseId) {
             return new NextResponse(
                 JSON.stringify({ error: "حدث خطأ أثناء التحقق من الكوبون. يرجى المحاولة مرة أخرى" }),
                 { status: 400, headers: { "Content-Type": "application/json" } }
             );
         }
 
-        // Find promocode with course associations
-        const promocode = await db.promoCode.findUnique({
-            where: { code: code.toUpperCase().trim() },
-            include: {
-                courses: true,
+        // The discount is worked out from the stored price, the same way the purchase charges it
+        const course = await db.course.findUnique({
+            where: {
+                id: courseId,
+                isPublished: true,
+            },
+            select: {
+                price: true,
             },
         });
 
-        if (!promocode) {
+        if (!course) {
             return new NextResponse(
-                JSON.stringify({ error: "رمز الكوبون غير صحيح" }),
+                JSON.stringify({ error: "الكورس غير متاح" }),
                 { status: 404, headers: { "Content-Type": "application/json" } }
             );
         }
 
-        // Check if promocode is active
-        if (!promocode.isActive) {
-            return new NextResponse(
-                JSON.stringify({ error: "هذا الكوبون غير نشط" }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-            );
-        }
-
-        // Check validity dates
-        const now = new Date();
-        if (promocode.validFrom && new Date(promocode.validFrom) > now) {
-            return new NextResponse(
-                JSON.stringify({ error: "هذا الكوبون لم يبدأ بعد" }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-            );
-        }
-
-        if (promocode.validUntil && new Date(promocode.validUntil) < now) {
-            return new NextResponse(
-                JSON.stringify({ error: "هذا الكوبون منتهي الصلاحية" }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-            );
-        }
-
-        // Check usage limit
-        if (promocode.usageLimit && promocode.usedCount >= promocode.usageLimit) {
-            return new NextResponse(
-                JSON.stringify({ error: "تم استنفاذ عدد مرات استخدام هذا الكوبون" }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-            );
-        }
-
-        // Check if promocode applies to this course
-        // If promocode has courses associated, it only applies to those courses
-        // If no courses are associated, it applies to all courses
-        if (promocode.courses.length > 0) {
-            const appliesToCourse = promocode.courses.some((pc: any) => pc.courseId === courseId);
-            if (!appliesToCourse) {
-                return new NextResponse(
-                    JSON.stringify({ error: "هذا الكوبون لا ينطبق على هذا الكورس" }),
-                    { status: 400, headers: { "Content-Type": "application/json" } }
-                );
-            }
-        }
-
-        // Check minimum purchase
-        if (promocode.minPurchase && coursePrice < promocode.minPurchase) {
-            return new NextResponse(
-                JSON.stringify({ 
-                    error: `يجب أن يكون سعر الشراء ${promocode.minPurchase} جنيه على الأقل` 
-                }),
-                { status: 400, headers: { "Content-Type": "application/json" } }
-            );
-        }
-
-        // Calculate discount
-        let discountAmount = 0;
-        if (promocode.discountType === "PERCENTAGE") {
-            discountAmount = (coursePrice * promocode.discountValue) / 100;
-            // Apply max discount limit if set
-            if (promocode.maxDiscount && discountAmount > promocode.maxDiscount) {
-                discountAmount = promocode.maxDiscount;
-            }
-        } else {
-            // FIXED discount
-            discountAmount = promocode.discountValue;
-            // Can't discount more than the course price
-            if (discountAmount > coursePrice) {
-                discountAmount = coursePrice;
-            }
-        }
-
-        const finalPrice = Math.max(0, coursePrice - discountAmount);
+        const quote = await priceCourse({ userId, courseId, price: course.price || 0, promocode: code });
+        const promocode = quote.promocode!;
 
         return NextResponse.json({
             valid: true,
@@ -118,11 +51,17 @@ export async function POST(req: NextRequest) {
                 discountValue: promocode.discountValue,
                 description: promocode.description,
             },
-            discountAmount: discountAmount.toFixed(2),
-            originalPrice: coursePrice.toFixed(2),
-            finalPrice: finalPrice.toFixed(2),
+            discountAmount: quote.discountAmount.toFixed(2),
+            originalPrice: quote.originalPrice.toFixed(2),
+            finalPrice: quote.finalPrice.toFixed(2),
         });
     } catch (error) {
+        if (error instanceof PricingError) {
+            return new NextResponse(
+                JSON.stringify({ error: error.message }),
+                { status: error.status, headers: { "Content-Type": "application/json" } }
+            );
+        }
         console.error("[PROMOCODE_VALIDATE]", error);
         if (error instanceof Error) {
             return new NextResponse(
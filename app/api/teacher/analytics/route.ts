@@ -49,6 +49,9 @@ export async function GET() {
       where: courseWhereClause,
       include: {
         purchases: {
+          where: {
+            status: "ACTIVE",
+          },
           include: {
             user: true,
           },
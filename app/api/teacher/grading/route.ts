@@ -0,0 +1,85 @@
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { finalizeExpiredQuizAttempts } from "@/lib/quiz-attempts";
+import { MANUALLY_GRADED_TYPES } from "@/lib/quiz";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+// GET - Answers waiting for a teacher to grade them, or the already graded ones with ?status=graded
+export async function GET(req: Request) {
+    try {
+        const { userId, user } = await auth();
+        const { searchParams } = new URL(req.url);
+        const quizId = searchParams.get("quizId");
+        const isGraded = searchParams.get("status") === "graded";
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        await finalizeExpiredQuizAttempts(quizId);
+
+        const answers = await db.quizAnswer.findMany({
+            where: {
+                gradedAt: isGraded ? { not: null } : null,
+                question: {
+                    type: {
+                        in: [...MANUALLY_GRADED_TYPES]
+                    }
+                },
+                ...(quizId && {
+                    quizResult: {
+                        quizId
+                    }
+                })
+            },
+            include: {
+                question: {
+                    select: {
+                        text: true,
+                        type: true,
+                        points: true,
+                        imageUrl: true
+                    }
+                },
+                quizResult: {
+                    select: {
+                        id: true,
+                        submittedAt: true,
+                        attemptNumber: true,
+                        user: {
+                            select: {
+                                fullName: true,
+                                phoneNumber: true
+                            }
+                        },
+                        quiz: {
+                            select: {
+                                id: true,
+                                title: true,
+                                course: {
+                                    select: {
+                                        title: true
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            },
+            // Oldest submissions first so nobody waits indefinitely, most recently graded first in the history
+            orderBy: isGraded ? { gradedAt: "desc" } : { createdAt: "asc" },
+            take: 200
+        });
+
+        return NextResponse.json(answers);
+    } catch (error) {
+        console.log("[GRADING_QUEUE_GET]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,135 @@
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { parseQuizOptions } from "@/lib/utils";
+import { isQuestionDifficulty, toStoredQuestion, validateQuestionInput } from "@/lib/quiz";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+const findBankQuestion = (questionId: string) => {
+    return db.question.findFirst({
+        where: {
+            id: questionId,
+            quizId: null
+        }
+    });
+};
+
+// PATCH - Update a question bank entry and its tags
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ questionId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const body = await req.json();
+        const { chapterId, topic, difficulty } = body;
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const existingQuestion = await findBankQuestion(resolvedParams.questionId);
+
+        if (!existingQuestion) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 });
+        }
+
+        const validationError = validateQuestionInput(body);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        if (difficulty && !isQuestionDifficulty(difficulty)) {
+            return NextResponse.json({ error: "Invalid difficulty" }, { status: 400 });
+        }
+
+        if (chapterId) {
+            const chapter = await db.chapter.findFirst({
+                where: {
+                    id: chapterId,
+                    courseId: existingQuestion.courseId ?? undefined
+                }
+            });
+
+            if (!chapter) {
+                return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+            }
+        }
+
+        const question = await db.question.update({
+            where: {
+                id: resolvedParams.questionId
+            },
+            data: {
+                ...toStoredQuestion(body),
+                chapterId: chapterId || null,
+                topic: typeof topic === "string" && topic.trim() ? topic.trim() : null,
+                difficulty: difficulty || null
+            }
+        });
+
+        return NextResponse.json({
+            ...question,
+            options: parseQuizOptions(question.options)
+        });
+    } catch (error) {
+        console.log("[QUESTION_BANK_PATCH]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a question from the bank
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ questionId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const question = await findBankQuestion(resolvedParams.questionId);
+
+        if (!question) {
+            return NextResponse.json({ error: "Question not found" }, { status: 404 });
+        }
+
+        // Deleting would cascade to the stored answers of past quiz results
+        const answerCount = await db.quizAnswer.count({
+            where: {
+                questionId: question.id
+            }
+        });
+
+        if (answerCount > 0) {
+            return NextResponse.json(
+                { error: "Question has already been answered by students and can't be deleted" },
+                { status: 409 }
+            );
+        }
+
+        await db.question.delete({
+            where: {
+                id: question.id
+            }
+        });
+
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.log("[QUESTION_BANK_DELETE]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,141 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { parseQuizOptions } from "@/lib/utils";
+import { isQuestionDifficulty, toStoredQuestion, validateQuestionInput } from "@/lib/quiz";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+type BankQuestion = Prisma.QuestionGetPayload<{
+    include: {
+        course: { select: { id: true; title: true } };
+        chapter: { select: { id: true; title: true } };
+    };
+}>;
+
+// GET - List question bank entries, optionally filtered by tags
+export async function GET(req: Request) {
+    try {
+        const { userId, user } = await auth();
+        const { searchParams } = new URL(req.url);
+        const courseId = searchParams.get("courseId");
+        const chapterId = searchParams.get("chapterId");
+        const topic = searchParams.get("topic");
+        const difficulty = searchParams.get("difficulty");
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const questions = await db.question.findMany({
+            where: {
+                quizId: null,
+                courseId: courseId ? courseId : { not: null },
+                ...(chapterId && { chapterId }),
+                ...(topic && { topic }),
+                ...(difficulty && { difficulty })
+            },
+            include: {
+                course: {
+                    select: {
+                        id: true,
+                        title: true
+                    }
+                },
+                chapter: {
+                    select: {
+                        id: true,
+                        title: true
+                    }
+                }
+            },
+            orderBy: {
+                createdAt: "desc"
+            }
+        });
+
+        return NextResponse.json(questions.map((question: BankQuestion) => ({
+            ...question,
+            options: parseQuizOptions(question.options)
+        })));
+    } catch (error) {
+        console.log("[QUESTION_BANK_GET]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
+
+// POST - Add a question to the bank
+export async function POST(req: Request) {
+    try {
+        const { userId, user } = await auth();
+        const body = await req.json();
+        const { courseId, chapterId, topic, difficulty } = body;
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        if (!courseId) {
+            return NextResponse.json({ error: "Course ID is required" }, { status: 400 });
+        }
+
+        const validationError = validateQuestionInput(body);
+        if (validationError) {
+            return NextResponse.json({ error: validationError }, { status: 400 });
+        }
+
+        if (difficulty && !isQuestionDifficulty(difficulty)) {
+            return NextResponse.json({ error: "Invalid difficulty" }, { status: 400 });
+        }
+
+        const course = await db.course.findUnique({
+            where: {
+                id: courseId
+            }
+        });
+
+        if (!course) {
+            return NextResponse.json({ error: "Course not found" }, { status: 404 });
+        }
+
+        if (chapterId) {
+            const chapter = await db.chapter.findFirst({
+                where: {
+                    id: chapterId,
+                    courseId
+                }
+            });
+
+            if (!chapter) {
+                return NextResponse.json({ error: "Chapter not found" }, { status: 404 });
+            }
+        }
+
+        const question = await db.question.create({
+            data: {
+                ...toStoredQuestion(body),
+                courseId,
+                chapterId: chapterId || null,
+                topic: typeof topic === "string" && topic.trim() ? topic.trim() : null,
+                difficulty: difficulty || null
+            }
+        });
+
+        return NextResponse.json({
+            ...question,
+            options: parseQuizOptions(question.options)
+        });
+    } catch (error) {
+        console.log("[QUESTION_BANK_POST]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -0,0 +1,74 @@
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { parseAwardedPoints } from "@/lib/quiz";
+import { gradeAnswerManually } from "@/lib/quiz-grading";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+// PATCH - Override the auto-graded points of an answer and recompute the result's score
+export async function PATCH(
+    req: Request,
+    { params }: { params: Promise<{ resultId: string; answerId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const { pointsEarned, comment } = await req.json();
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const answer = await db.quizAnswer.findFirst({
+            where: {
+                id: resolvedParams.answerId,
+                quizResultId: resolvedParams.resultId
+            },
+            include: {
+                question: {
+                    select: {
+                        points: true
+                    }
+                }
+            }
+        });
+
+        if (!answer) {
+            return NextResponse.json({ error: "Answer not found" }, { status: 404 });
+        }
+
+        const points = parseAwardedPoints(pointsEarned, answer.question.points);
+        if (points === null) {
+            return NextResponse.json(
+                { error: `Points must be between 0 and ${answer.question.points}` },
+                { status: 400 }
+            );
+        }
+
+        if (comment !== undefined && comment !== null && typeof comment !== "string") {
+            return NextResponse.json({ error: "Comment must be text" }, { status: 400 });
+        }
+
+        const { answer: gradedAnswer, quizResult } = await gradeAnswerManually({
+            answerId: answer.id,
+            pointsEarned: points,
+            maxPoints: answer.question.points,
+            comment: comment?.trim() || null,
+            gradedById: userId
+        });
+
+        return NextResponse.json({
+            answer: gradedAnswer,
+            score: quizResult?.score,
+            percentage: quizResult?.percentage
+        });
+    } catch (error) {
+        console.log("[QUIZ_ANSWER_GRADE_PATCH]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
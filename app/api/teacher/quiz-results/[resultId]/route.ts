@@ -1,6 +1,7 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
+import { arrangeAnswersAsShown } from "@/lib/quiz";
 
 export async function GET(
     req: Request,
@@ -34,6 +35,7 @@ export async function GET(
                 quiz: {
                     select: {
                         title: true,
+                        passingPercentage: true,
                         course: {
                             select: {
                                 id: true,
@@ -51,6 +53,10 @@ export async function GET(
                                 points: true,
                                 options: true,
                                 correctAnswer: true,
+                                correctOptionIndex: true,
+                                tolerance: true,
+                                toleranceType: true,
+                                imageUrl: true,
                                 position: true
                             }
                         }
@@ -68,7 +74,11 @@ export async function GET(
             return new NextResponse("Quiz result not found", { status: 404 });
         }
 
-        return NextResponse.json(quizResult);
+        // Show the teacher exactly what the student saw during the attempt
+        return NextResponse.json({
+            ...quizResult,
+            answers: arrangeAnswersAsShown(quizResult.answers, quizResult.questionOrder, quizResult.optionOrder)
+        });
     } catch (error) {
         console.log("[TEACHER_QUIZ_RESULT_GET]", error);
         return new NextResponse("Internal Error", { status: 500 });
@@ -1,6 +1,7 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
+import { finalizeExpiredQuizAttempts } from "@/lib/quiz-attempts";
 
 const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
 
@@ -22,6 +23,8 @@ export async function GET(req: Request) {
             return new NextResponse("Forbidden", { status: 403 });
         }
 
+        await finalizeExpiredQuizAttempts(quizId);
+
         // For TEACHER role, show all quiz results (same as ADMIN)
         // This allows teachers to see all student grades regardless of course ownership
         // If you want to restrict to only teacher's courses, you can change this logic
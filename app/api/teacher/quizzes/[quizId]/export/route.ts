@@ -0,0 +1,67 @@
+import { db } from "@/lib/db";
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { exportQuizQuestions, isQuizTransferFormat, QuizTransferFormat } from "@/lib/quiz-transfer";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+const FILE_TYPES: Record<QuizTransferFormat, { extension: string; contentType: string }> = {
+    json: { extension: "json", contentType: "application/json; charset=utf-8" },
+    csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+    gift: { extension: "gift.txt", contentType: "text/plain; charset=utf-8" }
+};
+
+// GET - Download the quiz's questions as ?format=json|csv|gift
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ quizId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const { searchParams } = new URL(req.url);
+        const format = searchParams.get("format") || "json";
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        if (!isQuizTransferFormat(format)) {
+            return NextResponse.json({ error: "Format must be json, csv or gift" }, { status: 400 });
+        }
+
+        const quiz = await db.quiz.findUnique({
+            where: {
+                id: resolvedParams.quizId
+            },
+            include: {
+                questions: {
+                    orderBy: {
+                        position: 'asc'
+                    }
+                }
+            }
+        });
+
+        if (!quiz) {
+            return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+        }
+
+        const { extension, contentType } = FILE_TYPES[format];
+        const fileName = `${quiz.title.trim() || "quiz"}.${extension}`;
+
+        return new NextResponse(exportQuizQuestions(quiz, format), {
+            headers: {
+                "Content-Type": contentType,
+                "Content-Disposition": `attachment; filename="quiz.${extension}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+            }
+        });
+    } catch (error) {
+        console.log("[QUIZ_EXPORT_GET]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
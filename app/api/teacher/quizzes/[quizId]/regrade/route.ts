@@ -0,0 +1,87 @@
+import { auth } from "@/lib/auth";
+import { NextResponse } from "next/server";
+import { applyQuizRegrade, planQuizRegrade, QuizRegradePlan } from "@/lib/quiz-grading";
+
+const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
+
+// The answer updates are internal to the plan, the teacher only sees the score changes
+const toRegradeDiff = (plan: QuizRegradePlan) => ({
+    passingPercentage: plan.passingPercentage,
+    summary: plan.summary,
+    students: plan.students.map(student => ({
+        ...student,
+        results: student.results.map(result => ({
+            resultId: result.resultId,
+            attemptNumber: result.attemptNumber,
+            submittedAt: result.submittedAt,
+            before: result.before,
+            after: result.after,
+            changedAnswers: result.changedAnswers
+        }))
+    }))
+});
+
+// GET - Preview the before/after scores of a regrade, optionally limited to ?questionId
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ quizId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const { searchParams } = new URL(req.url);
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        const plan = await planQuizRegrade(resolvedParams.quizId, searchParams.get("questionId"));
+
+        if (!plan) {
+            return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+        }
+
+        return NextResponse.json(toRegradeDiff(plan));
+    } catch (error) {
+        console.log("[QUIZ_REGRADE_GET]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
+
+// POST - Regrade every stored result of the quiz (or of one question) and save the new scores
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ quizId: string }> }
+) {
+    try {
+        const { userId, user } = await auth();
+        const resolvedParams = await params;
+        const { questionId } = await req.json().catch(() => ({}));
+
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (!isStaff(user?.role)) {
+            return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+        }
+
+        // The plan is rebuilt instead of trusting the preview, results may have changed since
+        const plan = await planQuizRegrade(resolvedParams.quizId, typeof questionId === "string" ? questionId : null);
+
+        if (!plan) {
+            return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+        }
+
+        await applyQuizRegrade(plan);
+
+        return NextResponse.json(toRegradeDiff(plan));
+    } catch (error) {
+        console.log("[QUIZ_REGRADE_POST]", error);
+        return NextResponse.json({ error: "Internal Error" }, { status: 500 });
+    }
+}
@@ -1,7 +1,8 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
-import { parseQuizOptions, stringifyQuizOptions } from "@/lib/utils";
+import { parseQuizOptions } from "@/lib/utils";
+import { parseDrawRules, parsePassingPercentage, QuestionInput, toStoredQuestion, validateQuestionInput } from "@/lib/quiz";
 
 const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
 
@@ -37,6 +38,9 @@ export async function GET(
                         type: true,
                         options: true,
                         correctAnswer: true,
+                        correctOptionIndex: true,
+                        tolerance: true,
+                        toleranceType: true,
                         points: true,
                         imageUrl: true,
                         position: true
@@ -44,6 +48,11 @@ export async function GET(
                     orderBy: {
                         position: 'asc'
                     }
+                },
+                drawRules: {
+                    orderBy: {
+                        position: 'asc'
+                    }
                 }
             }
         });
@@ -83,7 +92,7 @@ export async function PATCH(
     try {
         const { userId, user } = await auth();
         const resolvedParams = await params;
-        const { title, description, questions, position, timer, courseId, maxAttempts } = await req.json();
+        const { title, description, questions, position, timer, courseId, maxAttempts, passingPercentage, drawRules, shuffleQuestions, shuffleOptions } = await req.json();
 
         if (!userId) {
             return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -110,50 +119,32 @@ export async function PATCH(
             return NextResponse.json({ error: "Title is required" }, { status: 400 });
         }
 
+        // Settings left out of the request keep the quiz's current values
+        const finalPassingPercentage = passingPercentage === undefined ? undefined : parsePassingPercentage(passingPercentage);
+        if (finalPassingPercentage === null) {
+            return NextResponse.json({ error: "Passing percentage must be between 0 and 100" }, { status: 400 });
+        }
+
+        const parsedDrawRules = parseDrawRules(drawRules);
+        if (parsedDrawRules.error) {
+            return NextResponse.json({ error: parsedDrawRules.error }, { status: 400 });
+        }
+
         // Handle position - use current position if not provided or invalid
         let quizPosition = position;
         if (!quizPosition || quizPosition <= 0) {
             quizPosition = currentQuiz.position;
         }
 
-        // Validate questions
-        if (!questions || questions.length === 0) {
+        // Validate questions - a quiz may consist only of questions drawn from the question bank
+        if (!Array.isArray(questions) || (questions.length === 0 && parsedDrawRules.rules.length === 0)) {
             return NextResponse.json({ error: "At least one question is required" }, { status: 400 });
         }
 
         for (let i = 0; i < questions.length; i++) {
-            const question = questions[i];
-            
-            if (!question.text || !question.text.trim()) {
-                return NextResponse.json({ error: `Question ${i + 1}: Text is required` }, { status: 400 });
-            }
-
-            if (question.type === "MULTIPLE_CHOICE") {
-                if (!question.options || question.options.length < 2) {
-                    return NextResponse.json({ error: `Question ${i + 1}: At least 2 options are required` }, { status: 400 });
-                }
-
-                const validOptions = question.options.filter((option: string) => option && option.trim() !== "");
-                if (validOptions.length < 2) {
-                    return NextResponse.json({ error: `Question ${i + 1}: At least 2 valid options are required` }, { status: 400 });
-                }
-
-                // For multiple choice, correctAnswer should be an index
-                if (typeof question.correctAnswer !== 'number' || question.correctAnswer < 0 || question.correctAnswer >= validOptions.length) {
-                    return NextResponse.json({ error: `Question ${i + 1}: Valid correct answer index is required` }, { status: 400 });
-                }
-            } else if (question.type === "TRUE_FALSE") {
-                if (!question.correctAnswer || (question.correctAnswer !== "true" && question.correctAnswer !== "false")) {
-                    return NextResponse.json({ error: `Question ${i + 1}: Correct answer must be "true" or "false"` }, { status: 400 });
-                }
-            } else if (question.type === "SHORT_ANSWER") {
-                if (!question.correctAnswer || !question.correctAnswer.toString().trim()) {
-                    return NextResponse.json({ error: `Question ${i + 1}: Correct answer is required` }, { status: 400 });
-                }
-            }
-
-            if (!question.points || question.points <= 0) {
-                return NextResponse.json({ error: `Question ${i + 1}: Points must be greater than 0` }, { status: 400 });
+            const validationError = validateQuestionInput(questions[i]);
+            if (validationError) {
+                return NextResponse.json({ error: `Question ${i + 1}: ${validationError}` }, { status: 400 });
             }
         }
 
@@ -172,6 +163,9 @@ export async function PATCH(
                 position: Number(quizPosition), // Explicitly cast to number
                 timer: timer || null,
                 maxAttempts: maxAttempts && maxAttempts > 0 ? Number(maxAttempts) : 1, // Use provided maxAttempts or default to 1
+                passingPercentage: finalPassingPercentage,
+                ...(shuffleQuestions !== undefined && { shuffleQuestions: Boolean(shuffleQuestions) }),
+                ...(shuffleOptions !== undefined && { shuffleOptions: Boolean(shuffleOptions) }),
             },
             include: {
                 course: {
@@ -182,36 +176,68 @@ export async function PATCH(
             }
         });
 
-        // Delete existing questions
-        await db.question.deleteMany({
+        // Existing questions are updated in place so the students' stored answers (and regrading them) survive the edit
+        const existingQuestions = await db.question.findMany({
             where: {
                 quizId: resolvedParams.quizId
+            },
+            select: {
+                id: true
+            }
+        });
+        const existingQuestionIds = new Set(existingQuestions.map((question: { id: string }) => question.id));
+        const keptQuestionIds = questions
+            .map((question: QuestionInput) => question.id)
+            .filter((id: unknown): id is string => typeof id === "string" && existingQuestionIds.has(id));
+
+        // Delete the questions removed in the editor
+        await db.question.deleteMany({
+            where: {
+                quizId: resolvedParams.quizId,
+                id: {
+                    notIn: keptQuestionIds
+                }
             }
         });
 
-        // Add questions separately
-        if (questions.length > 0) {
-            await db.question.createMany({
-                data: questions.map((question: any, index: number) => {
-                    let correctAnswerValue = question.correctAnswer;
-                    
-                    // For multiple choice questions, convert index to actual option value
-                    if (question.type === "MULTIPLE_CHOICE") {
-                        const validOptions = question.options.filter((option: string) => option && option.trim() !== "");
-                        correctAnswerValue = validOptions[question.correctAnswer];
+        for (let i = 0; i < questions.length; i++) {
+            const question: QuestionInput = questions[i];
+            const data = {
+                ...toStoredQuestion(question),
+                position: i + 1
+            };
+
+            if (question.id && keptQuestionIds.includes(question.id)) {
+                await db.question.update({
+                    where: {
+                        id: question.id
+                    },
+                    data
+                });
+            } else {
+                await db.question.create({
+                    data: {
+                        ...data,
+                        quizId: resolvedParams.quizId
                     }
-                    
-                    return {
-                        text: question.text,
-                        type: question.type,
-                        options: question.type === "MULTIPLE_CHOICE" ? stringifyQuizOptions(question.options) : null,
-                        correctAnswer: correctAnswerValue,
-                        points: question.points,
-                        imageUrl: question.imageUrl || null,
-                        quizId: resolvedParams.quizId,
-                        position: index + 1
-                    };
-                })
+                });
+            }
+        }
+
+        // Replace the question bank draw rules
+        await db.quizDrawRule.deleteMany({
+            where: {
+                quizId: resolvedParams.quizId
+            }
+        });
+
+        if (parsedDrawRules.rules.length > 0) {
+            await db.quizDrawRule.createMany({
+                data: parsedDrawRules.rules.map((rule, index) => ({
+                    ...rule,
+                    quizId: resolvedParams.quizId,
+                    position: index + 1
+                }))
             });
         }
 
@@ -228,6 +254,11 @@ export async function PATCH(
                     orderBy: {
                         position: 'asc'
                     }
+                },
+                drawRules: {
+                    orderBy: {
+                        position: 'asc'
+                    }
                 }
             }
         });
@@ -1,7 +1,8 @@
 import { db } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { NextResponse } from "next/server";
-import { parseQuizOptions, stringifyQuizOptions } from "@/lib/utils";
+import { parseQuizOptions } from "@/lib/utils";
+import { parseDrawRules, parsePassingPercentage, QuestionInput, toStoredQuestion, validateQuestionInput } from "@/lib/quiz";
 
 const isStaff = (role?: string | null) => role === "ADMIN" || role === "TEACHER";
 
@@ -32,6 +33,9 @@ export async function GET(req: Request) {
                         type: true,
                         options: true,
                         correctAnswer: true,
+                        correctOptionIndex: true,
+                        tolerance: true,
+                        toleranceType: true,
                         points: true,
                         imageUrl: true,
                         position: true
@@ -39,6 +43,11 @@ export async function GET(req: Request) {
                     orderBy: {
                         position: 'asc'
                     }
+                },
+                drawRules: {
+                    orderBy: {
+                        position: 'asc'
+                    }
                 }
             },
             orderBy: {
@@ -65,7 +74,7 @@ export async function GET(req: Request) {
 export async function POST(req: Request) {
     try {
         const { userId, user } = await auth();
-        const { title, description, courseId, questions, position, timer, maxAttempts } = await req.json();
+        const { title, description, courseId, questions, position, timer, maxAttempts, passingPercentage, drawRules, shuffleQuestions, shuffleOptions } = await req.json();
 
         console.log("Received position:", position, "Type:", typeof position);
 
@@ -82,6 +91,16 @@ export async function POST(req: Request) {
             return NextResponse.json({ error: "Course ID is required" }, { status: 400 });
         }
 
+        const finalPassingPercentage = parsePassingPercentage(passingPercentage);
+        if (finalPassingPercentage === null) {
+            return NextResponse.json({ error: "Passing percentage must be between 0 and 100" }, { status: 400 });
+        }
+
+        const parsedDrawRules = parseDrawRules(drawRules);
+        if (parsedDrawRules.error) {
+            return NextResponse.json({ error: parsedDrawRules.error }, { status: 400 });
+        }
+
         // Verify the course belongs to the teacher
         const course = await db.course.findUnique({
             where: {
@@ -114,44 +133,15 @@ export async function POST(req: Request) {
         }
         console.log("Final quizPosition:", quizPosition);
 
-        // Validate questions
-        if (!questions || questions.length === 0) {
+        // Validate questions - a quiz may consist only of questions drawn from the question bank
+        if (!Array.isArray(questions) || (questions.length === 0 && parsedDrawRules.rules.length === 0)) {
             return NextResponse.json({ error: "At least one question is required" }, { status: 400 });
         }
 
         for (let i = 0; i < questions.length; i++) {
-            const question = questions[i];
-            
-            if (!question.text || !question.text.trim()) {
-                return NextResponse.json({ error: `Question ${i + 1}: Text is required` }, { status: 400 });
-            }
-
-            if (question.type === "MULTIPLE_CHOICE") {
-                if (!question.options || question.options.length < 2) {
-                    return NextResponse.json({ error: `Question ${i + 1}: At least 2 options are required` }, { status: 400 });
-                }
-
-                const validOptions = question.options.filter((option: string) => option && option.trim() !== "");
-                if (validOptions.length < 2) {
-                    return NextResponse.json({ error: `Question ${i + 1}: At least 2 valid options are required` }, { status: 400 });
-                }
-
-                // For multiple choice, correctAnswer should be an index
-                if (typeof question.correctAnswer !== 'number' || question.correctAnswer < 0 || question.correctAnswer >= validOptions.length) {
-                    return NextResponse.json({ error: `Question ${i + 1}: Valid correct answer index is required` }, { status: 400 });
-                }
-            } else if (question.type === "TRUE_FALSE") {
-                if (!question.correctAnswer || (question.correctAnswer !== "true" && question.correctAnswer !== "false")) {
-                    return NextResponse.json({ error: `Question ${i + 1}: Correct answer must be "true" or "false"` }, { status: 400 });
-                }
-            } else if (question.type === "SHORT_ANSWER") {
-                if (!question.correctAnswer || !question.correctAnswer.toString().trim()) {
-                    return NextResponse.json({ error: `Question ${i + 1}: Correct answer is required` }, { status: 400 });
-                }
-            }
-
-            if (!question.points || question.points <= 0) {
-                return NextResponse.json({ error: `Question ${i + 1}: Points must be greater than 0` }, { status: 400 });
+            const validationError = validateQuestionInput(questions[i]);
+            if (validationError) {
+                return NextResponse.json({ error: `Question ${i + 1}: ${validationError}` }, { status: 400 });
             }
         }
 
@@ -164,7 +154,8 @@ export async function POST(req: Request) {
             position: quizPosition,
             courseId,
             timer: timer || null,
-            maxAttempts: finalMaxAttempts
+            maxAttempts: finalMaxAttempts,
+            passingPercentage: finalPassingPercentage
         });
         
         const quizData = {
@@ -174,26 +165,12 @@ export async function POST(req: Request) {
             courseId,
             timer: timer || null, // Timer in minutes, null means no time limit
             maxAttempts: finalMaxAttempts, // Use provided maxAttempts or default to 1
+            passingPercentage: finalPassingPercentage,
                             questions: {
-                    create: questions.map((question: any, index: number) => {
-                        let correctAnswerValue = question.correctAnswer;
-                        
-                        // For multiple choice questions, convert index to actual option value
-                        if (question.type === "MULTIPLE_CHOICE") {
-                            const validOptions = question.options.filter((option: string) => option && option.trim() !== "");
-                            correctAnswerValue = validOptions[question.correctAnswer];
-                        }
-                        
-                        return {
-                            text: question.text,
-                            type: question.type,
-                            options: question.type === "MULTIPLE_CHOICE" ? stringifyQuizOptions(question.options) : null,
-                            correctAnswer: correctAnswerValue,
-                            points: question.points,
-                            imageUrl: question.imageUrl || null,
-                            position: index + 1
-                        };
-                    })
+                    create: questions.map((question: QuestionInput, index: number) => ({
+                        ...toStoredQuestion(question),
+                        position: index + 1
+                    }))
                 }
         };
         
@@ -207,6 +184,9 @@ export async function POST(req: Request) {
             courseId,
             timer: timer || null,
             maxAttempts: finalMaxAttempts, // Use provided maxAttempts or default to 1
+            passingPercentage: finalPassingPercentage,
+            shuffleQuestions: Boolean(shuffleQuestions),
+            shuffleOptions: Boolean(shuffleOptions),
             isPublished: true
         };
         
@@ -226,26 +206,21 @@ export async function POST(req: Request) {
         // Now add the questions separately
         if (questions.length > 0) {
             await db.question.createMany({
-                data: questions.map((question: any, index: number) => {
-                    let correctAnswerValue = question.correctAnswer;
-                    
-                    // For multiple choice questions, convert index to actual option value
-                    if (question.type === "MULTIPLE_CHOICE") {
-                        const validOptions = question.options.filter((option: string) => option && option.trim() !== "");
-                        correctAnswerValue = validOptions[question.correctAnswer];
-                    }
-                    
-                    return {
-                        text: question.text,
-                        type: question.type,
-                        options: question.type === "MULTIPLE_CHOICE" ? stringifyQuizOptions(question.options) : null,
-                        correctAnswer: correctAnswerValue,
-                        points: question.points,
-                        imageUrl: question.imageUrl || null,
-                        quizId: quiz.id,
-                        position: index + 1
-                    };
-                })
+                data: questions.map((question: QuestionInput, index: number) => ({
+                    ...toStoredQuestion(question),
+                    quizId: quiz.id,
+                    position: index + 1
+                }))
+            });
+        }
+
+        if (parsedDrawRules.rules.length > 0) {
+            await db.quizDrawRule.createMany({
+                data: parsedDrawRules.rules.map((rule, index) => ({
+                    ...rule,
+                    quizId: quiz.id,
+                    position: index + 1
+                }))
             });
         }
         
@@ -262,6 +237,11 @@ export async function POST(req: Request) {
                     orderBy: {
                         position: 'asc'
                     }
+                },
+                drawRules: {
+                    orderBy: {
+                        position: 'asc'
+                    }
                 }
             }
         });
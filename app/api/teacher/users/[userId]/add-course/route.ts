@@ -79,12 +79,24 @@ export async function POST(
             );
         }
 
-        // Create purchase record
+        // A failed, refunded or revoked purchase is replaced by the new one
+        await db.purchase.deleteMany({
+            where: {
+                userId: params.userId,
+                courseId: courseId,
+                status: {
+                    not: "ACTIVE"
+                }
+            }
+        });
+
+        // Create purchase record, nothing is charged for a course added by staff
         const purchase = await db.purchase.create({
             data: {
                 userId: params.userId,
                 courseId: courseId,
-                status: "ACTIVE"
+                status: "ACTIVE",
+                amountPaid: 0
             }
         });
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { fromPiastres } from "@/lib/ledger";
 
 export async function GET(req: NextRequest) {
     try {
@@ -42,7 +43,12 @@ export async function GET(req: NextRequest) {
                     select: {
                         courses: true,
                         purchases: true,
-                        userProgress: true
+                        // Rows are also kept for chapters the student only started watching
+                        userProgress: {
+                            where: {
+                                isCompleted: true
+                            }
+                        }
                     }
                 }
             },
@@ -58,7 +64,7 @@ export async function GET(req: NextRequest) {
             ADMIN: users.filter(u => u.role === "ADMIN").length
         });
         console.log("[TEACHER_USERS_GET] Admin users:", users.filter(u => u.role === "ADMIN"));
-        return NextResponse.json(users);
+        return NextResponse.json(users.map((user: { balance: number }) => ({ ...user, balance: fromPiastres(user.balance) })));
     } catch (error) {
         console.error("[TEACHER_USERS_GET]", error);
         return new NextResponse("Internal Error", { status: 500 });
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { fromPiastres } from "@/lib/ledger";
 
 export async function GET(req: NextRequest) {
   try {
@@ -23,7 +24,7 @@ export async function GET(req: NextRequest) {
     }
 
     return NextResponse.json({
-      balance: user.balance,
+      balance: fromPiastres(user.balance),
     });
   } catch (error) {
     console.error("[USER_BALANCE_ERROR]", error);
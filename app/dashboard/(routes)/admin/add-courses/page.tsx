@@ -4,11 +4,13 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, BookOpen, User, Plus } from "lucide-react";
+import { Search, BookOpen, User, Plus, Undo2 } from "lucide-react";
 import { toast } from "sonner";
 
 interface User {
@@ -28,18 +30,32 @@ interface Course {
     isPublished: boolean;
 }
 
+interface OwnedCourse extends Course {
+    purchaseId: string;
+    amountPaid: number | null;
+    refundableAmount: number;
+    hasPromoCode: boolean;
+}
+
 const AddCoursesPage = () => {
     const [users, setUsers] = useState<User[]>([]);
     const [courses, setCourses] = useState<Course[]>([]);
-    const [ownedCourses, setOwnedCourses] = useState<Course[]>([]);
+    const [ownedCourses, setOwnedCourses] = useState<OwnedCourse[]>([]);
     const [loading, setLoading] = useState(true);
     const [searchTerm, setSearchTerm] = useState("");
     const [selectedUser, setSelectedUser] = useState<User | null>(null);
     const [selectedCourse, setSelectedCourse] = useState<string>("");
     const [isDialogOpen, setIsDialogOpen] = useState(false);
-    const [dialogMode, setDialogMode] = useState<"add" | "delete">("add");
+    const [dialogMode, setDialogMode] = useState<"add" | "delete" | "refund">("add");
     const [isAddingCourse, setIsAddingCourse] = useState(false);
     const [isDeletingCourse, setIsDeletingCourse] = useState(false);
+    const [refundAmount, setRefundAmount] = useState("");
+    const [refundStatus, setRefundStatus] = useState<"REFUNDED" | "REVOKED">("REFUNDED");
+    const [refundReason, setRefundReason] = useState("");
+    const [restorePromoUsage, setRestorePromoUsage] = useState(false);
+    const [isRefunding, setIsRefunding] = useState(false);
+
+    const refundCourse = ownedCourses.find((course) => course.id === selectedCourse);
 
     useEffect(() => {
         fetchUsers();
@@ -47,7 +63,7 @@ const AddCoursesPage = () => {
     }, []);
 
     useEffect(() => {
-        // fetch owned courses when a user is selected for delete mode
+        // fetch owned courses when a user is selected for delete or refund mode
         const fetchOwned = async () => {
             if (!selectedUser) {
                 setOwnedCourses([]);
@@ -160,6 +176,65 @@ const AddCoursesPage = () => {
         }
     };
 
+    const resetRefundForm = () => {
+        setRefundAmount("");
+        setRefundStatus("REFUNDED");
+        setRefundReason("");
+        setRestorePromoUsage(false);
+    };
+
+    const handleRefundCourse = async () => {
+        if (!selectedUser || !refundCourse) {
+            toast.error("يرجى اختيار الطالب والكورس");
+            return;
+        }
+
+        const amount = refundAmount === "" ? 0 : parseFloat(refundAmount);
+        if (isNaN(amount) || amount < 0 || amount > refundCourse.refundableAmount) {
+            toast.error(`يجب أن يكون مبلغ الاسترداد بين 0 و ${refundCourse.refundableAmount} جنيه`);
+            return;
+        }
+
+        if (refundStatus === "REFUNDED" && amount === 0) {
+            toast.error("يرجى إدخال مبلغ الاسترداد أو اختيار إلغاء الوصول فقط");
+            return;
+        }
+
+        if (!refundReason.trim()) {
+            toast.error("يرجى كتابة سبب الاسترداد");
+            return;
+        }
+
+        setIsRefunding(true);
+        try {
+            const res = await fetch(`/api/admin/purchases/${refundCourse.purchaseId}/refund`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    amount,
+                    status: refundStatus,
+                    reason: refundReason,
+                    restorePromoUsage
+                })
+            });
+            if (res.ok) {
+                toast.success(amount > 0 ? "تم استرداد المبلغ إلى رصيد الطالب وإلغاء وصوله للكورس" : "تم إلغاء وصول الطالب للكورس");
+                setIsDialogOpen(false);
+                setSelectedCourse("");
+                setSelectedUser(null);
+                resetRefundForm();
+                fetchUsers();
+            } else {
+                toast.error(await res.text() || "حدث خطأ أثناء الاسترداد");
+            }
+        } catch (error) {
+            console.error("Error refunding course:", error);
+            toast.error("حدث خطأ أثناء الاسترداد");
+        } finally {
+            setIsRefunding(false);
+        }
+    };
+
     const filteredUsers = users.filter(user =>
         user.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         user.phoneNumber.includes(searchTerm)
@@ -247,6 +322,20 @@ const AddCoursesPage = () => {
                                             >
                                                 حذف الكورس
                                             </Button>
+                                            <Button 
+                                                size="sm" 
+                                                variant="outline"
+                                                onClick={() => {
+                                                    setSelectedUser(user);
+                                                    setDialogMode("refund");
+                                                    setSelectedCourse("");
+                                                    resetRefundForm();
+                                                    setIsDialogOpen(true);
+                                                }}
+                                            >
+                                                <Undo2 className="h-4 w-4" />
+                                                استرداد
+                                            </Button>
                                         </div>
                                     </TableCell>
                                 </TableRow>
@@ -264,6 +353,7 @@ const AddCoursesPage = () => {
                         setSelectedCourse("");
                         setSelectedUser(null);
                         setDialogMode("add");
+                        resetRefundForm();
                     }
                 }}
             >
@@ -272,20 +362,31 @@ const AddCoursesPage = () => {
                         <DialogTitle>
                             {dialogMode === "add" ? (
                                 <>إضافة كورس لـ {selectedUser?.fullName}</>
-                            ) : (
+                            ) : dialogMode === "delete" ? (
                                 <>حذف كورس من {selectedUser?.fullName}</>
+                            ) : (
+                                <>استرداد كورس من {selectedUser?.fullName}</>
                             )}
                         </DialogTitle>
                     </DialogHeader>
                     <div className="space-y-4">
                         <div className="space-y-2">
                             <label className="text-sm font-medium">اختر الكورس</label>
-                            <Select value={selectedCourse} onValueChange={setSelectedCourse}>
+                            <Select
+                                value={selectedCourse}
+                                onValueChange={(courseId) => {
+                                    setSelectedCourse(courseId);
+                                    if (dialogMode === "refund") {
+                                        const course = ownedCourses.find((owned) => owned.id === courseId);
+                                        setRefundAmount(course ? String(course.refundableAmount) : "");
+                                    }
+                                }}
+                            >
                                 <SelectTrigger>
                                     <SelectValue placeholder="اختر كورس..." />
                                 </SelectTrigger>
                                 <SelectContent className="z-[200] max-h-[300px] overflow-y-auto">
-                                    {(dialogMode === "delete" ? ownedCourses : courses).map((course) => (
+                                    {(dialogMode === "add" ? courses : ownedCourses).map((course) => (
                                         <SelectItem key={course.id} value={course.id}>
                                             <div className="flex items-center justify-between w-full">
                                                 <span>{course.title}</span>
@@ -300,6 +401,63 @@ const AddCoursesPage = () => {
                                 </SelectContent>
                             </Select>
                         </div>
+                        {dialogMode === "refund" && refundCourse && (
+                            <>
+                                <div className="space-y-2">
+                                    <Label>نوع العملية</Label>
+                                    <Select
+                                        value={refundStatus}
+                                        onValueChange={(value) => setRefundStatus(value as "REFUNDED" | "REVOKED")}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent className="z-[200]">
+                                            <SelectItem value="REFUNDED">استرداد المبلغ</SelectItem>
+                                            <SelectItem value="REVOKED">إلغاء الوصول</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="refundAmount">المبلغ المسترد (جنيه)</Label>
+                                    <Input
+                                        id="refundAmount"
+                                        type="number"
+                                        value={refundAmount}
+                                        onChange={(e) => setRefundAmount(e.target.value)}
+                                        min="0"
+                                        max={refundCourse.refundableAmount}
+                                        step="0.01"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                        {refundCourse.amountPaid === null
+                                            ? `المبلغ المدفوع غير مسجل، الحد الأقصى هو سعر الكورس: ${refundCourse.refundableAmount} جنيه`
+                                            : `المبلغ المدفوع: ${refundCourse.amountPaid} جنيه، يمكن استرداد حتى ${refundCourse.refundableAmount} جنيه`}
+                                    </p>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="refundReason">سبب الاسترداد</Label>
+                                    <Input
+                                        id="refundReason"
+                                        value={refundReason}
+                                        onChange={(e) => setRefundReason(e.target.value)}
+                                        placeholder="مثال: طلب الطالب استرداد المبلغ"
+                                    />
+                                </div>
+                                {refundCourse.hasPromoCode && (
+                                    <div className="flex items-center space-x-2 space-x-reverse">
+                                        <Checkbox
+                                            id="restorePromoUsage"
+                                            checked={restorePromoUsage}
+                                            onCheckedChange={(checked) => setRestorePromoUsage(checked as boolean)}
+                                        />
+                                        <Label htmlFor="restorePromoUsage" className="cursor-pointer font-normal">
+                                            إرجاع استخدام الكوبون
+                                        </Label>
+                                    </div>
+                                )}
+                            </>
+                        )}
                         <div className="flex justify-end space-x-2">
                             <Button
                                 variant="outline"
@@ -308,6 +466,7 @@ const AddCoursesPage = () => {
                                     setSelectedCourse("");
                                     setSelectedUser(null);
                                     setDialogMode("add");
+                                    resetRefundForm();
                                 }}
                             >
                                 إلغاء
@@ -319,7 +478,7 @@ const AddCoursesPage = () => {
                                 >
                                     {isAddingCourse ? "جاري الإضافة..." : "إضافة الكورس"}
                                 </Button>
-                            ) : (
+                            ) : dialogMode === "delete" ? (
                                 <Button 
                                     variant="destructive"
                                     onClick={handleDeleteCourse}
@@ -327,6 +486,14 @@ const AddCoursesPage = () => {
                                 >
                                     {isDeletingCourse ? "جاري الحذف..." : "حذف الكورس"}
                                 </Button>
+                            ) : (
+                                <Button 
+                                    variant="destructive"
+                                    onClick={handleRefundCourse}
+                                    disabled={!refundCourse || isRefunding}
+                                >
+                                    {isRefunding ? "جاري الاسترداد..." : "تأكيد"}
+                                </Button>
                             )}
                         </div>
                     </div>
@@ -25,6 +25,7 @@ const BalancesPage = () => {
     const [searchTerm, setSearchTerm] = useState("");
     const [selectedUser, setSelectedUser] = useState<User | null>(null);
     const [newBalance, setNewBalance] = useState("");
+    const [reason, setReason] = useState("");
     const [isDialogOpen, setIsDialogOpen] = useState(false);
 
     useEffect(() => {
@@ -57,21 +58,30 @@ const BalancesPage = () => {
             return;
         }
 
+        if (!reason.trim()) {
+            toast.error("يرجى إدخال سبب تعديل الرصيد");
+            return;
+        }
+
         try {
             const response = await fetch(`/api/admin/users/${selectedUser.id}/balance`, {
                 method: "PATCH",
                 headers: {
                     "Content-Type": "application/json",
                 },
-                body: JSON.stringify({ newBalance: balance }),
+                body: JSON.stringify({ newBalance: balance, reason }),
             });
 
             if (response.ok) {
                 toast.success("تم تحديث الرصيد بنجاح");
                 setNewBalance("");
+                setReason("");
                 setIsDialogOpen(false);
                 setSelectedUser(null);
                 fetchUsers(); // Refresh the list
+            } else if (response.status === 409) {
+                toast.error("تغير رصيد الطالب أثناء التعديل، يرجى المحاولة مرة أخرى");
+                fetchUsers();
             } else {
                 toast.error("حدث خطأ أثناء تحديث الرصيد");
             }
@@ -176,6 +186,7 @@ const BalancesPage = () => {
                     if (!open) {
                         setIsDialogOpen(false);
                         setNewBalance("");
+                        setReason("");
                         setSelectedUser(null);
                     }
                 }}
@@ -199,12 +210,22 @@ const BalancesPage = () => {
                                 step="0.01"
                             />
                         </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="reason">سبب التعديل</Label>
+                            <Input
+                                id="reason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                placeholder="مثال: تحويل فودافون كاش"
+                            />
+                        </div>
                         <div className="flex justify-end space-x-2">
                             <Button
                                 variant="outline"
                                 onClick={() => {
                                     setIsDialogOpen(false);
                                     setNewBalance("");
+                                    setReason("");
                                     setSelectedUser(null);
                                 }}
                             >
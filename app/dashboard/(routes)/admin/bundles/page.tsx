@@ -0,0 +1 @@
+export { default } from "@/app/dashboard/(routes)/teacher/bundles/page";
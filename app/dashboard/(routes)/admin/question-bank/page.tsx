@@ -0,0 +1 @@
+export { default } from "@/app/dashboard/(routes)/teacher/question-bank/page";
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+
+interface Voucher {
+    id: string;
+    code: string;
+    status: "REDEEMED" | "EXPIRED" | "OUTSTANDING";
+}
+
+interface VoucherBatch {
+    id: string;
+    name: string;
+    value: number;
+    expiresAt: string;
+    vouchers: Voucher[];
+}
+
+// Printable sheet of a batch's unused codes, cut into cards after printing
+const PrintVouchersPage = () => {
+    const params = useParams<{ batchId: string }>();
+    const [batch, setBatch] = useState<VoucherBatch | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchBatch = async () => {
+            try {
+                const response = await fetch(`/api/admin/vouchers/${params.batchId}`);
+                if (response.ok) {
+                    setBatch(await response.json());
+                }
+            } catch (error) {
+                console.error("Error fetching voucher batch:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchBatch();
+    }, [params.batchId]);
+
+    if (loading) {
+        return (
+            <div className="p-6">
+                <div className="text-center">جاري التحميل...</div>
+            </div>
+        );
+    }
+
+    if (!batch) {
+        return (
+            <div className="p-6">
+                <div className="text-center">لم يتم العثور على المجموعة</div>
+            </div>
+        );
+    }
+
+    const outstanding = batch.vouchers.filter((voucher) => voucher.status === "OUTSTANDING");
+    const expiryDate = new Date(batch.expiresAt).toLocaleDateString("ar-EG", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+    });
+
+    return (
+        <div className="p-6 space-y-6 print:p-0">
+            <div className="flex items-center justify-between print:hidden">
+                <div>
+                    <h1 className="text-2xl font-bold">{batch.name}</h1>
+                    <p className="text-muted-foreground">
+                        {outstanding.length} كارت غير مستخدم من {batch.vouchers.length}
+                    </p>
+                </div>
+                <Button onClick={() => window.print()} className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                    <Printer className="h-4 w-4 ml-2" />
+                    طباعة
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-3 print:grid-cols-3 gap-4 print:gap-2">
+                {outstanding.map((voucher) => (
+                    <div
+                        key={voucher.id}
+                        className="border-2 border-dashed rounded-lg p-4 text-center space-y-2 break-inside-avoid"
+                    >
+                        <p className="font-semibold">كارت شحن رصيد</p>
+                        <p className="text-2xl font-bold text-[#0083d3]">{batch.value} جنيه</p>
+                        <p className="font-mono text-lg font-bold tracking-wider" dir="ltr">{voucher.code}</p>
+                        <p className="text-xs text-muted-foreground">صالح حتى {expiryDate}</p>
+                        <p className="text-xs text-muted-foreground">اشحن من صفحة الرصيد في حسابك</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default PrintVouchersPage;
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Plus, Download, Printer, CreditCard } from "lucide-react";
+import { toast } from "sonner";
+
+interface VoucherBatch {
+    id: string;
+    name: string;
+    value: number;
+    expiresAt: string;
+    createdAt: string;
+    total: number;
+    redeemed: number;
+    outstanding: number;
+    expired: number;
+    redeemedValue: number;
+}
+
+const MAX_BATCH_SIZE = 1000;
+
+const VouchersPage = () => {
+    const [batches, setBatches] = useState<VoucherBatch[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [name, setName] = useState("");
+    const [value, setValue] = useState("");
+    const [count, setCount] = useState("");
+    const [expiresAt, setExpiresAt] = useState("");
+
+    useEffect(() => {
+        fetchBatches();
+    }, []);
+
+    const fetchBatches = async () => {
+        try {
+            const response = await fetch("/api/admin/vouchers");
+            if (response.ok) {
+                const data = await response.json();
+                setBatches(data);
+            }
+        } catch (error) {
+            console.error("Error fetching voucher batches:", error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const resetForm = () => {
+        setName("");
+        setValue("");
+        setCount("");
+        setExpiresAt("");
+    };
+
+    const handleCreateBatch = async () => {
+        const voucherValue = parseFloat(value);
+        const voucherCount = parseInt(count);
+
+        if (!name.trim()) {
+            toast.error("يرجى إدخال اسم المجموعة");
+            return;
+        }
+
+        if (isNaN(voucherValue) || voucherValue <= 0) {
+            toast.error("يرجى إدخال قيمة صحيحة للكارت");
+            return;
+        }
+
+        if (isNaN(voucherCount) || voucherCount < 1 || voucherCount > MAX_BATCH_SIZE) {
+            toast.error(`يجب أن يكون عدد الكروت بين 1 و ${MAX_BATCH_SIZE}`);
+            return;
+        }
+
+        if (!expiresAt) {
+            toast.error("يرجى اختيار تاريخ انتهاء الصلاحية");
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            const response = await fetch("/api/admin/vouchers", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    name,
+                    value: voucherValue,
+                    count: voucherCount,
+                    // The card is valid until the end of the chosen day
+                    expiresAt: new Date(`${expiresAt}T23:59:59`).toISOString(),
+                }),
+            });
+
+            if (response.ok) {
+                toast.success("تم إنشاء الكروت بنجاح");
+                setIsDialogOpen(false);
+                resetForm();
+                fetchBatches();
+            } else {
+                const error = await response.text();
+                toast.error(error || "حدث خطأ أثناء إنشاء الكروت");
+            }
+        } catch (error) {
+            console.error("Error creating voucher batch:", error);
+            toast.error("حدث خطأ أثناء إنشاء الكروت");
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleDateString("ar-EG", {
+            year: "numeric",
+            month: "long",
+            day: "numeric",
+        });
+    };
+
+    if (loading) {
+        return (
+            <div className="p-6">
+                <div className="text-center">جاري التحميل...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    كروت الشحن
+                </h1>
+                <Button onClick={() => setIsDialogOpen(true)} className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                    <Plus className="h-4 w-4 mr-2" />
+                    إنشاء كروت جديدة
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>مجموعات الكروت</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {batches.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right">المجموعة</TableHead>
+                                    <TableHead className="text-right">قيمة الكارت</TableHead>
+                                    <TableHead className="text-right">تنتهي في</TableHead>
+                                    <TableHead className="text-right">العدد</TableHead>
+                                    <TableHead className="text-right">مستخدمة</TableHead>
+                                    <TableHead className="text-right">متبقية</TableHead>
+                                    <TableHead className="text-right">منتهية</TableHead>
+                                    <TableHead className="text-right">إجمالي المستخدم</TableHead>
+                                    <TableHead className="text-right">الإجراءات</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {batches.map((batch) => (
+                                    <TableRow key={batch.id}>
+                                        <TableCell className="font-medium">{batch.name}</TableCell>
+                                        <TableCell>{batch.value} جنيه</TableCell>
+                                        <TableCell>{formatDate(batch.expiresAt)}</TableCell>
+                                        <TableCell>{batch.total}</TableCell>
+                                        <TableCell>
+                                            <Badge variant="default">{batch.redeemed}</Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline">{batch.outstanding}</Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="secondary">{batch.expired}</Badge>
+                                        </TableCell>
+                                        <TableCell>{batch.redeemedValue} جنيه</TableCell>
+                                        <TableCell>
+                                            <div className="flex items-center gap-2">
+                                                <Button size="sm" variant="outline" asChild>
+                                                    <a href={`/api/admin/vouchers/${batch.id}/export`}>
+                                                        <Download className="h-4 w-4" />
+                                                        CSV
+                                                    </a>
+                                                </Button>
+                                                <Button size="sm" variant="outline" asChild>
+                                                    <Link href={`/dashboard/admin/vouchers/${batch.id}/print`}>
+                                                        <Printer className="h-4 w-4" />
+                                                        طباعة
+                                                    </Link>
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <div className="text-center py-8 text-muted-foreground">
+                            <CreditCard className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                            <p>لا توجد كروت شحن حتى الآن</p>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog
+                open={isDialogOpen}
+                onOpenChange={(open) => {
+                    if (!open) {
+                        setIsDialogOpen(false);
+                        resetForm();
+                    }
+                }}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>إنشاء كروت شحن</DialogTitle>
+                        <DialogDescription>
+                            كل كارت يُستخدم مرة واحدة فقط ويضيف قيمته إلى رصيد الطالب
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="name">اسم المجموعة</Label>
+                            <Input
+                                id="name"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="مثال: سنتر المسلة - أكتوبر"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="value">قيمة الكارت (جنيه)</Label>
+                            <Input
+                                id="value"
+                                type="number"
+                                value={value}
+                                onChange={(e) => setValue(e.target.value)}
+                                min="1"
+                                step="0.01"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="count">عدد الكروت</Label>
+                            <Input
+                                id="count"
+                                type="number"
+                                value={count}
+                                onChange={(e) => setCount(e.target.value)}
+                                min="1"
+                                max={MAX_BATCH_SIZE}
+                                step="1"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="expiresAt">تاريخ انتهاء الصلاحية</Label>
+                            <Input
+                                id="expiresAt"
+                                type="date"
+                                value={expiresAt}
+                                onChange={(e) => setExpiresAt(e.target.value)}
+                            />
+                        </div>
+                        <div className="flex justify-end space-x-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => {
+                                    setIsDialogOpen(false);
+                                    resetForm();
+                                }}
+                            >
+                                إلغاء
+                            </Button>
+                            <Button onClick={handleCreateBatch} disabled={isCreating}>
+                                {isCreating ? "جاري الإنشاء..." : "إنشاء الكروت"}
+                            </Button>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
+
+export default VouchersPage;
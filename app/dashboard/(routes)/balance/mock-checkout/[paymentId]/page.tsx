@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { CreditCard } from "lucide-react";
+
+interface Payment {
+  id: string;
+  status: "PENDING" | "COMPLETED" | "FAILED" | "CANCELED";
+  amount: number;
+  method: "CARD" | "WALLET";
+}
+
+type Outcome = "PAID" | "FAILED" | "CANCELED";
+
+// Checkout page of the local mock payment gateway, used instead of a real provider's page in development
+export default function MockCheckoutPage() {
+  const router = useRouter();
+  const { paymentId } = useParams<{ paymentId: string }>();
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [submitting, setSubmitting] = useState<Outcome | null>(null);
+
+  useEffect(() => {
+    const fetchPayment = async () => {
+      try {
+        const response = await fetch(`/api/payments/${paymentId}`);
+        if (response.ok) {
+          setPayment(await response.json());
+        } else {
+          toast.error("لم يتم العثور على عملية الدفع");
+        }
+      } catch (error) {
+        console.error("Error fetching payment:", error);
+      }
+    };
+
+    fetchPayment();
+  }, [paymentId]);
+
+  const finishCheckout = async (outcome: Outcome) => {
+    setSubmitting(outcome);
+    try {
+      const response = await fetch(`/api/payments/mock/${paymentId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ outcome }),
+      });
+
+      if (!response.ok) {
+        toast.error("حدث خطأ أثناء إتمام الدفع");
+        return;
+      }
+
+      router.push(`/dashboard/balance/payment-status?paymentId=${paymentId}`);
+    } catch (error) {
+      console.error("Error finishing mock checkout:", error);
+      toast.error("حدث خطأ أثناء إتمام الدفع");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" />
+            بوابة دفع تجريبية
+          </CardTitle>
+          <CardDescription>
+            هذه الصفحة تحاكي بوابة الدفع ولا يتم خصم أي مبلغ فعلي
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!payment ? (
+            <div className="text-center py-4 text-muted-foreground">جاري التحميل...</div>
+          ) : payment.status !== "PENDING" ? (
+            <div className="text-center py-4 text-muted-foreground">تمت معالجة عملية الدفع هذه بالفعل</div>
+          ) : (
+            <>
+              <div className="text-3xl font-bold text-[#0083d3] text-center">
+                {payment.amount.toFixed(2)} جنيه
+              </div>
+              <p className="text-sm text-muted-foreground text-center">
+                {payment.method === "CARD" ? "بطاقة بنكية" : "محفظة إلكترونية"}
+              </p>
+              <div className="grid gap-2">
+                <Button
+                  onClick={() => finishCheckout("PAID")}
+                  disabled={!!submitting}
+                  className="bg-[#0083d3] hover:bg-[#0083d3]/90"
+                >
+                  {submitting === "PAID" ? "جاري الدفع..." : "إتمام الدفع"}
+                </Button>
+                <Button variant="outline" onClick={() => finishCheckout("FAILED")} disabled={!!submitting}>
+                  محاكاة فشل الدفع
+                </Button>
+                <Button variant="ghost" onClick={() => finishCheckout("CANCELED")} disabled={!!submitting}>
+                  إلغاء
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -6,16 +6,25 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "sonner";
 import { useSession } from "next-auth/react";
-import { Wallet, Plus, History, ArrowUpRight, CreditCard, MapPin, Send } from "lucide-react";
+import Link from "next/link";
+import { Wallet, Plus, History, ArrowUpRight, CreditCard, MapPin, Send, Smartphone, Ticket, FileText } from "lucide-react";
 
 interface BalanceTransaction {
   id: string;
   amount: number;
-  type: "DEPOSIT" | "PURCHASE";
+  type: "DEPOSIT" | "PURCHASE" | "REFUND" | "ADJUSTMENT";
   description: string;
+  reason: string | null;
   createdAt: string;
 }
 
+const TRANSACTION_TYPE_LABELS: Record<BalanceTransaction["type"], string> = {
+  DEPOSIT: "إيداع",
+  PURCHASE: "شراء كورس",
+  REFUND: "استرداد",
+  ADJUSTMENT: "تعديل من الإدارة",
+};
+
 export default function BalancePage() {
   const { data: session } = useSession();
   const [balance, setBalance] = useState(0);
@@ -23,6 +32,11 @@ export default function BalancePage() {
   const [isLoading, setIsLoading] = useState(false);
   const [transactions, setTransactions] = useState<BalanceTransaction[]>([]);
   const [isLoadingTransactions, setIsLoadingTransactions] = useState(true);
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const [topUpMethod, setTopUpMethod] = useState<"CARD" | "WALLET">("CARD");
+  const [isStartingTopUp, setIsStartingTopUp] = useState(false);
+  const [voucherCode, setVoucherCode] = useState("");
+  const [isRedeeming, setIsRedeeming] = useState(false);
 
   // Check if user is a student (USER role)
   const isStudent = session?.user?.role === "USER";
@@ -92,6 +106,71 @@ export default function BalancePage() {
     }
   };
 
+  const handleOnlineTopUp = async () => {
+    if (!topUpAmount || parseFloat(topUpAmount) <= 0) {
+      toast.error("يرجى إدخال مبلغ صحيح");
+      return;
+    }
+
+    setIsStartingTopUp(true);
+    try {
+      const response = await fetch("/api/payments", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ amount: parseFloat(topUpAmount), method: topUpMethod }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        window.location.href = data.checkoutUrl;
+      } else {
+        const error = await response.text();
+        toast.error(error || "حدث خطأ أثناء بدء عملية الدفع");
+        setIsStartingTopUp(false);
+      }
+    } catch (error) {
+      console.error("Error starting top-up:", error);
+      toast.error("حدث خطأ أثناء بدء عملية الدفع");
+      setIsStartingTopUp(false);
+    }
+  };
+
+  const handleRedeemVoucher = async () => {
+    if (!voucherCode.trim()) {
+      toast.error("يرجى إدخال رقم الكارت");
+      return;
+    }
+
+    setIsRedeeming(true);
+    try {
+      const response = await fetch("/api/balance/redeem", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code: voucherCode }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setBalance(data.newBalance);
+        setVoucherCode("");
+        toast.success(`تم شحن ${data.value} جنيه إلى رصيدك`);
+        fetchTransactions();
+      } else {
+        const error = await response.text();
+        toast.error(error || "حدث خطأ أثناء شحن الكارت");
+      }
+    } catch (error) {
+      console.error("Error redeeming voucher:", error);
+      toast.error("حدث خطأ أثناء شحن الكارت");
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("ar-EG", {
       year: "numeric",
@@ -134,6 +213,89 @@ export default function BalancePage() {
         </CardContent>
       </Card>
 
+      {/* Online Top-Up Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            شحن الرصيد أونلاين
+          </CardTitle>
+          <CardDescription>
+            ادفع بالبطاقة البنكية أو المحفظة الإلكترونية وسيتم إضافة الرصيد تلقائياً
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant={topUpMethod === "CARD" ? "default" : "outline"}
+              onClick={() => setTopUpMethod("CARD")}
+            >
+              <CreditCard className="h-4 w-4 ml-2" />
+              بطاقة بنكية
+            </Button>
+            <Button
+              type="button"
+              variant={topUpMethod === "WALLET" ? "default" : "outline"}
+              onClick={() => setTopUpMethod("WALLET")}
+            >
+              <Smartphone className="h-4 w-4 ml-2" />
+              محفظة إلكترونية
+            </Button>
+          </div>
+          <div className="flex gap-4">
+            <Input
+              type="number"
+              placeholder="أدخل المبلغ"
+              value={topUpAmount}
+              onChange={(e) => setTopUpAmount(e.target.value)}
+              min="10"
+              step="1"
+              className="flex-1"
+            />
+            <Button
+              onClick={handleOnlineTopUp}
+              disabled={isStartingTopUp}
+              className="bg-[#0083d3] hover:bg-[#0083d3]/90"
+            >
+              {isStartingTopUp ? "جاري التحويل..." : "ادفع الآن"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recharge Card Section */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ticket className="h-5 w-5" />
+            شحن بكارت
+          </CardTitle>
+          <CardDescription>
+            أدخل رقم كارت الشحن الذي اشتريته من السنتر
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-4">
+            <Input
+              placeholder="XXXX-XXXX-XXXX"
+              value={voucherCode}
+              onChange={(e) => setVoucherCode(e.target.value)}
+              className="flex-1 font-mono"
+              dir="ltr"
+              autoComplete="off"
+            />
+            <Button
+              onClick={handleRedeemVoucher}
+              disabled={isRedeeming}
+              className="bg-[#0083d3] hover:bg-[#0083d3]/90"
+            >
+              {isRedeeming ? "جاري الشحن..." : "شحن"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Payment Methods Section */}
       <Card>
         <CardHeader>
@@ -268,13 +430,23 @@ export default function BalancePage() {
       {/* Transaction History */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <History className="h-5 w-5" />
-            سجل المعاملات
-          </CardTitle>
-          <CardDescription>
-            تاريخ جميع المعاملات المالية
-          </CardDescription>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                سجل المعاملات
+              </CardTitle>
+              <CardDescription>
+                تاريخ جميع المعاملات المالية
+              </CardDescription>
+            </div>
+            <Button asChild variant="outline">
+              <Link href="/dashboard/balance/statement">
+                <FileText className="h-4 w-4 ml-2" />
+                كشف الحساب الشهري
+              </Link>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {isLoadingTransactions ? (
@@ -295,11 +467,11 @@ export default function BalancePage() {
                 >
                   <div className="flex items-center gap-3">
                     <div className={`p-2 rounded-full ${
-                      transaction.type === "DEPOSIT" 
+                      transaction.amount > 0 
                         ? "bg-green-100 text-green-600" 
                         : "bg-red-100 text-red-600"
                     }`}>
-                      {transaction.type === "DEPOSIT" ? (
+                      {transaction.amount > 0 ? (
                         <Plus className="h-4 w-4" />
                       ) : (
                         <ArrowUpRight className="h-4 w-4" />
@@ -314,19 +486,33 @@ export default function BalancePage() {
                            : transaction.description
                          }
                        </p>
+                       {transaction.reason && (
+                         <p className="text-sm text-muted-foreground">{transaction.reason}</p>
+                       )}
                        <p className="text-sm text-muted-foreground">
                          {formatDate(transaction.createdAt)}
                        </p>
                        <p className="text-xs text-muted-foreground">
-                         {transaction.type === "DEPOSIT" ? "إيداع" : "شراء كورس"}
+                         {TRANSACTION_TYPE_LABELS[transaction.type] ?? transaction.type}
                        </p>
                      </div>
                   </div>
-                  <div className={`font-bold ${
-                    transaction.type === "DEPOSIT" ? "text-green-600" : "text-red-600"
-                  }`}>
-                    {transaction.type === "DEPOSIT" ? "+" : "-"}
-                    {Math.abs(transaction.amount).toFixed(2)} جنيه
+                  <div className="flex flex-col items-end gap-1">
+                    <div className={`font-bold ${
+                      transaction.amount > 0 ? "text-green-600" : "text-red-600"
+                    }`}>
+                      {transaction.amount > 0 ? "+" : "-"}
+                      {Math.abs(transaction.amount).toFixed(2)} جنيه
+                    </div>
+                    {(transaction.type === "DEPOSIT" || transaction.type === "PURCHASE") && (
+                      <Link
+                        href={`/dashboard/balance/receipts/${transaction.id}`}
+                        className="flex items-center gap-1 text-sm text-[#0083d3] hover:underline"
+                      >
+                        <FileText className="h-4 w-4" />
+                        الإيصال
+                      </Link>
+                    )}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, XCircle } from "lucide-react";
+
+interface PaymentResponse {
+  status: "COMPLETED" | "FAILED" | "PENDING" | "CANCELED";
+  amount: number;
+}
+
+const MAX_CHECKS = 20;
+const CHECK_INTERVAL = 3000;
+
+// Where the payment provider sends the student back after a top-up, waits for the webhook to settle the payment
+export default function TopUpStatusPage() {
+  const searchParams = useSearchParams();
+  const paymentId = searchParams.get("paymentId");
+  const [payment, setPayment] = useState<PaymentResponse | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+
+  useEffect(() => {
+    if (!paymentId) {
+      setTimedOut(true);
+      return;
+    }
+
+    let checks = 0;
+    let timeoutId: ReturnType<typeof setTimeout>;
+    let isMounted = true;
+
+    const checkStatus = async () => {
+      checks++;
+      try {
+        const response = await fetch(`/api/payments/${paymentId}`);
+        if (response.ok) {
+          const data: PaymentResponse = await response.json();
+          if (!isMounted) return;
+          setPayment(data);
+          if (data.status !== "PENDING") return;
+        } else if (response.status === 404) {
+          if (isMounted) setTimedOut(true);
+          return;
+        }
+      } catch (error) {
+        console.error("[TOP_UP_STATUS] Error checking payment status:", error);
+      }
+
+      if (!isMounted) return;
+      if (checks >= MAX_CHECKS) {
+        setTimedOut(true);
+      } else {
+        timeoutId = setTimeout(checkStatus, CHECK_INTERVAL);
+      }
+    };
+
+    checkStatus();
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timeoutId);
+    };
+  }, [paymentId]);
+
+  if (payment?.status === "COMPLETED") {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-6">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-2">تم شحن الرصيد بنجاح!</h1>
+          <p className="text-muted-foreground mb-6">
+            تمت إضافة {payment.amount.toFixed(2)} جنيه إلى رصيدك.
+          </p>
+          <Button asChild size="lg" className="w-full">
+            <Link href="/dashboard/balance">الرصيد</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (payment?.status === "FAILED" || payment?.status === "CANCELED" || timedOut) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-6">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold mb-2">
+            {timedOut && payment?.status === "PENDING" ? "لم يتم تأكيد الدفع بعد" : "فشل الدفع"}
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            {timedOut && payment?.status === "PENDING"
+              ? "سيتم إضافة الرصيد تلقائياً فور تأكيد عملية الدفع."
+              : "تم إلغاء عملية الدفع أو فشلت. يمكنك المحاولة مرة أخرى."}
+          </p>
+          <Button asChild size="lg" className="w-full">
+            <Link href="/dashboard/balance">العودة إلى الرصيد</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+        <h1 className="text-2xl font-bold mb-2">يتم تأكيد عملية الدفع</h1>
+        <p className="text-muted-foreground">الرجاء الأنتظار حتي نتأكد من عملية الدفع</p>
+      </div>
+    </div>
+  );
+}
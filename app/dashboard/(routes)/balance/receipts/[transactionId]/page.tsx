@@ -0,0 +1,153 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+
+interface Receipt {
+    id: string;
+    number: string;
+    type: "DEPOSIT" | "PURCHASE";
+    description: string;
+    createdAt: string;
+    student: {
+        id: string;
+        fullName: string;
+        phoneNumber: string;
+        parentPhoneNumber: string;
+    };
+    items: { title: string; price: number }[];
+    discount: { label: string; amount: number } | null;
+    total: number;
+    paymentMethod: string;
+}
+
+const RECEIPT_TITLES: Record<Receipt["type"], string> = {
+    DEPOSIT: "إيصال شحن رصيد",
+    PURCHASE: "إيصال شراء",
+};
+
+// Receipt of a deposit or a purchase, downloaded as a PDF generated by the receipt endpoint
+const ReceiptPage = () => {
+    const params = useParams<{ transactionId: string }>();
+    const [receipt, setReceipt] = useState<Receipt | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchReceipt = async () => {
+            try {
+                const response = await fetch(`/api/balance/receipts/${params.transactionId}`);
+                if (response.ok) {
+                    setReceipt(await response.json());
+                }
+            } catch (error) {
+                console.error("Error fetching receipt:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchReceipt();
+    }, [params.transactionId]);
+
+    if (loading) {
+        return (
+            <div className="p-6">
+                <div className="text-center">جاري التحميل...</div>
+            </div>
+        );
+    }
+
+    if (!receipt) {
+        return (
+            <div className="p-6">
+                <div className="text-center">لم يتم العثور على الإيصال</div>
+            </div>
+        );
+    }
+
+    const date = new Date(receipt.createdAt).toLocaleString("ar-EG", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+    return (
+        <div className="p-6 space-y-6 print:p-0" dir="rtl">
+            <div className="flex items-center justify-between print:hidden">
+                <h1 className="text-2xl font-bold">{RECEIPT_TITLES[receipt.type]}</h1>
+                <Button asChild className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                    <a href={`/api/balance/receipts/${receipt.id}?format=pdf`}>
+                        <Download className="h-4 w-4 ml-2" />
+                        تحميل PDF
+                    </a>
+                </Button>
+            </div>
+
+            <div className="max-w-2xl mx-auto border rounded-lg p-8 space-y-6 bg-white text-black print:border-0">
+                <div className="flex items-start justify-between border-b pb-4">
+                    <div>
+                        <h2 className="text-xl font-bold">{RECEIPT_TITLES[receipt.type]}</h2>
+                        <p className="text-sm text-gray-600">{date}</p>
+                    </div>
+                    <div className="text-left">
+                        <p className="text-sm text-gray-600">رقم الإيصال</p>
+                        <p className="font-mono font-bold" dir="ltr">{receipt.number}</p>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                        <p className="text-gray-600">اسم الطالب</p>
+                        <p className="font-semibold">{receipt.student.fullName}</p>
+                    </div>
+                    <div>
+                        <p className="text-gray-600">رقم الهاتف</p>
+                        <p className="font-semibold" dir="ltr">{receipt.student.phoneNumber}</p>
+                    </div>
+                    <div>
+                        <p className="text-gray-600">رقم هاتف ولي الأمر</p>
+                        <p className="font-semibold" dir="ltr">{receipt.student.parentPhoneNumber}</p>
+                    </div>
+                    <div>
+                        <p className="text-gray-600">طريقة الدفع</p>
+                        <p className="font-semibold">{receipt.paymentMethod}</p>
+                    </div>
+                </div>
+
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b">
+                            <th className="text-right py-2">البيان</th>
+                            <th className="text-left py-2">المبلغ</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {receipt.items.map((item, index) => (
+                            <tr key={index} className="border-b">
+                                <td className="py-2">{item.title}</td>
+                                <td className="py-2 text-left">{item.price.toFixed(2)} جنيه</td>
+                            </tr>
+                        ))}
+                        {receipt.discount && (
+                            <tr className="border-b text-green-700">
+                                <td className="py-2">{receipt.discount.label}</td>
+                                <td className="py-2 text-left">- {receipt.discount.amount.toFixed(2)} جنيه</td>
+                            </tr>
+                        )}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-bold text-base">
+                            <td className="pt-4">{receipt.type === "DEPOSIT" ? "المبلغ المضاف للرصيد" : "الإجمالي المدفوع"}</td>
+                            <td className="pt-4 text-left">{receipt.total.toFixed(2)} جنيه</td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiptPage;
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, FileText } from "lucide-react";
+
+interface StatementTransaction {
+    id: string;
+    type: "DEPOSIT" | "PURCHASE" | "REFUND" | "ADJUSTMENT";
+    description: string;
+    amount: number;
+    balance: number;
+    hasReceipt: boolean;
+    createdAt: string;
+}
+
+interface Statement {
+    student: {
+        id: string;
+        fullName: string;
+        phoneNumber: string;
+        parentPhoneNumber: string;
+    };
+    year: number;
+    month: number;
+    openingBalance: number;
+    totalCredits: number;
+    totalDebits: number;
+    closingBalance: number;
+    transactions: StatementTransaction[];
+}
+
+const currentMonth = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+};
+
+// Monthly statement of a student's balance, downloaded as a PDF generated by the statement endpoint.
+// Staff open it for a student from the user management pages with ?userId=
+const StatementPage = () => {
+    const searchParams = useSearchParams();
+    const userId = searchParams.get("userId");
+    const [month, setMonth] = useState(searchParams.get("month") || currentMonth());
+    const [statement, setStatement] = useState<Statement | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        const fetchStatement = async () => {
+            setLoading(true);
+            try {
+                const query = new URLSearchParams({ month });
+                if (userId) {
+                    query.set("userId", userId);
+                }
+                const response = await fetch(`/api/balance/statement?${query}`);
+                setStatement(response.ok ? await response.json() : null);
+            } catch (error) {
+                console.error("Error fetching statement:", error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        if (month) {
+            fetchStatement();
+        }
+    }, [month, userId]);
+
+    const pdfQuery = new URLSearchParams({ month, format: "pdf" });
+    if (userId) {
+        pdfQuery.set("userId", userId);
+    }
+
+    const monthName = statement
+        ? new Date(statement.year, statement.month - 1, 1).toLocaleDateString("ar-EG", { year: "numeric", month: "long" })
+        : "";
+
+    return (
+        <div className="p-6 space-y-6 print:p-0" dir="rtl">
+            <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+                <h1 className="text-2xl font-bold">كشف حساب شهري</h1>
+                <div className="flex items-center gap-2">
+                    <Input
+                        type="month"
+                        value={month}
+                        onChange={(e) => setMonth(e.target.value)}
+                        className="w-44"
+                    />
+                    {statement ? (
+                        <Button asChild className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                            <a href={`/api/balance/statement?${pdfQuery}`}>
+                                <Download className="h-4 w-4 ml-2" />
+                                تحميل PDF
+                            </a>
+                        </Button>
+                    ) : (
+                        <Button disabled className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                            <Download className="h-4 w-4 ml-2" />
+                            تحميل PDF
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="text-center">جاري التحميل...</div>
+            ) : !statement ? (
+                <div className="text-center">لم يتم العثور على كشف الحساب</div>
+            ) : (
+                <div className="max-w-4xl mx-auto border rounded-lg p-8 space-y-6 bg-white text-black print:border-0">
+                    <div className="flex items-start justify-between border-b pb-4">
+                        <div>
+                            <h2 className="text-xl font-bold">كشف حساب شهر {monthName}</h2>
+                            <p className="text-sm text-gray-600">{statement.student.fullName}</p>
+                        </div>
+                        <div className="text-sm text-left">
+                            <p dir="ltr">{statement.student.phoneNumber}</p>
+                            <p className="text-gray-600">
+                                ولي الأمر: <span dir="ltr">{statement.student.parentPhoneNumber}</span>
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 print:grid-cols-4 gap-4 text-sm">
+                        <div>
+                            <p className="text-gray-600">الرصيد في بداية الشهر</p>
+                            <p className="font-semibold">{statement.openingBalance.toFixed(2)} جنيه</p>
+                        </div>
+                        <div>
+                            <p className="text-gray-600">إجمالي الإضافات</p>
+                            <p className="font-semibold text-green-700">{statement.totalCredits.toFixed(2)} جنيه</p>
+                        </div>
+                        <div>
+                            <p className="text-gray-600">إجمالي الخصومات</p>
+                            <p className="font-semibold text-red-700">{statement.totalDebits.toFixed(2)} جنيه</p>
+                        </div>
+                        <div>
+                            <p className="text-gray-600">الرصيد في نهاية الشهر</p>
+                            <p className="font-semibold">{statement.closingBalance.toFixed(2)} جنيه</p>
+                        </div>
+                    </div>
+
+                    {statement.transactions.length === 0 ? (
+                        <p className="text-center text-gray-600">لا توجد معاملات في هذا الشهر</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b">
+                                    <th className="text-right py-2">التاريخ</th>
+                                    <th className="text-right py-2">البيان</th>
+                                    <th className="text-left py-2">المبلغ</th>
+                                    <th className="text-left py-2">الرصيد</th>
+                                    <th className="print:hidden"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {statement.transactions.map((transaction) => (
+                                    <tr key={transaction.id} className="border-b">
+                                        <td className="py-2 whitespace-nowrap">
+                                            {new Date(transaction.createdAt).toLocaleDateString("ar-EG")}
+                                        </td>
+                                        <td className="py-2">{transaction.description}</td>
+                                        <td className={`py-2 text-left whitespace-nowrap ${transaction.amount > 0 ? "text-green-700" : "text-red-700"}`}>
+                                            {transaction.amount > 0 ? "+" : ""}{transaction.amount.toFixed(2)} جنيه
+                                        </td>
+                                        <td className="py-2 text-left whitespace-nowrap">{transaction.balance.toFixed(2)} جنيه</td>
+                                        <td className="py-2 text-left print:hidden">
+                                            {transaction.hasReceipt && (
+                                                <Link
+                                                    href={`/dashboard/balance/receipts/${transaction.id}`}
+                                                    className="inline-flex items-center gap-1 text-[#0083d3] hover:underline"
+                                                >
+                                                    <FileText className="h-4 w-4" />
+                                                    الإيصال
+                                                </Link>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StatementPage;
@@ -0,0 +1,303 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { ArrowLeft, CreditCard, Wallet, AlertCircle, CheckCircle, Package } from "lucide-react";
+import Link from "next/link";
+import Image from "next/image";
+
+interface Bundle {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  courses: { id: string; title: string; imageUrl: string | null; price: number | null }[];
+  listPrice: number;
+  price: number;
+  credit: number;
+  finalPrice: number;
+  ownedCourseIds: string[];
+}
+
+export default function BundlePage({
+  params,
+}: {
+  params: Promise<{ bundleId: string }>;
+}) {
+  const router = useRouter();
+  const { bundleId } = use(params);
+  const [bundle, setBundle] = useState<Bundle | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  // Sent with every purchase request from this page, so a retried or double submitted purchase is only charged once
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+  const [userBalance, setUserBalance] = useState(0);
+  const [isLoadingBalance, setIsLoadingBalance] = useState(true);
+
+  const fetchBundle = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/bundles/${bundleId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setBundle(data);
+      } else if (response.status !== 404) {
+        toast.error("حدث خطأ أثناء تحميل الباقة");
+      }
+    } catch (error) {
+      console.error("Error fetching bundle:", error);
+      toast.error("حدث خطأ أثناء تحميل الباقة");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bundleId]);
+
+  useEffect(() => {
+    const fetchUserBalance = async () => {
+      try {
+        const response = await fetch("/api/user/balance");
+        if (response.ok) {
+          const data = await response.json();
+          setUserBalance(data.balance);
+        }
+      } catch (error) {
+        console.error("Error fetching balance:", error);
+      } finally {
+        setIsLoadingBalance(false);
+      }
+    };
+
+    fetchBundle();
+    fetchUserBalance();
+  }, [fetchBundle]);
+
+  const handlePurchase = async () => {
+    if (!bundle) return;
+
+    setIsPurchasing(true);
+    try {
+      const response = await fetch(`/api/bundles/${bundleId}/purchase`, {
+        method: "POST",
+        headers: {
+          "Idempotency-Key": idempotencyKey,
+        },
+      });
+
+      if (response.ok) {
+        toast.success("تم شراء الباقة بنجاح!");
+        router.push("/dashboard");
+      } else {
+        const error = await response.text();
+        if (error.includes("Insufficient balance")) {
+          toast.error("رصيد غير كافي. يرجى إضافة رصيد إلى حسابك");
+        } else if (error.includes("already own")) {
+          toast.error("أنت تملك بالفعل جميع كورسات هذه الباقة");
+        } else if (error.includes("changed while buying")) {
+          toast.error("تغيرت اشتراكاتك أثناء الشراء، يرجى المحاولة مرة أخرى");
+          fetchBundle();
+        } else {
+          toast.error(error || "حدث خطأ أثناء الشراء");
+        }
+      }
+    } catch (error) {
+      console.error("Error purchasing bundle:", error);
+      toast.error("حدث خطأ أثناء الشراء");
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  const hasSufficientBalance = bundle && userBalance >= bundle.finalPrice;
+  const ownsEveryCourse = bundle !== null && bundle.ownedCourseIds.length === bundle.courses.length;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#0083d3]"></div>
+      </div>
+    );
+  }
+
+  if (!bundle) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">الباقة غير موجودة</h1>
+          <Button asChild>
+            <Link href="/dashboard">العودة إلى لوحة التحكم</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              onClick={() => router.back()}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              رجوع
+            </Button>
+            <h1 className="text-2xl font-bold">شراء الباقة</h1>
+          </div>
+
+          {/* Bundle Details */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{bundle.title}</CardTitle>
+              <CardDescription>
+                {bundle.description || "لا يوجد وصف للباقة"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {bundle.imageUrl && (
+                <div className="relative mb-4 w-full h-48">
+                  <Image
+                    src={bundle.imageUrl}
+                    alt={bundle.title}
+                    fill
+                    className="object-cover rounded-lg"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                {bundle.listPrice > bundle.price && (
+                  <div className="flex items-center gap-2 text-muted-foreground line-through">
+                    <span>سعر الكورسات منفصلة:</span>
+                    <span>{bundle.listPrice.toFixed(2)} جنيه</span>
+                  </div>
+                )}
+                <div className="text-2xl font-bold text-[#0083d3]">
+                  {bundle.price.toFixed(2)} جنيه
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Courses */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                كورسات الباقة
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {bundle.courses.map((course) => (
+                  <div key={course.id} className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      {course.imageUrl && (
+                        <Image
+                          src={course.imageUrl}
+                          alt={course.title}
+                          width={64}
+                          height={40}
+                          className="w-16 h-10 object-cover rounded"
+                        />
+                      )}
+                      <span className="font-medium">{course.title}</span>
+                    </div>
+                    {bundle.ownedCourseIds.includes(course.id) ? (
+                      <Badge variant="secondary" className="flex items-center gap-1">
+                        <CheckCircle className="h-3 w-3" />
+                        تملكه بالفعل
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{(course.price || 0).toFixed(2)} جنيه</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {bundle.credit > 0 && (
+                <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm">
+                  تم خصم {bundle.credit.toFixed(2)} جنيه من سعر الباقة مقابل الكورسات التي تملكها بالفعل
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Balance Information */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                رصيد الحساب
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingBalance ? (
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[#0083d3]"></div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="text-xl font-bold">
+                    {userBalance.toFixed(2)} جنيه
+                  </div>
+                  {!hasSufficientBalance && (
+                    <div className="flex items-center gap-2 text-amber-600">
+                      <AlertCircle className="h-4 w-4" />
+                      <span>رصيد غير كافي لشراء هذه الباقة</span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Purchase Actions */}
+          <div className="space-y-4">
+            {!hasSufficientBalance && !ownsEveryCourse && (
+              <Card className="border-amber-200 bg-amber-50">
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-2 text-amber-700 mb-4">
+                    <AlertCircle className="h-5 w-5" />
+                    <span className="font-medium">رصيد غير كافي</span>
+                  </div>
+                  <p className="text-amber-700 mb-4">
+                    تحتاج إلى {(bundle.finalPrice - userBalance).toFixed(2)} جنيه إضافية لشراء هذه الباقة
+                  </p>
+                  <Button asChild className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                    <Link href="/dashboard/balance">إضافة رصيد</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Button
+              onClick={handlePurchase}
+              disabled={isPurchasing || !hasSufficientBalance || ownsEveryCourse}
+              className="w-full bg-[#0083d3] hover:bg-[#0083d3]/90 text-white"
+              size="lg"
+            >
+              {isPurchasing ? (
+                "جاري الشراء..."
+              ) : (
+                <div className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  {ownsEveryCourse ? "تملك جميع كورسات الباقة" : "شراء الباقة"}
+                </div>
+              )}
+            </Button>
+
+            {!ownsEveryCourse && (
+              <div className="text-center text-sm text-muted-foreground">
+                <p>سيتم خصم {bundle.finalPrice.toFixed(2)} جنيه من رصيدك</p>
+                <p>ستتمكن من الوصول إلى جميع كورسات الباقة فوراً بعد الشراء</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
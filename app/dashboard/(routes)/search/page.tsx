@@ -6,10 +6,12 @@ import { authOptions } from "@/lib/auth";
 import { SearchInput } from "./_components/search-input";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { BookOpen, Clock, Search } from "lucide-react";
+import { BookOpen, Clock, Package, Search } from "lucide-react";
 import Image from "next/image";
 import Link from "next/link";
 import { Course, Purchase } from "@prisma/client";
+import { getDaysLeft, isPurchaseExpired } from "@/lib/course-access";
+import { getPublishedBundles } from "@/lib/bundles";
 
 type CourseWithDetails = Course & {
     chapters: { id: string }[];
@@ -129,6 +131,7 @@ export default async function SearchPage({
             purchases: {
                 where: {
                     userId: session.user.id,
+                    status: "ACTIVE",
                 }
             },
             _count: {
@@ -148,7 +151,7 @@ export default async function SearchPage({
             id: courses[0].id,
             title: courses[0].title,
             grade: courses[0].grade,
-            division: courses[0].division,
+            divisions: courses[0].divisions,
             isPublished: courses[0].isPublished
         });
     }
@@ -219,6 +222,10 @@ export default async function SearchPage({
         })
     );
 
+    const bundles = (await getPublishedBundles()).filter(bundle =>
+        !title || bundle.title.toLowerCase().includes(title.toLowerCase())
+    );
+
     return (
         <div className="p-6 space-y-6">
             {/* Header Section */}
@@ -259,6 +266,68 @@ export default async function SearchPage({
                 </div>
             </div>
 
+            {/* Bundles Section */}
+            {bundles.length > 0 && (
+                <div>
+                    <h2 className="text-xl font-semibold mb-6">الباقات ({bundles.length})</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                        {bundles.map((bundle) => {
+                            const listPrice = bundle.courses.reduce((sum, item) => sum + (item.course.price || 0), 0);
+
+                            return (
+                            <div
+                                key={bundle.id}
+                                className="group bg-card rounded-2xl overflow-hidden border shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-[1.02]"
+                            >
+                                <div className="relative w-full aspect-[16/9]">
+                                    <Image
+                                        src={bundle.imageUrl || "/placeholder.png"}
+                                        alt={bundle.title}
+                                        fill
+                                        className="object-cover group-hover:scale-105 transition-transform duration-300"
+                                    />
+
+                                    {/* Price Badge */}
+                                    <div className="absolute top-4 left-4">
+                                        <div className="rounded-full px-3 py-1 text-sm font-medium bg-white/90 backdrop-blur-sm text-gray-800">
+                                            {listPrice > bundle.price && (
+                                                <span className="line-through text-muted-foreground ml-2">{listPrice} جنيه</span>
+                                            )}
+                                            {bundle.price} جنيه
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="p-6">
+                                    <div className="mb-4">
+                                        <h3 className="text-xl font-bold mb-3 line-clamp-2 min-h-[3rem] text-gray-900">
+                                            {bundle.title}
+                                        </h3>
+                                        <div className="flex items-start gap-1 text-sm text-muted-foreground">
+                                            <Package className="h-4 w-4 shrink-0 mt-0.5" />
+                                            <span className="line-clamp-2">
+                                                {bundle.courses.map((item) => item.course.title).join("، ")}
+                                            </span>
+                                        </div>
+                                    </div>
+
+                                    <Button 
+                                        className="w-full bg-[#0083d3] hover:bg-[#0083d3]/90 text-white font-semibold py-3 text-base transition-all duration-200 hover:scale-105" 
+                                        variant="default"
+                                        asChild
+                                    >
+                                        <Link href={`/dashboard/bundles/${bundle.id}`}>
+                                            عرض الباقة
+                                        </Link>
+                                    </Button>
+                                </div>
+                            </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
             {/* Results Section */}
             <div>
                 <div className="flex items-center justify-between mb-6">
@@ -274,7 +343,12 @@ export default async function SearchPage({
 
                 {/* Course Grid */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                    {coursesWithProgress.map((course) => (
+                    {coursesWithProgress.map((course) => {
+                        const purchase = course.purchases[0];
+                        const isExpired = purchase ? isPurchaseExpired(purchase) : false;
+                        const daysLeft = purchase ? getDaysLeft(purchase.expiresAt) : null;
+
+                        return (
                         <div
                             key={course.id}
                             className="group bg-card rounded-2xl overflow-hidden border shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-[1.02]"
@@ -291,11 +365,13 @@ export default async function SearchPage({
                                 {/* Course Status Badge */}
                                 <div className="absolute top-4 right-4">
                                     <div className={`rounded-full px-3 py-1 text-sm font-medium ${
-                                        course.purchases.length > 0 
+                                        isExpired
+                                            ? "bg-red-500 text-white"
+                                            : course.purchases.length > 0 
                                             ? "bg-green-500 text-white" 
                                             : "bg-white/90 backdrop-blur-sm text-gray-800"
                                     }`}>
-                                        {course.purchases.length > 0 ? "مشترك" : "متاح"}
+                                        {isExpired ? "منتهي" : course.purchases.length > 0 ? "مشترك" : "متاح"}
                                     </div>
                                 </div>
 
@@ -333,9 +409,24 @@ export default async function SearchPage({
                                             })}</span>
                                         </div>
                                     </div>
+                                    {daysLeft !== null && !isExpired && (
+                                        <p className="text-sm font-medium text-orange-600 mb-4">
+                                            متبقي {daysLeft} يوم على انتهاء الاشتراك
+                                        </p>
+                                    )}
                                 </div>
                                 
-                                {course.purchases.length > 0 ? (
+                                {isExpired ? (
+                                    <Button 
+                                        className="w-full bg-[#0083d3] hover:bg-[#0083d3]/90 text-white font-semibold py-3 text-base transition-all duration-200 hover:scale-105" 
+                                        variant="default"
+                                        asChild
+                                    >
+                                        <Link href={`/courses/${course.id}/purchase`}>
+                                            تجديد الاشتراك
+                                        </Link>
+                                    </Button>
+                                ) : course.purchases.length > 0 ? (
                                     <Button 
                                         className="w-full bg-[#0083d3] hover:bg-[#0083d3]/90 text-white font-semibold py-3 text-base transition-all duration-200 hover:scale-105" 
                                         variant="default"
@@ -358,7 +449,8 @@ export default async function SearchPage({
                                 )}
                             </div>
                         </div>
-                    ))}
+                        );
+                    })}
                 </div>
 
                 {/* Empty State */}
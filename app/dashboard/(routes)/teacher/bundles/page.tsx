@@ -0,0 +1,414 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FileUpload } from "@/components/file-upload";
+import { Plus, Edit, Trash2, Package, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface Course {
+    id: string;
+    title: string;
+    price: number | null;
+}
+
+interface Bundle {
+    id: string;
+    title: string;
+    description: string | null;
+    imageUrl: string | null;
+    price: number;
+    isPublished: boolean;
+    courses: { course: Course }[];
+    _count: {
+        purchases: number;
+    };
+}
+
+const BundlesPage = () => {
+    const [bundles, setBundles] = useState<Bundle[]>([]);
+    const [courses, setCourses] = useState<Course[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [editingBundle, setEditingBundle] = useState<Bundle | null>(null);
+
+    // Form state
+    const [title, setTitle] = useState("");
+    const [description, setDescription] = useState("");
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const [price, setPrice] = useState("");
+    const [isPublished, setIsPublished] = useState(false);
+    const [selectedCourseIds, setSelectedCourseIds] = useState<string[]>([]);
+
+    useEffect(() => {
+        fetchBundles();
+        fetchCourses();
+    }, []);
+
+    const fetchBundles = async () => {
+        try {
+            const response = await fetch("/api/bundles");
+            if (response.ok) {
+                const data = await response.json();
+                setBundles(data);
+            } else {
+                toast.error("حدث خطأ أثناء جلب الباقات");
+            }
+        } catch (error) {
+            console.error("Error fetching bundles:", error);
+            toast.error("حدث خطأ أثناء جلب الباقات");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const fetchCourses = async () => {
+        try {
+            const response = await fetch("/api/courses");
+            if (response.ok) {
+                const data: Course[] = await response.json();
+                setCourses(data.map((course) => ({
+                    id: course.id,
+                    title: course.title,
+                    price: course.price,
+                })));
+            }
+        } catch (error) {
+            console.error("Error fetching courses:", error);
+        }
+    };
+
+    const resetForm = () => {
+        setTitle("");
+        setDescription("");
+        setImageUrl(null);
+        setPrice("");
+        setIsPublished(false);
+        setSelectedCourseIds([]);
+        setEditingBundle(null);
+    };
+
+    const openCreateDialog = () => {
+        resetForm();
+        setIsDialogOpen(true);
+    };
+
+    const openEditDialog = (bundle: Bundle) => {
+        setTitle(bundle.title);
+        setDescription(bundle.description || "");
+        setImageUrl(bundle.imageUrl);
+        setPrice(bundle.price.toString());
+        setIsPublished(bundle.isPublished);
+        setSelectedCourseIds(bundle.courses.map((item) => item.course.id));
+        setEditingBundle(bundle);
+        setIsDialogOpen(true);
+    };
+
+    const toggleCourse = (courseId: string, checked: boolean) => {
+        setSelectedCourseIds((current) => checked
+            ? [...current, courseId]
+            : current.filter((id) => id !== courseId));
+    };
+
+    // What the selected courses cost when bought one by one
+    const listPrice = courses
+        .filter((course) => selectedCourseIds.includes(course.id))
+        .reduce((sum, course) => sum + (course.price || 0), 0);
+
+    const handleSubmit = async () => {
+        const bundlePrice = parseFloat(price);
+
+        if (!title.trim()) {
+            toast.error("اسم الباقة مطلوب");
+            return;
+        }
+
+        if (isNaN(bundlePrice) || bundlePrice < 0) {
+            toast.error("يرجى إدخال سعر صحيح للباقة");
+            return;
+        }
+
+        if (selectedCourseIds.length < 2) {
+            toast.error("يجب أن تحتوي الباقة على كورسين على الأقل");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await fetch(editingBundle ? `/api/bundles/${editingBundle.id}` : "/api/bundles", {
+                method: editingBundle ? "PATCH" : "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    title,
+                    description,
+                    imageUrl,
+                    price: bundlePrice,
+                    isPublished,
+                    courseIds: selectedCourseIds,
+                }),
+            });
+
+            if (response.ok) {
+                toast.success(editingBundle ? "تم تحديث الباقة بنجاح" : "تم إنشاء الباقة بنجاح");
+                setIsDialogOpen(false);
+                resetForm();
+                fetchBundles();
+            } else {
+                const error = await response.text();
+                toast.error(error || "حدث خطأ أثناء حفظ الباقة");
+            }
+        } catch (error) {
+            console.error("Error saving bundle:", error);
+            toast.error("حدث خطأ أثناء حفظ الباقة");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("هل أنت متأكد من حذف هذه الباقة؟ سيحتفظ الطلاب بالكورسات التي اشتروها من خلالها")) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/bundles/${id}`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                toast.success("تم حذف الباقة بنجاح");
+                fetchBundles();
+            } else {
+                toast.error("حدث خطأ أثناء حذف الباقة");
+            }
+        } catch (error) {
+            console.error("Error deleting bundle:", error);
+            toast.error("حدث خطأ أثناء حذف الباقة");
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="p-6">
+                <div className="text-center">جاري التحميل...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    الباقات
+                </h1>
+                <Button onClick={openCreateDialog} className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                    <Plus className="h-4 w-4 mr-2" />
+                    إنشاء باقة جديدة
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>قائمة الباقات</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {bundles.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right">الباقة</TableHead>
+                                    <TableHead className="text-right">الكورسات</TableHead>
+                                    <TableHead className="text-right">سعر الكورسات منفصلة</TableHead>
+                                    <TableHead className="text-right">سعر الباقة</TableHead>
+                                    <TableHead className="text-right">المبيعات</TableHead>
+                                    <TableHead className="text-right">الحالة</TableHead>
+                                    <TableHead className="text-right">الإجراءات</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {bundles.map((bundle) => (
+                                    <TableRow key={bundle.id}>
+                                        <TableCell className="font-medium">{bundle.title}</TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {bundle.courses.map((item) => (
+                                                    <Badge key={item.course.id} variant="outline">
+                                                        {item.course.title}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            {bundle.courses.reduce((sum, item) => sum + (item.course.price || 0), 0)} جنيه
+                                        </TableCell>
+                                        <TableCell>{bundle.price} جنيه</TableCell>
+                                        <TableCell>{bundle._count.purchases}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={bundle.isPublished ? "default" : "secondary"}>
+                                                {bundle.isPublished ? "منشورة" : "مسودة"}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex items-center gap-2">
+                                                <Button size="sm" variant="outline" onClick={() => openEditDialog(bundle)}>
+                                                    <Edit className="h-4 w-4" />
+                                                </Button>
+                                                <Button size="sm" variant="destructive" onClick={() => handleDelete(bundle.id)}>
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <div className="text-center py-8 text-muted-foreground">
+                            <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                            <p>لا توجد باقات حتى الآن</p>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog
+                open={isDialogOpen}
+                onOpenChange={(open) => {
+                    if (!open) {
+                        setIsDialogOpen(false);
+                        resetForm();
+                    }
+                }}
+            >
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>{editingBundle ? "تعديل الباقة" : "إنشاء باقة"}</DialogTitle>
+                        <DialogDescription>
+                            تُباع الباقة بسعرها الخاص، ويُخصم من سعرها نصيب الكورسات التي يملكها الطالب بالفعل
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="title">اسم الباقة</Label>
+                            <Input
+                                id="title"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                placeholder="مثال: الصف الثالث - جبر وهندسة ومراجعة"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="description">الوصف</Label>
+                            <Textarea
+                                id="description"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                placeholder="وصف الباقة (اختياري)"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>صورة الباقة</Label>
+                            {imageUrl ? (
+                                <div className="relative aspect-video rounded-md overflow-hidden">
+                                    <Image
+                                        src={imageUrl}
+                                        alt={title || "صورة الباقة"}
+                                        fill
+                                        className="object-cover"
+                                    />
+                                    <Button
+                                        size="sm"
+                                        variant="destructive"
+                                        className="absolute top-2 left-2"
+                                        onClick={() => setImageUrl(null)}
+                                    >
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ) : (
+                                <FileUpload
+                                    endpoint="courseImage"
+                                    onChange={(res) => {
+                                        if (res) {
+                                            setImageUrl(res.url);
+                                        }
+                                    }}
+                                />
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label>كورسات الباقة</Label>
+                            <div className="max-h-60 overflow-y-auto rounded-md border p-3 space-y-2">
+                                {courses.map((course) => (
+                                    <div key={course.id} className="flex items-center gap-2">
+                                        <Checkbox
+                                            id={`course-${course.id}`}
+                                            checked={selectedCourseIds.includes(course.id)}
+                                            onCheckedChange={(checked) => toggleCourse(course.id, checked === true)}
+                                        />
+                                        <Label htmlFor={`course-${course.id}`} className="cursor-pointer font-normal flex-1">
+                                            {course.title}
+                                        </Label>
+                                        <span className="text-sm text-muted-foreground">{course.price || 0} جنيه</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                سعر الكورسات المختارة منفصلة: {listPrice} جنيه
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="price">سعر الباقة (جنيه)</Label>
+                            <Input
+                                id="price"
+                                type="number"
+                                value={price}
+                                onChange={(e) => setPrice(e.target.value)}
+                                min="0"
+                                step="0.01"
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="isPublished"
+                                checked={isPublished}
+                                onCheckedChange={(checked) => setIsPublished(checked === true)}
+                            />
+                            <Label htmlFor="isPublished" className="cursor-pointer font-normal">
+                                نشر الباقة للطلاب
+                            </Label>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => {
+                                    setIsDialogOpen(false);
+                                    resetForm();
+                                }}
+                            >
+                                إلغاء
+                            </Button>
+                            <Button onClick={handleSubmit} disabled={isSaving}>
+                                {isSaving ? "جاري الحفظ..." : "حفظ"}
+                            </Button>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
+
+export default BundlesPage;
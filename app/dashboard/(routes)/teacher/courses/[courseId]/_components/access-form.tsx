@@ -0,0 +1,188 @@
+"use client"
+
+import * as z from "zod";
+import axios from "axios";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Pencil } from "lucide-react";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Course } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { formatAccessWindow } from "@/lib/course-access";
+
+interface AccessFormProps {
+    initialData: Course;
+
+    courseId: string;
+}
+
+const formSchema = z.object({
+    mode: z.enum(["LIFETIME", "END_DATE", "DAYS"]),
+    accessEndsAt: z.string(),
+    accessDays: z.coerce.number()
+}).refine((values) => values.mode !== "END_DATE" || values.accessEndsAt !== "", {
+    message: "اختر تاريخ انتهاء الاشتراك",
+    path: ["accessEndsAt"]
+}).refine((values) => values.mode !== "DAYS" || (Number.isInteger(values.accessDays) && values.accessDays > 0), {
+    message: "عدد الأيام يجب أن يكون رقماً صحيحاً أكبر من صفر",
+    path: ["accessDays"]
+});
+
+const toDateInput = (date: Date) => {
+    const local = new Date(date);
+    return `${local.getFullYear()}-${String(local.getMonth() + 1).padStart(2, "0")}-${String(local.getDate()).padStart(2, "0")}`;
+};
+
+export const AccessForm = ({
+    initialData,
+    courseId
+}: AccessFormProps) => {
+
+    const [isEditing, setIsEditing] = useState(false);
+
+    const toggleEdit = () => setIsEditing((current) => !current);
+
+    const router = useRouter();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            mode: initialData.accessDays ? "DAYS" : initialData.accessEndsAt ? "END_DATE" : "LIFETIME",
+            accessEndsAt: initialData.accessEndsAt ? toDateInput(initialData.accessEndsAt) : "",
+            accessDays: initialData.accessDays ?? 30,
+        }
+    });
+
+    const { isSubmitting } = form.formState;
+    const mode = form.watch("mode");
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        try {
+            await axios.patch(`/api/courses/${courseId}`, {
+                // Access lasts until the end of the chosen day
+                accessEndsAt: values.mode === "END_DATE" ? new Date(`${values.accessEndsAt}T23:59:59`).toISOString() : null,
+                accessDays: values.mode === "DAYS" ? values.accessDays : null,
+            });
+            toast.success("تم تحديث الكورس");
+            toggleEdit();
+            router.refresh();
+        } catch {
+            toast.error("حدث خطأ");
+        }
+    }
+
+    return (
+        <div className="mt-6 border bg-card rounded-md p-4">
+            <div className="font-medium flex items-center justify-between">
+                مدة الاشتراك
+                <Button onClick={toggleEdit} variant="ghost">
+                    {isEditing && (<>إلغاء</>)}
+                    {!isEditing && (
+                    <>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        تعديل المدة
+                    </>)}
+                </Button>
+            </div>
+            {!isEditing && (
+                <p className="text-sm mt-2 text-muted-foreground">
+                    {formatAccessWindow(initialData) ?? "وصول دائم"}
+                </p>
+            )}
+
+            {isEditing && (
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 mt-4">
+                        <FormField
+                            control={form.control}
+                            name="mode"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormControl>
+                                        <RadioGroup
+                                            value={field.value}
+                                            onValueChange={field.onChange}
+                                            className="space-y-2"
+                                        >
+                                            <div className="flex items-center gap-x-2">
+                                                <RadioGroupItem value="LIFETIME" id="access-lifetime" />
+                                                <Label htmlFor="access-lifetime">وصول دائم</Label>
+                                            </div>
+                                            <div className="flex items-center gap-x-2">
+                                                <RadioGroupItem value="END_DATE" id="access-end-date" />
+                                                <Label htmlFor="access-end-date">حتى تاريخ محدد</Label>
+                                            </div>
+                                            <div className="flex items-center gap-x-2">
+                                                <RadioGroupItem value="DAYS" id="access-days" />
+                                                <Label htmlFor="access-days">عدد أيام من تاريخ الشراء</Label>
+                                            </div>
+                                        </RadioGroup>
+                                    </FormControl>
+                                </FormItem>
+                            )}
+                        />
+                        {mode === "END_DATE" && (
+                            <FormField
+                                control={form.control}
+                                name="accessEndsAt"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>تاريخ انتهاء الاشتراك</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="date"
+                                                disabled={isSubmitting}
+                                                {...field}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+                        {mode === "DAYS" && (
+                            <FormField
+                                control={form.control}
+                                name="accessDays"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>عدد الأيام</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                step="1"
+                                                min="1"
+                                                disabled={isSubmitting}
+                                                {...field}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+                        <div className="flex items-center gap-x-2">
+                            <Button disabled={isSubmitting} type="submit">
+                                حفظ
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import * as z from "zod";
+import axios from "axios";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useRouter } from "next/navigation";
+
+import {
+    Form,
+    FormControl,
+    FormDescription,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Pencil } from "lucide-react";
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Course } from "@prisma/client";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface WatermarkFormProps {
+    initialData: Course;
+
+    courseId: string;
+}
+
+const formSchema = z.object({
+    watermarkEnabled: z.boolean().default(false),
+    watermarkOpacity: z.coerce.number()
+}).refine((values) => !values.watermarkEnabled || (Number.isInteger(values.watermarkOpacity) && values.watermarkOpacity >= 5 && values.watermarkOpacity <= 100), {
+    message: "الشفافية يجب أن تكون رقماً صحيحاً بين 5 و 100",
+    path: ["watermarkOpacity"]
+});
+
+export const WatermarkForm = ({
+    initialData,
+    courseId
+}: WatermarkFormProps) => {
+
+    const [isEditing, setIsEditing] = useState(false);
+
+    const toggleEdit = () => setIsEditing((current) => !current);
+
+    const router = useRouter();
+
+    const form = useForm<z.infer<typeof formSchema>>({
+        resolver: zodResolver(formSchema),
+        defaultValues: {
+            watermarkEnabled: initialData.watermarkEnabled,
+            watermarkOpacity: initialData.watermarkOpacity,
+        }
+    });
+
+    const { isSubmitting } = form.formState;
+    const watermarkEnabled = form.watch("watermarkEnabled");
+
+    const onSubmit = async (values: z.infer<typeof formSchema>) => {
+        try {
+            await axios.patch(`/api/courses/${courseId}`, values.watermarkEnabled ? values : { watermarkEnabled: false });
+            toast.success("تم تحديث الكورس");
+            toggleEdit();
+            router.refresh();
+        } catch {
+            toast.error("حدث خطأ");
+        }
+    }
+
+    return (
+        <div className="mt-6 border bg-card rounded-md p-4">
+            <div className="font-medium flex items-center justify-between">
+                العلامة المائية على الفيديوهات
+                <Button onClick={toggleEdit} variant="ghost">
+                    {isEditing && (<>إلغاء</>)}
+                    {!isEditing && (
+                    <>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        تعديل العلامة
+                    </>)}
+                </Button>
+            </div>
+            {!isEditing && (
+                <p className="text-sm mt-2 text-muted-foreground">
+                    {initialData.watermarkEnabled
+                        ? `يظهر اسم الطالب ورقم هاتفه على الفيديو بشفافية ${initialData.watermarkOpacity}%`
+                        : "بدون علامة مائية"}
+                </p>
+            )}
+
+            {isEditing && (
+                <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 mt-4">
+                        <FormField
+                            control={form.control}
+                            name="watermarkEnabled"
+                            render={({ field }) => (
+                                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                                    <FormControl>
+                                        <Checkbox
+                                            checked={field.value}
+                                            onCheckedChange={field.onChange}
+                                        />
+                                    </FormControl>
+                                    <div className="space-y-1 leading-none">
+                                        <FormDescription>
+                                            إظهار اسم الطالب ورقم هاتفه في أماكن متغيرة على الفيديو للحد من تسجيل الشاشة ونشر المحاضرات
+                                        </FormDescription>
+                                    </div>
+                                </FormItem>
+                            )}
+                        />
+                        {watermarkEnabled && (
+                            <FormField
+                                control={form.control}
+                                name="watermarkOpacity"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>درجة الظهور (%)</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                step="1"
+                                                min="5"
+                                                max="100"
+                                                disabled={isSubmitting}
+                                                {...field}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        )}
+                        <div className="flex items-center gap-x-2">
+                            <Button disabled={isSubmitting} type="submit">
+                                حفظ
+                            </Button>
+                        </div>
+                    </form>
+                </Form>
+            )}
+        </div>
+    )
+}
@@ -21,6 +21,7 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { Input } from "@/components/ui/input";
 import { Editor } from "@/components/editor";
+import { MathHtml } from "@/components/math-text";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { IconBadge } from "@/components/icon-badge";
@@ -31,6 +32,9 @@ interface ChapterFormProps {
         title: string;
         description: string | null;
         isFree: boolean;
+        price?: number | null;
+        completionThreshold?: number | null;
+        maxViews?: number | null;
         isPublished: boolean;
         studyTypes?: string[];
         requirePassingQuiz?: boolean;
@@ -56,6 +60,30 @@ const accessSchema = z.object({
     isFree: z.boolean().default(false),
 });
 
+const priceSchema = z.object({
+    isSoldSeparately: z.boolean().default(false),
+    price: z.coerce.number(),
+}).refine((values) => !values.isSoldSeparately || values.price > 0, {
+    message: "السعر يجب أن يكون أكبر من صفر",
+    path: ["price"],
+});
+
+const completionSchema = z.object({
+    requiresWatching: z.boolean().default(false),
+    completionThreshold: z.coerce.number(),
+}).refine((values) => !values.requiresWatching || (Number.isInteger(values.completionThreshold) && values.completionThreshold >= 1 && values.completionThreshold <= 100), {
+    message: "النسبة يجب أن تكون رقماً صحيحاً بين 1 و 100",
+    path: ["completionThreshold"],
+});
+
+const viewsSchema = z.object({
+    limitsViews: z.boolean().default(false),
+    maxViews: z.coerce.number(),
+}).refine((values) => !values.limitsViews || (Number.isInteger(values.maxViews) && values.maxViews >= 1), {
+    message: "عدد المشاهدات يجب أن يكون رقماً صحيحاً أكبر من صفر",
+    path: ["maxViews"],
+});
+
 const studyTypeSchema = z.object({
     studyTypes: z.array(z.string()).default([]),
 });
@@ -73,6 +101,9 @@ export const ChapterForm = ({
     const [isEditingTitle, setIsEditingTitle] = useState(false);
     const [isEditingDescription, setIsEditingDescription] = useState(false);
     const [isEditingAccess, setIsEditingAccess] = useState(false);
+    const [isEditingPrice, setIsEditingPrice] = useState(false);
+    const [isEditingCompletion, setIsEditingCompletion] = useState(false);
+    const [isEditingViews, setIsEditingViews] = useState(false);
     const [isEditingStudyType, setIsEditingStudyType] = useState(false);
     const [isEditingRequiredQuiz, setIsEditingRequiredQuiz] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
@@ -119,6 +150,30 @@ export const ChapterForm = ({
         }
     });
 
+    const priceForm = useForm<z.infer<typeof priceSchema>>({
+        resolver: zodResolver(priceSchema),
+        defaultValues: {
+            isSoldSeparately: !!initialData.price,
+            price: initialData.price ?? 0
+        }
+    });
+
+    const completionForm = useForm<z.infer<typeof completionSchema>>({
+        resolver: zodResolver(completionSchema),
+        defaultValues: {
+            requiresWatching: !!initialData.completionThreshold,
+            completionThreshold: initialData.completionThreshold ?? 90
+        }
+    });
+
+    const viewsForm = useForm<z.infer<typeof viewsSchema>>({
+        resolver: zodResolver(viewsSchema),
+        defaultValues: {
+            limitsViews: !!initialData.maxViews,
+            maxViews: initialData.maxViews ?? 3
+        }
+    });
+
     const studyTypeForm = useForm<z.infer<typeof studyTypeSchema>>({
         resolver: zodResolver(studyTypeSchema),
         defaultValues: {
@@ -137,6 +192,12 @@ export const ChapterForm = ({
     const { isSubmitting: isSubmittingTitle, isValid: isValidTitle } = titleForm.formState;
     const { isSubmitting: isSubmittingDescription, isValid: isValidDescription } = descriptionForm.formState;
     const { isSubmitting: isSubmittingAccess, isValid: isValidAccess } = accessForm.formState;
+    const { isSubmitting: isSubmittingPrice } = priceForm.formState;
+    const isSoldSeparately = priceForm.watch("isSoldSeparately");
+    const { isSubmitting: isSubmittingCompletion } = completionForm.formState;
+    const requiresWatching = completionForm.watch("requiresWatching");
+    const { isSubmitting: isSubmittingViews } = viewsForm.formState;
+    const limitsViews = viewsForm.watch("limitsViews");
     const { isSubmitting: isSubmittingStudyType, isValid: isValidStudyType } = studyTypeForm.formState;
     const { isSubmitting: isSubmittingRequiredQuiz, isValid: isValidRequiredQuiz } = requiredQuizForm.formState;
 
@@ -205,6 +266,81 @@ export const ChapterForm = ({
         }
     }
 
+    const onSubmitPrice = async (values: z.infer<typeof priceSchema>) => {
+        try {
+            const response = await fetch(`/api/courses/${courseId}/chapters/${chapterId}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    price: values.isSoldSeparately ? values.price : null,
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to update chapter price');
+            }
+
+            toast.success("تم تحديث سعر المحاضرة");
+            setIsEditingPrice(false);
+            router.refresh();
+        } catch (error) {
+            console.error("[CHAPTER_PRICE]", error);
+            toast.error("حدث خطأ");
+        }
+    }
+
+    const onSubmitCompletion = async (values: z.infer<typeof completionSchema>) => {
+        try {
+            const response = await fetch(`/api/courses/${courseId}/chapters/${chapterId}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    completionThreshold: values.requiresWatching ? values.completionThreshold : null,
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to update chapter completion');
+            }
+
+            toast.success("تم تحديث شرط إكمال المحاضرة");
+            setIsEditingCompletion(false);
+            router.refresh();
+        } catch (error) {
+            console.error("[CHAPTER_COMPLETION]", error);
+            toast.error("حدث خطأ");
+        }
+    }
+
+    const onSubmitViews = async (values: z.infer<typeof viewsSchema>) => {
+        try {
+            const response = await fetch(`/api/courses/${courseId}/chapters/${chapterId}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    maxViews: values.limitsViews ? values.maxViews : null,
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to update chapter views');
+            }
+
+            toast.success("تم تحديث عدد مرات المشاهدة");
+            setIsEditingViews(false);
+            router.refresh();
+        } catch (error) {
+            console.error("[CHAPTER_VIEWS]", error);
+            toast.error("حدث خطأ");
+        }
+    }
+
     const onSubmitStudyType = async (values: z.infer<typeof studyTypeSchema>) => {
         try {
             await fetch(`/api/courses/${courseId}/chapters/${chapterId}`, {
@@ -370,9 +506,9 @@ export const ChapterForm = ({
                         )}>
                             {!initialData.description && "لا يوجد وصف"}
                             {initialData.description && (
-                                <div 
+                                <MathHtml
                                     className="prose prose-sm max-w-none space-y-4"
-                                    dangerouslySetInnerHTML={{ __html: initialData.description }}
+                                    html={initialData.description}
                                 />
                             )}
                         </div>
@@ -480,6 +616,253 @@ export const ChapterForm = ({
                             </Form>
                         )}
                     </div>
+                    <div className="border bg-card rounded-md p-4">
+                        <div className="font-medium flex items-center justify-between">
+                            البيع المنفصل
+                            <Button onClick={() => setIsEditingPrice(!isEditingPrice)} variant="ghost">
+                                {isEditingPrice ? (
+                                    <>الغاء</>
+                                ) : (
+                                    <>
+                                        <Pencil className="h-4 w-4 mr-2" />
+                                        تعديل السعر
+                                    </>
+                                )}
+                            </Button>
+                        </div>
+                        {!isEditingPrice && (
+                            <p className={cn(
+                                "text-sm mt-2",
+                                !initialData.price && "text-muted-foreground italic"
+                            )}>
+                                {initialData.price
+                                    ? `يمكن شراء هذه المحاضرة وحدها بسعر ${initialData.price} جنيه`
+                                    : "تباع هذه المحاضرة مع الكورس فقط"}
+                            </p>
+                        )}
+                        {isEditingPrice && (
+                            <Form {...priceForm}>
+                                <form
+                                    onSubmit={priceForm.handleSubmit(onSubmitPrice)}
+                                    className="space-y-4 mt-4"
+                                >
+                                    <FormField
+                                        control={priceForm.control}
+                                        name="isSoldSeparately"
+                                        render={({ field }) => (
+                                            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                                                <FormControl>
+                                                    <Checkbox
+                                                        checked={field.value}
+                                                        onCheckedChange={field.onChange}
+                                                    />
+                                                </FormControl>
+                                                <div className="space-y-1 leading-none">
+                                                    <FormDescription>
+                                                        السماح للطلاب بشراء هذه المحاضرة بدون باقي الكورس
+                                                    </FormDescription>
+                                                </div>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    {isSoldSeparately && (
+                                        <FormField
+                                            control={priceForm.control}
+                                            name="price"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormControl>
+                                                        <Input
+                                                            type="number"
+                                                            step="0.01"
+                                                            min="0"
+                                                            disabled={isSubmittingPrice}
+                                                            placeholder="سعر المحاضرة (جنيه)"
+                                                            {...field}
+                                                        />
+                                                    </FormControl>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    )}
+                                    <div className="flex items-center gap-x-2">
+                                        <Button
+                                            disabled={isSubmittingPrice}
+                                            type="submit"
+                                        >
+                                            حفظ
+                                        </Button>
+                                    </div>
+                                </form>
+                            </Form>
+                        )}
+                    </div>
+                    <div className="border bg-card rounded-md p-4">
+                        <div className="font-medium flex items-center justify-between">
+                            إكمال المحاضرة
+                            <Button onClick={() => setIsEditingCompletion(!isEditingCompletion)} variant="ghost">
+                                {isEditingCompletion ? (
+                                    <>الغاء</>
+                                ) : (
+                                    <>
+                                        <Pencil className="h-4 w-4 mr-2" />
+                                        تعديل الشرط
+                                    </>
+                                )}
+                            </Button>
+                        </div>
+                        {!isEditingCompletion && (
+                            <p className={cn(
+                                "text-sm mt-2",
+                                !initialData.completionThreshold && "text-muted-foreground italic"
+                            )}>
+                                {initialData.completionThreshold
+                                    ? `تكتمل المحاضرة بعد مشاهدة ${initialData.completionThreshold}% من الفيديو`
+                                    : "يمكن للطالب إكمال المحاضرة بنفسه"}
+                            </p>
+                        )}
+                        {isEditingCompletion && (
+                            <Form {...completionForm}>
+                                <form
+                                    onSubmit={completionForm.handleSubmit(onSubmitCompletion)}
+                                    className="space-y-4 mt-4"
+                                >
+                                    <FormField
+                                        control={completionForm.control}
+                                        name="requiresWatching"
+                                        render={({ field }) => (
+                                            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                                                <FormControl>
+                                                    <Checkbox
+                                                        checked={field.value}
+                                                        onCheckedChange={field.onChange}
+                                                    />
+                                                </FormControl>
+                                                <div className="space-y-1 leading-none">
+                                                    <FormDescription>
+                                                        إكمال المحاضرة تلقائياً بعد مشاهدة نسبة من الفيديو فقط
+                                                    </FormDescription>
+                                                </div>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    {requiresWatching && (
+                                        <FormField
+                                            control={completionForm.control}
+                                            name="completionThreshold"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormControl>
+                                                        <Input
+                                                            type="number"
+                                                            step="1"
+                                                            min="1"
+                                                            max="100"
+                                                            disabled={isSubmittingCompletion}
+                                                            placeholder="نسبة المشاهدة (%)"
+                                                            {...field}
+                                                        />
+                                                    </FormControl>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    )}
+                                    <div className="flex items-center gap-x-2">
+                                        <Button
+                                            disabled={isSubmittingCompletion}
+                                            type="submit"
+                                        >
+                                            حفظ
+                                        </Button>
+                                    </div>
+                                </form>
+                            </Form>
+                        )}
+                    </div>
+                    <div className="border bg-card rounded-md p-4">
+                        <div className="font-medium flex items-center justify-between">
+                            عدد مرات المشاهدة
+                            <Button onClick={() => setIsEditingViews(!isEditingViews)} variant="ghost">
+                                {isEditingViews ? (
+                                    <>الغاء</>
+                                ) : (
+                                    <>
+                                        <Pencil className="h-4 w-4 mr-2" />
+                                        تعديل العدد
+                                    </>
+                                )}
+                            </Button>
+                        </div>
+                        {!isEditingViews && (
+                            <p className={cn(
+                                "text-sm mt-2",
+                                !initialData.maxViews && "text-muted-foreground italic"
+                            )}>
+                                {initialData.maxViews
+                                    ? `يمكن لكل طالب مشاهدة الفيديو ${initialData.maxViews} مرات`
+                                    : "مشاهدة غير محدودة"}
+                            </p>
+                        )}
+                        {isEditingViews && (
+                            <Form {...viewsForm}>
+                                <form
+                                    onSubmit={viewsForm.handleSubmit(onSubmitViews)}
+                                    className="space-y-4 mt-4"
+                                >
+                                    <FormField
+                                        control={viewsForm.control}
+                                        name="limitsViews"
+                                        render={({ field }) => (
+                                            <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                                                <FormControl>
+                                                    <Checkbox
+                                                        checked={field.value}
+                                                        onCheckedChange={field.onChange}
+                                                    />
+                                                </FormControl>
+                                                <div className="space-y-1 leading-none">
+                                                    <FormDescription>
+                                                        تحديد عدد مرات مشاهدة الفيديو لكل طالب، ويمكن زيادته لطالب معين من صفحة الطلاب
+                                                    </FormDescription>
+                                                </div>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    {limitsViews && (
+                                        <FormField
+                                            control={viewsForm.control}
+                                            name="maxViews"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormControl>
+                                                        <Input
+                                                            type="number"
+                                                            step="1"
+                                                            min="1"
+                                                            disabled={isSubmittingViews}
+                                                            placeholder="عدد مرات المشاهدة"
+                                                            {...field}
+                                                        />
+                                                    </FormControl>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    )}
+                                    <div className="flex items-center gap-x-2">
+                                        <Button
+                                            disabled={isSubmittingViews}
+                                            type="submit"
+                                        >
+                                            حفظ
+                                        </Button>
+                                    </div>
+                                </form>
+                            </Form>
+                        )}
+                    </div>
                 </div>
             </div>
 
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Video, Pencil, Upload, Youtube, Link } from "lucide-react";
+import { Video, Pencil, Upload, Youtube, Link, Loader2, AlertCircle, CheckCircle2, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { FileUpload } from "@/components/file-upload";
 import { Input } from "@/components/ui/input";
@@ -16,6 +16,9 @@ interface VideoFormProps {
         videoUrl: string | null;
         videoType: string | null;
         youtubeVideoId: string | null;
+        videoStatus?: string | null;
+        hlsUrl?: string | null;
+        posterUrl?: string | null;
     };
     courseId: string;
     chapterId: string;
@@ -31,11 +34,42 @@ export const VideoForm = ({
     const [youtubeUrl, setYoutubeUrl] = useState("");
     const [isSubmitting, setIsSubmitting] = useState(false);
     const router = useRouter();
+    const isProcessing = initialData.videoStatus === "QUEUED" || initialData.videoStatus === "PROCESSING";
 
     useEffect(() => {
         setIsMounted(true);
     }, []);
 
+    // Picks up the status the worker saves while the video is processed
+    useEffect(() => {
+        if (!isProcessing) {
+            return;
+        }
+        const interval = setInterval(() => router.refresh(), 10000);
+        return () => clearInterval(interval);
+    }, [isProcessing, router]);
+
+    const onRetryProcessing = async () => {
+        try {
+            setIsSubmitting(true);
+            const response = await fetch(`/api/courses/${courseId}/chapters/${chapterId}/video-processing`, {
+                method: 'POST',
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to queue video processing');
+            }
+
+            toast.success("تمت إعادة الفيديو إلى قائمة المعالجة");
+            router.refresh();
+        } catch (error) {
+            console.error("[CHAPTER_VIDEO_PROCESSING]", error);
+            toast.error("حدث خطأ ما");
+        } finally {
+            setIsSubmitting(false);
+        }
+    }
+
     const onSubmitUpload = async (url: string) => {
         try {
             setIsSubmitting(true);
@@ -129,6 +163,8 @@ export const VideoForm = ({
                             return (
                                 <PlyrVideoPlayer
                                     videoUrl={initialData.videoType === "UPLOAD" ? initialData.videoUrl : undefined}
+                                    hlsUrl={initialData.videoType === "UPLOAD" ? initialData.hlsUrl ?? undefined : undefined}
+                                    posterUrl={initialData.posterUrl ?? undefined}
                                     youtubeVideoId={initialData.videoType === "YOUTUBE" ? initialData.youtubeVideoId || undefined : undefined}
                                     videoType={(initialData.videoType as "UPLOAD" | "YOUTUBE") || "UPLOAD"}
                                     className="w-full h-full"
@@ -142,6 +178,41 @@ export const VideoForm = ({
                     )}
                 </div>
             )}
+
+            {!isEditing && initialData.videoType === "UPLOAD" && initialData.videoStatus && (
+                <div className="flex items-center justify-between gap-2 mt-2 text-sm text-muted-foreground">
+                    {isProcessing && (
+                        <span className="flex items-center gap-2">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            جاري تجهيز الفيديو بجودات متعددة، ويعرض الفيديو الأصلي حتى ينتهي
+                        </span>
+                    )}
+                    {initialData.videoStatus === "READY" && (
+                        <span className="flex items-center gap-2">
+                            <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                            الفيديو جاهز بجودات متعددة
+                        </span>
+                    )}
+                    {initialData.videoStatus === "FAILED" && (
+                        <>
+                            <span className="flex items-center gap-2 text-destructive">
+                                <AlertCircle className="h-4 w-4" />
+                                فشل تجهيز الفيديو، ويعرض الفيديو الأصلي
+                            </span>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={onRetryProcessing}
+                                disabled={isSubmitting}
+                                className="flex items-center gap-2"
+                            >
+                                <RotateCcw className="h-4 w-4" />
+                                إعادة المحاولة
+                            </Button>
+                        </>
+                    )}
+                </div>
+            )}
             
             {isEditing && (
                 <div className="mt-4">
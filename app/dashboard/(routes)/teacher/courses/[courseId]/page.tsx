@@ -7,6 +7,8 @@ import { TitleForm } from "./_components/title-form";
 import { DescriptionForm } from "./_components/description-form";
 import { ImageForm } from "./_components/image-form";
 import { PriceForm } from "./_components/price-form";
+import { AccessForm } from "./_components/access-form";
+import { WatermarkForm } from "./_components/watermark-form";
 import { CourseGradeDivisionForm } from "./_components/course-grade-division-form";
 import { CourseContentForm } from "./_components/course-content-form";
 import { Banner } from "@/components/banner";
@@ -159,6 +161,10 @@ export default async function CourseIdPage({
                             initialData={course}
                             courseId={course.id}
                         />
+                        <AccessForm
+                            initialData={course}
+                            courseId={course.id}
+                        />
                         <CourseGradeDivisionForm
                             initialData={course}
                             courseId={course.id}
@@ -188,6 +194,10 @@ export default async function CourseIdPage({
                                 initialData={course}
                                 courseId={course.id}
                             />
+                            <WatermarkForm
+                                initialData={course}
+                                courseId={course.id}
+                            />
                         </div>
                     </div>
                 </div>
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect, useCallback, Suspense } from "react";
+import Image from "next/image";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, Eye } from "lucide-react";
+import { toast } from "sonner";
+import { useRouter, useSearchParams } from "next/navigation";
+import { MathText } from "@/components/math-text";
+import { AnswerGrade, AnswerGradeForm } from "../quiz-results/_components/answer-grade-form";
+
+interface QueuedAnswer {
+    id: string;
+    quizResultId: string;
+    studentAnswer: string;
+    correctAnswer: string;
+    pointsEarned: number;
+    isCorrect: boolean;
+    isOverridden: boolean;
+    teacherComment: string | null;
+    gradedAt: string | null;
+    question: {
+        text: string;
+        type: string;
+        points: number;
+        imageUrl?: string | null;
+    };
+    quizResult: {
+        id: string;
+        submittedAt: string;
+        attemptNumber: number;
+        user: {
+            fullName: string;
+            phoneNumber: string;
+        };
+        quiz: {
+            id: string;
+            title: string;
+            course: {
+                title: string;
+            };
+        };
+    };
+}
+
+type QueueStatus = "pending" | "graded";
+
+const GradingQueueContent = () => {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const quizId = searchParams.get("quizId");
+
+    const [status, setStatus] = useState<QueueStatus>("pending");
+    const [answers, setAnswers] = useState<QueuedAnswer[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editingAnswerId, setEditingAnswerId] = useState<string | null>(null);
+
+    const fetchAnswers = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = new URLSearchParams({ status });
+            if (quizId) {
+                params.set("quizId", quizId);
+            }
+
+            const response = await fetch(`/api/teacher/grading?${params.toString()}`);
+            if (response.ok) {
+                const data = await response.json();
+                setAnswers(data);
+            } else {
+                toast.error("حدث خطأ أثناء تحميل الإجابات");
+            }
+        } catch (error) {
+            console.error("Error fetching grading queue:", error);
+            toast.error("حدث خطأ أثناء تحميل الإجابات");
+        } finally {
+            setLoading(false);
+        }
+    }, [status, quizId]);
+
+    useEffect(() => {
+        fetchAnswers();
+    }, [fetchAnswers]);
+
+    const handleGraded = (answerId: string, grade: AnswerGrade) => {
+        setEditingAnswerId(null);
+        if (status === "pending") {
+            // Graded answers leave the queue
+            setAnswers(prev => prev.filter(answer => answer.id !== answerId));
+        } else {
+            setAnswers(prev => prev.map(answer => answer.id === answerId ? { ...answer, ...grade } : answer));
+        }
+    };
+
+    return (
+        <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    التصحيح اليدوي
+                </h1>
+                <div className="flex gap-2">
+                    <Button
+                        variant={status === "pending" ? "default" : "outline"}
+                        onClick={() => setStatus("pending")}
+                    >
+                        بانتظار التصحيح
+                    </Button>
+                    <Button
+                        variant={status === "graded" ? "default" : "outline"}
+                        onClick={() => setStatus("graded")}
+                    >
+                        تم تصحيحها
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <ClipboardCheck className="h-5 w-5" />
+                        {status === "pending" ? "إجابات بانتظار التصحيح" : "إجابات تم تصحيحها"}
+                        {!loading && <Badge variant="secondary">{answers.length}</Badge>}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {loading ? (
+                        <div className="text-center py-8">جاري التحميل...</div>
+                    ) : answers.length === 0 ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                            {status === "pending" ? "لا توجد إجابات بانتظار التصحيح" : "لا توجد إجابات تم تصحيحها"}
+                        </div>
+                    ) : (
+                        answers.map(answer => (
+                            <div key={answer.id} className="border rounded-lg p-4 space-y-3">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div>
+                                        <p className="font-medium">{answer.quizResult.user.fullName}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {answer.quizResult.quiz.title} - {answer.quizResult.quiz.course.title} - المحاولة {answer.quizResult.attemptNumber} - {new Date(answer.quizResult.submittedAt).toLocaleDateString("ar-EG")}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant="outline">{answer.pointsEarned} / {answer.question.points}</Badge>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => router.push(`/dashboard/teacher/quiz-results/${answer.quizResult.id}`)}
+                                        >
+                                            <Eye className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                <p className="text-muted-foreground"><MathText text={answer.question.text} /></p>
+
+                                {answer.question.imageUrl && (
+                                    <Image
+                                        src={answer.question.imageUrl}
+                                        alt="Question"
+                                        width={0}
+                                        height={0}
+                                        sizes="100vw"
+                                        className="w-auto max-w-full h-auto max-h-48 rounded-lg border"
+                                    />
+                                )}
+
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    <div>
+                                        <span className="text-sm font-medium">إجابة الطالب:</span>
+                                        <p className="text-sm p-2 rounded border bg-gray-50 whitespace-pre-wrap">
+                                            {answer.studentAnswer || "لم يجب"}
+                                        </p>
+                                    </div>
+                                    <div>
+                                        <span className="text-sm font-medium">الإجابة النموذجية:</span>
+                                        <p className="text-sm p-2 rounded border bg-green-50 border-green-200">
+                                            <MathText text={answer.correctAnswer} />
+                                        </p>
+                                    </div>
+                                </div>
+
+                                {status === "graded" && answer.teacherComment && editingAnswerId !== answer.id && (
+                                    <p className="text-sm text-muted-foreground">تعليق المعلم: {answer.teacherComment}</p>
+                                )}
+
+                                {status === "pending" || editingAnswerId === answer.id ? (
+                                    <AnswerGradeForm
+                                        resultId={answer.quizResultId}
+                                        answerId={answer.id}
+                                        maxPoints={answer.question.points}
+                                        pointsEarned={answer.pointsEarned}
+                                        comment={answer.teacherComment}
+                                        onGraded={(grade) => handleGraded(answer.id, grade)}
+                                        onCancel={status === "graded" ? () => setEditingAnswerId(null) : undefined}
+                                    />
+                                ) : (
+                                    <Button variant="outline" size="sm" onClick={() => setEditingAnswerId(answer.id)}>
+                                        تعديل الدرجة
+                                    </Button>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+const GradingQueuePage = () => {
+    return (
+        <Suspense fallback={
+            <div className="p-6">
+                <div className="text-center">جاري التحميل...</div>
+            </div>
+        }>
+            <GradingQueueContent />
+        </Suspense>
+    );
+};
+
+export default GradingQueuePage;
@@ -12,6 +12,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Search, Eye, BookOpen, CheckCircle, Clock } from "lucide-react";
 import { format } from "date-fns";
 import { ar } from "date-fns/locale";
+import { formatDuration } from "@/lib/format";
 
 interface User {
     id: string;
@@ -28,6 +29,9 @@ interface User {
 interface UserProgress {
     id: string;
     isCompleted: boolean;
+    watchedSeconds: number;
+    duration: number | null;
+    lastWatchedAt: string | null;
     updatedAt: string;
     chapter: {
         id: string;
@@ -130,6 +134,7 @@ const ProgressPage = () => {
     const inProgressChapters = userProgress.filter(p => !p.isCompleted).length;
     const totalAvailableChapters = allChapters.length;
     const notStartedChapters = totalAvailableChapters - completedProgress - inProgressChapters;
+    const totalWatchedSeconds = userProgress.reduce((sum, p) => sum + p.watchedSeconds, 0);
     const progressPercentage = totalAvailableChapters > 0 ? (completedProgress / totalAvailableChapters) * 100 : 0;
 
     if (loading) {
@@ -244,11 +249,19 @@ const ProgressPage = () => {
                                             <span className="font-bold">{progressPercentage.toFixed(1)}%</span>
                                         </div>
                                         <Progress value={progressPercentage} className="w-full" />
-                                        <div className="grid grid-cols-2 gap-4 text-center">
+                                        <div className="grid grid-cols-4 gap-4 text-center">
                                             <div>
                                                 <div className="text-2xl font-bold text-green-600">{completedProgress}</div>
                                                 <div className="text-sm text-muted-foreground">مكتمل</div>
                                             </div>
+                                            <div>
+                                                <div className="text-2xl font-bold text-blue-600">{inProgressChapters}</div>
+                                                <div className="text-sm text-muted-foreground">قيد التقدم</div>
+                                            </div>
+                                            <div>
+                                                <div className="text-2xl font-bold text-[#0083d3]">{formatDuration(totalWatchedSeconds)}</div>
+                                                <div className="text-sm text-muted-foreground">وقت المشاهدة</div>
+                                            </div>
                                             <div>
                                                 <div className="text-2xl font-bold text-gray-600">{notStartedChapters}</div>
                                                 <div className="text-sm text-muted-foreground">لم يبدأ</div>
@@ -309,6 +322,7 @@ const ProgressPage = () => {
                                                 <TableHead className="text-right">الكورس</TableHead>
                                                 <TableHead className="text-right">الفصل</TableHead>
                                                 <TableHead className="text-right">الحالة</TableHead>
+                                                <TableHead className="text-right">وقت المشاهدة</TableHead>
                                                 <TableHead className="text-right">آخر تحديث</TableHead>
                                             </TableRow>
                                         </TableHeader>
@@ -343,9 +357,23 @@ const ProgressPage = () => {
                                                                 </Badge>
                                                             )}
                                                         </TableCell>
+                                                        <TableCell>
+                                                            {progress?.watchedSeconds ? (
+                                                                <div className="space-y-1">
+                                                                    <div>{formatDuration(progress.watchedSeconds)}</div>
+                                                                    {progress.duration ? (
+                                                                        <div className="text-xs text-muted-foreground">
+                                                                            {Math.min(100, Math.round((progress.watchedSeconds / progress.duration) * 100))}% من {formatDuration(progress.duration)}
+                                                                        </div>
+                                                                    ) : null}
+                                                                </div>
+                                                            ) : (
+                                                                "-"
+                                                            )}
+                                                        </TableCell>
                                                         <TableCell>
                                                             {progress ? (
-                                                                format(new Date(progress.updatedAt), "dd/MM/yyyy", { locale: ar })
+                                                                format(new Date(progress.lastWatchedAt ?? progress.updatedAt), "dd/MM/yyyy", { locale: ar })
                                                             ) : (
                                                                 "-"
                                                             )}
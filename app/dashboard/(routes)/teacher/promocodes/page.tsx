@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
@@ -35,10 +36,33 @@ interface PromoCode {
     validUntil: string | null;
     description: string | null;
     courseIds?: string[];
+    perUserLimit: number | null;
+    firstPurchaseOnly: boolean;
+    grade: string | null;
+    division: string | null;
+    studentPhoneNumbers?: string[];
     createdAt: string;
     updatedAt: string;
 }
 
+// Select items can't have an empty value, so this stands for no restriction
+const ALL = "ALL";
+
+const GRADES = ["الأول الثانوي", "الثاني الثانوي", "الثالث الثانوي"];
+
+const getDivisionOptions = (grade: string) => {
+    switch (grade) {
+        case "الأول الثانوي":
+            return ["بكالوريا", "عام"];
+        case "الثاني الثانوي":
+            return ["علمي", "أدبي"];
+        case "الثالث الثانوي":
+            return ["علمي رياضة", "أدبي"];
+        default:
+            return ["بكالوريا", "عام", "علمي", "أدبي", "علمي رياضة"];
+    }
+};
+
 const TeacherPromoCodesPage = () => {
     const [promocodes, setPromocodes] = useState<PromoCode[]>([]);
     const [loading, setLoading] = useState(true);
@@ -61,6 +85,11 @@ const TeacherPromoCodesPage = () => {
     const [validFrom, setValidFrom] = useState("");
     const [validUntil, setValidUntil] = useState("");
     const [description, setDescription] = useState("");
+    const [perUserLimit, setPerUserLimit] = useState("");
+    const [firstPurchaseOnly, setFirstPurchaseOnly] = useState(false);
+    const [grade, setGrade] = useState(ALL);
+    const [division, setDivision] = useState(ALL);
+    const [studentPhoneNumbers, setStudentPhoneNumbers] = useState("");
 
     useEffect(() => {
         fetchPromocodes();
@@ -110,6 +139,11 @@ const TeacherPromoCodesPage = () => {
         setValidFrom("");
         setValidUntil("");
         setDescription("");
+        setPerUserLimit("");
+        setFirstPurchaseOnly(false);
+        setGrade(ALL);
+        setDivision(ALL);
+        setStudentPhoneNumbers("");
         setSelectedCourseIds([]);
         setApplyToAllCourses(true);
         setSearchQuery("");
@@ -132,6 +166,11 @@ const TeacherPromoCodesPage = () => {
         setValidFrom(promocode.validFrom ? promocode.validFrom.split("T")[0] : "");
         setValidUntil(promocode.validUntil ? promocode.validUntil.split("T")[0] : "");
         setDescription(promocode.description || "");
+        setPerUserLimit(promocode.perUserLimit?.toString() || "");
+        setFirstPurchaseOnly(promocode.firstPurchaseOnly);
+        setGrade(promocode.grade || ALL);
+        setDivision(promocode.division || ALL);
+        setStudentPhoneNumbers((promocode.studentPhoneNumbers || []).join("\n"));
         const courseIds = promocode.courseIds || [];
         setSelectedCourseIds(courseIds);
         setApplyToAllCourses(courseIds.length === 0);
@@ -163,6 +202,12 @@ const TeacherPromoCodesPage = () => {
             validUntil: validUntil || null,
             description: description.trim() || null,
             courseIds: applyToAllCourses ? [] : selectedCourseIds,
+            perUserLimit: perUserLimit ? parseInt(perUserLimit) : null,
+            firstPurchaseOnly,
+            grade: grade === ALL ? null : grade,
+            division: division === ALL ? null : division,
+            // One phone number per line, or separated by commas
+            studentPhoneNumbers: studentPhoneNumbers.split(/[\s,،]+/).filter(Boolean),
         };
 
         try {
@@ -441,6 +486,81 @@ const TeacherPromoCodesPage = () => {
                             </div>
                         </div>
 
+                        <div className="space-y-3 border-t pt-4">
+                            <Label>شروط استخدام الطلاب</Label>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="perUserLimit">الحد الأقصى للاستخدام لكل طالب</Label>
+                                    <Input
+                                        id="perUserLimit"
+                                        type="number"
+                                        value={perUserLimit}
+                                        onChange={(e) => setPerUserLimit(e.target.value)}
+                                        placeholder="مثال: 1"
+                                        min="1"
+                                    />
+                                </div>
+                                <div className="flex items-end pb-2">
+                                    <div className="flex items-center space-x-2 space-x-reverse">
+                                        <Checkbox
+                                            id="firstPurchaseOnly"
+                                            checked={firstPurchaseOnly}
+                                            onCheckedChange={(checked) => setFirstPurchaseOnly(checked === true)}
+                                        />
+                                        <Label htmlFor="firstPurchaseOnly" className="cursor-pointer font-normal">
+                                            لأول عملية شراء فقط
+                                        </Label>
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>الصف</Label>
+                                    <Select
+                                        value={grade}
+                                        onValueChange={(value) => {
+                                            setGrade(value);
+                                            setDivision(ALL);
+                                        }}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={ALL}>جميع الصفوف</SelectItem>
+                                            {GRADES.map((option) => (
+                                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>القسم</Label>
+                                    <Select value={division} onValueChange={setDivision}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={ALL}>جميع الأقسام</SelectItem>
+                                            {getDivisionOptions(grade).map((option) => (
+                                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="studentPhoneNumbers">طلاب محددون</Label>
+                                <Textarea
+                                    id="studentPhoneNumbers"
+                                    value={studentPhoneNumbers}
+                                    onChange={(e) => setStudentPhoneNumbers(e.target.value)}
+                                    placeholder="أرقام هواتف الطلاب، رقم في كل سطر (اتركه فارغاً ليكون متاحاً لجميع الطلاب)"
+                                    dir="ltr"
+                                />
+                            </div>
+                        </div>
+
                         <div className="space-y-2">
                             <Label htmlFor="description">الوصف</Label>
                             <Input
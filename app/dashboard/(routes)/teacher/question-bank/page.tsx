@@ -0,0 +1,686 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUpload } from "@/components/file-upload";
+import { MathPreview } from "@/components/math-text";
+import { Plus, Edit, Trash2, Search, X } from "lucide-react";
+import { toast } from "sonner";
+import { parseMathExpression } from "@/lib/math-expression";
+import {
+    parseNumericAnswer,
+    parseOptionIndices,
+    QUESTION_DIFFICULTIES,
+    QUESTION_DIFFICULTY_LABELS,
+    QUESTION_TYPES,
+    QUESTION_TYPE_LABELS,
+    QuestionDifficulty,
+    QuestionType,
+    ToleranceType
+} from "@/lib/quiz";
+import { QuestionAnswerFields } from "../quizzes/_components/question-answer-fields";
+
+interface Course {
+    id: string;
+    title: string;
+}
+
+interface Chapter {
+    id: string;
+    title: string;
+}
+
+interface BankQuestion {
+    id: string;
+    text: string;
+    type: QuestionType;
+    options: string[];
+    correctAnswer: string;
+    correctOptionIndex: number | null;
+    tolerance: number | null;
+    toleranceType: ToleranceType | null;
+    points: number;
+    imageUrl: string | null;
+    courseId: string;
+    chapterId: string | null;
+    topic: string | null;
+    difficulty: QuestionDifficulty | null;
+    chapter: Chapter | null;
+}
+
+const QuestionBankPage = () => {
+    const [courses, setCourses] = useState<Course[]>([]);
+    const [selectedCourse, setSelectedCourse] = useState("");
+    const [chapters, setChapters] = useState<Chapter[]>([]);
+    const [questions, setQuestions] = useState<BankQuestion[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [searchTerm, setSearchTerm] = useState("");
+    const [chapterFilter, setChapterFilter] = useState("all");
+    const [difficultyFilter, setDifficultyFilter] = useState("all");
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [editingQuestion, setEditingQuestion] = useState<BankQuestion | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Form state
+    const [text, setText] = useState("");
+    const [type, setType] = useState<QuestionType>("MULTIPLE_CHOICE");
+    const [options, setOptions] = useState<string[]>(["", "", "", ""]);
+    const [correctOptionIndex, setCorrectOptionIndex] = useState(0);
+    const [correctAnswer, setCorrectAnswer] = useState("");
+    const [correctOptionIndices, setCorrectOptionIndices] = useState<number[]>([]);
+    const [tolerance, setTolerance] = useState<number | null>(null);
+    const [toleranceType, setToleranceType] = useState<ToleranceType>("ABSOLUTE");
+    const [points, setPoints] = useState(1);
+    const [imageUrl, setImageUrl] = useState("");
+    const [chapterId, setChapterId] = useState("none");
+    const [topic, setTopic] = useState("");
+    const [difficulty, setDifficulty] = useState("none");
+
+    useEffect(() => {
+        fetchCourses();
+    }, []);
+
+    useEffect(() => {
+        if (selectedCourse) {
+            fetchChapters(selectedCourse);
+            fetchQuestions(selectedCourse);
+        }
+    }, [selectedCourse]);
+
+    const fetchCourses = async () => {
+        try {
+            const response = await fetch("/api/courses");
+            if (response.ok) {
+                const data = await response.json();
+                setCourses(data.map((course: Course) => ({
+                    id: course.id,
+                    title: course.title,
+                })));
+            }
+        } catch (error) {
+            console.error("Error fetching courses:", error);
+        }
+    };
+
+    const fetchChapters = async (courseId: string) => {
+        try {
+            const response = await fetch(`/api/courses/${courseId}/chapters`);
+            if (response.ok) {
+                const data = await response.json();
+                setChapters(data.map((chapter: Chapter) => ({
+                    id: chapter.id,
+                    title: chapter.title,
+                })));
+            }
+        } catch (error) {
+            console.error("Error fetching chapters:", error);
+        }
+    };
+
+    const fetchQuestions = async (courseId: string) => {
+        setLoading(true);
+        try {
+            const response = await fetch(`/api/teacher/question-bank?courseId=${courseId}`);
+            if (response.ok) {
+                const data = await response.json();
+                setQuestions(data);
+            } else {
+                toast.error("حدث خطأ أثناء جلب بنك الأسئلة");
+            }
+        } catch (error) {
+            console.error("Error fetching question bank:", error);
+            toast.error("حدث خطأ أثناء جلب بنك الأسئلة");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const resetForm = () => {
+        setText("");
+        setType("MULTIPLE_CHOICE");
+        setOptions(["", "", "", ""]);
+        setCorrectOptionIndex(0);
+        setCorrectAnswer("");
+        setCorrectOptionIndices([]);
+        setTolerance(null);
+        setToleranceType("ABSOLUTE");
+        setPoints(1);
+        setImageUrl("");
+        setChapterId("none");
+        setTopic("");
+        setDifficulty("none");
+        setEditingQuestion(null);
+    };
+
+    const openCreateDialog = () => {
+        if (!selectedCourse) {
+            toast.error("يرجى اختيار كورس أولاً");
+            return;
+        }
+        resetForm();
+        setIsDialogOpen(true);
+    };
+
+    const openEditDialog = (question: BankQuestion) => {
+        setText(question.text);
+        setType(question.type);
+        setPoints(question.points);
+        setImageUrl(question.imageUrl || "");
+        setChapterId(question.chapterId || "none");
+        setTopic(question.topic || "");
+        setDifficulty(question.difficulty || "none");
+        if (question.type === "MULTIPLE_CHOICE") {
+            setOptions(question.options.length > 0 ? question.options : ["", "", "", ""]);
+            setCorrectOptionIndex(question.correctOptionIndex ?? Math.max(0, question.options.indexOf(question.correctAnswer)));
+            setCorrectAnswer("");
+        } else if (question.type === "MULTI_SELECT") {
+            setOptions(question.options.length > 0 ? question.options : ["", "", "", ""]);
+            setCorrectOptionIndices(parseOptionIndices(question.correctAnswer));
+            setCorrectAnswer("");
+        } else {
+            setOptions(["", "", "", ""]);
+            setCorrectOptionIndex(0);
+            setCorrectAnswer(question.correctAnswer);
+        }
+        setTolerance(question.tolerance);
+        setToleranceType(question.toleranceType || "ABSOLUTE");
+        setEditingQuestion(question);
+        setIsDialogOpen(true);
+    };
+
+    const handleSubmit = async () => {
+        if (!text.trim()) {
+            toast.error("نص السؤال مطلوب");
+            return;
+        }
+
+        const filledOptions = options.filter(option => option.trim() !== "");
+        if (type === "MULTIPLE_CHOICE") {
+            if (filledOptions.length < 2) {
+                toast.error("يجب إضافة خيارين على الأقل");
+                return;
+            }
+            if (!options[correctOptionIndex]?.trim()) {
+                toast.error("يجب اختيار إجابة صحيحة");
+                return;
+            }
+        } else if (type === "MULTI_SELECT") {
+            if (filledOptions.length < 2) {
+                toast.error("يجب إضافة خيارين على الأقل");
+                return;
+            }
+            if (!correctOptionIndices.some(optionIndex => options[optionIndex]?.trim())) {
+                toast.error("يجب اختيار إجابة صحيحة واحدة على الأقل");
+                return;
+            }
+        } else if (!correctAnswer.trim()) {
+            toast.error("الإجابة الصحيحة مطلوبة");
+            return;
+        } else if (type === "NUMERIC" && parseNumericAnswer(correctAnswer) === null) {
+            toast.error("الإجابة الصحيحة يجب أن تكون رقماً");
+            return;
+        } else if (type === "MATH_EXPRESSION" && !parseMathExpression(correctAnswer)) {
+            toast.error("الإجابة الصحيحة يجب أن تكون تعبيراً رياضياً صحيحاً");
+            return;
+        }
+
+        // The API expects option indices among the filled options
+        const toFilledIndex = (optionIndex: number) =>
+            options.slice(0, optionIndex).filter(option => option.trim() !== "").length;
+
+        const data = {
+            courseId: selectedCourse,
+            chapterId: chapterId === "none" ? null : chapterId,
+            topic: topic.trim() || null,
+            difficulty: difficulty === "none" ? null : difficulty,
+            text,
+            type,
+            options: type === "MULTIPLE_CHOICE" || type === "MULTI_SELECT" ? filledOptions : undefined,
+            correctAnswer: type === "MULTIPLE_CHOICE"
+                ? toFilledIndex(correctOptionIndex)
+                : type === "MULTI_SELECT"
+                    ? correctOptionIndices.filter(optionIndex => options[optionIndex]?.trim()).map(toFilledIndex)
+                    : correctAnswer,
+            tolerance: type === "NUMERIC" ? tolerance : null,
+            toleranceType: type === "NUMERIC" ? toleranceType : null,
+            points,
+            imageUrl: imageUrl || null,
+        };
+
+        setIsSaving(true);
+        try {
+            const url = editingQuestion
+                ? `/api/teacher/question-bank/${editingQuestion.id}`
+                : "/api/teacher/question-bank";
+            const method = editingQuestion ? "PATCH" : "POST";
+
+            const response = await fetch(url, {
+                method,
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify(data),
+            });
+
+            if (response.ok) {
+                toast.success(editingQuestion ? "تم تحديث السؤال بنجاح" : "تمت إضافة السؤال إلى البنك");
+                setIsDialogOpen(false);
+                resetForm();
+                fetchQuestions(selectedCourse);
+            } else {
+                const errorData = await response.json();
+                toast.error(errorData.error || "حدث خطأ");
+            }
+        } catch (error) {
+            console.error("Error saving bank question:", error);
+            toast.error("حدث خطأ أثناء حفظ السؤال");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("هل أنت متأكد من حذف هذا السؤال من البنك؟")) {
+            return;
+        }
+
+        try {
+            const response = await fetch(`/api/teacher/question-bank/${id}`, {
+                method: "DELETE",
+            });
+
+            if (response.ok) {
+                toast.success("تم حذف السؤال بنجاح");
+                fetchQuestions(selectedCourse);
+            } else if (response.status === 409) {
+                toast.error("لا يمكن حذف سؤال أجاب عليه الطلاب");
+            } else {
+                toast.error("حدث خطأ أثناء حذف السؤال");
+            }
+        } catch (error) {
+            console.error("Error deleting bank question:", error);
+            toast.error("حدث خطأ أثناء حذف السؤال");
+        }
+    };
+
+    const filteredQuestions = questions.filter(question =>
+        (chapterFilter === "all" || question.chapterId === chapterFilter) &&
+        (difficultyFilter === "all" || question.difficulty === difficultyFilter) &&
+        (question.text.toLowerCase().includes(searchTerm.toLowerCase()) ||
+            (question.topic && question.topic.toLowerCase().includes(searchTerm.toLowerCase())))
+    );
+
+    const existingTopics = Array.from(new Set(questions.map(question => question.topic).filter(Boolean))) as string[];
+
+    return (
+        <div className="p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                    بنك الأسئلة
+                </h1>
+                <Button onClick={openCreateDialog} className="bg-[#0083d3] hover:bg-[#0083d3]/90">
+                    <Plus className="h-4 w-4 mr-2" />
+                    إضافة سؤال
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>أسئلة الكورس</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                        الأسئلة المضافة هنا يمكن سحبها عشوائياً في الاختبارات حسب الفصل والموضوع والصعوبة
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
+                        <Select value={selectedCourse} onValueChange={(value) => {
+                            setSelectedCourse(value);
+                            setChapterFilter("all");
+                        }}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="اختر كورس..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {courses.map((course) => (
+                                    <SelectItem key={course.id} value={course.id}>
+                                        {course.title}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={chapterFilter} onValueChange={setChapterFilter}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">كل الفصول</SelectItem>
+                                {chapters.map((chapter) => (
+                                    <SelectItem key={chapter.id} value={chapter.id}>
+                                        {chapter.title}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">كل المستويات</SelectItem>
+                                {QUESTION_DIFFICULTIES.map((level) => (
+                                    <SelectItem key={level} value={level}>
+                                        {QUESTION_DIFFICULTY_LABELS[level]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <div className="flex items-center space-x-2">
+                            <Search className="h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="البحث بنص السؤال أو الموضوع..."
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {!selectedCourse ? (
+                        <div className="text-center text-muted-foreground py-8">
+                            اختر كورس لعرض أسئلته
+                        </div>
+                    ) : loading ? (
+                        <div className="text-center py-8">جاري التحميل...</div>
+                    ) : filteredQuestions.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right">السؤال</TableHead>
+                                    <TableHead className="text-right">النوع</TableHead>
+                                    <TableHead className="text-right">الفصل</TableHead>
+                                    <TableHead className="text-right">الموضوع</TableHead>
+                                    <TableHead className="text-right">الصعوبة</TableHead>
+                                    <TableHead className="text-right">الدرجات</TableHead>
+                                    <TableHead className="text-right">الإجراءات</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {filteredQuestions.map((question) => (
+                                    <TableRow key={question.id}>
+                                        <TableCell className="max-w-xs truncate">{question.text}</TableCell>
+                                        <TableCell>{QUESTION_TYPE_LABELS[question.type]}</TableCell>
+                                        <TableCell>{question.chapter?.title || "-"}</TableCell>
+                                        <TableCell>{question.topic || "-"}</TableCell>
+                                        <TableCell>
+                                            {question.difficulty ? (
+                                                <Badge variant="outline">{QUESTION_DIFFICULTY_LABELS[question.difficulty]}</Badge>
+                                            ) : "-"}
+                                        </TableCell>
+                                        <TableCell>{question.points}</TableCell>
+                                        <TableCell>
+                                            <div className="flex gap-2 justify-end">
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() => openEditDialog(question)}
+                                                >
+                                                    <Edit className="h-4 w-4" />
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="destructive"
+                                                    onClick={() => handleDelete(question.id)}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <div className="text-center text-muted-foreground py-8">
+                            {searchTerm || chapterFilter !== "all" || difficultyFilter !== "all" ? "لا توجد نتائج" : "لا توجد أسئلة في البنك لهذا الكورس"}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Create/Edit Dialog */}
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>
+                            {editingQuestion ? "تعديل السؤال" : "إضافة سؤال إلى البنك"}
+                        </DialogTitle>
+                        <DialogDescription>
+                            حدد تصنيف السؤال ليتم سحبه في الاختبارات المناسبة
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 mt-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label>الفصل</Label>
+                                <Select value={chapterId} onValueChange={setChapterId}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="none">بدون فصل</SelectItem>
+                                        {chapters.map((chapter) => (
+                                            <SelectItem key={chapter.id} value={chapter.id}>
+                                                {chapter.title}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>الموضوع</Label>
+                                <Input
+                                    value={topic}
+                                    onChange={(e) => setTopic(e.target.value)}
+                                    placeholder="مثال: المعادلات"
+                                    list="question-bank-topics"
+                                />
+                                <datalist id="question-bank-topics">
+                                    {existingTopics.map((existingTopic) => (
+                                        <option key={existingTopic} value={existingTopic} />
+                                    ))}
+                                </datalist>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>الصعوبة</Label>
+                                <Select value={difficulty} onValueChange={setDifficulty}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="none">غير محدد</SelectItem>
+                                        {QUESTION_DIFFICULTIES.map((level) => (
+                                            <SelectItem key={level} value={level}>
+                                                {QUESTION_DIFFICULTY_LABELS[level]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>نص السؤال *</Label>
+                            <Textarea
+                                value={text}
+                                onChange={(e) => setText(e.target.value)}
+                                placeholder="أدخل نص السؤال، واكتب المعادلات بين علامتي $ مثل $x^2$"
+                            />
+                            <MathPreview text={text} />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>صورة السؤال (اختياري)</Label>
+                            {imageUrl ? (
+                                <div className="relative">
+                                    <Image
+                                        src={imageUrl}
+                                        alt="Question"
+                                        width={0}
+                                        height={0}
+                                        sizes="100vw"
+                                        className="w-auto max-w-full h-auto max-h-48 rounded-lg border"
+                                    />
+                                    <Button
+                                        type="button"
+                                        variant="destructive"
+                                        size="sm"
+                                        className="absolute top-2 right-2"
+                                        onClick={() => setImageUrl("")}
+                                    >
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            ) : (
+                                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6">
+                                    <FileUpload
+                                        endpoint="courseAttachment"
+                                        onChange={(res) => {
+                                            if (res?.url) {
+                                                setImageUrl(res.url);
+                                                toast.success("تم رفع الصورة بنجاح");
+                                            }
+                                        }}
+                                    />
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>نوع السؤال</Label>
+                                <Select value={type} onValueChange={(value: QuestionType) => setType(value)}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {QUESTION_TYPES.map((questionType) => (
+                                            <SelectItem key={questionType} value={questionType}>
+                                                {QUESTION_TYPE_LABELS[questionType]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>الدرجات</Label>
+                                <Input
+                                    type="number"
+                                    value={points || ""}
+                                    onChange={(e) => {
+                                        const num = parseInt(e.target.value);
+                                        setPoints(isNaN(num) ? 1 : Math.max(1, num));
+                                    }}
+                                    min="1"
+                                />
+                            </div>
+                        </div>
+
+                        {type === "MULTIPLE_CHOICE" && (
+                            <div className="space-y-2">
+                                <Label>الخيارات</Label>
+                                {options.map((option, optionIndex) => (
+                                    <div key={optionIndex} className="flex items-center space-x-2">
+                                        <Input
+                                            value={option}
+                                            onChange={(e) => {
+                                                const newOptions = [...options];
+                                                newOptions[optionIndex] = e.target.value;
+                                                setOptions(newOptions);
+                                            }}
+                                            placeholder={`الخيار ${optionIndex + 1}`}
+                                        />
+                                        <input
+                                            type="radio"
+                                            name="bank-correct-option"
+                                            checked={correctOptionIndex === optionIndex}
+                                            onChange={() => setCorrectOptionIndex(optionIndex)}
+                                        />
+                                    </div>
+                                ))}
+                                <Button type="button" variant="outline" size="sm" onClick={() => setOptions([...options, ""])}>
+                                    <Plus className="h-4 w-4 mr-2" />
+                                    إضافة خيار
+                                </Button>
+                            </div>
+                        )}
+
+                        {type === "TRUE_FALSE" && (
+                            <div className="space-y-2">
+                                <Label>الإجابة الصحيحة</Label>
+                                <Select value={correctAnswer} onValueChange={setCorrectAnswer}>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="اختر الإجابة الصحيحة" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="true">صح</SelectItem>
+                                        <SelectItem value="false">خطأ</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        {type === "SHORT_ANSWER" && (
+                            <div className="space-y-2">
+                                <Label>الإجابة الصحيحة</Label>
+                                <Input
+                                    value={correctAnswer}
+                                    onChange={(e) => setCorrectAnswer(e.target.value)}
+                                    placeholder="أدخل الإجابة الصحيحة"
+                                />
+                            </div>
+                        )}
+
+                        <QuestionAnswerFields
+                            questionKey="bank-question"
+                            type={type}
+                            value={{
+                                options,
+                                correctAnswer: type === "MULTI_SELECT" ? correctOptionIndices : correctAnswer,
+                                tolerance,
+                                toleranceType
+                            }}
+                            onChange={(changes) => {
+                                if (changes.options) setOptions(changes.options);
+                                if (Array.isArray(changes.correctAnswer)) {
+                                    setCorrectOptionIndices(changes.correctAnswer);
+                                } else if (changes.correctAnswer !== undefined) {
+                                    setCorrectAnswer(String(changes.correctAnswer));
+                                }
+                                if (changes.tolerance !== undefined) setTolerance(changes.tolerance);
+                                if (changes.toleranceType) setToleranceType(changes.toleranceType);
+                            }}
+                        />
+
+                        <div className="flex justify-end gap-2 pt-4">
+                            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                                إلغاء
+                            </Button>
+                            <Button onClick={handleSubmit} disabled={isSaving}>
+                                {isSaving ? "جاري الحفظ..." : editingQuestion ? "حفظ التعديلات" : "إضافة السؤال"}
+                            </Button>
+                        </div>
+                    </div>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+};
+
+export default QuestionBankPage;
@@ -5,10 +5,13 @@ import { use } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, CheckCircle, XCircle, FileText, User, Calendar, Clock } from "lucide-react";
+import { ArrowLeft, CheckCircle, XCircle, FileText, User, Calendar, Clock, PenLine } from "lucide-react";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { parseQuizOptions } from "@/lib/utils";
+import { MathText } from "@/components/math-text";
+import { formatNumericAnswer, hasPassedQuiz, hasQuestionOptions } from "@/lib/quiz";
+import { AnswerGrade, AnswerGradeForm } from "../_components/answer-grade-form";
 
 interface QuizResult {
     id: string;
@@ -16,6 +19,7 @@ interface QuizResult {
     quizId: string;
     score: number;
     totalPoints: number;
+    percentage: number;
     submittedAt: string;
     user: {
         fullName: string;
@@ -23,6 +27,7 @@ interface QuizResult {
     };
     quiz: {
         title: string;
+        passingPercentage: number;
         course: {
             id: string;
             title: string;
@@ -34,15 +39,24 @@ interface QuizResult {
 interface QuizAnswer {
     id: string;
     questionId: string;
-    answer: string;
+    studentAnswer: string;
+    selectedOptionIndex: number | null; // Displayed position of the chosen option
+    correctOptionIndex: number | null; // Displayed position of the correct option
+    selectedOptionIndices: number[] | null; // Displayed positions of the chosen options, for multi-select questions
+    correctOptionIndices: number[] | null; // Displayed positions of the correct options, for multi-select questions
     isCorrect: boolean;
-    points: number;
+    pointsEarned: number;
+    isOverridden: boolean; // Graded by a teacher instead of the auto-grader
+    teacherComment: string | null;
+    gradedAt: string | null;
     question: {
         text: string;
         type: string;
         points: number;
         options?: string[];
         correctAnswer?: string;
+        tolerance?: number | null;
+        toleranceType?: string | null;
         imageUrl?: string;
     };
 }
@@ -51,6 +65,7 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
     const router = useRouter();
     const [result, setResult] = useState<QuizResult | null>(null);
     const [loading, setLoading] = useState(true);
+    const [gradingAnswerId, setGradingAnswerId] = useState<string | null>(null);
     
     // Unwrap the params Promise
     const resolvedParams = use(params);
@@ -89,6 +104,16 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
         }
     };
 
+    const handleAnswerGraded = (answerId: string, grade: AnswerGrade, score: number, percentage: number) => {
+        setGradingAnswerId(null);
+        setResult(prev => prev && {
+            ...prev,
+            score,
+            percentage,
+            answers: prev.answers.map(answer => answer.id === answerId ? { ...answer, ...grade } : answer)
+        });
+    };
+
     const calculatePercentage = (score: number, totalPoints: number) => {
         return totalPoints > 0 ? Math.round((score / totalPoints) * 100) : 0;
     };
@@ -115,34 +140,87 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                 <div className="space-y-2">
                     <h5 className="font-medium text-sm">الخيارات:</h5>
                     <div className="space-y-1">
-                        {answer.question.options.map((option: string, optionIndex: number) => (
-                            <div
-                                key={optionIndex}
-                                className={`p-2 rounded border ${
-                                    option === answer.answer
-                                        ? answer.isCorrect
+                        {answer.question.options.map((option: string, optionIndex: number) => {
+                            // Results saved before option positions were stored fall back to comparing texts
+                            const isStudentAnswer = answer.selectedOptionIndex !== null
+                                ? optionIndex === answer.selectedOptionIndex
+                                : option === answer.studentAnswer;
+                            const isCorrectAnswer = answer.correctOptionIndex !== null
+                                ? optionIndex === answer.correctOptionIndex
+                                : option === answer.question.correctAnswer;
+
+                            return (
+                                <div
+                                    key={optionIndex}
+                                    className={`p-2 rounded border ${
+                                        isStudentAnswer
+                                            ? answer.isCorrect
+                                                ? "bg-green-50 border-green-200"
+                                                : "bg-red-50 border-red-200"
+                                            : isCorrectAnswer
                                             ? "bg-green-50 border-green-200"
-                                            : "bg-red-50 border-red-200"
-                                        : option === answer.question.correctAnswer
-                                        ? "bg-green-50 border-green-200"
-                                        : "bg-gray-50"
-                                }`}
-                            >
-                                <span className="text-sm">
-                                    {optionIndex + 1}. {option}
-                                    {option === answer.answer && (
-                                        <Badge variant={answer.isCorrect ? "default" : "destructive"} className="mr-2">
-                                            إجابة الطالب
-                                        </Badge>
-                                    )}
-                                    {option === answer.question.correctAnswer && option !== answer.answer && (
-                                        <Badge variant="default" className="mr-2">
-                                            الإجابة الصحيحة
-                                        </Badge>
-                                    )}
-                                </span>
-                            </div>
-                        ))}
+                                            : "bg-gray-50"
+                                    }`}
+                                >
+                                    <span className="text-sm">
+                                        {optionIndex + 1}. <MathText text={option} />
+                                        {isStudentAnswer && (
+                                            <Badge variant={answer.isCorrect ? "default" : "destructive"} className="mr-2">
+                                                إجابة الطالب
+                                            </Badge>
+                                        )}
+                                        {isCorrectAnswer && !isStudentAnswer && (
+                                            <Badge variant="default" className="mr-2">
+                                                الإجابة الصحيحة
+                                            </Badge>
+                                        )}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            );
+        }
+
+        if (answer.question.type === "MULTI_SELECT" && answer.question.options) {
+            return (
+                <div className="space-y-2">
+                    <h5 className="font-medium text-sm">الخيارات:</h5>
+                    <div className="space-y-1">
+                        {answer.question.options.map((option: string, optionIndex: number) => {
+                            const isStudentAnswer = answer.selectedOptionIndices?.includes(optionIndex) ?? false;
+                            const isCorrectAnswer = answer.correctOptionIndices?.includes(optionIndex) ?? false;
+
+                            return (
+                                <div
+                                    key={optionIndex}
+                                    className={`p-2 rounded border ${
+                                        isStudentAnswer
+                                            ? isCorrectAnswer
+                                                ? "bg-green-50 border-green-200"
+                                                : "bg-red-50 border-red-200"
+                                            : isCorrectAnswer
+                                            ? "bg-green-50 border-green-200"
+                                            : "bg-gray-50"
+                                    }`}
+                                >
+                                    <span className="text-sm">
+                                        {optionIndex + 1}. <MathText text={option} />
+                                        {isStudentAnswer && (
+                                            <Badge variant={isCorrectAnswer ? "default" : "destructive"} className="mr-2">
+                                                إجابة الطالب
+                                            </Badge>
+                                        )}
+                                        {isCorrectAnswer && !isStudentAnswer && (
+                                            <Badge variant="default" className="mr-2">
+                                                إجابة صحيحة
+                                            </Badge>
+                                        )}
+                                    </span>
+                                </div>
+                            );
+                        })}
                     </div>
                 </div>
             );
@@ -168,6 +246,7 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
 
     const percentage = calculatePercentage(result.score, result.totalPoints);
     const grade = getGradeBadge(percentage);
+    const isPassed = hasPassedQuiz(result.percentage, result.quiz.passingPercentage);
 
     return (
         <div className="p-6 space-y-6">
@@ -253,6 +332,9 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                         {grade.text}
                                     </Badge>
                                     <p className="text-sm text-muted-foreground mt-2">التقييم</p>
+                                    <Badge variant={isPassed ? "default" : "destructive"} className="mt-2">
+                                        {isPassed ? "ناجح" : "راسب"} (نسبة النجاح {result.quiz.passingPercentage}%)
+                                    </Badge>
                                 </div>
                             </div>
                         </CardContent>
@@ -269,6 +351,9 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                         <h4 className="font-medium">السؤال {index + 1}</h4>
                                         <div className="flex items-center space-x-2">
                                             <Badge variant="outline">{answer.question.points} درجة</Badge>
+                                            {answer.isOverridden && (
+                                                <Badge variant="secondary">صححها المعلم</Badge>
+                                            )}
                                             {answer.isCorrect ? (
                                                 <CheckCircle className="h-5 w-5 text-green-600" />
                                             ) : (
@@ -277,7 +362,7 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                         </div>
                                     </div>
                                     
-                                    <p className="text-muted-foreground mb-3">{answer.question.text}</p>
+                                    <p className="text-muted-foreground mb-3"><MathText text={answer.question.text} /></p>
                                     
                                     {/* Question Image */}
                                     {answer.question.imageUrl && (
@@ -290,7 +375,7 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                         </div>
                                     )}
                                     
-                                    {answer.question.type === "MULTIPLE_CHOICE" && renderQuestionChoices(answer)}
+                                    {hasQuestionOptions(answer.question.type) && renderQuestionChoices(answer)}
                                     
                                     {answer.question.type === "TRUE_FALSE" && (
                                         <div className="space-y-2">
@@ -320,17 +405,19 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                             <div className="mt-2">
                                                 <span className="text-sm font-medium">إجابة الطالب: </span>
                                                 <Badge variant={answer.isCorrect ? "default" : "destructive"}>
-                                                    {answer.answer === "true" ? "صح" : "خطأ"}
+                                                    {answer.studentAnswer === "true" ? "صح" : "خطأ"}
                                                 </Badge>
                                             </div>
                                         </div>
                                     )}
                                     
-                                    {answer.question.type === "SHORT_ANSWER" && (
+                                    {(answer.question.type === "SHORT_ANSWER" || answer.question.type === "NUMERIC" || answer.question.type === "MATH_EXPRESSION") && (
                                         <div className="space-y-2">
                                             <h5 className="font-medium text-sm">الإجابة الصحيحة:</h5>
                                             <p className="text-sm bg-green-50 p-2 rounded border border-green-200">
-                                                {answer.question.correctAnswer}
+                                                {answer.question.type === "NUMERIC"
+                                                    ? formatNumericAnswer(answer.question.correctAnswer || "", answer.question.tolerance, answer.question.toleranceType)
+                                                    : <MathText text={answer.question.correctAnswer} />}
                                             </p>
                                             <div className="mt-2">
                                                 <span className="text-sm font-medium">إجابة الطالب: </span>
@@ -339,7 +426,7 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                                         ? "bg-green-50 border-green-200" 
                                                         : "bg-red-50 border-red-200"
                                                 }`}>
-                                                    {answer.answer}
+                                                    {answer.studentAnswer}
                                                 </p>
                                             </div>
                                         </div>
@@ -348,10 +435,34 @@ const QuizResultDetailPage = ({ params }: { params: Promise<{ resultId: string }
                                     <div className="mt-3 pt-3 border-t">
                                         <div className="flex items-center justify-between">
                                             <span className="text-sm font-medium">الدرجات المكتسبة:</span>
-                                            <span className={`text-sm font-medium ${answer.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
-                                                {answer.points} / {answer.question.points}
-                                            </span>
+                                            <div className="flex items-center gap-2">
+                                                <span className={`text-sm font-medium ${answer.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                                                    {answer.pointsEarned} / {answer.question.points}
+                                                </span>
+                                                {gradingAnswerId !== answer.id && (
+                                                    <Button variant="ghost" size="sm" onClick={() => setGradingAnswerId(answer.id)}>
+                                                        <PenLine className="h-4 w-4 ml-1" />
+                                                        تعديل الدرجة
+                                                    </Button>
+                                                )}
+                                            </div>
                                         </div>
+                                        {answer.teacherComment && gradingAnswerId !== answer.id && (
+                                            <p className="text-sm text-muted-foreground mt-2">تعليق المعلم: {answer.teacherComment}</p>
+                                        )}
+                                        {gradingAnswerId === answer.id && (
+                                            <div className="mt-3">
+                                                <AnswerGradeForm
+                                                    resultId={result.id}
+                                                    answerId={answer.id}
+                                                    maxPoints={answer.question.points}
+                                                    pointsEarned={answer.pointsEarned}
+                                                    comment={answer.teacherComment}
+                                                    onGraded={(grade, updated) => handleAnswerGraded(answer.id, grade, updated.score, updated.percentage)}
+                                                    onCancel={() => setGradingAnswerId(null)}
+                                                />
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             ))}
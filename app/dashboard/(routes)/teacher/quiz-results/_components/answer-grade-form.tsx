@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+
+export interface AnswerGrade {
+    pointsEarned: number;
+    isCorrect: boolean;
+    isOverridden: boolean;
+    teacherComment: string | null;
+    gradedAt: string | null;
+}
+
+interface AnswerGradeFormProps {
+    resultId: string;
+    answerId: string;
+    maxPoints: number;
+    pointsEarned: number;
+    comment?: string | null;
+    onGraded: (grade: AnswerGrade, result: { score: number; percentage: number }) => void;
+    onCancel?: () => void;
+}
+
+/**
+ * Lets a teacher award points (including partial points) and leave a comment on a single answer
+ */
+export const AnswerGradeForm = ({
+    resultId,
+    answerId,
+    maxPoints,
+    pointsEarned,
+    comment,
+    onGraded,
+    onCancel
+}: AnswerGradeFormProps) => {
+    const [points, setPoints] = useState(String(pointsEarned));
+    const [teacherComment, setTeacherComment] = useState(comment || "");
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSave = async () => {
+        const value = parseFloat(points);
+        if (isNaN(value) || value < 0 || value > maxPoints) {
+            toast.error(`الدرجة يجب أن تكون بين 0 و ${maxPoints}`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await fetch(`/api/teacher/quiz-results/${resultId}/answers/${answerId}`, {
+                method: "PATCH",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    pointsEarned: value,
+                    comment: teacherComment
+                }),
+            });
+
+            if (response.ok) {
+                const data = await response.json();
+                toast.success("تم حفظ الدرجة");
+                onGraded(data.answer, { score: data.score, percentage: data.percentage });
+            } else {
+                const error = await response.json().catch(() => null);
+                toast.error(error?.error || "حدث خطأ أثناء حفظ الدرجة");
+            }
+        } catch (error) {
+            console.error("Error grading answer:", error);
+            toast.error("حدث خطأ أثناء حفظ الدرجة");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3 rounded-lg border bg-muted/40 p-3">
+            <div className="space-y-2">
+                <Label>الدرجة (من {maxPoints})</Label>
+                <div className="flex items-center gap-2">
+                    <Input
+                        type="number"
+                        value={points}
+                        onChange={(e) => setPoints(e.target.value)}
+                        min="0"
+                        max={maxPoints}
+                        step="0.25"
+                        className="w-32"
+                    />
+                    <Button type="button" variant="outline" size="sm" onClick={() => setPoints(String(maxPoints))}>
+                        درجة كاملة
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" onClick={() => setPoints("0")}>
+                        صفر
+                    </Button>
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label>تعليق للطالب (اختياري)</Label>
+                <Textarea
+                    value={teacherComment}
+                    onChange={(e) => setTeacherComment(e.target.value)}
+                    placeholder="اكتب ملاحظتك على الإجابة"
+                    rows={2}
+                />
+            </div>
+            <div className="flex gap-2">
+                <Button type="button" size="sm" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? "جاري الحفظ..." : "حفظ الدرجة"}
+                </Button>
+                {onCancel && (
+                    <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isSaving}>
+                        إلغاء
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -8,11 +8,19 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, Trash2, GripVertical, X, Mic, Users } from "lucide-react";
 import { toast } from "sonner";
 import { useRouter, useParams, usePathname } from "next/navigation";
 import { DragDropContext, Droppable, Draggable } from "@hello-pangea/dnd";
 import { FileUpload } from "@/components/file-upload";
+import { MathPreview } from "@/components/math-text";
+import { DrawRule, DrawRulesCard } from "../../_components/draw-rules-card";
+import { getDefaultCorrectAnswer, QuestionAnswerFields } from "../../_components/question-answer-fields";
+import { ImportQuestionsDialog } from "../../_components/import-questions-dialog";
+import { parseMathExpression } from "@/lib/math-expression";
+import { parseNumericAnswer, parseOptionIndices, QUESTION_TYPES, QUESTION_TYPE_LABELS, QuestionType, ToleranceType } from "@/lib/quiz";
+import { ImportedQuestion } from "@/lib/quiz-transfer";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
@@ -46,15 +54,22 @@ interface Quiz {
     updatedAt: string;
     timer?: number;
     maxAttempts?: number;
+    passingPercentage?: number;
+    drawRules?: DrawRule[];
+    shuffleQuestions?: boolean;
+    shuffleOptions?: boolean;
 }
 
 interface Question {
     id: string;
     text: string;
     imageUrl?: string;
-    type: "MULTIPLE_CHOICE" | "TRUE_FALSE" | "SHORT_ANSWER";
+    type: QuestionType;
     options?: string[];
-    correctAnswer: string | number; // Can be string for TRUE_FALSE/SHORT_ANSWER or number for MULTIPLE_CHOICE
+    correctAnswer: string | number | number[]; // Option index for MULTIPLE_CHOICE, option indices for MULTI_SELECT, string otherwise
+    tolerance?: number | null;
+    toleranceType?: ToleranceType | null;
+    correctOptionIndex?: number | null;
     points: number;
 }
 
@@ -81,7 +96,11 @@ const EditQuizPage = () => {
     const [quizDescription, setQuizDescription] = useState("");
     const [quizTimer, setQuizTimer] = useState<number | null>(null);
     const [maxAttempts, setMaxAttempts] = useState<number>(1);
+    const [passingPercentage, setPassingPercentage] = useState<number>(50);
     const [questions, setQuestions] = useState<Question[]>([]);
+    const [drawRules, setDrawRules] = useState<DrawRule[]>([]);
+    const [shuffleQuestions, setShuffleQuestions] = useState(false);
+    const [shuffleOptions, setShuffleOptions] = useState(false);
     const [selectedPosition, setSelectedPosition] = useState<number>(1);
     const [courseItems, setCourseItems] = useState<CourseItem[]>([]);
     const [chapters, setChapters] = useState<Chapter[]>([]);
@@ -162,18 +181,29 @@ const EditQuizPage = () => {
                 setQuizDescription(quiz.description);
                 setQuizTimer(quiz.timer || null);
                 setMaxAttempts(quiz.maxAttempts || 1);
+                setPassingPercentage(quiz.passingPercentage ?? 50);
+                setDrawRules(quiz.drawRules || []);
+                setShuffleQuestions(quiz.shuffleQuestions ?? false);
+                setShuffleOptions(quiz.shuffleOptions ?? false);
                 setSelectedCourse(quiz.courseId);
                 
                 // Convert stored string correctAnswer values back to indices for multiple choice questions
                 const processedQuestions = quiz.questions.map(question => {
                     if (question.type === "MULTIPLE_CHOICE" && question.options) {
                         const validOptions = question.options.filter(option => option.trim() !== "");
-                        const correctAnswerIndex = validOptions.findIndex(option => option === question.correctAnswer);
+                        // Prefer the stored index, older questions only know the correct option's text
+                        const correctAnswerIndex = question.correctOptionIndex ?? validOptions.findIndex(option => option === question.correctAnswer);
                         return {
                             ...question,
                             correctAnswer: correctAnswerIndex >= 0 ? correctAnswerIndex : 0
                         };
                     }
+                    if (question.type === "MULTI_SELECT") {
+                        return {
+                            ...question,
+                            correctAnswer: parseOptionIndices(String(question.correctAnswer))
+                        };
+                    }
                     return question;
                 });
                 
@@ -370,6 +400,28 @@ const EditQuizPage = () => {
                     validationErrors.push(`السؤال ${i + 1}: الإجابة الصحيحة مطلوبة`);
                     continue;
                 }
+            } else if (question.type === "MULTI_SELECT") {
+                const validOptions = question.options?.filter(option => option.trim() !== "") || [];
+                if (validOptions.length < 2) {
+                    validationErrors.push(`السؤال ${i + 1}: يجب إضافة خيارين على الأقل`);
+                    continue;
+                }
+
+                const selected = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+                if (!selected.some(optionIndex => question.options?.[optionIndex]?.trim())) {
+                    validationErrors.push(`السؤال ${i + 1}: يجب اختيار إجابة صحيحة واحدة على الأقل`);
+                    continue;
+                }
+            } else if (question.type === "NUMERIC") {
+                if (parseNumericAnswer(question.correctAnswer) === null) {
+                    validationErrors.push(`السؤال ${i + 1}: الإجابة الصحيحة يجب أن تكون رقماً`);
+                    continue;
+                }
+            } else if (question.type === "MATH_EXPRESSION") {
+                if (typeof question.correctAnswer !== "string" || !parseMathExpression(question.correctAnswer)) {
+                    validationErrors.push(`السؤال ${i + 1}: الإجابة الصحيحة يجب أن تكون تعبيراً رياضياً صحيحاً`);
+                    continue;
+                }
             }
 
             // Check if points are valid
@@ -384,8 +436,8 @@ const EditQuizPage = () => {
             return;
         }
 
-        // Additional validation: ensure no questions are empty
-        if (questions.length === 0) {
+        // Additional validation: ensure the quiz has fixed or drawn questions
+        if (questions.length === 0 && drawRules.length === 0) {
             toast.error("يجب إضافة سؤال واحد على الأقل");
             return;
         }
@@ -400,6 +452,17 @@ const EditQuizPage = () => {
                     options: filteredOptions
                 };
             }
+            if (question.type === "MULTI_SELECT" && question.options) {
+                // Drop empty options and shift the correct option indices accordingly
+                const options = question.options;
+                const keptIndices = options.map((_, optionIndex) => optionIndex).filter(optionIndex => options[optionIndex].trim() !== "");
+                const selected = Array.isArray(question.correctAnswer) ? question.correctAnswer : [];
+                return {
+                    ...question,
+                    options: keptIndices.map(optionIndex => options[optionIndex]),
+                    correctAnswer: selected.filter(optionIndex => keptIndices.includes(optionIndex)).map(optionIndex => keptIndices.indexOf(optionIndex))
+                };
+            }
             return question;
         });
 
@@ -418,6 +481,10 @@ const EditQuizPage = () => {
                     position: selectedPosition,
                     timer: quizTimer,
                     maxAttempts: maxAttempts,
+                    passingPercentage: passingPercentage,
+                    drawRules: drawRules,
+                    shuffleQuestions: shuffleQuestions,
+                    shuffleOptions: shuffleOptions,
                 }),
             });
 
@@ -448,12 +515,27 @@ const EditQuizPage = () => {
         setQuestions([...questions, newQuestion]);
     };
 
+    const addImportedQuestions = (imported: ImportedQuestion[]) => {
+        const newQuestions: Question[] = imported.map((question, index) => ({
+            ...question,
+            id: `temp-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+        }));
+        setQuestions([...questions, ...newQuestions]);
+        toast.success(`تمت إضافة ${newQuestions.length} سؤال`);
+    };
+
     const updateQuestion = (index: number, field: keyof Question, value: any) => {
         const updatedQuestions = [...questions];
         updatedQuestions[index] = { ...updatedQuestions[index], [field]: value };
         setQuestions(updatedQuestions);
     };
 
+    const updateQuestionFields = (index: number, changes: Partial<Question>) => {
+        const updatedQuestions = [...questions];
+        updatedQuestions[index] = { ...updatedQuestions[index], ...changes };
+        setQuestions(updatedQuestions);
+    };
+
     const removeQuestion = (index: number) => {
         if (questions[index]?.id === listeningQuestionId) {
             stopListening();
@@ -728,7 +810,7 @@ const EditQuizPage = () => {
                     />
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <div className="space-y-2">
                         <Label>مدة الاختبار (بالدقائق)</Label>
                         <Input
@@ -763,6 +845,51 @@ const EditQuizPage = () => {
                             عدد المرات التي يمكن للطالب محاولة الاختبار (افتراضي لجميع الطلاب)
                         </p>
                     </div>
+                    <div className="space-y-2">
+                        <Label>نسبة النجاح (%)</Label>
+                        <Input
+                            type="number"
+                            value={passingPercentage}
+                            onChange={(e) => {
+                                const value = e.target.value;
+                                if (value === "") {
+                                    setPassingPercentage(0);
+                                } else {
+                                    const num = parseFloat(value);
+                                    setPassingPercentage(isNaN(num) ? 50 : Math.min(100, Math.max(0, num)));
+                                }
+                            }}
+                            placeholder="50"
+                            min="0"
+                            max="100"
+                        />
+                        <p className="text-sm text-muted-foreground">
+                            الحد الأدنى للنسبة المطلوبة لاجتياز الاختبار وفتح المحتوى التالي
+                        </p>
+                    </div>
+                </div>
+
+                <div className="flex flex-col md:flex-row gap-6">
+                    <div className="flex items-center space-x-2 space-x-reverse">
+                        <Checkbox
+                            id="shuffleQuestions"
+                            checked={shuffleQuestions}
+                            onCheckedChange={(checked) => setShuffleQuestions(checked as boolean)}
+                        />
+                        <Label htmlFor="shuffleQuestions" className="cursor-pointer font-normal">
+                            ترتيب عشوائي للأسئلة لكل محاولة
+                        </Label>
+                    </div>
+                    <div className="flex items-center space-x-2 space-x-reverse">
+                        <Checkbox
+                            id="shuffleOptions"
+                            checked={shuffleOptions}
+                            onCheckedChange={(checked) => setShuffleOptions(checked as boolean)}
+                        />
+                        <Label htmlFor="shuffleOptions" className="cursor-pointer font-normal">
+                            ترتيب عشوائي للخيارات لكل محاولة
+                        </Label>
+                    </div>
                 </div>
 
                 <Card>
@@ -938,13 +1065,23 @@ const EditQuizPage = () => {
                     </CardContent>
                 </Card>
 
+                <DrawRulesCard
+                    courseId={selectedCourse}
+                    chapters={chapters}
+                    rules={drawRules}
+                    onChange={setDrawRules}
+                />
+
                 <div className="space-y-4">
                     <div className="flex items-center justify-between">
                         <Label>الأسئلة</Label>
-                        <Button type="button" variant="outline" onClick={addQuestion}>
-                            <Plus className="h-4 w-4 mr-2" />
-                            إضافة سؤال
-                        </Button>
+                        <div className="flex items-center gap-2">
+                            <ImportQuestionsDialog onImport={addImportedQuestions} />
+                            <Button type="button" variant="outline" onClick={addQuestion}>
+                                <Plus className="h-4 w-4 mr-2" />
+                                إضافة سؤال
+                            </Button>
+                        </div>
                     </div>
 
                     {questions.map((question, index) => (
@@ -959,7 +1096,11 @@ const EditQuizPage = () => {
                                             (question.type === "TRUE_FALSE" && 
                                              (typeof question.correctAnswer !== 'string' || (question.correctAnswer !== "true" && question.correctAnswer !== "false"))) ||
                                             (question.type === "SHORT_ANSWER" && 
-                                             (typeof question.correctAnswer !== 'string' || question.correctAnswer.trim() === ""))) && (
+                                             (typeof question.correctAnswer !== 'string' || question.correctAnswer.trim() === "")) ||
+                                            (question.type === "MULTI_SELECT" &&
+                                             (!Array.isArray(question.correctAnswer) || question.correctAnswer.length === 0)) ||
+                                            ((question.type === "NUMERIC" || question.type === "MATH_EXPRESSION") &&
+                                             question.correctAnswer.toString().trim() === "")) && (
                                             <Badge variant="destructive" className="text-xs">
                                                 غير مكتمل
                                             </Badge>
@@ -1003,8 +1144,9 @@ const EditQuizPage = () => {
                                     <Textarea
                                         value={question.text}
                                         onChange={(e) => updateQuestion(index, "text", e.target.value)}
-                                        placeholder="أدخل نص السؤال"
+                                        placeholder="أدخل نص السؤال، واكتب المعادلات بين علامتي $ مثل $x^2$"
                                     />
+                                    <MathPreview text={question.text} />
                                 </div>
 
                                 <div className="space-y-2">
@@ -1048,17 +1190,19 @@ const EditQuizPage = () => {
                                         <Label>نوع السؤال</Label>
                                         <Select
                                             value={question.type}
-                                            onValueChange={(value: "MULTIPLE_CHOICE" | "TRUE_FALSE" | "SHORT_ANSWER") =>
-                                                updateQuestion(index, "type", value)
+                                            onValueChange={(value: QuestionType) =>
+                                                updateQuestionFields(index, { type: value, correctAnswer: getDefaultCorrectAnswer(value) })
                                             }
                                         >
                                             <SelectTrigger>
                                                 <SelectValue />
                                             </SelectTrigger>
                                             <SelectContent>
-                                                <SelectItem value="MULTIPLE_CHOICE">اختيار من متعدد</SelectItem>
-                                                <SelectItem value="TRUE_FALSE">صح أو خطأ</SelectItem>
-                                                <SelectItem value="SHORT_ANSWER">إجابة قصيرة</SelectItem>
+                                                {QUESTION_TYPES.map((type) => (
+                                                    <SelectItem key={type} value={type}>
+                                                        {QUESTION_TYPE_LABELS[type]}
+                                                    </SelectItem>
+                                                ))}
                                             </SelectContent>
                                         </Select>
                                     </div>
@@ -1140,6 +1284,13 @@ const EditQuizPage = () => {
                                         />
                                     </div>
                                 )}
+
+                                <QuestionAnswerFields
+                                    questionKey={question.id}
+                                    type={question.type}
+                                    value={question}
+                                    onChange={(changes) => updateQuestionFields(index, changes)}
+                                />
                             </CardContent>
                         </Card>
                     ))}
@@ -1154,7 +1305,7 @@ const EditQuizPage = () => {
                     </Button>
                     <Button
                         onClick={handleUpdateQuiz}
-                        disabled={isUpdatingQuiz || questions.length === 0}
+                        disabled={isUpdatingQuiz || (questions.length === 0 && drawRules.length === 0)}
                     >
                         {isUpdatingQuiz ? "جاري التحديث..." : "تحديث الاختبار"}
                     </Button>
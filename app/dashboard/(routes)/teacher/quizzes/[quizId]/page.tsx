@@ -1,13 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { use } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Edit, Trash2, Eye, FileText } from "lucide-react";
+import { ArrowLeft, Edit, Trash2, Eye, FileText, RefreshCw, Download } from "lucide-react";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
+import { MathText } from "@/components/math-text";
+import { formatNumericAnswer, parseOptionIndices, QUESTION_TYPE_LABELS, QuestionType } from "@/lib/quiz";
+import { QUIZ_TRANSFER_FORMATS } from "@/lib/quiz-transfer";
+import { RegradeDialog } from "../_components/regrade-dialog";
 
 interface Quiz {
     id: string;
@@ -21,6 +25,7 @@ interface Quiz {
         title: string;
     };
     questions: Question[];
+    drawRules?: { id: string; count: number }[];
     createdAt: string;
     updatedAt: string;
 }
@@ -28,9 +33,11 @@ interface Quiz {
 interface Question {
     id: string;
     text: string;
-    type: "MULTIPLE_CHOICE" | "TRUE_FALSE" | "SHORT_ANSWER";
+    type: QuestionType;
     options?: string[];
     correctAnswer: string;
+    tolerance?: number | null;
+    toleranceType?: string | null;
     points: number;
 }
 
@@ -38,6 +45,13 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
     const router = useRouter();
     const [quiz, setQuiz] = useState<Quiz | null>(null);
     const [loading, setLoading] = useState(true);
+    // undefined while the regrade dialog is closed, null to regrade the whole quiz
+    const [regradeQuestionId, setRegradeQuestionId] = useState<string | null | undefined>(undefined);
+    const onRegradeOpenChange = useCallback((open: boolean) => {
+        if (!open) {
+            setRegradeQuestionId(undefined);
+        }
+    }, []);
     
     // Unwrap the params Promise
     const resolvedParams = use(params);
@@ -166,6 +180,11 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
                                 <div>
                                     <h4 className="font-medium mb-1">عدد الأسئلة</h4>
                                     <Badge variant="secondary">{quiz.questions.length} سؤال</Badge>
+                                    {quiz.drawRules && quiz.drawRules.length > 0 && (
+                                        <Badge variant="outline" className="mr-2">
+                                            + {quiz.drawRules.reduce((sum, rule) => sum + rule.count, 0)} سؤال عشوائي من البنك
+                                        </Badge>
+                                    )}
                                 </div>
                             </div>
                         </CardContent>
@@ -183,14 +202,20 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
                                 <div key={question.id} className="border rounded-lg p-4">
                                     <div className="flex items-center justify-between mb-3">
                                         <h4 className="font-medium">السؤال {index + 1}</h4>
-                                        <Badge variant="outline">{question.points} درجة</Badge>
+                                        <div className="flex items-center gap-2">
+                                            <Button variant="ghost" size="sm" onClick={() => setRegradeQuestionId(question.id)}>
+                                                <RefreshCw className="h-4 w-4 mr-2" />
+                                                إعادة تصحيح
+                                            </Button>
+                                            <Badge variant="outline">{question.points} درجة</Badge>
+                                        </div>
                                     </div>
                                     
-                                    <p className="text-muted-foreground mb-3">{question.text}</p>
+                                    <p className="text-muted-foreground mb-3"><MathText text={question.text} /></p>
                                     
                                     <div className="space-y-2">
                                         <div className="flex items-center space-x-2">
-                                            <Badge variant="secondary">{question.type}</Badge>
+                                            <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type] ?? question.type}</Badge>
                                         </div>
                                         
                                         {question.type === "MULTIPLE_CHOICE" && question.options && (
@@ -207,7 +232,7 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
                                                             }`}
                                                         >
                                                             <span className="text-sm">
-                                                                {optionIndex + 1}. {option}
+                                                                {optionIndex + 1}. <MathText text={option} />
                                                                 {option === question.correctAnswer && (
                                                                     <Badge variant="default" className="mr-2">
                                                                         الإجابة الصحيحة
@@ -220,6 +245,36 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
                                             </div>
                                         )}
                                         
+                                        {question.type === "MULTI_SELECT" && question.options && (
+                                            <div className="space-y-2">
+                                                <h5 className="font-medium text-sm">الخيارات:</h5>
+                                                <div className="space-y-1">
+                                                    {question.options.map((option, optionIndex) => {
+                                                        const isCorrectOption = parseOptionIndices(question.correctAnswer).includes(optionIndex);
+                                                        return (
+                                                            <div
+                                                                key={optionIndex}
+                                                                className={`p-2 rounded border ${
+                                                                    isCorrectOption
+                                                                        ? "bg-green-50 border-green-200"
+                                                                        : "bg-gray-50"
+                                                                }`}
+                                                            >
+                                                                <span className="text-sm">
+                                                                    {optionIndex + 1}. <MathText text={option} />
+                                                                    {isCorrectOption && (
+                                                                        <Badge variant="default" className="mr-2">
+                                                                            إجابة صحيحة
+                                                                        </Badge>
+                                                                    )}
+                                                                </span>
+                                                            </div>
+                                                        );
+                                                    })}
+                                                </div>
+                                            </div>
+                                        )}
+
                                         {question.type === "TRUE_FALSE" && (
                                             <div className="space-y-2">
                                                 <h5 className="font-medium text-sm">الإجابة الصحيحة:</h5>
@@ -233,7 +288,18 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
                                             <div className="space-y-2">
                                                 <h5 className="font-medium text-sm">الإجابة الصحيحة:</h5>
                                                 <p className="text-sm bg-green-50 p-2 rounded border border-green-200">
-                                                    {question.correctAnswer}
+                                                    <MathText text={question.correctAnswer} />
+                                                </p>
+                                            </div>
+                                        )}
+
+                                        {(question.type === "NUMERIC" || question.type === "MATH_EXPRESSION") && (
+                                            <div className="space-y-2">
+                                                <h5 className="font-medium text-sm">الإجابة الصحيحة:</h5>
+                                                <p className="text-sm bg-green-50 p-2 rounded border border-green-200" dir="ltr">
+                                                    {question.type === "NUMERIC"
+                                                        ? formatNumericAnswer(question.correctAnswer, question.tolerance, question.toleranceType)
+                                                        : question.correctAnswer}
                                                 </p>
                                             </div>
                                         )}
@@ -292,10 +358,41 @@ const QuizViewPage = ({ params }: { params: Promise<{ quizId: string }> }) => {
                                 <Eye className="h-4 w-4 mr-2" />
                                 عرض النتائج
                             </Button>
+                            <Button
+                                className="w-full"
+                                variant="outline"
+                                onClick={() => setRegradeQuestionId(null)}
+                            >
+                                <RefreshCw className="h-4 w-4 mr-2" />
+                                إعادة تصحيح الاختبار
+                            </Button>
+                            <div className="pt-2 space-y-2">
+                                <p className="text-sm text-muted-foreground flex items-center">
+                                    <Download className="h-4 w-4 mr-2" />
+                                    تصدير الأسئلة
+                                </p>
+                                <div className="grid grid-cols-3 gap-2">
+                                    {QUIZ_TRANSFER_FORMATS.map(format => (
+                                        <Button key={format} variant="outline" size="sm" asChild>
+                                            <a href={`/api/teacher/quizzes/${quiz.id}/export?format=${format}`} download>
+                                                {format.toUpperCase()}
+                                            </a>
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
                         </CardContent>
                     </Card>
                 </div>
             </div>
+
+            <RegradeDialog
+                quizId={quiz.id}
+                questionId={regradeQuestionId}
+                title={regradeQuestionId ? "إعادة تصحيح السؤال" : "إعادة تصحيح الاختبار"}
+                open={regradeQuestionId !== undefined}
+                onOpenChange={onRegradeOpenChange}
+            />
         </div>
     );
 };
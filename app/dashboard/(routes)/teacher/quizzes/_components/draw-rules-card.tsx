@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Shuffle, Trash2 } from "lucide-react";
+import { QUESTION_DIFFICULTIES, QUESTION_DIFFICULTY_LABELS } from "@/lib/quiz";
+
+export interface DrawRule {
+    count: number;
+    chapterId: string | null;
+    topic: string | null;
+    difficulty: string | null;
+}
+
+interface BankQuestionTags {
+    id: string;
+    chapterId: string | null;
+    topic: string | null;
+    difficulty: string | null;
+}
+
+interface DrawRulesCardProps {
+    courseId: string;
+    chapters: { id: string; title: string }[];
+    rules: DrawRule[];
+    onChange: (rules: DrawRule[]) => void;
+}
+
+const matchesRule = (question: BankQuestionTags, rule: DrawRule) =>
+    (!rule.chapterId || question.chapterId === rule.chapterId) &&
+    (!rule.topic || question.topic === rule.topic) &&
+    (!rule.difficulty || question.difficulty === rule.difficulty);
+
+export const DrawRulesCard = ({ courseId, chapters, rules, onChange }: DrawRulesCardProps) => {
+    const [bankQuestions, setBankQuestions] = useState<BankQuestionTags[]>([]);
+
+    useEffect(() => {
+        if (!courseId) {
+            setBankQuestions([]);
+            return;
+        }
+
+        const fetchBankQuestions = async () => {
+            try {
+                const response = await fetch(`/api/teacher/question-bank?courseId=${courseId}`);
+                if (response.ok) {
+                    setBankQuestions(await response.json());
+                }
+            } catch (error) {
+                console.error("Error fetching question bank:", error);
+            }
+        };
+
+        fetchBankQuestions();
+    }, [courseId]);
+
+    const topics = Array.from(new Set(bankQuestions.map(question => question.topic).filter(Boolean))) as string[];
+
+    const updateRule = (index: number, changes: Partial<DrawRule>) => {
+        onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+    };
+
+    const addRule = () => {
+        onChange([...rules, { count: 1, chapterId: null, topic: null, difficulty: null }]);
+    };
+
+    const removeRule = (index: number) => {
+        onChange(rules.filter((_, i) => i !== index));
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Shuffle className="h-5 w-5" />
+                        <CardTitle>أسئلة عشوائية من بنك الأسئلة</CardTitle>
+                    </div>
+                    <Button type="button" variant="outline" size="sm" onClick={addRule} disabled={!courseId}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        إضافة قاعدة
+                    </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                    يحصل كل طالب على مجموعة مختلفة من الأسئلة يتم سحبها عند بدء المحاولة، بالإضافة إلى الأسئلة الثابتة أدناه
+                </p>
+            </CardHeader>
+            <CardContent>
+                {rules.length === 0 ? (
+                    <div className="text-center text-muted-foreground py-4">
+                        لا توجد قواعد سحب، سيحصل جميع الطلاب على نفس الأسئلة
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {rules.map((rule, index) => {
+                            const available = bankQuestions.filter(question => matchesRule(question, rule)).length;
+                            return (
+                                <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end p-3 border rounded-lg">
+                                    <div className="space-y-2">
+                                        <Label>عدد الأسئلة</Label>
+                                        <Input
+                                            type="number"
+                                            value={rule.count || ""}
+                                            onChange={(e) => {
+                                                const num = parseInt(e.target.value);
+                                                updateRule(index, { count: isNaN(num) ? 1 : Math.max(1, num) });
+                                            }}
+                                            min="1"
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>الفصل</Label>
+                                        <Select
+                                            value={rule.chapterId || "any"}
+                                            onValueChange={(value) => updateRule(index, { chapterId: value === "any" ? null : value })}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="any">أي فصل</SelectItem>
+                                                {chapters.map((chapter) => (
+                                                    <SelectItem key={chapter.id} value={chapter.id}>
+                                                        {chapter.title}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>الموضوع</Label>
+                                        <Select
+                                            value={rule.topic || "any"}
+                                            onValueChange={(value) => updateRule(index, { topic: value === "any" ? null : value })}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="any">أي موضوع</SelectItem>
+                                                {topics.map((topic) => (
+                                                    <SelectItem key={topic} value={topic}>
+                                                        {topic}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label>الصعوبة</Label>
+                                        <Select
+                                            value={rule.difficulty || "any"}
+                                            onValueChange={(value) => updateRule(index, { difficulty: value === "any" ? null : value })}
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="any">أي مستوى</SelectItem>
+                                                {QUESTION_DIFFICULTIES.map((level) => (
+                                                    <SelectItem key={level} value={level}>
+                                                        {QUESTION_DIFFICULTY_LABELS[level]}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className={`text-sm ${available < rule.count ? "text-red-600" : "text-muted-foreground"}`}>
+                                            متاح: {available}
+                                        </span>
+                                        <Button
+                                            type="button"
+                                            variant="destructive"
+                                            size="sm"
+                                            onClick={() => removeRule(index)}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
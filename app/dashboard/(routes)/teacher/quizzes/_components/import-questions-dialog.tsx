@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import {
+    getFormatFromFileName,
+    ImportedQuestion,
+    parseQuestionImport,
+    QuestionImportReport,
+    QuizTransferFormat
+} from "@/lib/quiz-transfer";
+
+const FORMAT_LABELS: Record<QuizTransferFormat, string> = {
+    json: "JSON",
+    csv: "CSV",
+    gift: "GIFT (Moodle)"
+};
+
+interface ImportQuestionsDialogProps {
+    onImport: (questions: ImportedQuestion[]) => void;
+}
+
+/**
+ * Reads questions from a GIFT, JSON or CSV file (or pasted text) and shows a validation report per row
+ * before adding the valid questions to the quiz being edited
+ */
+export const ImportQuestionsDialog = ({ onImport }: ImportQuestionsDialogProps) => {
+    const [open, setOpen] = useState(false);
+    const [format, setFormat] = useState<QuizTransferFormat>("json");
+    const [content, setContent] = useState("");
+    const [report, setReport] = useState<QuestionImportReport | null>(null);
+
+    const reset = () => {
+        setContent("");
+        setReport(null);
+    };
+
+    const handleFileChange = async (file: File | undefined) => {
+        if (!file) return;
+
+        const detectedFormat = getFormatFromFileName(file.name) ?? format;
+        const text = await file.text();
+        setFormat(detectedFormat);
+        setContent(text);
+        setReport(parseQuestionImport(text, detectedFormat));
+    };
+
+    const handleImport = () => {
+        if (!report || report.questions.length === 0) return;
+
+        onImport(report.questions);
+        setOpen(false);
+        reset();
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => {
+            setOpen(isOpen);
+            if (!isOpen) reset();
+        }}>
+            <DialogTrigger asChild>
+                <Button type="button" variant="outline">
+                    <Upload className="h-4 w-4 mr-2" />
+                    استيراد أسئلة
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>استيراد أسئلة</DialogTitle>
+                    <DialogDescription>
+                        ارفع ملف GIFT أو JSON أو CSV، أو الصق محتواه. تُضاف الأسئلة الصالحة إلى نهاية الاختبار ويمكنك مراجعتها قبل الحفظ.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>الصيغة</Label>
+                            <Select
+                                value={format}
+                                onValueChange={(value: QuizTransferFormat) => {
+                                    setFormat(value);
+                                    setReport(null);
+                                }}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {(Object.keys(FORMAT_LABELS) as QuizTransferFormat[]).map(value => (
+                                        <SelectItem key={value} value={value}>{FORMAT_LABELS[value]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>الملف</Label>
+                            <Input
+                                type="file"
+                                accept=".json,.csv,.gift,.txt"
+                                onChange={(e) => handleFileChange(e.target.files?.[0])}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>أو الصق المحتوى</Label>
+                        <Textarea
+                            value={content}
+                            onChange={(e) => {
+                                setContent(e.target.value);
+                                setReport(null);
+                            }}
+                            rows={6}
+                            dir="ltr"
+                            className="font-mono text-xs"
+                        />
+                    </div>
+
+                    {!report ? (
+                        <Button
+                            type="button"
+                            variant="secondary"
+                            onClick={() => setReport(parseQuestionImport(content, format))}
+                            disabled={!content.trim()}
+                        >
+                            فحص الأسئلة
+                        </Button>
+                    ) : (
+                        <div className="space-y-3">
+                            <div className="flex flex-wrap gap-2">
+                                <Badge variant="default">{report.questions.length} سؤال صالح</Badge>
+                                {report.errors.length > 0 && (
+                                    <Badge variant="destructive">{report.errors.length} صف به أخطاء</Badge>
+                                )}
+                            </div>
+
+                            {report.errors.length > 0 && (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead className="w-20">{format === "gift" ? "السؤال" : format === "csv" ? "السطر" : "العنصر"}</TableHead>
+                                            <TableHead>الخطأ</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {report.errors.map((error, index) => (
+                                            <TableRow key={`${error.row}-${index}`}>
+                                                <TableCell>{error.row || "-"}</TableCell>
+                                                <TableCell className="text-red-600">{error.message}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                        إلغاء
+                    </Button>
+                    <Button
+                        type="button"
+                        onClick={handleImport}
+                        disabled={!report || report.questions.length === 0}
+                    >
+                        {report && report.errors.length > 0 ? `إضافة الأسئلة الصالحة (${report.questions.length})` : `إضافة ${report?.questions.length ?? 0} سؤال`}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,149 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { parseMathExpression } from "@/lib/math-expression";
+import { ToleranceType } from "@/lib/quiz";
+
+export interface QuestionAnswerValue {
+    options?: string[];
+    correctAnswer: string | number | number[];
+    tolerance?: number | null;
+    toleranceType?: ToleranceType | null;
+}
+
+interface QuestionAnswerFieldsProps {
+    questionKey: string;
+    type: string;
+    value: QuestionAnswerValue;
+    onChange: (changes: Partial<QuestionAnswerValue>) => void;
+}
+
+/**
+ * Correct answer a question starts with after its type is changed
+ */
+export const getDefaultCorrectAnswer = (type: string): string | number | number[] => {
+    if (type === "MULTIPLE_CHOICE") return 0;
+    if (type === "MULTI_SELECT") return [];
+    return "";
+};
+
+/**
+ * Answer fields of the multi-select, numeric and math expression question types,
+ * shared by the quiz editors and the question bank
+ */
+export const QuestionAnswerFields = ({ questionKey, type, value, onChange }: QuestionAnswerFieldsProps) => {
+    const textAnswer = typeof value.correctAnswer === "string" ? value.correctAnswer : "";
+
+    if (type === "MULTI_SELECT") {
+        const options = value.options || ["", "", "", ""];
+        const selected = Array.isArray(value.correctAnswer) ? value.correctAnswer : [];
+
+        const toggleOption = (optionIndex: number, checked: boolean) => {
+            onChange({
+                correctAnswer: checked
+                    ? [...selected, optionIndex].sort((a, b) => a - b)
+                    : selected.filter(index => index !== optionIndex)
+            });
+        };
+
+        return (
+            <div className="space-y-2">
+                <Label>الخيارات (حدد كل الإجابات الصحيحة)</Label>
+                {options.map((option, optionIndex) => (
+                    <div key={`${questionKey}-option-${optionIndex}`} className="flex items-center space-x-2 space-x-reverse">
+                        <Input
+                            value={option}
+                            onChange={(e) => {
+                                const newOptions = [...options];
+                                newOptions[optionIndex] = e.target.value;
+                                onChange({ options: newOptions });
+                            }}
+                            placeholder={`الخيار ${optionIndex + 1}`}
+                        />
+                        <Checkbox
+                            checked={selected.includes(optionIndex)}
+                            onCheckedChange={(checked) => toggleOption(optionIndex, checked === true)}
+                        />
+                    </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                    يحصل الطالب على درجة جزئية عن كل إجابة صحيحة يختارها، وتُخصم درجة عن كل إجابة خاطئة
+                </p>
+            </div>
+        );
+    }
+
+    if (type === "NUMERIC") {
+        return (
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                    <Label>الإجابة الصحيحة</Label>
+                    <Input
+                        value={typeof value.correctAnswer === "number" ? String(value.correctAnswer) : textAnswer}
+                        onChange={(e) => onChange({ correctAnswer: e.target.value })}
+                        placeholder="مثال: 3.14"
+                        inputMode="decimal"
+                        dir="ltr"
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label>هامش الخطأ المسموح</Label>
+                    <Input
+                        type="number"
+                        value={value.tolerance ?? ""}
+                        onChange={(e) => {
+                            const num = parseFloat(e.target.value);
+                            onChange({ tolerance: isNaN(num) ? null : Math.max(0, num) });
+                        }}
+                        min="0"
+                        step="any"
+                        placeholder="0"
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label>نوع الهامش</Label>
+                    <Select
+                        value={value.toleranceType || "ABSOLUTE"}
+                        onValueChange={(toleranceType: ToleranceType) => onChange({ toleranceType })}
+                    >
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="ABSOLUTE">فرق ثابت</SelectItem>
+                            <SelectItem value="RELATIVE">نسبة مئوية من الإجابة</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+        );
+    }
+
+    if (type === "MATH_EXPRESSION") {
+        const isInvalid = textAnswer.trim() !== "" && !parseMathExpression(textAnswer);
+
+        return (
+            <div className="space-y-2">
+                <Label>الإجابة الصحيحة</Label>
+                <Input
+                    value={textAnswer}
+                    onChange={(e) => onChange({ correctAnswer: e.target.value })}
+                    placeholder="مثال: 2x+1"
+                    dir="ltr"
+                />
+                {isInvalid ? (
+                    <p className="text-xs text-red-600">التعبير غير صالح</p>
+                ) : (
+                    <p className="text-xs text-muted-foreground">
+                        تُقبل أي صيغة مكافئة للإجابة (مثل 1+2x بدلاً من 2x+1). استخدم ^ للأس و sqrt() للجذر التربيعي
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    return null;
+};
@@ -0,0 +1,212 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+
+interface ScoreSnapshot {
+    score: number;
+    totalPoints: number;
+    percentage: number;
+}
+
+interface RegradeDiff {
+    passingPercentage: number;
+    summary: {
+        totalResults: number;
+        affectedResults: number;
+        affectedStudents: number;
+        newlyPassed: number;
+        newlyFailed: number;
+        keptManualGrades: number;
+    };
+    students: {
+        studentId: string;
+        fullName: string;
+        phoneNumber: string;
+        passedBefore: boolean;
+        passedAfter: boolean;
+        results: {
+            resultId: string;
+            attemptNumber: number;
+            before: ScoreSnapshot;
+            after: ScoreSnapshot;
+            changedAnswers: number;
+        }[];
+    }[];
+}
+
+interface RegradeDialogProps {
+    quizId: string;
+    questionId?: string | null;
+    title: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const formatScore = (snapshot: ScoreSnapshot) => {
+    return `${snapshot.score} / ${snapshot.totalPoints} (${Math.round(snapshot.percentage)}%)`;
+};
+
+/**
+ * Previews the before/after scores of regrading a quiz (or one of its questions) and applies it once confirmed
+ */
+export const RegradeDialog = ({ quizId, questionId, title, open, onOpenChange }: RegradeDialogProps) => {
+    const [diff, setDiff] = useState<RegradeDiff | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+
+    const fetchPreview = useCallback(async () => {
+        setLoading(true);
+        setDiff(null);
+        try {
+            const query = questionId ? `?questionId=${questionId}` : "";
+            const response = await fetch(`/api/teacher/quizzes/${quizId}/regrade${query}`);
+            if (response.ok) {
+                setDiff(await response.json());
+            } else {
+                toast.error("حدث خطأ أثناء حساب الدرجات الجديدة");
+                onOpenChange(false);
+            }
+        } catch (error) {
+            console.error("Error previewing regrade:", error);
+            toast.error("حدث خطأ أثناء حساب الدرجات الجديدة");
+            onOpenChange(false);
+        } finally {
+            setLoading(false);
+        }
+    }, [quizId, questionId, onOpenChange]);
+
+    useEffect(() => {
+        if (open) {
+            fetchPreview();
+        }
+    }, [open, fetchPreview]);
+
+    const handleConfirm = async () => {
+        setIsApplying(true);
+        try {
+            const response = await fetch(`/api/teacher/quizzes/${quizId}/regrade`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ questionId: questionId || null }),
+            });
+
+            if (response.ok) {
+                const result: RegradeDiff = await response.json();
+                toast.success(`تمت إعادة تصحيح ${result.summary.affectedResults} محاولة`);
+                onOpenChange(false);
+            } else {
+                toast.error("حدث خطأ أثناء إعادة التصحيح");
+            }
+        } catch (error) {
+            console.error("Error applying regrade:", error);
+            toast.error("حدث خطأ أثناء إعادة التصحيح");
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>
+                        يتم تصحيح كل المحاولات المحفوظة مرة أخرى حسب الإجابات الصحيحة الحالية. الدرجات التي عدلها المعلم يدوياً لا تتغير.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {loading || !diff ? (
+                    <div className="text-center py-8">جاري حساب الدرجات الجديدة...</div>
+                ) : diff.students.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        لن تتغير درجة أي طالب ({diff.summary.totalResults} محاولة)
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap gap-2">
+                            <Badge variant="secondary">{diff.summary.affectedStudents} طالب</Badge>
+                            <Badge variant="secondary">{diff.summary.affectedResults} من {diff.summary.totalResults} محاولة</Badge>
+                            {diff.summary.newlyPassed > 0 && (
+                                <Badge className="bg-green-600 text-white">{diff.summary.newlyPassed} سينجح</Badge>
+                            )}
+                            {diff.summary.newlyFailed > 0 && (
+                                <Badge variant="destructive">{diff.summary.newlyFailed} سيرسب</Badge>
+                            )}
+                            {diff.summary.keptManualGrades > 0 && (
+                                <Badge variant="outline">{diff.summary.keptManualGrades} درجة يدوية دون تغيير</Badge>
+                            )}
+                        </div>
+
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>الطالب</TableHead>
+                                    <TableHead>المحاولة</TableHead>
+                                    <TableHead>قبل</TableHead>
+                                    <TableHead>بعد</TableHead>
+                                    <TableHead>النجاح (نسبة {diff.passingPercentage}%)</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {diff.students.flatMap(student => student.results.map((result, index) => (
+                                    <TableRow key={result.resultId}>
+                                        <TableCell>
+                                            {index === 0 && (
+                                                <div>
+                                                    <p className="font-medium">{student.fullName}</p>
+                                                    <p className="text-xs text-muted-foreground">{student.phoneNumber}</p>
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>{result.attemptNumber}</TableCell>
+                                        <TableCell>{formatScore(result.before)}</TableCell>
+                                        <TableCell className={result.after.score > result.before.score ? "text-green-600" : result.after.score < result.before.score ? "text-red-600" : ""}>
+                                            {formatScore(result.after)}
+                                        </TableCell>
+                                        <TableCell>
+                                            {index === 0 && (
+                                                student.passedBefore === student.passedAfter ? (
+                                                    <Badge variant="outline">{student.passedAfter ? "ناجح" : "راسب"}</Badge>
+                                                ) : student.passedAfter ? (
+                                                    <Badge className="bg-green-600 text-white">سينجح وتُفتح الفصول التالية</Badge>
+                                                ) : (
+                                                    <Badge variant="destructive">سيرسب وتُغلق الفصول التالية</Badge>
+                                                )
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                )))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+                        إلغاء
+                    </Button>
+                    <Button
+                        onClick={handleConfirm}
+                        disabled={loading || !diff || diff.students.length === 0 || isApplying}
+                    >
+                        {isApplying ? "جاري إعادة التصحيح..." : "تأكيد إعادة التصحيح"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import axios from "axios";
+import { toast } from "sonner";
+import { Eye, Plus, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface ChapterViews {
+    chapterId: string;
+    chapterTitle: string;
+    courseId: string;
+    courseTitle: string;
+    chapterMaxViews: number | null;
+    studentMaxViews: number | null;
+    used: number;
+    remaining: number | null;
+}
+
+interface ChapterViewsDialogProps {
+    student: {
+        id: string;
+        fullName: string;
+    };
+    /** "/api/teacher/users" or "/api/admin/users" */
+    apiPath: string;
+}
+
+export const ChapterViewsDialog = ({ student, apiPath }: ChapterViewsDialogProps) => {
+    const [open, setOpen] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [savingChapterId, setSavingChapterId] = useState<string | null>(null);
+    const [chapters, setChapters] = useState<ChapterViews[]>([]);
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+    const endpoint = `${apiPath}/${student.id}/chapter-views`;
+
+    const fetchChapters = async () => {
+        try {
+            setLoading(true);
+            const response = await axios.get<ChapterViews[]>(endpoint);
+            setChapters(response.data);
+            setDrafts({});
+        } catch (error) {
+            console.error("Error fetching chapter views:", error);
+            toast.error("حدث خطأ أثناء تحميل مرات المشاهدة");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const onOpenChange = (value: boolean) => {
+        setOpen(value);
+        if (value) {
+            fetchChapters();
+        }
+    };
+
+    const saveMaxViews = async (chapterId: string, maxViews: number) => {
+        if (!Number.isInteger(maxViews) || maxViews < 1) {
+            toast.error("عدد المشاهدات يجب أن يكون رقماً صحيحاً أكبر من صفر");
+            return;
+        }
+
+        try {
+            setSavingChapterId(chapterId);
+            await axios.post(endpoint, { chapterId, maxViews });
+            toast.success("تم تحديث عدد مرات المشاهدة");
+            await fetchChapters();
+        } catch (error) {
+            console.error("Error updating chapter views:", error);
+            toast.error("حدث خطأ أثناء تحديث عدد مرات المشاهدة");
+        } finally {
+            setSavingChapterId(null);
+        }
+    };
+
+    const resetMaxViews = async (chapterId: string) => {
+        try {
+            setSavingChapterId(chapterId);
+            await axios.delete(`${endpoint}?chapterId=${chapterId}`);
+            toast.success("تمت العودة إلى عدد المشاهدات الافتراضي للفصل");
+            await fetchChapters();
+        } catch (error) {
+            console.error("Error resetting chapter views:", error);
+            toast.error("حدث خطأ أثناء تحديث عدد مرات المشاهدة");
+        } finally {
+            setSavingChapterId(null);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogTrigger asChild>
+                <Button variant="outline" size="sm" title="مرات المشاهدة">
+                    <Eye className="h-4 w-4" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>مرات المشاهدة - {student.fullName}</DialogTitle>
+                    <DialogDescription>
+                        الفصول المحدد لها عدد مرات مشاهدة، ويمكنك منح الطالب مشاهدات إضافية
+                    </DialogDescription>
+                </DialogHeader>
+                {loading ? (
+                    <div className="text-center py-8">جاري التحميل...</div>
+                ) : chapters.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        لم يشاهد الطالب أي فصل محدد له عدد مرات مشاهدة
+                    </div>
+                ) : (
+                    <div className="max-h-[60vh] overflow-y-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right">الفصل</TableHead>
+                                    <TableHead className="text-right">المشاهدات</TableHead>
+                                    <TableHead className="text-right">الحد الأقصى</TableHead>
+                                    <TableHead className="text-right">الإجراءات</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {chapters.map((chapter) => {
+                                    const maxViews = chapter.studentMaxViews ?? chapter.chapterMaxViews ?? 0;
+                                    const isSaving = savingChapterId === chapter.chapterId;
+
+                                    return (
+                                        <TableRow key={chapter.chapterId}>
+                                            <TableCell>
+                                                <div className="font-medium">{chapter.chapterTitle}</div>
+                                                <div className="text-xs text-muted-foreground">{chapter.courseTitle}</div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant={chapter.remaining === 0 ? "destructive" : "secondary"}>
+                                                    {chapter.used} / {maxViews}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex items-center gap-2">
+                                                    <Input
+                                                        type="number"
+                                                        min="1"
+                                                        step="1"
+                                                        className="w-20"
+                                                        value={drafts[chapter.chapterId] ?? String(maxViews)}
+                                                        onChange={(e) => setDrafts({ ...drafts, [chapter.chapterId]: e.target.value })}
+                                                        disabled={isSaving}
+                                                    />
+                                                    <Button
+                                                        size="sm"
+                                                        disabled={isSaving || drafts[chapter.chapterId] === undefined}
+                                                        onClick={() => saveMaxViews(chapter.chapterId, Number(drafts[chapter.chapterId]))}
+                                                    >
+                                                        حفظ
+                                                    </Button>
+                                                </div>
+                                                {chapter.studentMaxViews !== null && (
+                                                    <div className="text-xs text-muted-foreground mt-1">
+                                                        الافتراضي للفصل: {chapter.chapterMaxViews ?? "غير محدود"}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex items-center gap-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        title="منح مشاهدة إضافية"
+                                                        disabled={isSaving}
+                                                        onClick={() => saveMaxViews(chapter.chapterId, Math.max(maxViews, chapter.used) + 1)}
+                                                    >
+                                                        <Plus className="h-4 w-4" />
+                                                        مشاهدة إضافية
+                                                    </Button>
+                                                    {chapter.studentMaxViews !== null && (
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="sm"
+                                                            title="العودة إلى عدد المشاهدات الافتراضي للفصل"
+                                                            disabled={isSaving}
+                                                            onClick={() => resetMaxViews(chapter.chapterId)}
+                                                        >
+                                                            <RotateCcw className="h-4 w-4" />
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -6,7 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Search, Edit, Trash2 } from "lucide-react";
+import Link from "next/link";
+import { Search, Edit, Trash2, FileText } from "lucide-react";
 import { format } from "date-fns";
 import { ar } from "date-fns/locale";
 import { toast } from "sonner";
@@ -38,6 +39,7 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { ChapterViewsDialog } from "./_components/chapter-views-dialog";
 
 interface User {
     id: string;
@@ -480,6 +482,12 @@ const UsersPage = () => {
                                         </TableCell>
                                         <TableCell>
                                             <div className="flex items-center gap-2">
+                                                <Button asChild variant="outline" size="sm" title="كشف الحساب">
+                                                    <Link href={`/dashboard/balance/statement?userId=${user.id}`}>
+                                                        <FileText className="h-4 w-4" />
+                                                    </Link>
+                                                </Button>
+                                                <ChapterViewsDialog student={user} apiPath="/api/teacher/users" />
                                                 <Dialog open={isEditDialogOpen && editingUser?.id === user.id} onOpenChange={(open) => {
                                                     if (!open) {
                                                         setIsEditDialogOpen(false);
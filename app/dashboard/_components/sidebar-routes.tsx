@@ -1,6 +1,6 @@
 "use client";
 
-import { BarChart, Compass, Layout, List, Wallet, Shield, Users, Eye, TrendingUp, BookOpen, FileText, Award, PlusSquare, Key, Ticket } from "lucide-react";
+import { BarChart, Compass, Layout, List, Wallet, Shield, Users, Eye, TrendingUp, BookOpen, FileText, Award, PlusSquare, Key, Ticket, Library, ClipboardCheck, CreditCard, Package } from "lucide-react";
 import { SidebarItem } from "./sidebar-item";
 import { usePathname } from "next/navigation";
 
@@ -33,6 +33,16 @@ const teacherRoutes = [
         label: "الاختبارات",
         href: "/dashboard/teacher/quizzes",
     },
+    {
+        icon: Library,
+        label: "بنك الأسئلة",
+        href: "/dashboard/teacher/question-bank",
+    },
+    {
+        icon: ClipboardCheck,
+        label: "التصحيح اليدوي",
+        href: "/dashboard/teacher/grading",
+    },
     {
         icon: Award,
         label: "الدرجات",
@@ -78,6 +88,11 @@ const teacherRoutes = [
         label: "كوبونات الخصم",
         href: "/dashboard/teacher/promocodes",
     },
+    {
+        icon: Package,
+        label: "الباقات",
+        href: "/dashboard/teacher/bundles",
+    },
 ];
 
 const adminRoutes = [
@@ -96,6 +111,16 @@ const adminRoutes = [
         label: "الاختبارات",
         href: "/dashboard/admin/quizzes",
     },
+    {
+        icon: Library,
+        label: "بنك الأسئلة",
+        href: "/dashboard/admin/question-bank",
+    },
+    {
+        icon: ClipboardCheck,
+        label: "التصحيح اليدوي",
+        href: "/dashboard/admin/grading",
+    },
     {
         icon: Award,
         label: "الدرجات",
@@ -131,6 +156,16 @@ const adminRoutes = [
         label: "كوبونات الخصم",
         href: "/dashboard/admin/promocodes",
     },
+    {
+        icon: Package,
+        label: "الباقات",
+        href: "/dashboard/admin/bundles",
+    },
+    {
+        icon: CreditCard,
+        label: "كروت الشحن",
+        href: "/dashboard/admin/vouchers",
+    },
 ];
 
 export const SidebarRoutes = ({ closeOnClick = false }: { closeOnClick?: boolean }) => {
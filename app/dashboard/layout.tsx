@@ -8,13 +8,13 @@ const DashboardLayout = ({
 }) => {
     return ( 
         <div className="min-h-screen flex flex-col dashboard-layout">
-            <div className="h-[80px] fixed inset-x-0 top-0 w-full z-50">
+            <div className="h-[80px] fixed inset-x-0 top-0 w-full z-50 print:hidden">
                 <Navbar />
             </div>
-            <div className="hidden md:flex h-[calc(100vh-80px)] w-56 flex-col fixed inset-x-0 top-[80px] rtl:right-0 ltr:left-0 z-40">
+            <div className="hidden md:flex h-[calc(100vh-80px)] w-56 flex-col fixed inset-x-0 top-[80px] rtl:right-0 ltr:left-0 z-40 print:hidden">
                 <Sidebar />
             </div>
-            <main className="md:rtl:pr-56 md:ltr:pl-56 pt-[80px] flex-1">
+            <main className="md:rtl:pr-56 md:ltr:pl-56 pt-[80px] flex-1 print:p-0">
                 {children}
             </main>
         </div>
@@ -1,14 +1,18 @@
 import { getServerSession } from "next-auth";
 import { redirect } from "next/navigation";
 import { db } from "@/lib/db";
+import { fromPiastres } from "@/lib/ledger";
+import { getDaysLeft, isPurchaseExpired } from "@/lib/course-access";
+import { getResumePosition } from "@/lib/watch-time";
+import { formatDuration } from "@/lib/format";
 import { authOptions } from "@/lib/auth";
 import { getDashboardUrlByRole } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { BookOpen, Play, Clock, Trophy, Wallet, TrendingUp, BookOpen as BookOpenIcon } from "lucide-react";
+import { BookOpen, Play, Clock, Trophy, Wallet, TrendingUp, BookOpen as BookOpenIcon, CalendarClock } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
-import { Course, Purchase, Chapter } from "@prisma/client";
+import { Course, Purchase, Chapter, Prisma } from "@prisma/client";
 
 type CourseWithProgress = Course & {
   chapters: { id: string }[];
@@ -26,6 +30,10 @@ type LastWatchedChapter = {
   position: number;
 }
 
+type ContinueWatchingProgress = Prisma.UserProgressGetPayload<{
+  include: { chapter: { include: { course: { select: { title: true; imageUrl: true } } } } }
+}>;
+
 type StudentStats = {
   totalCourses: number;
   totalChapters: number;
@@ -54,11 +62,14 @@ const CoursesPage = async () => {
     select: { balance: true }
   });
 
-  // Get last watched chapter
-  const lastWatchedChapter = await db.userProgress.findFirst({
+  // Chapters the student stopped in the middle of, most recently watched first
+  const continueWatchingProgress: ContinueWatchingProgress[] = await db.userProgress.findMany({
     where: {
       userId: session.user.id,
-      isCompleted: false // Get the last incomplete chapter
+      isCompleted: false,
+      lastWatchedAt: {
+        not: null
+      }
     },
     include: {
       chapter: {
@@ -73,10 +84,16 @@ const CoursesPage = async () => {
       }
     },
     orderBy: {
-      updatedAt: "desc"
-    }
+      lastWatchedAt: "desc"
+    },
+    take: 12
   });
 
+  const continueWatching = continueWatchingProgress
+    .map(progress => ({ ...progress, resumePosition: getResumePosition(progress) }))
+    .filter(progress => progress.resumePosition !== null)
+    .slice(0, 6);
+
   // Get student statistics
   const totalCourses = await db.purchase.count({
     where: {
@@ -191,6 +208,7 @@ const CoursesPage = async () => {
       purchases: {
         where: {
           userId: session.user.id,
+          status: "ACTIVE"
         }
       }
     },
@@ -280,7 +298,7 @@ const CoursesPage = async () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-green-100 text-sm">الرصيد الحالي</p>
-              <p className="text-2xl font-bold">{user?.balance?.toFixed(2) || "0.00"} جنيه</p>
+              <p className="text-2xl font-bold">{fromPiastres(user?.balance ?? 0).toFixed(2)} جنيه</p>
             </div>
             <Wallet className="h-8 w-8 text-green-200" />
           </div>
@@ -320,61 +338,50 @@ const CoursesPage = async () => {
         </div>
       </div>
 
-      {/* Last Watched Chapter - Big Square */}
-      {lastWatchedChapter && (
+      {/* Continue Watching */}
+      {continueWatching.length > 0 && (
         <div className="mb-8">
-          <h2 className="text-xl font-semibold mb-4">آخر فصل كنت تشاهده</h2>
-          <div className="bg-card rounded-xl overflow-hidden border shadow-lg">
-            <div className="grid grid-cols-1 lg:grid-cols-2">
-              {/* Image Section */}
-              <div className="relative h-64 lg:h-full">
-                <Image
-                  src={lastWatchedChapter.chapter.course.imageUrl || "/placeholder.png"}
-                  alt={lastWatchedChapter.chapter.course.title}
-                  fill
-                  className="object-cover"
-                />
-                <div className="absolute inset-0 bg-black/30" />
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <div className="bg-white/20 backdrop-blur-sm rounded-full p-4">
-                    <Play className="h-8 w-8 text-white" />
+          <h2 className="text-xl font-semibold mb-4">متابعة المشاهدة</h2>
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {continueWatching.map((progress) => (
+              <Link
+                key={progress.id}
+                href={`/courses/${progress.chapter.courseId}/chapters/${progress.chapter.id}?t=${progress.resumePosition}`}
+                className="group w-64 flex-shrink-0 bg-card rounded-xl overflow-hidden border hover:shadow-lg transition-shadow"
+              >
+                <div className="relative h-36">
+                  <Image
+                    src={progress.chapter.course.imageUrl || "/placeholder.png"}
+                    alt={progress.chapter.course.title}
+                    fill
+                    className="object-cover"
+                  />
+                  <div className="absolute inset-0 bg-black/30" />
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    <div className="bg-white/20 backdrop-blur-sm rounded-full p-3 group-hover:bg-white/30 transition-colors">
+                      <Play className="h-6 w-6 text-white" />
+                    </div>
                   </div>
+                  {progress.duration && (
+                    <div className="absolute bottom-0 inset-x-0 h-1 bg-white/30">
+                      <div
+                        className="h-full bg-[#0083d3]"
+                        style={{ width: `${Math.min(100, (progress.lastPosition / progress.duration) * 100)}%` }}
+                      />
+                    </div>
+                  )}
                 </div>
-              </div>
-
-              {/* Content Section */}
-              <div className="p-6 flex flex-col justify-center">
-                <div className="mb-4">
-                  <p className="text-sm text-muted-foreground mb-2">
-                    {lastWatchedChapter.chapter.course.title}
-                  </p>
-                  <h3 className="text-2xl font-bold mb-2">
-                    {lastWatchedChapter.chapter.title}
-                  </h3>
-                  <p className="text-muted-foreground">
-                    الفصل رقم {lastWatchedChapter.chapter.position}
+                <div className="p-4 space-y-1">
+                  <p className="text-xs text-muted-foreground truncate">{progress.chapter.course.title}</p>
+                  <h3 className="font-semibold truncate">{progress.chapter.title}</h3>
+                  <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Clock className="h-3 w-3" />
+                    متابعة من {formatDuration(progress.resumePosition!)}
+                    {progress.duration ? ` / ${formatDuration(progress.duration)}` : ""}
                   </p>
                 </div>
-
-                <div className="space-y-4">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Clock className="h-4 w-4" />
-                    <span>آخر مشاهدة منذ ساعة</span>
-                  </div>
-                  
-                  <Button 
-                    className="w-full bg-[#0083d3] hover:bg-[#0083d3]/90 text-white" 
-                    size="lg"
-                    asChild
-                  >
-                    <Link href={`/courses/${lastWatchedChapter.chapter.courseId}/chapters/${lastWatchedChapter.chapter.id}`}>
-                      <Play className="h-4 w-4 ml-2" />
-                      متابعة المشاهدة
-                    </Link>
-                  </Button>
-                </div>
-              </div>
-            </div>
+              </Link>
+            ))}
           </div>
         </div>
       )}
@@ -421,7 +428,12 @@ const CoursesPage = async () => {
       <div>
         <h2 className="text-xl font-semibold mb-6">كورساتي</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          {coursesWithProgress.map((course) => (
+          {coursesWithProgress.map((course) => {
+            const purchase = course.purchases[0];
+            const isExpired = purchase ? isPurchaseExpired(purchase) : false;
+            const daysLeft = purchase ? getDaysLeft(purchase.expiresAt) : null;
+
+            return (
             <div
               key={course.id}
               className="group bg-card rounded-2xl overflow-hidden border shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-[1.02]"
@@ -461,6 +473,12 @@ const CoursesPage = async () => {
                       </div>
                     )}
                   </div>
+                  {daysLeft !== null && (
+                    <div className={`flex items-center gap-1 text-sm font-medium ${isExpired ? "text-red-600" : "text-orange-600"}`}>
+                      <CalendarClock className="h-4 w-4" />
+                      <span>{isExpired ? "انتهى الاشتراك" : `متبقي ${daysLeft} يوم على انتهاء الاشتراك`}</span>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="space-y-4">
@@ -484,14 +502,21 @@ const CoursesPage = async () => {
                     variant="default"
                     asChild
                   >
-                    <Link href={course.chapters.length > 0 ? `/courses/${course.id}/chapters/${course.chapters[0].id}` : `/courses/${course.id}`}>
-                      متابعة التعلم
-                    </Link>
+                    {isExpired ? (
+                      <Link href={`/courses/${course.id}/purchase`}>
+                        تجديد الاشتراك
+                      </Link>
+                    ) : (
+                      <Link href={course.chapters.length > 0 ? `/courses/${course.id}/chapters/${course.chapters[0].id}` : `/courses/${course.id}`}>
+                        متابعة التعلم
+                      </Link>
+                    )}
                   </Button>
                 </div>
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
         {coursesWithProgress.length === 0 && (
           <div className="text-center py-16">
@@ -2,7 +2,7 @@
 
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { ArrowRight, Star, Users, BookOpen, Award, ChevronDown, Headphones } from "lucide-react";
+import { ArrowRight, Star, Users, BookOpen, Award, ChevronDown, Headphones, Package } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import { Navbar } from "@/components/navbar";
@@ -61,8 +61,19 @@ type CourseWithProgress = Course & {
   progress: number;
 };
 
+type Bundle = {
+  id: string;
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  price: number;
+  listPrice: number;
+  courses: { id: string; title: string }[];
+};
+
 export default function HomePage() {
   const [courses, setCourses] = useState<CourseWithProgress[]>([]);
+  const [bundles, setBundles] = useState<Bundle[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showScrollIndicator, setShowScrollIndicator] = useState(true);
 
@@ -88,7 +99,24 @@ export default function HomePage() {
       }
     };
 
+    const fetchBundles = async () => {
+      try {
+        const response = await fetch("/api/bundles/public");
+
+        if (!response.ok) {
+          console.error("Failed to fetch bundles:", response.status, response.statusText);
+          return;
+        }
+
+        const data = await response.json();
+        setBundles(data);
+      } catch (error) {
+        console.error("Error fetching bundles:", error);
+      }
+    };
+
     fetchCourses();
+    fetchBundles();
   }, []);
 
   useEffect(() => {
@@ -306,6 +334,73 @@ export default function HomePage() {
         )}
       </section>
 
+      {/* Bundles Section */}
+      {bundles.length > 0 && (
+        <section className="py-20">
+          <motion.div
+            initial={{ opacity: 0, y: 50 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true, margin: "-100px" }}
+            transition={{ duration: 0.8 }}
+            className="container mx-auto px-4"
+          >
+            <div className="text-center mb-12">
+              <h2 className="text-3xl font-bold mb-4">الباقات</h2>
+              <p className="text-muted-foreground">اشترك في أكثر من كورس معاً بسعر أقل</p>
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-6">
+              {bundles.map((bundle, index) => (
+                <motion.div
+                  key={bundle.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true, margin: "-100px" }}
+                  transition={{ duration: 0.5, delay: index * 0.1 }}
+                  className="group w-full sm:w-80 md:w-72 lg:w-80 bg-card rounded-xl overflow-hidden border shadow-sm hover:shadow-md transition-all"
+                >
+                  <div className="relative w-full aspect-video">
+                    <Image
+                      src={bundle.imageUrl || "/placeholder.png"}
+                      alt={bundle.title}
+                      fill
+                      className="object-cover rounded-t-xl"
+                    />
+                    <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity" />
+                  </div>
+                  <div className="p-4">
+                    <h3 className="text-lg font-semibold mb-2 line-clamp-2">
+                      {bundle.title}
+                    </h3>
+                    <div className="flex items-start gap-2 text-sm text-muted-foreground mb-2">
+                      <Package className="h-4 w-4 shrink-0 mt-0.5" />
+                      <span className="line-clamp-2">
+                        {bundle.courses.map((course) => course.title).join("، ")}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2 mb-4">
+                      <span className="text-lg font-bold text-[#0083d3]">{bundle.price} جنيه</span>
+                      {bundle.listPrice > bundle.price && (
+                        <span className="text-sm text-muted-foreground line-through">{bundle.listPrice} جنيه</span>
+                      )}
+                    </div>
+                    <Button 
+                      className="w-full bg-[#0083d3] hover:bg-[#0083d3]/90 text-white" 
+                      variant="default"
+                      asChild
+                    >
+                      <Link href={`/dashboard/bundles/${bundle.id}`}>
+                        عرض الباقة
+                      </Link>
+                    </Button>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          </motion.div>
+        </section>
+      )}
+
       {/* Courses Section */}
       <section id="courses-section" className="py-20 bg-muted/50">
         <motion.div
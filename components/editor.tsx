@@ -3,10 +3,12 @@
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
-import { Bold, Italic, List, ListOrdered, Link as LinkIcon } from "lucide-react";
+import { Bold, Italic, List, ListOrdered, Link as LinkIcon, Sigma, SquareSigma } from "lucide-react";
 import { Toggle } from "@/components/ui/toggle";
 import Link from '@tiptap/extension-link';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MathHtml } from "@/components/math-text";
+import { containsMath } from "@/lib/math-render";
 
 interface EditorProps {
     onChange: (value: string) => void;
@@ -64,6 +66,18 @@ export const Editor = ({
         },
     });
 
+    // Formulas are stored as $...$ / $$...$$ text and typeset wherever the content is shown
+    const insertMath = (display: boolean) => {
+        if (!editor) return;
+
+        const { from, to } = editor.state.selection;
+        const latex = window.prompt('LaTeX:', editor.state.doc.textBetween(from, to));
+        if (latex) {
+            const formula = display ? `$$${latex}$$` : `$${latex}$`;
+            editor.chain().focus().insertContent({ type: 'text', text: formula }).run();
+        }
+    };
+
     return (
         <div className="border rounded-md bg-background">
             <div className="border-b p-2 gap-x-2 flex items-center flex-wrap">
@@ -137,10 +151,34 @@ export const Editor = ({
                         <LinkIcon className="h-4 w-4" />
                     </Toggle>
                 </div>
+                <div className="flex items-center gap-x-1 border-l ml-2 pl-2">
+                    <Toggle
+                        size="sm"
+                        pressed={false}
+                        onPressedChange={() => insertMath(false)}
+                        aria-label="Inline math"
+                    >
+                        <Sigma className="h-4 w-4" />
+                    </Toggle>
+                    <Toggle
+                        size="sm"
+                        pressed={false}
+                        onPressedChange={() => insertMath(true)}
+                        aria-label="Display math"
+                    >
+                        <SquareSigma className="h-4 w-4" />
+                    </Toggle>
+                </div>
             </div>
             <div className="prose w-full p-4 max-w-none">
                 <EditorContent editor={editor} />
             </div>
+            {containsMath(value) && (
+                <div className="border-t p-4">
+                    <p className="text-xs text-muted-foreground mb-2">Preview</p>
+                    <MathHtml html={value} className="prose prose-sm max-w-none" />
+                </div>
+            )}
         </div>
     );
 }; 
\ No newline at end of file
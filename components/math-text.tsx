@@ -0,0 +1,51 @@
+"use client";
+
+import { useMemo } from "react";
+import { containsMath, renderMathInHtml, renderMathInText } from "@/lib/math-render";
+
+interface MathTextProps {
+    text: string | null | undefined;
+    className?: string;
+}
+
+/**
+ * Plain text (question text, options, answers) with embedded LaTeX
+ */
+export const MathText = ({ text, className }: MathTextProps) => {
+    const html = useMemo(() => (containsMath(text) ? renderMathInText(text!) : null), [text]);
+
+    if (html === null) {
+        return <span className={className}>{text}</span>;
+    }
+
+    return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+interface MathHtmlProps {
+    html: string | null | undefined;
+    className?: string;
+}
+
+/**
+ * Rich text HTML from the editor with embedded LaTeX
+ */
+export const MathHtml = ({ html, className }: MathHtmlProps) => {
+    const rendered = useMemo(() => renderMathInHtml(html || ""), [html]);
+
+    return <div className={className} dangerouslySetInnerHTML={{ __html: rendered }} />;
+};
+
+/**
+ * Live preview of typeset math under plain text inputs, hidden while the text has no formulas
+ */
+export const MathPreview = ({ text }: { text: string | null | undefined }) => {
+    if (!containsMath(text)) {
+        return null;
+    }
+
+    return (
+        <div className="rounded-md border bg-muted/40 p-3 text-sm">
+            <MathText text={text} />
+        </div>
+    );
+};
@@ -1,29 +1,94 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type Hls from "hls.js";
 import "plyr/dist/plyr.css";
 
+// How often the watermark moves to a new random spot
+const WATERMARK_MOVE_INTERVAL = 7000;
+
+interface VideoWatermark {
+  /** Identifies the viewer, e.g. their name and phone number */
+  lines: string[];
+  /** 0 to 1 */
+  opacity: number;
+}
+
+const randomWatermarkPosition = () => ({
+  top: 5 + Math.random() * 75,
+  left: 5 + Math.random() * 65
+});
+
+const Watermark = ({ lines, opacity }: VideoWatermark) => {
+  const [position, setPosition] = useState(randomWatermarkPosition);
+
+  useEffect(() => {
+    const interval = setInterval(() => setPosition(randomWatermarkPosition()), WATERMARK_MOVE_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div
+      aria-hidden
+      className="absolute z-20 pointer-events-none select-none whitespace-nowrap text-white text-xs sm:text-sm font-semibold leading-tight transition-all duration-1000 ease-in-out"
+      style={{
+        top: `${position.top}%`,
+        left: `${position.left}%`,
+        opacity,
+        textShadow: "0 0 3px rgba(0, 0, 0, 0.8)"
+      }}
+    >
+      {lines.map((line) => (
+        <div key={line}>{line}</div>
+      ))}
+    </div>
+  );
+};
+
 interface PlyrVideoPlayerProps {
   videoUrl?: string;
+  /** HLS master playlist of an uploaded video, played instead of videoUrl with its renditions in the quality menu */
+  hlsUrl?: string;
+  posterUrl?: string;
   youtubeVideoId?: string;
   videoType?: "UPLOAD" | "YOUTUBE";
   className?: string;
   onEnded?: () => void;
-  onTimeUpdate?: (currentTime: number) => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+  /** Second to seek to once the player is ready, changing it seeks the playing video */
+  startTime?: number;
+  /** Drawn over the video, fullscreen included, at a spot that keeps moving */
+  watermark?: VideoWatermark;
 }
 
 export const PlyrVideoPlayer = ({
   videoUrl,
+  hlsUrl,
+  posterUrl,
   youtubeVideoId,
   videoType = "UPLOAD",
   className,
   onEnded,
-  onTimeUpdate
+  onTimeUpdate,
+  startTime,
+  watermark
 }: PlyrVideoPlayerProps) => {
   const html5VideoRef = useRef<HTMLVideoElement>(null);
   const youtubeEmbedRef = useRef<HTMLDivElement>(null);
   const playerRef = useRef<any>(null);
+  const hlsRef = useRef<Hls | null>(null);
   const [isPlayerReady, setIsPlayerReady] = useState(false);
+  // Plyr's wrapper is what goes fullscreen, so the watermark is rendered inside it
+  const [playerContainer, setPlayerContainer] = useState<HTMLElement | null>(null);
+  // Kept in refs so new callbacks from a re-render don't recreate the player and restart the video
+  const onEndedRef = useRef(onEnded);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+
+  useEffect(() => {
+    onEndedRef.current = onEnded;
+    onTimeUpdateRef.current = onTimeUpdate;
+  }, [onEnded, onTimeUpdate]);
 
   const YOUTUBE_QUALITY_LABEL_MAP: Record<
     string,
@@ -59,6 +124,40 @@ export const PlyrVideoPlayer = ({
     let fallbackTimeout: NodeJS.Timeout | null = null;
     setIsPlayerReady(false);
 
+    // Loads the HLS playlist into the video element
+    // @returns The heights of the renditions for the quality menu, or null when the browser picks the quality itself
+    async function attachHls(video: HTMLVideoElement): Promise<number[] | null> {
+      const { default: HlsPlayer } = await import("hls.js");
+
+      if (!HlsPlayer.isSupported()) {
+        // Safari plays HLS natively
+        video.src = hlsUrl!;
+        return null;
+      }
+
+      const hls = new HlsPlayer();
+      hlsRef.current = hls;
+
+      return new Promise((resolve) => {
+        hls.once(HlsPlayer.Events.MANIFEST_PARSED, (_event, data) => {
+          const heights = Array.from(new Set(data.levels.map((level) => level.height)));
+          resolve(heights.sort((a, b) => b - a));
+        });
+        hls.on(HlsPlayer.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return;
+          console.error("HLS playback failed, falling back to the MP4:", data);
+          hls.destroy();
+          hlsRef.current = null;
+          if (videoUrl) {
+            video.src = videoUrl;
+          }
+          resolve(null);
+        });
+        hls.loadSource(hlsUrl!);
+        hls.attachMedia(video);
+      });
+    }
+
     async function initializePlyr(): Promise<void> {
         if (isCancelled) return;
 
@@ -77,6 +176,11 @@ export const PlyrVideoPlayer = ({
             return;
           }
 
+          const hlsHeights =
+            hlsUrl && targetElement instanceof HTMLVideoElement ? await attachHls(targetElement) : null;
+
+          if (isCancelled) return;
+
           // Destroy any previous instance
           if (playerRef.current && typeof playerRef.current.destroy === "function") {
             try {
@@ -103,11 +207,22 @@ export const PlyrVideoPlayer = ({
               "fullscreen"
             ],
             settings: ["speed", "quality", "loop"],
-            quality: {
+            // 0 is automatic quality, switching with the connection
+            quality: hlsHeights ? {
+              default: 0,
+              options: [0, ...hlsHeights],
+              forced: true,
+              onChange: (quality: number) => {
+                const hls = hlsRef.current;
+                if (!hls) return;
+                hls.currentLevel = quality === 0 ? -1 : hls.levels.findIndex((level) => level.height === quality);
+              }
+            } : {
               default: 720,
               options: [4320, 2880, 2160, 1440, 1080, 720, 576, 480, 360, 240, 144],
               forced: true
             },
+            i18n: { qualityLabel: { 0: "تلقائي" } },
             speed: { selected: 1, options: [0.5, 0.75, 1, 1.25, 1.5, 2] },
             youtube: {
               rel: 0,
@@ -117,10 +232,13 @@ export const PlyrVideoPlayer = ({
               disablekb: 1,
               playsinline: 1
             },
-            ratio: "16:9"
+            ratio: "16:9",
+            // iOS native fullscreen only shows the bare video, without the watermark
+            fullscreen: { enabled: true, fallback: true, iosNative: false }
           });
 
           playerRef.current = player;
+          setPlayerContainer(player.elements?.container ?? null);
 
           // Helper functions for YouTube videos (defined inside to access player)
           const getYoutubeEmbedInstance = () => {
@@ -413,9 +531,10 @@ export const PlyrVideoPlayer = ({
             });
           }
 
-          if (onEnded) player.on("ended", onEnded);
-          if (onTimeUpdate)
-            player.on("timeupdate", () => onTimeUpdate(player.currentTime || 0));
+          player.on("ended", () => onEndedRef.current?.());
+          player.on("timeupdate", () =>
+            onTimeUpdateRef.current?.(player.currentTime || 0, player.duration || 0)
+          );
         } catch (error) {
           console.error("Error initializing Plyr:", error);
           // Show player anyway if initialization fails
@@ -449,8 +568,8 @@ export const PlyrVideoPlayer = ({
       // Reset retry count when element is found
       retryCount = 0;
 
-      // For HTML5 video, wait for the video element to be ready
-      if (videoType === "UPLOAD" && html5VideoRef.current) {
+      // For HTML5 video, wait for the video element to be ready. HLS loads once Plyr starts
+      if (videoType === "UPLOAD" && html5VideoRef.current && !hlsUrl) {
         const video = html5VideoRef.current;
         if (video.readyState === 0) {
           // Video not loaded yet, wait for it with timeout
@@ -480,6 +599,7 @@ export const PlyrVideoPlayer = ({
 
     return () => {
       isCancelled = true;
+      setPlayerContainer(null);
       if (fallbackTimeout) {
         clearTimeout(fallbackTimeout);
         fallbackTimeout = null;
@@ -492,10 +612,23 @@ export const PlyrVideoPlayer = ({
         }
       }
       playerRef.current = null;
+      hlsRef.current?.destroy();
+      hlsRef.current = null;
     };
-  }, [videoUrl, youtubeVideoId, videoType, onEnded, onTimeUpdate]);
+  }, [videoUrl, hlsUrl, youtubeVideoId, videoType]);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!isPlayerReady || startTime === undefined || !player) return;
+
+    try {
+      player.currentTime = startTime;
+    } catch (error) {
+      console.warn("Error seeking to start time:", error);
+    }
+  }, [isPlayerReady, startTime]);
 
-  const hasVideo = (videoType === "YOUTUBE" && !!youtubeVideoId) || !!videoUrl;
+  const hasVideo = (videoType === "YOUTUBE" && !!youtubeVideoId) || !!videoUrl || !!hlsUrl;
 
   if (!hasVideo) {
     return (
@@ -528,10 +661,14 @@ export const PlyrVideoPlayer = ({
           playsInline 
           crossOrigin="anonymous"
           preload="metadata"
+          poster={posterUrl}
         >
-          {videoUrl ? <source src={videoUrl} type="video/mp4" /> : null}
+          {videoUrl && !hlsUrl ? <source src={videoUrl} type="video/mp4" /> : null}
         </video>
       )}
+      {watermark && (playerContainer
+        ? createPortal(<Watermark {...watermark} />, playerContainer)
+        : <Watermark {...watermark} />)}
     </div>
   );
 };
\ No newline at end of file
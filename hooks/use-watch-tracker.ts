@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useRef } from "react";
+
+// Same as HEARTBEAT_INTERVAL_SECONDS in lib/watch-time.ts, which limits what one heartbeat can report
+const HEARTBEAT_INTERVAL = 15000;
+// Longer jumps between two time updates are seeks, not playback
+const MAX_PLAYBACK_STEP = 2;
+
+export interface WatchReport {
+    watchedSeconds: number;
+    duration: number | null;
+    watchedPercentage: number;
+    isCompleted: boolean;
+    /** Null when the student can watch the video without limit */
+    views: ViewStatus | null;
+}
+
+export interface ViewStatus {
+    max: number;
+    used: number;
+    remaining: number;
+}
+
+/**
+ * Collects the parts of a chapter's video the student plays and reports them to the server every few seconds,
+ * when the page is hidden and when it is left. Each page load is reported as its own view of the video
+ * @param sessionId The view session the server issued with the chapter, nothing is reported without one
+ * @param onViewsExhausted Called when the server refuses the heartbeats because the student used all their views
+ * @param onSessionExpired Called when the server no longer accepts the view session
+ * @returns The handler to pass to the player's onTimeUpdate
+ */
+export const useWatchTracker = ({ courseId, chapterId, sessionId, enabled = true, onReport, onViewsExhausted, onSessionExpired }: {
+    courseId: string;
+    chapterId: string;
+    sessionId: string | null;
+    enabled?: boolean;
+    onReport?: (report: WatchReport) => void;
+    onViewsExhausted?: () => void;
+    onSessionExpired?: () => void;
+}) => {
+    const pendingRef = useRef<[number, number][]>([]);
+    const currentRef = useRef<[number, number] | null>(null);
+    const positionRef = useRef(0);
+    const durationRef = useRef<number | null>(null);
+    const onReportRef = useRef(onReport);
+    const onViewsExhaustedRef = useRef(onViewsExhausted);
+    const onSessionExpiredRef = useRef(onSessionExpired);
+
+    useEffect(() => {
+        onReportRef.current = onReport;
+        onViewsExhaustedRef.current = onViewsExhausted;
+        onSessionExpiredRef.current = onSessionExpired;
+    }, [onReport, onViewsExhausted, onSessionExpired]);
+
+    const onTimeUpdate = useCallback((currentTime: number, duration?: number) => {
+        const current = currentRef.current;
+        const step = current ? currentTime - current[1] : -1;
+
+        if (current && step >= 0 && step <= MAX_PLAYBACK_STEP) {
+            current[1] = currentTime;
+        } else {
+            if (current && current[1] > current[0]) {
+                pendingRef.current.push(current);
+            }
+            currentRef.current = [currentTime, currentTime];
+        }
+
+        positionRef.current = currentTime;
+        if (duration && Number.isFinite(duration)) {
+            durationRef.current = duration;
+        }
+    }, []);
+
+    const flush = useCallback(async (keepalive = false) => {
+        const current = currentRef.current;
+        const segments = [...pendingRef.current];
+        if (current && current[1] > current[0]) {
+            segments.push([current[0], current[1]]);
+            currentRef.current = [current[1], current[1]];
+        }
+
+        if (segments.length === 0 || !sessionId) {
+            return;
+        }
+        pendingRef.current = [];
+
+        try {
+            const response = await fetch(`/api/courses/${courseId}/chapters/${chapterId}/watch`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    sessionId,
+                    segments,
+                    position: positionRef.current,
+                    duration: durationRef.current,
+                }),
+                keepalive,
+            });
+
+            // Not sent again, the student can't watch more of the video
+            if (response.status === 403) {
+                onViewsExhaustedRef.current?.();
+                return;
+            }
+
+            // Not sent again either, a new view session comes with the chapter when the page is reloaded
+            if (response.status === 410) {
+                onSessionExpiredRef.current?.();
+                return;
+            }
+
+            if (!response.ok) {
+                throw new Error(`Heartbeat failed with status ${response.status}`);
+            }
+
+            onReportRef.current?.(await response.json());
+        } catch (error) {
+            console.error("Error reporting watch time:", error);
+            // Sent again with the next heartbeat
+            pendingRef.current.push(...segments);
+        }
+    }, [courseId, chapterId, sessionId]);
+
+    useEffect(() => {
+        if (!enabled || !sessionId) {
+            return;
+        }
+
+        const interval = setInterval(() => flush(), HEARTBEAT_INTERVAL);
+        const onVisibilityChange = () => {
+            if (document.visibilityState === "hidden") {
+                flush(true);
+            }
+        };
+        document.addEventListener("visibilitychange", onVisibilityChange);
+
+        return () => {
+            clearInterval(interval);
+            document.removeEventListener("visibilitychange", onVisibilityChange);
+            flush(true);
+        };
+    }, [enabled, sessionId, flush]);
+
+    return { onTimeUpdate, flush };
+};
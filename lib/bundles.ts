@@ -0,0 +1,450 @@
+import { Prisma, Purchase } from "@prisma/client";
+import { db } from "@/lib/db";
+import { activePurchaseWhere, getAccessExpiry } from "@/lib/course-access";
+import { isUniqueConstraintError, saveIdempotentRequest } from "@/lib/idempotency";
+import { fromPiastres, LedgerError, postLedgerTransaction, toPiastres } from "@/lib/ledger";
+import { findPreviousPurchase, PurchaseError } from "@/lib/purchases";
+
+export class BundleError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "BundleError";
+    }
+}
+
+export interface BundleInput {
+    title: string;
+    description: string | null;
+    imageUrl: string | null;
+    /** EGP */
+    price: number;
+    isPublished: boolean;
+    courseIds: string[];
+}
+
+const bundleWithCourses = {
+    include: {
+        courses: {
+            include: {
+                course: {
+                    select: {
+                        id: true,
+                        title: true,
+                        imageUrl: true,
+                        price: true,
+                        isPublished: true,
+                        accessEndsAt: true,
+                        accessDays: true,
+                    }
+                }
+            },
+            orderBy: {
+                createdAt: "asc"
+            }
+        }
+    }
+} satisfies Prisma.BundleDefaultArgs;
+
+export type BundleWithCourses = Prisma.BundleGetPayload<typeof bundleWithCourses>;
+
+type BundleCourseDetails = BundleWithCourses["courses"][number]["course"];
+
+export interface BundleQuote {
+    /** What the courses cost when bought separately, in EGP */
+    listPrice: number;
+    price: number;
+    /** Part of the bundle price taken off for courses the student already owns, in EGP */
+    credit: number;
+    finalPrice: number;
+    ownedCourseIds: string[];
+}
+
+export interface BundlePurchaseResult {
+    success: true;
+    bundlePurchaseId: string;
+    newBalance: number;
+    price: string;
+    credit: string;
+    finalPrice: string;
+    courseIds: string[];
+}
+
+/**
+ * Splits piastres between courses in proportion to their prices, or evenly when they are all free,
+ * giving the rounding remainder to the last course so the shares add up exactly
+ */
+const splitByCoursePrice = (amount: number, courses: BundleCourseDetails[]) => {
+    const weights = courses.map(course => toPiastres(course.price || 0));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const shares = courses.map((_, index) => totalWeight > 0
+        ? Math.floor(amount * weights[index] / totalWeight)
+        : Math.floor(amount / courses.length));
+    if (shares.length > 0) {
+        shares[shares.length - 1] += amount - shares.reduce((sum, share) => sum + share, 0);
+    }
+    return shares;
+};
+
+/**
+ * Prices a bundle for a student. Each course owns a share of the bundle price in proportion to its own price,
+ * and the shares of the courses the student already owns are credited, so they get the same discount on the rest.
+ * @returns The quote, and the piastres charged for each course the student doesn't own
+ */
+const quoteBundle = (bundle: BundleWithCourses, ownedCourseIds: Set<string>) => {
+    const courses = bundle.courses.map(item => item.course);
+    const shares = splitByCoursePrice(toPiastres(bundle.price), courses);
+
+    let credit = 0;
+    const charges = new Map<string, number>();
+    courses.forEach((course, index) => {
+        if (ownedCourseIds.has(course.id)) {
+            credit += shares[index];
+        } else {
+            charges.set(course.id, shares[index]);
+        }
+    });
+
+    const quote: BundleQuote = {
+        listPrice: courses.reduce((sum, course) => sum + (course.price || 0), 0),
+        price: bundle.price,
+        credit: fromPiastres(credit),
+        finalPrice: fromPiastres(toPiastres(bundle.price) - credit),
+        ownedCourseIds: courses.filter(course => ownedCourseIds.has(course.id)).map(course => course.id),
+    };
+
+    return { quote, charges };
+};
+
+const getOwnedCourseIds = async (userId: string, courseIds: string[]) => {
+    const purchases: { courseId: string }[] = await db.purchase.findMany({
+        where: {
+            userId,
+            courseId: {
+                in: courseIds
+            },
+            ...activePurchaseWhere()
+        },
+        select: {
+            courseId: true
+        }
+    });
+
+    return new Set(purchases.map(purchase => purchase.courseId));
+};
+
+export const getPublishedBundle = async (bundleId: string) => {
+    const bundle: BundleWithCourses | null = await db.bundle.findUnique({
+        where: {
+            id: bundleId,
+            isPublished: true
+        },
+        ...bundleWithCourses
+    });
+
+    return bundle;
+};
+
+/**
+ * Published bundles with their courses, newest first
+ */
+export const getPublishedBundles = async () => {
+    const bundles: BundleWithCourses[] = await db.bundle.findMany({
+        where: {
+            isPublished: true
+        },
+        ...bundleWithCourses,
+        orderBy: {
+            createdAt: "desc"
+        }
+    });
+
+    return bundles;
+};
+
+/**
+ * What a bundle costs the student, with the credit for the courses they already own
+ */
+export const getBundleQuote = async (bundle: BundleWithCourses, userId: string) => {
+    const ownedCourseIds = await getOwnedCourseIds(userId, bundle.courses.map(item => item.courseId));
+    return quoteBundle(bundle, ownedCourseIds).quote;
+};
+
+/**
+ * Checks a bundle sent by staff
+ * @throws BundleError if a field is missing or invalid
+ */
+export const parseBundleInput = async (body: Record<string, unknown>): Promise<BundleInput> => {
+    const { title, description, imageUrl, price, isPublished, courseIds } = body;
+
+    if (typeof title !== "string" || !title.trim()) {
+        throw new BundleError(400, "اسم الباقة مطلوب");
+    }
+
+    if (typeof price !== "number" || !Number.isFinite(price) || price < 0) {
+        throw new BundleError(400, "سعر الباقة يجب أن يكون رقماً موجباً");
+    }
+
+    if (!Array.isArray(courseIds) || courseIds.some(id => typeof id !== "string")) {
+        throw new BundleError(400, "يرجى اختيار كورسات الباقة");
+    }
+
+    const uniqueCourseIds = [...new Set(courseIds as string[])];
+    if (uniqueCourseIds.length < 2) {
+        throw new BundleError(400, "يجب أن تحتوي الباقة على كورسين على الأقل");
+    }
+
+    const existing = await db.course.count({
+        where: {
+            id: {
+                in: uniqueCourseIds
+            }
+        }
+    });
+
+    if (existing !== uniqueCourseIds.length) {
+        throw new BundleError(400, "بعض الكورسات المختارة غير موجودة");
+    }
+
+    return {
+        title: title.trim(),
+        description: typeof description === "string" && description.trim() ? description.trim() : null,
+        imageUrl: typeof imageUrl === "string" && imageUrl ? imageUrl : null,
+        price,
+        isPublished: isPublished === true,
+        courseIds: uniqueCourseIds,
+    };
+};
+
+export const createBundle = async (input: BundleInput, createdById: string) => {
+    const { courseIds, ...data } = input;
+
+    return db.bundle.create({
+        data: {
+            ...data,
+            createdById,
+            courses: {
+                create: courseIds.map(courseId => ({ courseId }))
+            }
+        }
+    });
+};
+
+/**
+ * Updates a bundle and replaces its courses. Earlier purchases of the bundle keep the courses they gave access to.
+ */
+export const updateBundle = async (bundleId: string, input: BundleInput) => {
+    const { courseIds, ...data } = input;
+
+    return db.bundle.update({
+        where: {
+            id: bundleId
+        },
+        data: {
+            ...data,
+            courses: {
+                deleteMany: {},
+                create: courseIds.map(courseId => ({ courseId }))
+            }
+        }
+    });
+};
+
+interface BundlePurchaseRequest {
+    userId: string;
+    bundleId: string;
+    /** Client generated key, a retried request with the same key returns the original result */
+    idempotencyKey?: string | null;
+}
+
+/**
+ * Buys a bundle with the user's balance and gives access to each of its courses the user doesn't own yet.
+ * Expired purchases of its courses are renewed, other courses get a new purchase that records its share of the price,
+ * so it can be refunded on its own. Everything is committed together with the balance debit.
+ * @throws PurchaseError with the status and message to respond with when the purchase is not possible
+ * @returns The purchase result, or the original result when the idempotency key was already used
+ */
+export const purchaseBundle = async ({ userId, bundleId, idempotencyKey }: BundlePurchaseRequest) => {
+    const scope = `bundle-purchase:${bundleId}`;
+
+    if (idempotencyKey) {
+        const previous = await findPreviousPurchase<BundlePurchaseResult>(userId, idempotencyKey, scope);
+        if (previous) {
+            return { result: previous, replayed: true };
+        }
+    }
+
+    const bundle = await getPublishedBundle(bundleId);
+
+    if (!bundle || bundle.courses.length === 0) {
+        throw new PurchaseError(404, "Bundle not found or not available for purchase");
+    }
+
+    if (bundle.courses.some(item => !item.course.isPublished)) {
+        throw new PurchaseError(400, "This bundle includes a course that is not available");
+    }
+
+    const courseIds = bundle.courses.map(item => item.courseId);
+    const ownedCourseIds = await getOwnedCourseIds(userId, courseIds);
+    const { quote, charges } = quoteBundle(bundle, ownedCourseIds);
+
+    if (charges.size === 0) {
+        throw new PurchaseError(400, "You already own every course in this bundle");
+    }
+
+    // Purchases that are still active but expired are renewed rather than replaced
+    const expiredPurchases: Purchase[] = await db.purchase.findMany({
+        where: {
+            userId,
+            courseId: {
+                in: [...charges.keys()]
+            },
+            status: "ACTIVE"
+        }
+    });
+    const expiredByCourse = new Map(expiredPurchases.map(purchase => [purchase.courseId, purchase]));
+
+    const now = new Date();
+    const expiries = new Map<string, Date | null>();
+    for (const { course } of bundle.courses) {
+        if (!charges.has(course.id)) {
+            continue;
+        }
+
+        const expiresAt = getAccessExpiry(course, expiredByCourse.get(course.id)?.expiresAt ?? null, now);
+        if (expiresAt && expiresAt <= now) {
+            throw new PurchaseError(400, `The access period of ${course.title} has ended`);
+        }
+        expiries.set(course.id, expiresAt);
+    }
+
+    const finalPrice = toPiastres(quote.finalPrice);
+
+    try {
+        const result = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+            const bundlePurchase = await tx.bundlePurchase.create({
+                data: {
+                    userId,
+                    bundleId,
+                    amountPaid: finalPrice,
+                    creditedAmount: toPiastres(quote.credit),
+                },
+            });
+
+            for (const [courseId, amount] of charges) {
+                const expiresAt = expiries.get(courseId) ?? null;
+                const expired = expiredByCourse.get(courseId);
+
+                if (expired) {
+                    // Only extends the expiry it was computed from, so a parallel renewal is not charged twice
+                    const { count } = await tx.purchase.updateMany({
+                        where: {
+                            id: expired.id,
+                            status: "ACTIVE",
+                            expiresAt: expired.expiresAt,
+                        },
+                        data: {
+                            expiresAt,
+                            bundlePurchaseId: bundlePurchase.id,
+                            amountPaid: {
+                                increment: amount,
+                            },
+                        },
+                    });
+
+                    if (count === 0) {
+                        throw new PurchaseError(409, "Your courses changed while buying the bundle, please try again");
+                    }
+                    continue;
+                }
+
+                // Failed, refunded or revoked purchases are replaced, refunds stay in the ledger
+                await tx.purchase.deleteMany({
+                    where: {
+                        userId,
+                        courseId,
+                        status: {
+                            not: "ACTIVE",
+                        },
+                    },
+                });
+
+                // The unique user and course pair makes a parallel purchase of the same course fail here
+                await tx.purchase.create({
+                    data: {
+                        userId,
+                        courseId,
+                        status: "ACTIVE",
+                        amountPaid: amount,
+                        expiresAt,
+                        bundlePurchaseId: bundlePurchase.id,
+                    },
+                });
+            }
+
+            let newBalance: number;
+            if (finalPrice > 0) {
+                const posted = await postLedgerTransaction({
+                    userId,
+                    type: "PURCHASE",
+                    amount: -finalPrice,
+                    description: quote.credit > 0
+                        ? `تم شراء الباقة: ${bundle.title} (خصم ${quote.credit} جنيه للكورسات المشتراة مسبقاً)`
+                        : `تم شراء الباقة: ${bundle.title}`,
+                    reference: `bundle-purchase:${bundlePurchase.id}`,
+                    details: {
+                        items: [{ title: `باقة: ${bundle.title}`, price: quote.price }],
+                        discount: quote.credit > 0
+                            ? { label: "خصم الكورسات المشتراة مسبقاً", amount: quote.credit }
+                            : null,
+                    },
+                }, tx);
+                newBalance = posted.balance;
+            } else {
+                const user = await tx.user.findUniqueOrThrow({
+                    where: {
+                        id: userId,
+                    },
+                    select: {
+                        balance: true,
+                    },
+                });
+                newBalance = user.balance;
+            }
+
+            const purchaseResult: BundlePurchaseResult = {
+                success: true,
+                bundlePurchaseId: bundlePurchase.id,
+                newBalance: fromPiastres(newBalance),
+                price: quote.price.toFixed(2),
+                credit: quote.credit.toFixed(2),
+                finalPrice: quote.finalPrice.toFixed(2),
+                courseIds: [...charges.keys()],
+            };
+
+            if (idempotencyKey) {
+                await saveIdempotentRequest(tx, { userId, key: idempotencyKey, scope, response: purchaseResult });
+            }
+
+            return purchaseResult;
+        });
+
+        return { result, replayed: false };
+    } catch (error) {
+        if (isUniqueConstraintError(error)) {
+            // A parallel request with the same key may have won, in which case its result is returned
+            if (idempotencyKey) {
+                const previous = await findPreviousPurchase<BundlePurchaseResult>(userId, idempotencyKey, scope);
+                if (previous) {
+                    return { result: previous, replayed: true };
+                }
+            }
+            throw new PurchaseError(409, "Your courses changed while buying the bundle, please try again");
+        }
+
+        if (error instanceof LedgerError && error.code === "INSUFFICIENT_BALANCE") {
+            throw new PurchaseError(400, "Insufficient balance");
+        }
+
+        throw error;
+    }
+};
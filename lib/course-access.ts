@@ -0,0 +1,72 @@
+import type { Prisma } from "@prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface AccessWindow {
+    accessEndsAt: Date | null;
+    accessDays: number | null;
+}
+
+/**
+ * Filter for purchases that give access to their course right now: active and not expired
+ */
+export const activePurchaseWhere = (): Prisma.PurchaseWhereInput => ({
+    status: "ACTIVE",
+    OR: [
+        { expiresAt: null },
+        { expiresAt: { gt: new Date() } }
+    ]
+});
+
+export const isPurchaseExpired = (purchase: { expiresAt: Date | string | null }, now = new Date()) => {
+    return purchase.expiresAt !== null && new Date(purchase.expiresAt) <= now;
+};
+
+export const isPurchaseActive = (purchase: { status: string; expiresAt: Date | string | null }, now = new Date()) => {
+    return purchase.status === "ACTIVE" && !isPurchaseExpired(purchase, now);
+};
+
+/**
+ * Whole days of access left, counting a started day as a day
+ * @returns null for lifetime access
+ */
+export const getDaysLeft = (expiresAt: Date | string | null, now = new Date()) => {
+    if (expiresAt === null) {
+        return null;
+    }
+    return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS));
+};
+
+export const hasAccessWindow = (course: AccessWindow) => course.accessEndsAt !== null || course.accessDays !== null;
+
+/**
+ * End of the access a purchase made now gives, extending the current access when it is a renewal
+ * @param currentExpiry Expiry of the purchase being renewed, if any
+ * @returns The new expiry, or null for lifetime access
+ */
+export const getAccessExpiry = (course: AccessWindow, currentExpiry: Date | null = null, now = new Date()) => {
+    if (course.accessDays !== null) {
+        // Renewing early adds the days to what is left
+        const start = currentExpiry && currentExpiry > now ? currentExpiry : now;
+        return new Date(start.getTime() + course.accessDays * DAY_MS);
+    }
+    return course.accessEndsAt;
+};
+
+/**
+ * Describes a course's access window to students
+ * @returns null for lifetime access
+ */
+export const formatAccessWindow = (course: { accessEndsAt: Date | string | null; accessDays: number | null }) => {
+    if (course.accessDays) {
+        return `اشتراك لمدة ${course.accessDays} يوم`;
+    }
+    if (course.accessEndsAt) {
+        return `الاشتراك متاح حتى ${new Date(course.accessEndsAt).toLocaleDateString("ar-EG", {
+            year: "numeric",
+            month: "long",
+            day: "numeric",
+        })}`;
+    }
+    return null;
+};
@@ -2,7 +2,9 @@ import { PrismaClient as PrismaClientNode } from "@prisma/client";
 import { PrismaClient as PrismaClientEdge } from "@prisma/client/edge";
 import { withAccelerate } from "@prisma/extension-accelerate";
 
-type PrismaClientInstance = ReturnType<typeof createPrismaClient>;
+// Accelerate's extended edge client has the same query API as the node client, but methods can't be called
+// on a union of the two, so the client is typed once here as the node client
+type PrismaClientInstance = PrismaClientNode;
 
 const globalForPrisma = globalThis as unknown as {
     prisma: PrismaClientInstance | undefined;
@@ -10,7 +12,7 @@ const globalForPrisma = globalThis as unknown as {
 
 const isEdgeRuntime = typeof (globalThis as { EdgeRuntime?: string }).EdgeRuntime !== "undefined";
 
-function createPrismaClient() {
+function createPrismaClient(): PrismaClientInstance {
     const accelerateUrl = process.env.PRISMA_ACCELERATE_URL;
     const directDatabaseUrl = process.env.DIRECT_DATABASE_URL;
     const databaseUrl = process.env.DATABASE_URL;
@@ -18,7 +20,7 @@ function createPrismaClient() {
     if (accelerateUrl) {
         return new PrismaClientEdge({
             datasourceUrl: accelerateUrl,
-        }).$extends(withAccelerate());
+        }).$extends(withAccelerate()) as unknown as PrismaClientInstance;
     }
 
     if (isEdgeRuntime) {
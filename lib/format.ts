@@ -3,4 +3,18 @@ export const formatPrice = (price: number) => {
         style: "currency",
         currency: "EGP",
     }).format(price);
-}
\ No newline at end of file
+}
+
+/**
+ * Formats a number of seconds as a video time, e.g. 12:34 or 1:02:03
+ */
+export const formatDuration = (seconds: number) => {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = String(total % 60).padStart(2, "0");
+
+    return hours > 0
+        ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+        : `${minutes}:${rest}`;
+}
@@ -0,0 +1,56 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Reads the Idempotency-Key header of a request
+ * @returns The key, or null if the header is missing, empty or too long
+ */
+export const getIdempotencyKey = (req: Request) => {
+    const key = req.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+
+    return key && key.length <= MAX_KEY_LENGTH ? key : null;
+};
+
+/**
+ * Checks for a Prisma unique constraint violation, which is how concurrent duplicates of a request fail
+ */
+export const isUniqueConstraintError = (error: unknown) => {
+    return (error as { code?: string } | null)?.code === "P2002";
+};
+
+/**
+ * Looks up the stored result of a request made earlier with the same key
+ * @returns The stored request, or null if the key has not been used yet
+ */
+export const findIdempotentRequest = async (userId: string, key: string) => {
+    return db.idempotentRequest.findUnique({
+        where: {
+            userId_key: {
+                userId,
+                key
+            }
+        }
+    });
+};
+
+/**
+ * Stores the result of a request under its key. Call it inside the transaction that does the work,
+ * so the result is stored exactly when the work is committed.
+ */
+export const saveIdempotentRequest = async (
+    tx: Prisma.TransactionClient,
+    { userId, key, scope, response }: { userId: string; key: string; scope: string; response: unknown }
+) => {
+    return tx.idempotentRequest.create({
+        data: {
+            userId,
+            key,
+            scope,
+            response: JSON.stringify(response)
+        }
+    });
+};
@@ -0,0 +1,283 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export const LEDGER_TRANSACTION_TYPES = ["DEPOSIT", "PURCHASE", "REFUND", "ADJUSTMENT"] as const;
+
+export type LedgerTransactionType = typeof LEDGER_TRANSACTION_TYPES[number];
+
+export const USER_WALLET_ACCOUNT = "USER_WALLET";
+
+// System account on the other side of each type of transaction
+export const SYSTEM_ACCOUNTS: Record<LedgerTransactionType, string> = {
+    DEPOSIT: "PAYMENTS",
+    PURCHASE: "SALES",
+    REFUND: "SALES",
+    ADJUSTMENT: "ADJUSTMENTS"
+};
+
+export type LedgerErrorCode = "INVALID_POSTING" | "USER_NOT_FOUND" | "INSUFFICIENT_BALANCE" | "BALANCE_CHANGED";
+
+export class LedgerError extends Error {
+    constructor(public code: LedgerErrorCode, message: string) {
+        super(message);
+        this.name = "LedgerError";
+    }
+}
+
+export const toPiastres = (amount: number) => Math.round(amount * 100);
+
+export const fromPiastres = (piastres: number) => piastres / 100;
+
+/**
+ * What a purchase was for, kept with its transaction for the receipt. Amounts in EGP.
+ * A type rather than an interface so it can be stored as JSON.
+ */
+export type ReceiptDetails = {
+    items: { title: string; price: number }[];
+    discount?: { label: string; amount: number } | null;
+};
+
+export interface LedgerPosting {
+    userId: string;
+    type: LedgerTransactionType;
+    /** Change of the user's balance in piastres: positive credits the wallet, negative debits it */
+    amount: number;
+    description: string;
+    /** Required for adjustments */
+    reason?: string | null;
+    /** Staff member making the change, required for adjustments */
+    actorId?: string | null;
+    /** Id of the event behind the posting, e.g. "payment:<id>", so it is never posted twice */
+    reference?: string | null;
+    /** Only post if the balance still has this value, for changes computed from a balance read earlier */
+    expectedBalance?: number;
+    /** Shown on the receipt of purchases */
+    details?: ReceiptDetails | null;
+}
+
+const validatePosting = ({ type, amount, reason, actorId }: LedgerPosting) => {
+    if (!Number.isInteger(amount) || amount === 0) {
+        throw new LedgerError("INVALID_POSTING", "Ledger amounts must be a non-zero number of piastres");
+    }
+
+    if (type === "PURCHASE" ? amount > 0 : type !== "ADJUSTMENT" && amount < 0) {
+        throw new LedgerError("INVALID_POSTING", `A ${type} cannot ${amount > 0 ? "credit" : "debit"} the balance`);
+    }
+
+    if (type === "ADJUSTMENT" && (!reason?.trim() || !actorId)) {
+        throw new LedgerError("INVALID_POSTING", "Adjustments need a reason and the staff member making them");
+    }
+};
+
+const post = async (tx: Prisma.TransactionClient, posting: LedgerPosting) => {
+    const { userId, type, amount, expectedBalance } = posting;
+
+    // The balance check and the update are a single statement, so concurrent postings can't overdraw the wallet
+    const { count } = await tx.user.updateMany({
+        where: {
+            id: userId,
+            ...(expectedBalance !== undefined
+                ? { balance: expectedBalance }
+                : amount < 0 && { balance: { gte: -amount } })
+        },
+        data: {
+            balance: {
+                increment: amount
+            }
+        }
+    });
+
+    if (count === 0) {
+        const user = await tx.user.findUnique({
+            where: {
+                id: userId
+            },
+            select: {
+                id: true
+            }
+        });
+
+        if (!user) {
+            throw new LedgerError("USER_NOT_FOUND", "User not found");
+        }
+        if (expectedBalance !== undefined) {
+            throw new LedgerError("BALANCE_CHANGED", "The balance changed since it was read");
+        }
+        throw new LedgerError("INSUFFICIENT_BALANCE", "Insufficient balance");
+    }
+
+    const transaction = await tx.ledgerTransaction.create({
+        data: {
+            type,
+            description: posting.description,
+            reason: posting.reason?.trim() || null,
+            actorId: posting.actorId ?? null,
+            reference: posting.reference ?? null,
+            details: posting.details ?? undefined,
+            entries: {
+                create: [
+                    { account: USER_WALLET_ACCOUNT, userId, amount },
+                    { account: SYSTEM_ACCOUNTS[type], amount: -amount }
+                ]
+            }
+        }
+    });
+
+    const user = await tx.user.findUniqueOrThrow({
+        where: {
+            id: userId
+        },
+        select: {
+            balance: true
+        }
+    });
+
+    return { transaction, balance: user.balance };
+};
+
+type LedgerPostResult = Awaited<ReturnType<typeof post>>;
+
+/**
+ * Records a balance change in the ledger and updates the user's cached balance with it.
+ * This is the only place balances may change. Pass the transaction client to post as part of a larger transaction.
+ * @throws LedgerError if the posting is invalid, the user does not exist, the balance would go negative
+ * or the balance is no longer the expected one
+ * @returns The ledger transaction and the new balance in piastres
+ */
+export const postLedgerTransaction = async (posting: LedgerPosting, tx?: Prisma.TransactionClient): Promise<LedgerPostResult> => {
+    validatePosting(posting);
+
+    if (tx) {
+        return post(tx, posting);
+    }
+
+    return db.$transaction((client) => post(client, posting));
+};
+
+/**
+ * Sets a user's balance to a given value through a manual adjustment of the difference
+ * @returns The adjustment and the new balance, or null if the balance already has that value
+ */
+export const adjustBalanceTo = async ({ userId, balance, reason, actorId }: { userId: string; balance: number; reason: string; actorId: string }) => {
+    const user = await db.user.findUnique({
+        where: {
+            id: userId
+        },
+        select: {
+            balance: true
+        }
+    });
+
+    if (!user) {
+        throw new LedgerError("USER_NOT_FOUND", "User not found");
+    }
+
+    if (user.balance === balance) {
+        return null;
+    }
+
+    const difference = balance - user.balance;
+
+    return postLedgerTransaction({
+        userId,
+        type: "ADJUSTMENT",
+        amount: difference,
+        description: difference > 0
+            ? `تعديل الرصيد: إضافة ${fromPiastres(difference)} جنيه`
+            : `تعديل الرصيد: خصم ${fromPiastres(-difference)} جنيه`,
+        reason,
+        actorId,
+        expectedBalance: user.balance
+    });
+};
+
+/**
+ * A user's wallet entries, newest first, with the transaction each belongs to
+ */
+export const getLedgerHistory = async (userId: string) => {
+    const entries: Prisma.LedgerEntryGetPayload<{ include: { transaction: true } }>[] = await db.ledgerEntry.findMany({
+        where: {
+            userId,
+            account: USER_WALLET_ACCOUNT
+        },
+        include: {
+            transaction: true
+        },
+        orderBy: {
+            createdAt: "desc"
+        }
+    });
+
+    return entries;
+};
+
+export interface BalanceMismatch {
+    userId: string;
+    fullName: string;
+    phoneNumber: string;
+    cachedBalance: number;
+    ledgerBalance: number;
+    difference: number;
+}
+
+/**
+ * Compares every user's cached balance with the sum of their wallet entries, and checks that the entries
+ * of every ledger transaction sum to zero
+ * @returns The users whose balances disagree and the ids of unbalanced transactions
+ */
+export const reconcileBalances = async () => {
+    const ledgerBalances = await db.ledgerEntry.groupBy({
+        by: ["userId"],
+        where: {
+            account: USER_WALLET_ACCOUNT
+        },
+        _sum: {
+            amount: true
+        }
+    });
+
+    const ledgerBalanceByUser = new Map(ledgerBalances.map(row => [row.userId, row._sum.amount ?? 0]));
+
+    const users: { id: string; fullName: string; phoneNumber: string; balance: number }[] = await db.user.findMany({
+        select: {
+            id: true,
+            fullName: true,
+            phoneNumber: true,
+            balance: true
+        }
+    });
+
+    const mismatches: BalanceMismatch[] = users
+        .map(user => {
+            const ledgerBalance = ledgerBalanceByUser.get(user.id) ?? 0;
+            return {
+                userId: user.id,
+                fullName: user.fullName,
+                phoneNumber: user.phoneNumber,
+                cachedBalance: user.balance,
+                ledgerBalance,
+                difference: user.balance - ledgerBalance
+            };
+        })
+        .filter(row => row.difference !== 0);
+
+    const unbalanced = await db.ledgerEntry.groupBy({
+        by: ["transactionId"],
+        _sum: {
+            amount: true
+        },
+        having: {
+            amount: {
+                _sum: {
+                    not: 0
+                }
+            }
+        }
+    });
+
+    return {
+        checkedUsers: users.length,
+        mismatches,
+        unbalancedTransactionIds: unbalanced.map(row => row.transactionId)
+    };
+};
@@ -0,0 +1,308 @@
+/**
+ * Small math expression parser used to grade MATH_EXPRESSION questions.
+ * Supports + - * / ^, parentheses, implicit multiplication (2x, 3(x+1), xy),
+ * single-letter variables, the constants pi and e and common functions.
+ */
+
+type Evaluator = (variables: Record<string, number>) => number;
+
+export interface ParsedMathExpression {
+    evaluate: Evaluator;
+    variables: string[];
+}
+
+type Token =
+    | { kind: "number"; value: number }
+    | { kind: "name"; value: string }
+    | { kind: "operator"; value: string }
+    | { kind: "paren"; value: "(" | ")" };
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+    sqrt: Math.sqrt,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    asin: Math.asin,
+    acos: Math.acos,
+    atan: Math.atan,
+    ln: Math.log,
+    log: Math.log10,
+    exp: Math.exp,
+    abs: Math.abs
+};
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E
+};
+
+// Longest names first so "asin" is not read as "a" * "sin"
+const KNOWN_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length);
+
+const ARABIC_DIGITS = "٠١٢٣٤٥٦٧٨٩";
+
+/**
+ * Normalizes what students typically type on Arabic keyboards and phones:
+ * Arabic-Indic digits, the Arabic decimal separator and typographic operators
+ */
+export const normalizeMathInput = (input: string): string => {
+    return input
+        .replace(/[٠-٩]/g, digit => String(ARABIC_DIGITS.indexOf(digit)))
+        .replace(/٫/g, ".")
+        .replace(/[×·]/g, "*")
+        .replace(/÷/g, "/")
+        .replace(/[−–]/g, "-")
+        .replace(/\*\*/g, "^")
+        .replace(/π/g, "pi")
+        .replace(/√/g, "sqrt")
+        .toLowerCase();
+};
+
+const tokenize = (input: string): Token[] | null => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        const char = input[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (/[0-9.]/.test(char)) {
+            const match = input.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+            if (!match) return null;
+            tokens.push({ kind: "number", value: parseFloat(match[0]) });
+            i += match[0].length;
+        } else if (/[a-z]/.test(char)) {
+            const name = KNOWN_NAMES.find(known => input.startsWith(known, i));
+            // Unknown letter runs are products of single-letter variables
+            const value = name ?? char;
+            tokens.push({ kind: "name", value });
+            i += value.length;
+        } else if ("+-*/^".includes(char)) {
+            tokens.push({ kind: "operator", value: char });
+            i++;
+        } else if (char === "(" || char === ")") {
+            tokens.push({ kind: "paren", value: char });
+            i++;
+        } else {
+            return null;
+        }
+    }
+
+    return tokens;
+};
+
+/**
+ * Recursive descent parser that compiles the tokens into an evaluator
+ *   expression := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/")? unary)*
+ *   unary      := ("+" | "-") unary | power
+ *   power      := primary ("^" unary)?
+ */
+class Parser {
+    private position = 0;
+    readonly variables = new Set<string>();
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): Evaluator {
+        const evaluator = this.parseExpression();
+        if (this.position < this.tokens.length) {
+            throw new Error("Unexpected token");
+        }
+        return evaluator;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private isOperator(value: string): boolean {
+        const token = this.peek();
+        return token?.kind === "operator" && token.value === value;
+    }
+
+    private startsOperand(): boolean {
+        const token = this.peek();
+        return token !== undefined && (token.kind === "number" || token.kind === "name" || (token.kind === "paren" && token.value === "("));
+    }
+
+    private parseExpression(): Evaluator {
+        let left = this.parseTerm();
+
+        while (this.isOperator("+") || this.isOperator("-")) {
+            const operator = this.tokens[this.position++].value;
+            const lhs = left;
+            const rhs = this.parseTerm();
+            left = operator === "+" ? vars => lhs(vars) + rhs(vars) : vars => lhs(vars) - rhs(vars);
+        }
+
+        return left;
+    }
+
+    private parseTerm(): Evaluator {
+        let left = this.parseUnary();
+
+        while (this.isOperator("*") || this.isOperator("/") || this.startsOperand()) {
+            const operator = this.startsOperand() ? "*" : this.tokens[this.position++].value;
+            const lhs = left;
+            const rhs = this.parseUnary();
+            left = operator === "*" ? vars => lhs(vars) * rhs(vars) : vars => lhs(vars) / rhs(vars);
+        }
+
+        return left;
+    }
+
+    private parseUnary(): Evaluator {
+        if (this.isOperator("-")) {
+            this.position++;
+            const operand = this.parseUnary();
+            return vars => -operand(vars);
+        }
+
+        if (this.isOperator("+")) {
+            this.position++;
+            return this.parseUnary();
+        }
+
+        return this.parsePower();
+    }
+
+    private parsePower(): Evaluator {
+        const base = this.parsePrimary();
+
+        if (this.isOperator("^")) {
+            this.position++;
+            const exponent = this.parseUnary();
+            return vars => Math.pow(base(vars), exponent(vars));
+        }
+
+        return base;
+    }
+
+    private parsePrimary(): Evaluator {
+        const token = this.tokens[this.position++];
+
+        if (!token) {
+            throw new Error("Unexpected end of expression");
+        }
+
+        if (token.kind === "number") {
+            const value = token.value;
+            return () => value;
+        }
+
+        if (token.kind === "paren" && token.value === "(") {
+            const inner = this.parseExpression();
+            this.expectClosingParen();
+            return inner;
+        }
+
+        if (token.kind === "name") {
+            const fn = FUNCTIONS[token.value];
+            if (fn) {
+                // Allow "sin x" as well as "sin(x)"
+                const argument = this.peek()?.kind === "paren" ? this.parsePrimary() : this.parsePower();
+                return vars => fn(argument(vars));
+            }
+
+            if (token.value in CONSTANTS) {
+                const value = CONSTANTS[token.value];
+                return () => value;
+            }
+
+            const name = token.value;
+            this.variables.add(name);
+            return vars => vars[name];
+        }
+
+        throw new Error("Unexpected token");
+    }
+
+    private expectClosingParen() {
+        const token = this.tokens[this.position++];
+        if (!token || token.kind !== "paren" || token.value !== ")") {
+            throw new Error("Missing closing parenthesis");
+        }
+    }
+}
+
+/**
+ * Parses a math expression
+ * @returns The compiled expression, or null if the input is not a valid expression
+ */
+export const parseMathExpression = (input: string): ParsedMathExpression | null => {
+    const tokens = tokenize(normalizeMathInput(input));
+    if (!tokens || tokens.length === 0) return null;
+
+    try {
+        const parser = new Parser(tokens);
+        const evaluate = parser.parse();
+        return { evaluate, variables: Array.from(parser.variables) };
+    } catch {
+        return null;
+    }
+};
+
+const SAMPLE_POINTS = 12;
+const MAX_SAMPLE_TRIES = 60;
+const RELATIVE_EPSILON = 1e-6;
+
+const valuesMatch = (a: number, b: number) => {
+    return Math.abs(a - b) <= RELATIVE_EPSILON * Math.max(1, Math.abs(a), Math.abs(b));
+};
+
+/**
+ * Deterministic pseudo-random generator so regrading the same answer always gives the same result
+ */
+const createSampler = (seed: number) => {
+    let state = seed;
+    return () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+};
+
+/**
+ * Checks whether two expressions are mathematically equivalent by evaluating both at sampled points.
+ * Points where either side is undefined (e.g. division by zero, sqrt of a negative) are skipped.
+ */
+export const areExpressionsEquivalent = (expected: string, actual: string): boolean => {
+    const expectedExpression = parseMathExpression(expected);
+    const actualExpression = parseMathExpression(actual);
+
+    if (!expectedExpression || !actualExpression) {
+        return false;
+    }
+
+    const variables = Array.from(new Set([...expectedExpression.variables, ...actualExpression.variables]));
+    const random = createSampler(variables.length + 1);
+    let matchedPoints = 0;
+
+    for (let attempt = 0; attempt < MAX_SAMPLE_TRIES && matchedPoints < SAMPLE_POINTS; attempt++) {
+        const point: Record<string, number> = {};
+        for (const variable of variables) {
+            point[variable] = random() * 10 - 5;
+        }
+
+        const expectedValue = expectedExpression.evaluate(point);
+        const actualValue = actualExpression.evaluate(point);
+
+        if (!Number.isFinite(expectedValue) || !Number.isFinite(actualValue)) {
+            continue;
+        }
+
+        if (!valuesMatch(expectedValue, actualValue)) {
+            return false;
+        }
+
+        matchedPoints++;
+
+        // Constant expressions only need a single evaluation
+        if (variables.length === 0) {
+            break;
+        }
+    }
+
+    return matchedPoints > 0;
+};
@@ -0,0 +1,141 @@
+import katex from "katex";
+
+/**
+ * LaTeX is stored inline in plain text and HTML content using the usual delimiters:
+ * $...$ or \(...\) for inline math and $$...$$ or \[...\] for display math.
+ * Keeping it as text means it survives the JSON round-trip of quiz options untouched.
+ */
+
+export type MathSegment =
+    | { kind: "text"; value: string }
+    | { kind: "math"; value: string; display: boolean };
+
+const DELIMITERS = [
+    { open: "$$", close: "$$", display: true },
+    { open: "\\[", close: "\\]", display: true },
+    { open: "\\(", close: "\\)", display: false },
+    { open: "$", close: "$", display: false }
+];
+
+/**
+ * Finds the closing delimiter of a math span
+ * @returns The index of the closing delimiter, or -1 if the span is not closed
+ */
+const findClosing = (text: string, close: string, from: number): number => {
+    let index = text.indexOf(close, from);
+    // Skip escaped dollars inside the formula, e.g. $\$5$
+    while (index > 0 && close === "$" && text[index - 1] === "\\") {
+        index = text.indexOf(close, index + 1);
+    }
+    return index;
+};
+
+/**
+ * Splits text into plain text and math segments.
+ * A single $ only opens inline math when followed by a non-space character and closes before
+ * a non-digit, so amounts like "$5 and $10" stay plain text. \$ is a literal dollar sign.
+ */
+export const splitMathSegments = (text: string): MathSegment[] => {
+    const segments: MathSegment[] = [];
+    let buffer = "";
+    let i = 0;
+
+    while (i < text.length) {
+        if (text.startsWith("\\$", i)) {
+            buffer += "$";
+            i += 2;
+            continue;
+        }
+
+        const delimiter = DELIMITERS.find(candidate => text.startsWith(candidate.open, i));
+        if (delimiter) {
+            const start = i + delimiter.open.length;
+            const end = findClosing(text, delimiter.close, start);
+            const value = end === -1 ? "" : text.slice(start, end);
+            const isInlineDollar = delimiter.open === "$";
+            const isValid = value.trim() !== "" && (!isInlineDollar || (
+                !/^\s/.test(value) &&
+                !/\s$/.test(value) &&
+                !/\d/.test(text[end + 1] || "")
+            ));
+
+            if (isValid) {
+                if (buffer) {
+                    segments.push({ kind: "text", value: buffer });
+                    buffer = "";
+                }
+                segments.push({ kind: "math", value, display: delimiter.display });
+                i = end + delimiter.close.length;
+                continue;
+            }
+        }
+
+        buffer += text[i];
+        i++;
+    }
+
+    if (buffer) {
+        segments.push({ kind: "text", value: buffer });
+    }
+
+    return segments;
+};
+
+export const containsMath = (text: string | null | undefined): boolean => {
+    return !!text && splitMathSegments(text).some(segment => segment.kind === "math");
+};
+
+const escapeHtml = (value: string) => {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+};
+
+const decodeHtmlEntities = (value: string) => {
+    return value
+        .replace(/&nbsp;/g, " ")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, "&");
+};
+
+/**
+ * Renders a LaTeX formula, invalid formulas are shown as their source in red instead of throwing
+ */
+export const renderLatex = (latex: string, display: boolean): string => {
+    return katex.renderToString(latex, {
+        displayMode: display,
+        throwOnError: false,
+        output: "html"
+    });
+};
+
+/**
+ * Renders plain text with embedded LaTeX into HTML, escaping everything else
+ */
+export const renderMathInText = (text: string): string => {
+    return splitMathSegments(text)
+        .map(segment => segment.kind === "math" ? renderLatex(segment.value, segment.display) : escapeHtml(segment.value))
+        .join("");
+};
+
+/**
+ * Renders LaTeX embedded in the text of rich text HTML (e.g. TipTap chapter descriptions).
+ * Formulas must not span several HTML elements.
+ */
+export const renderMathInHtml = (html: string): string => {
+    return html
+        .split(/(<[^>]*>)/)
+        .map(part => {
+            if (part.startsWith("<") || !containsMath(decodeHtmlEntities(part))) {
+                return part;
+            }
+            return renderMathInText(decodeHtmlEntities(part));
+        })
+        .join("");
+};
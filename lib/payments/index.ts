@@ -0,0 +1,113 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { fromPiastres, postLedgerTransaction } from "@/lib/ledger";
+import { mockProvider } from "./mock-provider";
+import { PAYMENT_METHODS, PaymentMethod, PaymentProvider, PaymentWebhookEvent } from "./types";
+
+export * from "./types";
+
+export const MIN_TOP_UP_AMOUNT = 10;
+export const MAX_TOP_UP_AMOUNT = 10000;
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    CARD: "بطاقة بنكية",
+    WALLET: "محفظة إلكترونية"
+};
+
+const isProduction = process.env.NODE_ENV === "production";
+
+// Providers are registered by the name stored on their payments and used in their webhook URL.
+// The mock provider is never registered in production, so neither its webhook nor PAYMENT_PROVIDER=mock can credit balances
+const PAYMENT_PROVIDERS: Record<string, PaymentProvider> = {
+    ...(!isProduction && { [mockProvider.name]: mockProvider })
+};
+
+/**
+ * Looks up a payment provider by name, or the one new top-ups go through (PAYMENT_PROVIDER).
+ * The mock provider is the default and can be used outside production only.
+ * @returns The provider, or null if online payments are not configured
+ */
+export const getPaymentProvider = (name?: string) => {
+    if (!name && isProduction && process.env.PAYMENT_PROVIDER === mockProvider.name) {
+        console.error("[PAYMENT_PROVIDER] The mock provider can't be used in production");
+        return null;
+    }
+
+    const providerName = name ?? process.env.PAYMENT_PROVIDER ?? (isProduction ? null : mockProvider.name);
+
+    return providerName ? PAYMENT_PROVIDERS[providerName] ?? null : null;
+};
+
+export const isPaymentMethod = (value: unknown): value is PaymentMethod => {
+    return PAYMENT_METHODS.includes(value as PaymentMethod);
+};
+
+/**
+ * Applies a verified provider webhook to its payment. Only a pending payment can change status, and the
+ * status change and the balance credit are committed together, so repeated or concurrent deliveries of
+ * the same webhook credit the balance exactly once.
+ * @returns The payment and whether this call credited it, or null if no payment matches the webhook
+ */
+export const applyPaymentWebhook = async (providerName: string, event: PaymentWebhookEvent) => {
+    const payment = await db.payment.findUnique({
+        where: {
+            provider_providerReference: {
+                provider: providerName,
+                providerReference: event.reference
+            }
+        }
+    });
+
+    if (!payment) {
+        return null;
+    }
+
+    if (payment.status !== "PENDING") {
+        return { payment, credited: false };
+    }
+
+    const amountMatches = event.amountCents === payment.amount;
+    const status = event.status === "COMPLETED" && !amountMatches ? "FAILED" : event.status;
+
+    const credited = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.payment.updateMany({
+            where: {
+                id: payment.id,
+                status: "PENDING"
+            },
+            data: {
+                status,
+                providerTransactionId: event.transactionId,
+                failureReason: status === event.status ? null : `Paid amount ${event.amountCents} does not match ${payment.amount}`,
+                completedAt: status === "COMPLETED" ? new Date() : null
+            }
+        });
+
+        // Another delivery of the webhook already settled the payment
+        if (count === 0 || status !== "COMPLETED") {
+            return false;
+        }
+
+        await postLedgerTransaction({
+            userId: payment.userId,
+            type: "DEPOSIT",
+            amount: payment.amount,
+            description: `تم شحن ${fromPiastres(payment.amount)} جنيه عن طريق ${PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] ?? "الدفع الإلكتروني"}`,
+            reference: `payment:${payment.id}`
+        }, tx);
+
+        return true;
+    });
+
+    if (!amountMatches && event.status === "COMPLETED") {
+        console.log("[PAYMENT_AMOUNT_MISMATCH]", payment.id, event.amountCents);
+    }
+
+    const updatedPayment = await db.payment.findUnique({
+        where: {
+            id: payment.id
+        }
+    });
+
+    return { payment: updatedPayment ?? payment, credited };
+};
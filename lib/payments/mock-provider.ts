@@ -0,0 +1,87 @@
+import { randomUUID } from "node:crypto";
+import { signPayload, verifySignature } from "./signature";
+import { PaymentProvider, PaymentWebhookEvent } from "./types";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+export type MockPaymentOutcome = "PAID" | "FAILED" | "CANCELED";
+
+interface MockWebhookBody {
+    reference: string;
+    status: MockPaymentOutcome;
+    amount_cents: number;
+    transaction_id: string | null;
+}
+
+// Outside production the mock works without configuration, so the whole flow can be tried offline
+const getWebhookSecret = () => {
+    return process.env.PAYMENT_WEBHOOK_SECRET || (process.env.NODE_ENV === "production" ? "" : "mock-webhook-secret");
+};
+
+/**
+ * Builds the signed webhook the mock gateway sends when the student finishes the mock checkout page
+ */
+export const buildMockWebhook = (reference: string, outcome: MockPaymentOutcome, amountCents: number) => {
+    const body: MockWebhookBody = {
+        reference,
+        status: outcome,
+        amount_cents: amountCents,
+        transaction_id: outcome === "PAID" ? `mock_txn_${randomUUID()}` : null
+    };
+    const payload = JSON.stringify(body);
+
+    return {
+        payload,
+        headers: {
+            "Content-Type": "application/json",
+            [MOCK_SIGNATURE_HEADER]: signPayload(payload, getWebhookSecret())
+        }
+    };
+};
+
+/**
+ * Local stand-in for a card / mobile wallet gateway: the checkout is a page of this app where the student
+ * chooses the outcome, which is then reported through a signed webhook like a real gateway would
+ */
+export const mockProvider: PaymentProvider = {
+    name: "mock",
+    methods: ["CARD", "WALLET"],
+
+    createCheckout: async ({ paymentId, returnUrl }) => {
+        // The mock checkout page sends the student to the top-up status page of the same app when it is done
+        return {
+            reference: `mock_${paymentId}`,
+            checkoutUrl: new URL(`/dashboard/balance/mock-checkout/${paymentId}`, returnUrl).toString()
+        };
+    },
+
+    parseWebhook: (rawBody, headers) => {
+        if (!verifySignature(rawBody, headers.get(MOCK_SIGNATURE_HEADER), getWebhookSecret())) {
+            return null;
+        }
+
+        let body: MockWebhookBody;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return null;
+        }
+
+        const statuses: Record<MockPaymentOutcome, PaymentWebhookEvent["status"]> = {
+            PAID: "COMPLETED",
+            FAILED: "FAILED",
+            CANCELED: "CANCELED"
+        };
+
+        if (typeof body.reference !== "string" || !statuses[body.status] || !Number.isInteger(body.amount_cents)) {
+            return null;
+        }
+
+        return {
+            reference: body.reference,
+            status: statuses[body.status],
+            amountCents: body.amount_cents,
+            transactionId: body.transaction_id ?? null
+        };
+    }
+};
@@ -0,0 +1,23 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Signs a webhook body with HMAC-SHA256
+ * @returns The hex encoded signature
+ */
+export const signPayload = (payload: string, secret: string) => {
+    return createHmac("sha256", secret).update(payload, "utf8").digest("hex");
+};
+
+/**
+ * Checks a hex encoded HMAC-SHA256 signature in constant time
+ */
+export const verifySignature = (payload: string, signature: string | null, secret: string) => {
+    if (!signature || !secret) {
+        return false;
+    }
+
+    const expected = Buffer.from(signPayload(payload, secret), "hex");
+    const received = Buffer.from(signature.trim().toLowerCase(), "hex");
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+};
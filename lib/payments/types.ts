@@ -0,0 +1,45 @@
+export const PAYMENT_METHODS = ["CARD", "WALLET"] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export type PaymentStatus = "PENDING" | "COMPLETED" | "FAILED" | "CANCELED";
+
+export interface CheckoutRequest {
+    paymentId: string;
+    amountCents: number;
+    method: PaymentMethod;
+    customer: {
+        fullName: string;
+        phoneNumber: string;
+    };
+    /** Absolute URL the provider sends the student back to when the checkout ends */
+    returnUrl: string;
+}
+
+export interface CheckoutSession {
+    /** Provider's id for the checkout, sent back in its webhooks */
+    reference: string;
+    /** Page the student is redirected to in order to pay */
+    checkoutUrl: string;
+}
+
+/**
+ * A provider webhook translated to the fields the app needs
+ */
+export interface PaymentWebhookEvent {
+    reference: string;
+    status: Exclude<PaymentStatus, "PENDING">;
+    amountCents: number;
+    transactionId: string | null;
+}
+
+export interface PaymentProvider {
+    name: string;
+    methods: readonly PaymentMethod[];
+    createCheckout: (request: CheckoutRequest) => Promise<CheckoutSession>;
+    /**
+     * Verifies the webhook signature and reads the event from it
+     * @returns The event, or null if the signature is missing or invalid
+     */
+    parseWebhook: (rawBody: string, headers: Headers) => PaymentWebhookEvent | null;
+}
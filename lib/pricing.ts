@@ -0,0 +1,364 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export class PricingError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "PricingError";
+    }
+}
+
+const promoCodeWithRules = {
+    include: {
+        courses: {
+            select: {
+                courseId: true
+            }
+        },
+        students: {
+            select: {
+                userId: true
+            }
+        }
+    }
+} satisfies Prisma.PromoCodeDefaultArgs;
+
+export type PromoCodeWithRules = Prisma.PromoCodeGetPayload<typeof promoCodeWithRules>;
+
+/**
+ * What the promo code rules need to know about the student using the code
+ */
+export interface PricingStudent {
+    id: string;
+    grade: string | null;
+    division: string | null;
+    /** Times the student already used the code */
+    usedCount: number;
+    /** Whether the student ever bought a course or a chapter, even one refunded or revoked since */
+    hasPurchased: boolean;
+}
+
+export interface PriceQuote {
+    /** EGP */
+    originalPrice: number;
+    discountAmount: number;
+    finalPrice: number;
+    promocode: PromoCodeWithRules | null;
+}
+
+export const normalizePromoCode = (input: string) => input.toUpperCase().trim();
+
+// Prices are charged in whole piastres
+const roundPrice = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Checks every rule of a promo code for a course, its price and the student
+ * @throws PricingError with the message to show the student when the code can't be used
+ */
+export const checkPromoCodeRules = (
+    promocode: PromoCodeWithRules,
+    { courseId, price, student }: { courseId: string; price: number; student: PricingStudent },
+    now = new Date()
+) => {
+    if (!promocode.isActive) {
+        throw new PricingError(400, "هذا الكوبون غير نشط");
+    }
+
+    if (promocode.validFrom && promocode.validFrom > now) {
+        throw new PricingError(400, "هذا الكوبون لم يبدأ بعد");
+    }
+
+    if (promocode.validUntil && promocode.validUntil < now) {
+        throw new PricingError(400, "هذا الكوبون منتهي الصلاحية");
+    }
+
+    // Early checks only, the uses are claimed atomically when the purchase is made
+    if (promocode.usageLimit && promocode.usedCount >= promocode.usageLimit) {
+        throw new PricingError(400, "تم استنفاذ عدد مرات استخدام هذا الكوبون");
+    }
+
+    if (promocode.perUserLimit && student.usedCount >= promocode.perUserLimit) {
+        throw new PricingError(400, "لقد استخدمت هذا الكوبون الحد الأقصى من المرات");
+    }
+
+    // A code without courses applies to every course
+    if (promocode.courses.length > 0 && !promocode.courses.some(item => item.courseId === courseId)) {
+        throw new PricingError(400, "هذا الكوبون لا ينطبق على هذا الكورس");
+    }
+
+    // A code without students can be used by every student
+    if (promocode.students.length > 0 && !promocode.students.some(item => item.userId === student.id)) {
+        throw new PricingError(400, "هذا الكوبون غير متاح لحسابك");
+    }
+
+    if (promocode.grade && promocode.grade !== student.grade) {
+        throw new PricingError(400, `هذا الكوبون متاح لطلاب ${promocode.grade} فقط`);
+    }
+
+    if (promocode.division && promocode.division !== student.division) {
+        throw new PricingError(400, `هذا الكوبون متاح لطلاب قسم ${promocode.division} فقط`);
+    }
+
+    if (promocode.firstPurchaseOnly && student.hasPurchased) {
+        throw new PricingError(400, "هذا الكوبون متاح لأول عملية شراء فقط");
+    }
+
+    if (promocode.minPurchase && price < promocode.minPurchase) {
+        throw new PricingError(400, `يجب أن يكون سعر الشراء ${promocode.minPurchase} جنيه على الأقل`);
+    }
+};
+
+/**
+ * The discount a promo code gives on a price, never more than the price itself
+ */
+export const calculateDiscount = (
+    promocode: Pick<PromoCodeWithRules, "discountType" | "discountValue" | "maxDiscount">,
+    price: number
+) => {
+    let discountAmount = promocode.discountType === "PERCENTAGE"
+        ? (price * promocode.discountValue) / 100
+        : promocode.discountValue;
+
+    if (promocode.discountType === "PERCENTAGE" && promocode.maxDiscount && discountAmount > promocode.maxDiscount) {
+        discountAmount = promocode.maxDiscount;
+    }
+
+    return roundPrice(Math.min(discountAmount, price));
+};
+
+/**
+ * Checks a promo code and applies it to a price
+ * @throws PricingError if the code can't be used
+ */
+export const applyPromoCode = (
+    price: number,
+    promocode: PromoCodeWithRules,
+    context: { courseId: string; student: PricingStudent },
+    now = new Date()
+): PriceQuote => {
+    checkPromoCodeRules(promocode, { ...context, price }, now);
+
+    const discountAmount = calculateDiscount(promocode, price);
+
+    return {
+        originalPrice: price,
+        discountAmount,
+        finalPrice: roundPrice(Math.max(0, price - discountAmount)),
+        promocode
+    };
+};
+
+// Purchases of every status, a refund or a revocation doesn't make the student a first time buyer again
+const hasEverPurchased = async (client: Prisma.TransactionClient, userId: string) => {
+    const [purchases, chapterPurchases] = await Promise.all([
+        client.purchase.count({
+            where: {
+                userId
+            }
+        }),
+        client.chapterPurchase.count({
+            where: {
+                userId
+            }
+        })
+    ]);
+
+    return purchases + chapterPurchases > 0;
+};
+
+const getPricingStudent = async (userId: string, promocodeId: string): Promise<PricingStudent> => {
+    const [user, usage, hasPurchased] = await Promise.all([
+        db.user.findUnique({
+            where: {
+                id: userId
+            },
+            select: {
+                grade: true,
+                division: true
+            }
+        }),
+        db.promoCodeUsage.findUnique({
+            where: {
+                promocodeId_userId: {
+                    promocodeId,
+                    userId
+                }
+            }
+        }),
+        hasEverPurchased(db, userId)
+    ]);
+
+    return {
+        id: userId,
+        grade: user?.grade ?? null,
+        division: user?.division ?? null,
+        usedCount: usage?.usedCount ?? 0,
+        hasPurchased
+    };
+};
+
+/**
+ * What a course costs the student, with the promo code they entered, if any.
+ * Used both to show the price before buying and to charge it.
+ * @param price The course price, in EGP
+ * @throws PricingError if the code doesn't exist or can't be used
+ */
+export const priceCourse = async ({ userId, courseId, price, promocode: input }: {
+    userId: string;
+    courseId: string;
+    price: number;
+    promocode?: string | null;
+}): Promise<PriceQuote> => {
+    if (!input) {
+        return { originalPrice: price, discountAmount: 0, finalPrice: price, promocode: null };
+    }
+
+    const promocode: PromoCodeWithRules | null = await db.promoCode.findUnique({
+        where: {
+            code: normalizePromoCode(input)
+        },
+        ...promoCodeWithRules
+    });
+
+    if (!promocode) {
+        throw new PricingError(404, "رمز الكوبون غير صحيح");
+    }
+
+    const student = await getPricingStudent(userId, promocode.id);
+
+    return applyPromoCode(price, promocode, { courseId, student });
+};
+
+/**
+ * Claims a use of a promo code for a student, inside the purchase transaction and before the purchase is saved.
+ * Each claim is a conditional update, so parallel purchases can't go over the code's limits.
+ * @throws PricingError if the code or the student's uses ran out since the price was quoted,
+ * or a first purchase code is used by a student who bought something since
+ */
+export const claimPromoCodeUse = async (tx: Prisma.TransactionClient, promocode: PromoCodeWithRules, userId: string) => {
+    if (promocode.firstPurchaseOnly) {
+        // Locks the student's row until the purchase commits, so parallel purchases are checked one after the other
+        await tx.user.update({
+            where: {
+                id: userId
+            },
+            data: {
+                updatedAt: new Date()
+            }
+        });
+
+        if (await hasEverPurchased(tx, userId)) {
+            throw new PricingError(400, "هذا الكوبون متاح لأول عملية شراء فقط");
+        }
+    }
+
+    const { count } = await tx.promoCode.updateMany({
+        where: {
+            id: promocode.id,
+            ...(promocode.usageLimit && { usedCount: { lt: promocode.usageLimit } })
+        },
+        data: {
+            usedCount: {
+                increment: 1
+            }
+        }
+    });
+
+    if (count === 0) {
+        throw new PricingError(400, "تم استنفاذ عدد مرات استخدام هذا الكوبون");
+    }
+
+    // Doesn't fail when a parallel purchase created the row first
+    await tx.promoCodeUsage.createMany({
+        data: [{ promocodeId: promocode.id, userId }],
+        skipDuplicates: true
+    });
+
+    const claimed = await tx.promoCodeUsage.updateMany({
+        where: {
+            promocodeId: promocode.id,
+            userId,
+            ...(promocode.perUserLimit && { usedCount: { lt: promocode.perUserLimit } })
+        },
+        data: {
+            usedCount: {
+                increment: 1
+            }
+        }
+    });
+
+    if (claimed.count === 0) {
+        throw new PricingError(400, "لقد استخدمت هذا الكوبون الحد الأقصى من المرات");
+    }
+};
+
+/**
+ * Gives a student's use of a promo code back, e.g. when the purchase is refunded
+ * @returns Whether there was a use to give back
+ */
+export const releasePromoCodeUse = async (tx: Prisma.TransactionClient, promocodeId: string, userId: string) => {
+    const released = await tx.promoCode.updateMany({
+        where: {
+            id: promocodeId,
+            usedCount: {
+                gt: 0
+            }
+        },
+        data: {
+            usedCount: {
+                decrement: 1
+            }
+        }
+    });
+
+    await tx.promoCodeUsage.updateMany({
+        where: {
+            promocodeId,
+            userId,
+            usedCount: {
+                gt: 0
+            }
+        },
+        data: {
+            usedCount: {
+                decrement: 1
+            }
+        }
+    });
+
+    return released.count > 0;
+};
+
+/**
+ * Looks up the students a promo code is limited to by their phone numbers
+ * @throws PricingError listing the numbers that don't belong to a student
+ */
+export const findStudentIdsByPhone = async (phoneNumbers: string[]) => {
+    const unique = [...new Set(phoneNumbers.map(phoneNumber => phoneNumber.trim()).filter(Boolean))];
+
+    if (unique.length === 0) {
+        return [];
+    }
+
+    const students: { id: string; phoneNumber: string }[] = await db.user.findMany({
+        where: {
+            phoneNumber: {
+                in: unique
+            },
+            role: "USER"
+        },
+        select: {
+            id: true,
+            phoneNumber: true
+        }
+    });
+
+    const found = new Set(students.map(student => student.phoneNumber));
+    const missing = unique.filter(phoneNumber => !found.has(phoneNumber));
+
+    if (missing.length > 0) {
+        throw new PricingError(400, `لا يوجد طلاب بأرقام الهواتف: ${missing.join("، ")}`);
+    }
+
+    return students.map(student => student.id);
+};
@@ -0,0 +1,555 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { activePurchaseWhere, getAccessExpiry, isPurchaseExpired } from "@/lib/course-access";
+import { findIdempotentRequest, isUniqueConstraintError, saveIdempotentRequest } from "@/lib/idempotency";
+import { fromPiastres, LedgerError, postLedgerTransaction, toPiastres } from "@/lib/ledger";
+import { claimPromoCodeUse, priceCourse, PricingError, PromoCodeWithRules, releasePromoCodeUse } from "@/lib/pricing";
+
+export class PurchaseError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "PurchaseError";
+    }
+}
+
+export interface CoursePurchaseResult {
+    success: true;
+    purchaseId: string;
+    newBalance: number;
+    originalPrice: string;
+    discountAmount: string;
+    finalPrice: string;
+    promocode: string | null;
+    /** End of the access the purchase gives, null for lifetime access */
+    expiresAt: string | null;
+    /** Whether the purchase extended an earlier one */
+    renewed: boolean;
+}
+
+export interface ChapterPurchaseResult {
+    success: true;
+    purchaseId: string;
+    chapterId: string;
+    newBalance: number;
+    price: string;
+}
+
+interface CoursePurchaseRequest {
+    userId: string;
+    courseId: string;
+    promocode?: string | null;
+    /** Client generated key, a retried request with the same key returns the original result */
+    idempotencyKey?: string | null;
+}
+
+/**
+ * Returns the stored result of an earlier purchase made with the same idempotency key
+ * @throws PurchaseError if the key was used for a different request
+ */
+export const findPreviousPurchase = async <T = CoursePurchaseResult>(userId: string, key: string, scope: string) => {
+    const previous = await findIdempotentRequest(userId, key);
+
+    if (!previous) {
+        return null;
+    }
+
+    if (previous.scope !== scope) {
+        throw new PurchaseError(422, "Idempotency key was already used for a different request");
+    }
+
+    return JSON.parse(previous.response) as T;
+};
+
+/**
+ * Buys a course with the user's balance. The balance debit, the promo code usage and the purchase are
+ * committed together, and each is conditional on the database state at commit time, so parallel requests
+ * can't overspend the balance, exceed a promo code's usage limit or buy the same course twice.
+ * @throws PurchaseError with the status and message to respond with when the purchase is not possible
+ * @returns The purchase result, or the original result when the idempotency key was already used
+ */
+export const purchaseCourse = async ({ userId, courseId, promocode: promocodeInput, idempotencyKey }: CoursePurchaseRequest) => {
+    const scope = `purchase:${courseId}`;
+
+    if (idempotencyKey) {
+        const previous = await findPreviousPurchase(userId, idempotencyKey, scope);
+        if (previous) {
+            return { result: previous, replayed: true };
+        }
+    }
+
+    const course = await db.course.findUnique({
+        where: {
+            id: courseId,
+            isPublished: true,
+        },
+    });
+
+    if (!course) {
+        throw new PurchaseError(404, "Course not found or not available for purchase");
+    }
+
+    const existingPurchase = await db.purchase.findUnique({
+        where: {
+            userId_courseId: {
+                userId,
+                courseId,
+            },
+        },
+    });
+
+    // An active purchase with an access window can be renewed, which extends it
+    const renewal = existingPurchase && existingPurchase.status === "ACTIVE" ? existingPurchase : null;
+
+    if (renewal && renewal.expiresAt === null) {
+        throw new PurchaseError(400, "You have already purchased this course");
+    }
+
+    const expiresAt = getAccessExpiry(course, renewal?.expiresAt ?? null);
+
+    // Once a course no longer has an access window, an ended purchase of it is bought again for lifetime access
+    const isRepurchase = renewal !== null && expiresAt === null && isPurchaseExpired(renewal);
+
+    if (renewal && !isRepurchase && (expiresAt === null || expiresAt <= renewal.expiresAt!)) {
+        throw new PurchaseError(400, "Your access already lasts until the end of this course's access period");
+    }
+
+    if (expiresAt && expiresAt <= new Date()) {
+        throw new PurchaseError(400, "The access period of this course has ended");
+    }
+
+    let quote;
+    try {
+        quote = await priceCourse({ userId, courseId, price: course.price || 0, promocode: promocodeInput });
+    } catch (error) {
+        if (error instanceof PricingError) {
+            throw new PurchaseError(400, error.message);
+        }
+        throw error;
+    }
+
+    const coursePrice = quote.finalPrice;
+    const appliedPromocode: PromoCodeWithRules | null = quote.promocode;
+
+    try {
+        const result = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+            let purchaseId: string;
+            let reference: string;
+
+            // Before the purchase is saved, a first purchase code checks the student's earlier purchases
+            if (appliedPromocode) {
+                await claimPromoCodeUse(tx, appliedPromocode, userId);
+            }
+
+            if (renewal) {
+                // Only extends the expiry it was computed from, so parallel renewals are charged once
+                const { count } = await tx.purchase.updateMany({
+                    where: {
+                        id: renewal.id,
+                        status: "ACTIVE",
+                        expiresAt: renewal.expiresAt,
+                    },
+                    data: isRepurchase
+                        ? {
+                            expiresAt: null,
+                            amountPaid: toPiastres(coursePrice),
+                            promoCodeId: appliedPromocode?.id ?? null,
+                        }
+                        : {
+                            expiresAt,
+                            amountPaid: {
+                                increment: toPiastres(coursePrice),
+                            },
+                        },
+                });
+
+                if (count === 0) {
+                    throw new PurchaseError(409, "The purchase changed while renewing it, please try again");
+                }
+
+                purchaseId = renewal.id;
+                reference = isRepurchase
+                    ? `purchase:${renewal.id}:repurchase:${renewal.expiresAt!.getTime()}`
+                    : `purchase:${renewal.id}:renewal:${expiresAt!.getTime()}`;
+            } else {
+                // A failed, refunded or revoked purchase is replaced, deleteMany keeps parallel requests from failing on the same row.
+                // Refunds stay in the ledger.
+                await tx.purchase.deleteMany({
+                    where: {
+                        userId,
+                        courseId,
+                        status: {
+                            not: "ACTIVE",
+                        },
+                    },
+                });
+
+                // The unique user and course pair makes parallel purchases of the same course fail here
+                const purchase = await tx.purchase.create({
+                    data: {
+                        userId,
+                        courseId,
+                        status: "ACTIVE",
+                        amountPaid: toPiastres(coursePrice),
+                        promoCodeId: appliedPromocode?.id ?? null,
+                        expiresAt,
+                    },
+                });
+
+                purchaseId = purchase.id;
+                reference = `purchase:${purchase.id}`;
+            }
+
+            let newBalance: number | null = null;
+            if (coursePrice > 0) {
+                const action = renewal && !isRepurchase ? "تم تجديد الاشتراك في الكورس" : "تم شراء الكورس";
+                const posted = await postLedgerTransaction({
+                    userId,
+                    type: "PURCHASE",
+                    amount: -toPiastres(coursePrice),
+                    description: appliedPromocode
+                        ? `${action}: ${course.title} (كوبون خصم: ${appliedPromocode.code})`
+                        : `${action}: ${course.title}`,
+                    reference,
+                    details: {
+                        items: [{ title: course.title, price: quote.originalPrice }],
+                        discount: appliedPromocode
+                            ? { label: `كوبون خصم: ${appliedPromocode.code}`, amount: quote.discountAmount }
+                            : null,
+                    },
+                }, tx);
+                newBalance = posted.balance;
+            } else {
+                const user = await tx.user.findUniqueOrThrow({
+                    where: {
+                        id: userId,
+                    },
+                    select: {
+                        balance: true,
+                    },
+                });
+                newBalance = user.balance;
+            }
+
+            const purchaseResult: CoursePurchaseResult = {
+                success: true,
+                purchaseId,
+                newBalance: fromPiastres(newBalance),
+                originalPrice: quote.originalPrice.toFixed(2),
+                discountAmount: quote.discountAmount.toFixed(2),
+                finalPrice: coursePrice.toFixed(2),
+                promocode: appliedPromocode?.code ?? null,
+                expiresAt: expiresAt?.toISOString() ?? null,
+                renewed: renewal !== null && !isRepurchase,
+            };
+
+            if (idempotencyKey) {
+                await saveIdempotentRequest(tx, { userId, key: idempotencyKey, scope, response: purchaseResult });
+            }
+
+            return purchaseResult;
+        });
+
+        return { result, replayed: false };
+    } catch (error) {
+        if (isUniqueConstraintError(error)) {
+            // A parallel request with the same key may have won, in which case its result is returned
+            if (idempotencyKey) {
+                const previous = await findPreviousPurchase(userId, idempotencyKey, scope);
+                if (previous) {
+                    return { result: previous, replayed: true };
+                }
+            }
+            throw new PurchaseError(400, "You have already purchased this course");
+        }
+
+        if (error instanceof LedgerError && error.code === "INSUFFICIENT_BALANCE") {
+            throw new PurchaseError(400, "Insufficient balance");
+        }
+
+        // The code's uses ran out, or the student made a first purchase, since it was checked
+        if (error instanceof PricingError) {
+            throw new PurchaseError(400, error.message);
+        }
+
+        throw error;
+    }
+};
+
+interface ChapterPurchaseRequest {
+    userId: string;
+    courseId: string;
+    chapterId: string;
+    idempotencyKey?: string | null;
+}
+
+/**
+ * Buys a single chapter with the user's balance, for students who don't want the whole course.
+ * Like course purchases, the debit and the purchase are committed together and a chapter can't be bought twice.
+ * @throws PurchaseError with the status and message to respond with when the purchase is not possible
+ * @returns The purchase result, or the original result when the idempotency key was already used
+ */
+export const purchaseChapter = async ({ userId, courseId, chapterId, idempotencyKey }: ChapterPurchaseRequest) => {
+    const scope = `chapter-purchase:${chapterId}`;
+
+    if (idempotencyKey) {
+        const previous = await findPreviousPurchase<ChapterPurchaseResult>(userId, idempotencyKey, scope);
+        if (previous) {
+            return { result: previous, replayed: true };
+        }
+    }
+
+    const chapter = await db.chapter.findUnique({
+        where: {
+            id: chapterId,
+            courseId,
+            isPublished: true,
+        },
+        include: {
+            course: {
+                select: {
+                    title: true,
+                    price: true,
+                    isPublished: true,
+                },
+            },
+        },
+    });
+
+    if (!chapter || !chapter.course.isPublished) {
+        throw new PurchaseError(404, "Chapter not found or not available for purchase");
+    }
+
+    if (chapter.isFree || chapter.course.price === 0) {
+        throw new PurchaseError(400, "This chapter is free");
+    }
+
+    if (chapter.price === null || chapter.price <= 0) {
+        throw new PurchaseError(400, "This chapter is only sold with the full course");
+    }
+
+    const coursePurchase = await db.purchase.findFirst({
+        where: {
+            userId,
+            courseId,
+            ...activePurchaseWhere(),
+        },
+    });
+
+    if (coursePurchase) {
+        throw new PurchaseError(400, "You already have access to this chapter through the course");
+    }
+
+    const price = chapter.price;
+
+    try {
+        const result = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+            // A refunded or revoked purchase is replaced, refunds stay in the ledger
+            await tx.chapterPurchase.deleteMany({
+                where: {
+                    userId,
+                    chapterId,
+                    status: {
+                        not: "ACTIVE",
+                    },
+                },
+            });
+
+            // The unique user and chapter pair makes parallel purchases of the same chapter fail here
+            const purchase = await tx.chapterPurchase.create({
+                data: {
+                    userId,
+                    chapterId,
+                    status: "ACTIVE",
+                    amountPaid: toPiastres(price),
+                },
+            });
+
+            const posted = await postLedgerTransaction({
+                userId,
+                type: "PURCHASE",
+                amount: -toPiastres(price),
+                description: `تم شراء المحاضرة: ${chapter.title} (${chapter.course.title})`,
+                reference: `chapter-purchase:${purchase.id}`,
+                details: {
+                    items: [{ title: `${chapter.course.title} - ${chapter.title}`, price }],
+                },
+            }, tx);
+
+            const purchaseResult: ChapterPurchaseResult = {
+                success: true,
+                purchaseId: purchase.id,
+                chapterId,
+                newBalance: fromPiastres(posted.balance),
+                price: price.toFixed(2),
+            };
+
+            if (idempotencyKey) {
+                await saveIdempotentRequest(tx, { userId, key: idempotencyKey, scope, response: purchaseResult });
+            }
+
+            return purchaseResult;
+        });
+
+        return { result, replayed: false };
+    } catch (error) {
+        if (isUniqueConstraintError(error)) {
+            if (idempotencyKey) {
+                const previous = await findPreviousPurchase<ChapterPurchaseResult>(userId, idempotencyKey, scope);
+                if (previous) {
+                    return { result: previous, replayed: true };
+                }
+            }
+            throw new PurchaseError(400, "You have already purchased this chapter");
+        }
+
+        if (error instanceof LedgerError && error.code === "INSUFFICIENT_BALANCE") {
+            throw new PurchaseError(400, "Insufficient balance");
+        }
+
+        throw error;
+    }
+};
+
+export const PURCHASE_REFUND_STATUSES = ["REFUNDED", "REVOKED"] as const;
+
+export type PurchaseRefundStatus = typeof PURCHASE_REFUND_STATUSES[number];
+
+export interface PurchaseRefundResult {
+    purchaseId: string;
+    status: PurchaseRefundStatus;
+    /** Amounts in EGP */
+    refundedAmount: number;
+    totalRefunded: number;
+    /** The student's balance in EGP after the refund, null when nothing was refunded */
+    newBalance: number | null;
+    promoUsageRestored: boolean;
+}
+
+interface PurchaseRefundRequest {
+    purchaseId: string;
+    /** Piastres to give back to the student's balance, 0 to only remove access */
+    amount: number;
+    status: PurchaseRefundStatus;
+    reason: string;
+    /** Admin making the refund */
+    actorId: string;
+    /** Gives the promo code use of the purchase back */
+    restorePromoUsage?: boolean;
+}
+
+/**
+ * Piastres that can still be refunded for a purchase.
+ * Purchases made before the amount paid was recorded can be refunded up to the course price.
+ */
+export const getRefundableAmount = (purchase: { amountPaid: number | null; refundedAmount: number }, coursePrice: number) => {
+    return Math.max(0, (purchase.amountPaid ?? toPiastres(coursePrice)) - purchase.refundedAmount);
+};
+
+/**
+ * Refunds a purchase fully or partially to the student's balance, or only revokes it, and ends their access to the course.
+ * A refunded or revoked purchase can receive further refunds up to the amount paid.
+ * The purchase update, the ledger entry and the promo code usage are committed together, and the update is conditional
+ * on the purchase being unchanged since it was read, so the same refund can't be applied twice.
+ * @throws PurchaseError with the status and message to respond with when the refund is not possible
+ */
+export const refundPurchase = async ({ purchaseId, amount, status, reason, actorId, restorePromoUsage }: PurchaseRefundRequest) => {
+    if (!Number.isInteger(amount) || amount < 0) {
+        throw new PurchaseError(400, "Refund amount must be a positive number of piastres");
+    }
+
+    if (status === "REFUNDED" && amount === 0) {
+        throw new PurchaseError(400, "A refund needs an amount, revoke the purchase to only remove access");
+    }
+
+    if (!reason.trim()) {
+        throw new PurchaseError(400, "A reason is required");
+    }
+
+    const purchase = await db.purchase.findUnique({
+        where: {
+            id: purchaseId,
+        },
+        include: {
+            course: {
+                select: {
+                    title: true,
+                    price: true,
+                },
+            },
+        },
+    });
+
+    if (!purchase) {
+        throw new PurchaseError(404, "Purchase not found");
+    }
+
+    if (purchase.status === "FAILED") {
+        throw new PurchaseError(400, "A failed purchase can't be refunded");
+    }
+
+    const wasActive = purchase.status === "ACTIVE";
+
+    if (!wasActive && amount === 0) {
+        throw new PurchaseError(400, "This purchase was already refunded or revoked");
+    }
+
+    const refundable = getRefundableAmount(purchase, purchase.course.price || 0);
+    if (amount > refundable) {
+        throw new PurchaseError(400, `At most ${fromPiastres(refundable)} EGP can be refunded for this purchase`);
+    }
+
+    return db.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.purchase.updateMany({
+            where: {
+                id: purchase.id,
+                status: purchase.status,
+                refundedAmount: purchase.refundedAmount,
+            },
+            data: {
+                status,
+                refundedAmount: {
+                    increment: amount,
+                },
+                refundReason: reason.trim(),
+                refundedById: actorId,
+                refundedAt: new Date(),
+            },
+        });
+
+        if (count === 0) {
+            throw new PurchaseError(409, "The purchase changed since it was loaded, reload it and try again");
+        }
+
+        let newBalance: number | null = null;
+        if (amount > 0) {
+            const posted = await postLedgerTransaction({
+                userId: purchase.userId,
+                type: "REFUND",
+                amount,
+                description: `استرداد مبلغ الكورس: ${purchase.course.title}`,
+                reason,
+                actorId,
+                // The refunded total only grows, so each refund of the purchase has its own reference
+                reference: `refund:${purchase.id}:${purchase.refundedAmount + amount}`,
+            }, tx);
+            newBalance = posted.balance;
+        }
+
+        // The use is given back only once, when the purchase stops being active
+        let promoUsageRestored = false;
+        if (restorePromoUsage && wasActive && purchase.promoCodeId) {
+            promoUsageRestored = await releasePromoCodeUse(tx, purchase.promoCodeId, purchase.userId);
+        }
+
+        const refundResult: PurchaseRefundResult = {
+            purchaseId: purchase.id,
+            status,
+            refundedAmount: fromPiastres(amount),
+            totalRefunded: fromPiastres(purchase.refundedAmount + amount),
+            newBalance: newBalance === null ? null : fromPiastres(newBalance),
+            promoUsageRestored,
+        };
+
+        return refundResult;
+    });
+};
@@ -0,0 +1,289 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { parseQuizOptions } from "@/lib/utils";
+import {
+    getAttemptDeadline,
+    gradeQuizAnswers,
+    hasQuestionOptions,
+    orderQuestionsByIds,
+    parseAttemptQuestionIds,
+    parseDraftAnswers,
+    parseOptionOrder,
+    QUIZ_SUBMISSION_GRACE_SECONDS,
+    shuffleArray,
+    SubmittedQuizAnswer
+} from "@/lib/quiz";
+
+interface SelectableQuestion {
+    id: string;
+    type: string;
+    options: string | null;
+}
+
+interface AttemptQuestion extends SelectableQuestion {
+    text: string;
+    correctAnswer: string;
+    correctOptionIndex: number | null;
+    tolerance: number | null;
+    toleranceType: string | null;
+    points: number;
+    imageUrl: string | null;
+}
+
+interface AttemptQuiz {
+    id: string;
+    courseId: string;
+    timer: number | null;
+    shuffleQuestions: boolean;
+    shuffleOptions: boolean;
+}
+
+/**
+ * Builds the question selection of a new attempt.
+ * The quiz's own questions come first in their authored order, followed by the questions drawn
+ * from the bank in random order; with shuffleQuestions everything is shuffled together.
+ * Drawn questions always get their own option order, the quiz's own questions only with shuffleOptions.
+ * @returns The frozen selection, or null when the attempt uses the quiz's questions as authored
+ */
+const buildAttemptSelection = async (quiz: AttemptQuiz) => {
+    const drawRules = await db.quizDrawRule.findMany({
+        where: {
+            quizId: quiz.id
+        },
+        orderBy: {
+            position: 'asc'
+        }
+    });
+
+    if (drawRules.length === 0 && !quiz.shuffleQuestions && !quiz.shuffleOptions) {
+        return null;
+    }
+
+    const fixedQuestions: SelectableQuestion[] = await db.question.findMany({
+        where: {
+            quizId: quiz.id
+        },
+        select: {
+            id: true,
+            type: true,
+            options: true
+        },
+        orderBy: {
+            position: 'asc'
+        }
+    });
+
+    const selectedIds = new Set<string>(fixedQuestions.map(question => question.id));
+    const drawnQuestions: SelectableQuestion[] = [];
+
+    for (const rule of drawRules) {
+        const candidates: SelectableQuestion[] = await db.question.findMany({
+            where: {
+                quizId: null,
+                courseId: quiz.courseId,
+                ...(rule.chapterId && { chapterId: rule.chapterId }),
+                ...(rule.topic && { topic: rule.topic }),
+                ...(rule.difficulty && { difficulty: rule.difficulty }),
+                id: {
+                    notIn: Array.from(selectedIds)
+                }
+            },
+            select: {
+                id: true,
+                type: true,
+                options: true
+            }
+        });
+
+        // A rule with fewer matching questions than requested draws all of them
+        for (const question of shuffleArray(candidates).slice(0, rule.count)) {
+            selectedIds.add(question.id);
+            drawnQuestions.push(question);
+        }
+    }
+
+    const optionShuffled = quiz.shuffleOptions ? [...fixedQuestions, ...drawnQuestions] : drawnQuestions;
+    const optionOrder: Record<string, number[]> = {};
+    for (const question of optionShuffled) {
+        if (hasQuestionOptions(question.type)) {
+            const options = parseQuizOptions(question.options);
+            optionOrder[question.id] = shuffleArray(options.map((_, index) => index));
+        }
+    }
+
+    const orderedQuestions = quiz.shuffleQuestions
+        ? shuffleArray([...fixedQuestions, ...drawnQuestions])
+        : [...fixedQuestions, ...shuffleArray(drawnQuestions)];
+
+    return {
+        questionIds: orderedQuestions.map(question => question.id),
+        optionOrder
+    };
+};
+
+/**
+ * Starts a fresh attempt for a student, replacing any previous attempt row.
+ * The deadline and the question and option order are fixed here so reloading the quiz page never
+ * restarts the timer or reshuffles the questions.
+ */
+export const startQuizAttempt = async (studentId: string, quiz: AttemptQuiz) => {
+    await db.quizAttempt.deleteMany({
+        where: {
+            studentId,
+            quizId: quiz.id
+        }
+    });
+
+    const startedAt = new Date();
+    const selection = await buildAttemptSelection(quiz);
+
+    return db.quizAttempt.create({
+        data: {
+            studentId,
+            quizId: quiz.id,
+            startedAt,
+            expiresAt: getAttemptDeadline(startedAt, quiz.timer),
+            questionIds: selection ? JSON.stringify(selection.questionIds) : null,
+            optionOrder: selection ? JSON.stringify(selection.optionOrder) : null
+        }
+    });
+};
+
+/**
+ * Loads the questions of an attempt in the order they are shown to the student
+ * @param quizId - The quiz of the attempt
+ * @param questionIds - Raw frozen selection stored on the attempt (null uses the quiz's own questions)
+ */
+export const getAttemptQuestions = async (quizId: string, questionIds: string | null) => {
+    const frozenIds = parseAttemptQuestionIds(questionIds);
+
+    const questions: AttemptQuestion[] = await db.question.findMany({
+        where: frozenIds
+            ? { id: { in: frozenIds } }
+            : { quizId },
+        select: {
+            id: true,
+            text: true,
+            type: true,
+            options: true,
+            correctAnswer: true,
+            correctOptionIndex: true,
+            tolerance: true,
+            toleranceType: true,
+            points: true,
+            imageUrl: true
+        },
+        orderBy: {
+            position: 'asc'
+        }
+    });
+
+    return frozenIds ? orderQuestionsByIds(questions, frozenIds) : questions;
+};
+
+/**
+ * Grades the in-progress attempt of a student and stores the result.
+ * Closing the attempt and storing its result happen in one transaction, so concurrent submissions
+ * can only produce one result and a failure leaves the attempt open to be submitted again.
+ * @param answers - Submitted answers; when omitted the autosaved draft of the attempt is graded
+ * @returns The created quiz result, or null if there was no attempt in progress
+ */
+export const finalizeQuizAttempt = async (studentId: string, quizId: string, answers?: SubmittedQuizAnswer[]) => {
+    const attempt = await db.quizAttempt.findUnique({
+        where: {
+            studentId_quizId: {
+                studentId,
+                quizId
+            }
+        }
+    });
+
+    if (!attempt || attempt.completedAt) {
+        return null;
+    }
+
+    const questions = await getAttemptQuestions(quizId, attempt.questionIds);
+
+    const graded = gradeQuizAnswers(
+        questions,
+        answers ?? parseDraftAnswers(attempt.draftAnswers),
+        parseOptionOrder(attempt.optionOrder)
+    );
+
+    return db.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.quizAttempt.updateMany({
+            where: {
+                id: attempt.id,
+                completedAt: null
+            },
+            data: {
+                completedAt: new Date()
+            }
+        });
+
+        if (count === 0) {
+            return null;
+        }
+
+        const previousAttempts = await tx.quizResult.count({
+            where: {
+                studentId,
+                quizId
+            }
+        });
+
+        return tx.quizResult.create({
+            data: {
+                studentId,
+                quizId,
+                score: graded.score,
+                totalPoints: graded.totalPoints,
+                percentage: graded.percentage,
+                attemptNumber: previousAttempts + 1,
+                // Keep what the student saw, the attempt row is replaced by the next attempt
+                questionOrder: attempt.questionIds,
+                optionOrder: attempt.optionOrder,
+                answers: {
+                    create: graded.answers
+                }
+            },
+            include: {
+                answers: {
+                    include: {
+                        question: true
+                    }
+                }
+            }
+        });
+    });
+};
+
+/**
+ * Grades the autosaved drafts of attempts whose time ran out without the student coming back,
+ * so staff see them in the results and grading views
+ * @param quizId - Only the attempts of this quiz, all quizzes when omitted
+ */
+export const finalizeExpiredQuizAttempts = async (quizId?: string | null) => {
+    const attempts = await db.quizAttempt.findMany({
+        where: {
+            ...(quizId && { quizId }),
+            completedAt: null,
+            expiresAt: {
+                lt: new Date(Date.now() - QUIZ_SUBMISSION_GRACE_SECONDS * 1000)
+            }
+        },
+        select: {
+            studentId: true,
+            quizId: true
+        }
+    });
+
+    for (const attempt of attempts) {
+        try {
+            await finalizeQuizAttempt(attempt.studentId, attempt.quizId);
+        } catch (error) {
+            // Stays open and is graded the next time the view loads
+            console.error("[FINALIZE_EXPIRED_QUIZ_ATTEMPT]", error);
+        }
+    }
+};
@@ -0,0 +1,313 @@
+import { db } from "@/lib/db";
+import { calculateQuizScore, getPassingPercentage, GradableQuestion, gradeQuizAnswers, hasPassedQuiz } from "@/lib/quiz";
+
+/**
+ * Recomputes the score and percentage of a quiz result from the points stored on its answers.
+ * Summing the stored points (instead of adjusting the score) keeps concurrent gradings of the same result consistent.
+ * @returns The updated quiz result, or null if it does not exist
+ */
+export const recalculateQuizResultScore = async (quizResultId: string) => {
+    const quizResult = await db.quizResult.findUnique({
+        where: {
+            id: quizResultId
+        },
+        select: {
+            totalPoints: true,
+            answers: {
+                select: {
+                    pointsEarned: true
+                }
+            }
+        }
+    });
+
+    if (!quizResult) {
+        return null;
+    }
+
+    const { score, percentage } = calculateQuizScore(quizResult.answers, quizResult.totalPoints);
+
+    return db.quizResult.update({
+        where: {
+            id: quizResultId
+        },
+        data: {
+            score,
+            percentage
+        }
+    });
+};
+
+interface ManualGrade {
+    answerId: string;
+    pointsEarned: number;
+    maxPoints: number;
+    comment: string | null;
+    gradedById: string;
+}
+
+/**
+ * Stores the grade a teacher gave to an answer, replacing the auto-grader's, and updates the result's score
+ * @returns The graded answer and the updated quiz result
+ */
+export const gradeAnswerManually = async ({ answerId, pointsEarned, maxPoints, comment, gradedById }: ManualGrade) => {
+    const answer = await db.quizAnswer.update({
+        where: {
+            id: answerId
+        },
+        data: {
+            pointsEarned,
+            isCorrect: pointsEarned >= maxPoints,
+            isOverridden: true,
+            teacherComment: comment,
+            gradedById,
+            gradedAt: new Date()
+        }
+    });
+
+    const quizResult = await recalculateQuizResultScore(answer.quizResultId);
+
+    return { answer, quizResult };
+};
+
+interface RegradableResult {
+    id: string;
+    studentId: string;
+    attemptNumber: number;
+    submittedAt: Date;
+    score: number;
+    totalPoints: number;
+    percentage: number;
+    user: {
+        fullName: string;
+        phoneNumber: string;
+    };
+    answers: {
+        id: string;
+        questionId: string;
+        studentAnswer: string;
+        selectedOptionIndex: number | null;
+        correctAnswer: string;
+        isCorrect: boolean;
+        pointsEarned: number;
+        isOverridden: boolean;
+        question: GradableQuestion;
+    }[];
+}
+
+interface ScoreSnapshot {
+    score: number;
+    totalPoints: number;
+    percentage: number;
+}
+
+interface AnswerRegrade {
+    id: string;
+    pointsEarned: number;
+    isCorrect: boolean;
+    correctAnswer: string;
+}
+
+export interface ResultRegrade {
+    resultId: string;
+    attemptNumber: number;
+    submittedAt: Date;
+    before: ScoreSnapshot;
+    after: ScoreSnapshot;
+    changedAnswers: number;
+    answerUpdates: AnswerRegrade[];
+}
+
+export interface StudentRegrade {
+    studentId: string;
+    fullName: string;
+    phoneNumber: string;
+    bestPercentageBefore: number;
+    bestPercentageAfter: number;
+    passedBefore: boolean;
+    passedAfter: boolean;
+    results: ResultRegrade[];
+}
+
+/**
+ * Re-runs grading over every stored result of a quiz against the current questions, without saving anything.
+ * Answers graded manually by a teacher keep their points, only capped at the question's current points.
+ * Chapter unlocks are derived from the students' best percentage, so passedBefore/passedAfter tell which
+ * students gain or lose access to the content behind the quiz.
+ * @param questionId - Limit the regrade to the answers of a single question
+ * @returns The affected students with the before/after scores of their changed results, or null if the quiz does not exist
+ */
+export const planQuizRegrade = async (quizId: string, questionId?: string | null) => {
+    const quiz = await db.quiz.findUnique({
+        where: {
+            id: quizId
+        },
+        select: {
+            passingPercentage: true
+        }
+    });
+
+    if (!quiz) {
+        return null;
+    }
+
+    const passingPercentage = getPassingPercentage(quiz);
+
+    const quizResults: RegradableResult[] = await db.quizResult.findMany({
+        where: {
+            quizId
+        },
+        include: {
+            user: {
+                select: {
+                    fullName: true,
+                    phoneNumber: true
+                }
+            },
+            answers: {
+                include: {
+                    question: true
+                }
+            }
+        },
+        orderBy: {
+            attemptNumber: 'asc'
+        }
+    });
+
+    const students = new Map<string, StudentRegrade>();
+    let keptManualGrades = 0;
+
+    for (const quizResult of quizResults) {
+        const answerUpdates: AnswerRegrade[] = [];
+
+        const regradedAnswers = quizResult.answers.map(answer => {
+            if (questionId && answer.questionId !== questionId) {
+                return { pointsEarned: answer.pointsEarned, points: answer.question.points };
+            }
+
+            let update: AnswerRegrade;
+            if (answer.isOverridden) {
+                keptManualGrades++;
+                const pointsEarned = Math.min(answer.pointsEarned, answer.question.points);
+                update = {
+                    id: answer.id,
+                    pointsEarned,
+                    isCorrect: pointsEarned >= answer.question.points,
+                    correctAnswer: answer.question.correctAnswer
+                };
+            } else {
+                // Stored answers reference options by their authored index, so they are graded without an option order
+                const [graded] = gradeQuizAnswers([answer.question], [{
+                    questionId: answer.questionId,
+                    answer: answer.studentAnswer,
+                    ...(answer.selectedOptionIndex !== null && { optionIndex: answer.selectedOptionIndex })
+                }]).answers;
+                update = {
+                    id: answer.id,
+                    pointsEarned: graded.pointsEarned,
+                    isCorrect: graded.isCorrect,
+                    correctAnswer: graded.correctAnswer
+                };
+            }
+
+            if (
+                update.pointsEarned !== answer.pointsEarned ||
+                update.isCorrect !== answer.isCorrect ||
+                update.correctAnswer !== answer.correctAnswer
+            ) {
+                answerUpdates.push(update);
+            }
+
+            return { pointsEarned: update.pointsEarned, points: answer.question.points };
+        });
+
+        // Questions removed from the quiz take their answers with them, so the total follows the remaining questions
+        const totalPoints = quizResult.answers.length > 0
+            ? regradedAnswers.reduce((sum, answer) => sum + answer.points, 0)
+            : quizResult.totalPoints;
+        const { score, percentage } = calculateQuizScore(regradedAnswers, totalPoints);
+
+        const student: StudentRegrade = students.get(quizResult.studentId) ?? {
+            studentId: quizResult.studentId,
+            fullName: quizResult.user.fullName,
+            phoneNumber: quizResult.user.phoneNumber,
+            bestPercentageBefore: 0,
+            bestPercentageAfter: 0,
+            passedBefore: false,
+            passedAfter: false,
+            results: []
+        };
+        student.bestPercentageBefore = Math.max(student.bestPercentageBefore, quizResult.percentage);
+        student.bestPercentageAfter = Math.max(student.bestPercentageAfter, percentage);
+        students.set(quizResult.studentId, student);
+
+        if (answerUpdates.length > 0 || score !== quizResult.score || totalPoints !== quizResult.totalPoints) {
+            student.results.push({
+                resultId: quizResult.id,
+                attemptNumber: quizResult.attemptNumber,
+                submittedAt: quizResult.submittedAt,
+                before: {
+                    score: quizResult.score,
+                    totalPoints: quizResult.totalPoints,
+                    percentage: quizResult.percentage
+                },
+                after: {
+                    score,
+                    totalPoints,
+                    percentage
+                },
+                changedAnswers: answerUpdates.length,
+                answerUpdates
+            });
+        }
+    }
+
+    const affectedStudents = Array.from(students.values())
+        .filter(student => student.results.length > 0)
+        .map(student => ({
+            ...student,
+            passedBefore: hasPassedQuiz(student.bestPercentageBefore, passingPercentage),
+            passedAfter: hasPassedQuiz(student.bestPercentageAfter, passingPercentage)
+        }));
+
+    return {
+        passingPercentage,
+        students: affectedStudents,
+        summary: {
+            totalResults: quizResults.length,
+            affectedResults: affectedStudents.reduce((sum, student) => sum + student.results.length, 0),
+            affectedStudents: affectedStudents.length,
+            newlyPassed: affectedStudents.filter(student => !student.passedBefore && student.passedAfter).length,
+            newlyFailed: affectedStudents.filter(student => student.passedBefore && !student.passedAfter).length,
+            keptManualGrades
+        }
+    };
+};
+
+export type QuizRegradePlan = NonNullable<Awaited<ReturnType<typeof planQuizRegrade>>>;
+
+/**
+ * Saves a regrade plan: the regraded answers and the new score, total and percentage of each affected result.
+ * Each result is written in its own transaction so a result is never left half regraded.
+ */
+export const applyQuizRegrade = async (plan: QuizRegradePlan) => {
+    for (const student of plan.students) {
+        for (const result of student.results) {
+            await db.$transaction([
+                ...result.answerUpdates.map(({ id, ...data }) => db.quizAnswer.update({
+                    where: {
+                        id
+                    },
+                    data
+                })),
+                db.quizResult.update({
+                    where: {
+                        id: result.resultId
+                    },
+                    data: result.after
+                })
+            ]);
+        }
+    }
+};
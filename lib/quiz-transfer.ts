@@ -0,0 +1,729 @@
+import { parseQuizOptions } from "@/lib/utils";
+import { parseMathExpression } from "@/lib/math-expression";
+import {
+    getCorrectOptionIndex,
+    hasQuestionOptions,
+    parseNumericAnswer,
+    parseOptionIndices,
+    QUESTION_TYPES,
+    QuestionType,
+    TOLERANCE_TYPES,
+    ToleranceType,
+    validateQuestionInput
+} from "@/lib/quiz";
+
+/**
+ * Import and export of quiz questions in portable formats, see QUIZ_IMPORT_EXPORT.md for the formats.
+ * In every format options are referenced by their text, so a file stays readable and can be edited by hand.
+ */
+
+export const QUIZ_TRANSFER_FORMATS = ["json", "csv", "gift"] as const;
+
+export type QuizTransferFormat = typeof QUIZ_TRANSFER_FORMATS[number];
+
+export const isQuizTransferFormat = (value: unknown): value is QuizTransferFormat => {
+    return typeof value === "string" && (QUIZ_TRANSFER_FORMATS as readonly string[]).includes(value);
+};
+
+export const CSV_COLUMNS = ["type", "text", "options", "correctAnswer", "points", "imageUrl", "tolerance", "toleranceType"] as const;
+
+/**
+ * Question in the shape the quiz editors and validateQuestionInput expect
+ * (option index for multiple choice, option indices for multi-select, text otherwise)
+ */
+export interface ImportedQuestion {
+    text: string;
+    type: QuestionType;
+    options?: string[];
+    correctAnswer: string | number | number[];
+    tolerance?: number | null;
+    toleranceType?: ToleranceType | null;
+    points: number;
+    imageUrl?: string;
+}
+
+export interface ImportRowError {
+    row: number;
+    message: string;
+}
+
+export interface QuestionImportReport {
+    totalRows: number;
+    questions: ImportedQuestion[];
+    errors: ImportRowError[];
+}
+
+/**
+ * A question as read from a file, before validation
+ */
+interface RawQuestion {
+    row: number;
+    type?: unknown;
+    text?: unknown;
+    options?: unknown;
+    correctAnswer?: unknown;
+    points?: unknown;
+    imageUrl?: unknown;
+    tolerance?: unknown;
+    toleranceType?: unknown;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === "";
+
+/**
+ * Reads the options of a row, which CSV files carry as a JSON array
+ */
+const readOptions = (value: unknown): { options?: string[]; error?: string } => {
+    let parsed = value;
+    if (typeof value === "string") {
+        try {
+            parsed = JSON.parse(value);
+        } catch {
+            return { error: 'الخيارات ليست مصفوفة JSON صالحة، مثال: ["الخيار الأول","الخيار الثاني"]' };
+        }
+    }
+
+    if (!Array.isArray(parsed) || parsed.some(option => typeof option !== "string" && typeof option !== "number")) {
+        return { error: 'الخيارات يجب أن تكون مصفوفة نصوص، مثال: ["الخيار الأول","الخيار الثاني"]' };
+    }
+
+    const options = parsed.map(option => String(option).trim()).filter(option => option !== "");
+    if (options.length < 2) {
+        return { error: "يجب أن يحتوي السؤال على خيارين على الأقل" };
+    }
+
+    const seen = new Set<string>();
+    for (const option of options) {
+        const key = option.toLowerCase();
+        if (seen.has(key)) {
+            return { error: `خيار مكرر: "${option}"` };
+        }
+        seen.add(key);
+    }
+
+    return { options };
+};
+
+/**
+ * Finds an option by its text, or by its 0-based index when the file gives a number
+ */
+const findOption = (options: string[], value: unknown): number | null => {
+    if (typeof value === "number") {
+        return Number.isInteger(value) && value >= 0 && value < options.length ? value : null;
+    }
+
+    const text = String(value).trim();
+    const index = options.findIndex(option => option === text);
+    return index >= 0 ? index : null;
+};
+
+const TRUE_VALUES = ["true", "t", "صح", "صحيح", "صواب"];
+const FALSE_VALUES = ["false", "f", "خطأ", "خطا"];
+
+/**
+ * Validates a question read from a file and converts it to the editor shape
+ */
+const normalizeRawQuestion = (raw: RawQuestion): { question?: ImportedQuestion; error?: string } => {
+    const type = String(raw.type ?? "").trim().toUpperCase();
+    if (!(QUESTION_TYPES as readonly string[]).includes(type)) {
+        return { error: isBlank(raw.type) ? "نوع السؤال مفقود" : `نوع سؤال غير معروف: "${raw.type}"` };
+    }
+
+    const text = String(raw.text ?? "").trim();
+    if (!text) {
+        return { error: "نص السؤال مفقود" };
+    }
+
+    if (isBlank(raw.correctAnswer) || (Array.isArray(raw.correctAnswer) && raw.correctAnswer.length === 0)) {
+        return { error: "الإجابة الصحيحة مفقودة" };
+    }
+
+    const question: ImportedQuestion = {
+        text,
+        type: type as QuestionType,
+        correctAnswer: "",
+        points: 1
+    };
+
+    if (hasQuestionOptions(type)) {
+        const { options, error } = readOptions(raw.options);
+        if (error || !options) {
+            return { error };
+        }
+        question.options = options;
+
+        if (type === "MULTIPLE_CHOICE") {
+            const index = findOption(options, raw.correctAnswer);
+            if (index === null) {
+                return { error: `الإجابة الصحيحة "${raw.correctAnswer}" ليست من الخيارات` };
+            }
+            question.correctAnswer = index;
+        } else {
+            let answers = raw.correctAnswer;
+            if (typeof answers === "string") {
+                try {
+                    answers = answers.trim().startsWith("[") ? JSON.parse(answers) : [answers];
+                } catch {
+                    return { error: "الإجابات الصحيحة ليست مصفوفة JSON صالحة" };
+                }
+            }
+
+            const indices: number[] = [];
+            for (const answer of Array.isArray(answers) ? answers : [answers]) {
+                const index = findOption(options, answer);
+                if (index === null) {
+                    return { error: `الإجابة الصحيحة "${answer}" ليست من الخيارات` };
+                }
+                if (!indices.includes(index)) {
+                    indices.push(index);
+                }
+            }
+            question.correctAnswer = indices.sort((a, b) => a - b);
+        }
+    } else if (type === "TRUE_FALSE") {
+        const value = String(raw.correctAnswer).trim().toLowerCase();
+        if (TRUE_VALUES.includes(value)) {
+            question.correctAnswer = "true";
+        } else if (FALSE_VALUES.includes(value)) {
+            question.correctAnswer = "false";
+        } else {
+            return { error: 'إجابة صح أو خطأ يجب أن تكون "true" أو "false"' };
+        }
+    } else if (type === "NUMERIC") {
+        const value = parseNumericAnswer(raw.correctAnswer);
+        if (value === null) {
+            return { error: "الإجابة الصحيحة يجب أن تكون رقماً" };
+        }
+        question.correctAnswer = String(value);
+
+        if (!isBlank(raw.tolerance)) {
+            const tolerance = parseNumericAnswer(raw.tolerance);
+            if (tolerance === null || tolerance < 0) {
+                return { error: "هامش الخطأ يجب أن يكون رقماً أكبر من أو يساوي صفر" };
+            }
+            question.tolerance = tolerance;
+        }
+
+        const toleranceType = isBlank(raw.toleranceType) ? "ABSOLUTE" : String(raw.toleranceType).trim().toUpperCase();
+        if (!(TOLERANCE_TYPES as readonly string[]).includes(toleranceType)) {
+            return { error: 'نوع الهامش يجب أن يكون "ABSOLUTE" أو "RELATIVE"' };
+        }
+        question.toleranceType = toleranceType as ToleranceType;
+    } else if (type === "MATH_EXPRESSION") {
+        const expression = String(raw.correctAnswer).trim();
+        if (!parseMathExpression(expression)) {
+            return { error: `الإجابة الصحيحة ليست تعبيراً رياضياً صالحاً: "${expression}"` };
+        }
+        question.correctAnswer = expression;
+    } else {
+        question.correctAnswer = String(raw.correctAnswer).trim();
+    }
+
+    if (!isBlank(raw.points)) {
+        const points = Number(raw.points);
+        if (!Number.isInteger(points) || points <= 0) {
+            return { error: "الدرجة يجب أن تكون عدداً صحيحاً أكبر من صفر" };
+        }
+        question.points = points;
+    }
+
+    if (!isBlank(raw.imageUrl)) {
+        const imageUrl = String(raw.imageUrl).trim();
+        if (!/^https?:\/\/\S+$/i.test(imageUrl)) {
+            return { error: `رابط الصورة غير صالح: "${imageUrl}"` };
+        }
+        question.imageUrl = imageUrl;
+    }
+
+    // Same rules as saving the quiz, should never trigger after the checks above
+    const validationError = validateQuestionInput(question);
+    if (validationError) {
+        return { error: validationError };
+    }
+
+    return { question };
+};
+
+const buildReport = (rawQuestions: RawQuestion[], parseErrors: ImportRowError[] = []): QuestionImportReport => {
+    const report: QuestionImportReport = {
+        totalRows: rawQuestions.length + parseErrors.length,
+        questions: [],
+        errors: [...parseErrors]
+    };
+
+    for (const raw of rawQuestions) {
+        const { question, error } = normalizeRawQuestion(raw);
+        if (question) {
+            report.questions.push(question);
+        } else {
+            report.errors.push({ row: raw.row, message: error || "سؤال غير صالح" });
+        }
+    }
+
+    report.errors.sort((a, b) => a.row - b.row);
+    return report;
+};
+
+// JSON
+
+const parseJsonQuestions = (content: string): QuestionImportReport => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        return { totalRows: 0, questions: [], errors: [{ row: 0, message: "الملف ليس JSON صالحاً" }] };
+    }
+
+    // Either a list of questions or an exported quiz with a questions list
+    const items = Array.isArray(parsed)
+        ? parsed
+        : parsed && typeof parsed === "object" && Array.isArray((parsed as { questions?: unknown }).questions)
+            ? (parsed as { questions: unknown[] }).questions
+            : null;
+
+    if (!items) {
+        return { totalRows: 0, questions: [], errors: [{ row: 0, message: 'يجب أن يحتوي الملف على مصفوفة أسئلة أو على "questions"' }] };
+    }
+
+    const parseErrors: ImportRowError[] = [];
+    const rawQuestions: RawQuestion[] = [];
+
+    items.forEach((item, index) => {
+        if (!item || typeof item !== "object" || Array.isArray(item)) {
+            parseErrors.push({ row: index + 1, message: "السؤال يجب أن يكون كائن JSON" });
+            return;
+        }
+        rawQuestions.push({ ...(item as Omit<RawQuestion, "row">), row: index + 1 });
+    });
+
+    return buildReport(rawQuestions, parseErrors);
+};
+
+// CSV
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields may contain commas, line breaks and doubled quotes)
+ * @returns The records with the line each one starts on
+ */
+const parseCsvRecords = (content: string): { line: number; fields: string[] }[] => {
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === "\"" && content[i + 1] === "\"") {
+                field += "\"";
+                i++;
+            } else if (char === "\"") {
+                inQuotes = false;
+            } else {
+                if (char === "\n") line++;
+                field += char;
+            }
+        } else if (char === "\"") {
+            inQuotes = true;
+        } else if (char === ",") {
+            fields.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") i++;
+            fields.push(field);
+            if (fields.some(value => value.trim() !== "")) {
+                records.push({ line: recordLine, fields });
+            }
+            fields = [];
+            field = "";
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    fields.push(field);
+    if (fields.some(value => value.trim() !== "")) {
+        records.push({ line: recordLine, fields });
+    }
+
+    return records;
+};
+
+const parseCsvQuestions = (content: string): QuestionImportReport => {
+    const [header, ...rows] = parseCsvRecords(content);
+    if (!header) {
+        return { totalRows: 0, questions: [], errors: [{ row: 0, message: "الملف فارغ" }] };
+    }
+
+    const columns = header.fields.map(name => name.trim().toLowerCase());
+    const columnIndex = (name: string) => columns.indexOf(name.toLowerCase());
+
+    const missingColumns = ["type", "text", "correctAnswer"].filter(name => columnIndex(name) === -1);
+    if (missingColumns.length > 0) {
+        return {
+            totalRows: rows.length,
+            questions: [],
+            errors: [{ row: header.line, message: `أعمدة مفقودة في السطر الأول: ${missingColumns.join(", ")}` }]
+        };
+    }
+
+    const rawQuestions = rows.map(({ line, fields }) => {
+        const raw: RawQuestion = { row: line };
+        for (const column of CSV_COLUMNS) {
+            const index = columnIndex(column);
+            if (index !== -1 && !isBlank(fields[index])) {
+                raw[column] = fields[index];
+            }
+        }
+        return raw;
+    });
+
+    return buildReport(rawQuestions);
+};
+
+const escapeCsvField = (value: string) => {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+};
+
+// GIFT
+
+const GIFT_SPECIAL_CHARACTERS = /[~=#{}:]/g;
+
+const escapeGift = (value: string) => value.replace(/\\/g, "\\\\").replace(GIFT_SPECIAL_CHARACTERS, match => `\\${match}`);
+
+const unescapeGift = (value: string) => value.replace(/\\(.)/g, "$1").trim();
+
+/**
+ * Index of the first unescaped occurrence of a character
+ */
+const findUnescaped = (value: string, char: string, from = 0) => {
+    for (let i = from; i < value.length; i++) {
+        if (value[i] === "\\") {
+            i++;
+        } else if (value[i] === char) {
+            return i;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Splits a GIFT answer block into its answers, each starting with an unescaped = or ~
+ */
+const splitGiftAnswers = (block: string) => {
+    const answers: { correct: boolean; weight: number | null; text: string }[] = [];
+    let current: { correct: boolean; raw: string } | null = null;
+
+    for (let i = 0; i < block.length; i++) {
+        const char = block[i];
+        if (char === "\\") {
+            if (current) current.raw += block.slice(i, i + 2);
+            i++;
+        } else if (char === "=" || char === "~") {
+            if (current) answers.push(toGiftAnswer(current));
+            current = { correct: char === "=", raw: "" };
+        } else if (current) {
+            current.raw += char;
+        }
+    }
+
+    if (current) answers.push(toGiftAnswer(current));
+    return answers;
+};
+
+const toGiftAnswer = ({ correct, raw }: { correct: boolean; raw: string }) => {
+    // Feedback after an unescaped # is not imported
+    const feedbackIndex = findUnescaped(raw, "#");
+    let text = feedbackIndex === -1 ? raw : raw.slice(0, feedbackIndex);
+    let weight: number | null = null;
+
+    const weightMatch = text.trim().match(/^%(-?\d+(?:\.\d+)?)%/);
+    if (weightMatch) {
+        weight = parseFloat(weightMatch[1]);
+        text = text.trim().slice(weightMatch[0].length);
+    }
+
+    return { correct, weight, text: unescapeGift(text) };
+};
+
+/**
+ * Converts one GIFT question (already stripped of comments) into a raw question
+ * @param meta - Values of the "// key: value" comment lines above the question
+ */
+const parseGiftQuestion = (source: string, row: number, meta: Record<string, string>): RawQuestion | string => {
+    let body = source.trim();
+
+    // Optional ::title::
+    if (body.startsWith("::")) {
+        const titleEnd = body.indexOf("::", 2);
+        if (titleEnd !== -1) {
+            body = body.slice(titleEnd + 2).trim();
+        }
+    }
+
+    body = body.replace(/^\[(html|moodle|plain|markdown)\]/i, "");
+
+    const open = findUnescaped(body, "{");
+    const close = open === -1 ? -1 : findUnescaped(body, "}", open);
+    if (open === -1 || close === -1) {
+        return "لا يوجد قسم إجابات بين { }";
+    }
+
+    const before = body.slice(0, open).trim();
+    const after = body.slice(close + 1).trim();
+    // Answers in the middle of the text are fill-in-the-blank questions
+    const text = unescapeGift(after ? `${before} _____ ${after}` : before);
+    const block = body.slice(open + 1, close).trim();
+
+    const raw: RawQuestion = {
+        row,
+        text,
+        points: meta.points,
+        imageUrl: meta.image
+    };
+
+    if (block === "") {
+        return "أسئلة المقال غير مدعومة";
+    }
+
+    if (/^(T|TRUE|F|FALSE)(\s*#.*)?$/i.test(block)) {
+        raw.type = "TRUE_FALSE";
+        raw.correctAnswer = /^T/i.test(block) ? "true" : "false";
+        return raw;
+    }
+
+    if (block.startsWith("#")) {
+        const value = unescapeGift(block.slice(1).split("#")[0]);
+        const range = value.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/);
+        raw.type = "NUMERIC";
+        raw.toleranceType = "ABSOLUTE";
+        if (range) {
+            const min = parseFloat(range[1]);
+            const max = parseFloat(range[2]);
+            raw.correctAnswer = String((min + max) / 2);
+            raw.tolerance = String(Math.abs(max - min) / 2);
+        } else {
+            const [answer, tolerance] = value.split(":");
+            raw.correctAnswer = answer;
+            raw.tolerance = tolerance;
+        }
+        return raw;
+    }
+
+    const answers = splitGiftAnswers(block);
+    if (answers.length === 0) {
+        return "قسم الإجابات يجب أن يبدأ بـ = أو ~";
+    }
+
+    const wrongAnswers = answers.filter(answer => !answer.correct && !(answer.weight !== null && answer.weight > 0));
+    const correctAnswers = answers.filter(answer => answer.correct || (answer.weight !== null && answer.weight > 0));
+
+    if (wrongAnswers.length === 0) {
+        // Only = answers: accepted answers of a short answer question, the first one is kept
+        raw.type = meta.type === "MATH_EXPRESSION" ? "MATH_EXPRESSION" : "SHORT_ANSWER";
+        raw.correctAnswer = correctAnswers[0].text;
+        return raw;
+    }
+
+    raw.options = answers.map(answer => answer.text);
+    if (correctAnswers.length > 1 || answers.some(answer => !answer.correct && answer.weight !== null)) {
+        raw.type = "MULTI_SELECT";
+        raw.correctAnswer = correctAnswers.map(answer => answer.text);
+    } else {
+        raw.type = "MULTIPLE_CHOICE";
+        raw.correctAnswer = correctAnswers[0]?.text ?? "";
+    }
+
+    return raw;
+};
+
+const parseGiftQuestions = (content: string): QuestionImportReport => {
+    const rawQuestions: RawQuestion[] = [];
+    const parseErrors: ImportRowError[] = [];
+    let lines: string[] = [];
+    let meta: Record<string, string> = {};
+    let row = 0;
+
+    const flush = () => {
+        if (lines.length === 0) {
+            return;
+        }
+
+        row++;
+        const parsed = parseGiftQuestion(lines.join("\n"), row, meta);
+        if (typeof parsed === "string") {
+            parseErrors.push({ row, message: parsed });
+        } else {
+            rawQuestions.push(parsed);
+        }
+        lines = [];
+        meta = {};
+    };
+
+    for (const line of content.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith("//")) {
+            // "// type: ...", "// points: ..." and "// image: ..." carry what GIFT can't express
+            const metaMatch = trimmed.match(/^\/\/\s*(type|points|image)\s*:\s*(.+)$/i);
+            if (metaMatch) {
+                meta[metaMatch[1].toLowerCase()] = metaMatch[2].trim();
+            }
+        } else if (trimmed.startsWith("$CATEGORY:")) {
+            continue;
+        } else if (trimmed === "") {
+            flush();
+        } else {
+            lines.push(line);
+        }
+    }
+    flush();
+
+    return buildReport(rawQuestions, parseErrors);
+};
+
+/**
+ * Parses questions from an import file and validates every row
+ * @returns The valid questions in the editor shape and an error per invalid row
+ */
+export const parseQuestionImport = (content: string, format: QuizTransferFormat): QuestionImportReport => {
+    // Spreadsheet programs prepend a byte order mark to UTF-8 files
+    const text = content.replace(/^\uFEFF/, "");
+
+    if (format === "json") return parseJsonQuestions(text);
+    if (format === "csv") return parseCsvQuestions(text);
+    return parseGiftQuestions(text);
+};
+
+/**
+ * Guesses the import format from a file name
+ */
+export const getFormatFromFileName = (fileName: string): QuizTransferFormat | null => {
+    const extension = fileName.split(".").pop()?.toLowerCase();
+    if (extension === "json") return "json";
+    if (extension === "csv") return "csv";
+    if (extension === "gift" || extension === "txt") return "gift";
+    return null;
+};
+
+// Export
+
+export interface ExportableQuestion {
+    text: string;
+    type: string;
+    options: string | null;
+    correctAnswer: string;
+    correctOptionIndex?: number | null;
+    tolerance?: number | null;
+    toleranceType?: string | null;
+    points: number;
+    imageUrl?: string | null;
+}
+
+export interface ExportableQuiz {
+    title: string;
+    description?: string | null;
+    questions: ExportableQuestion[];
+}
+
+/**
+ * Question in the portable shape shared by the export formats, options referenced by their text
+ */
+const toPortableQuestion = (question: ExportableQuestion) => {
+    const options = hasQuestionOptions(question.type) ? parseQuizOptions(question.options) : undefined;
+    let correctAnswer: string | string[] = question.correctAnswer;
+
+    if (question.type === "MULTIPLE_CHOICE" && options) {
+        const index = getCorrectOptionIndex(question, options);
+        correctAnswer = index !== null ? options[index] : question.correctAnswer;
+    } else if (question.type === "MULTI_SELECT" && options) {
+        correctAnswer = parseOptionIndices(question.correctAnswer)
+            .filter(index => index < options.length)
+            .map(index => options[index]);
+    }
+
+    return {
+        type: question.type,
+        text: question.text,
+        ...(options && { options }),
+        correctAnswer,
+        points: question.points,
+        ...(question.imageUrl && { imageUrl: question.imageUrl }),
+        ...(question.type === "NUMERIC" && {
+            tolerance: question.tolerance ?? 0,
+            toleranceType: question.toleranceType || "ABSOLUTE"
+        })
+    };
+};
+
+const formatGiftNumber = (value: number) => String(Math.round(value * 100000) / 100000);
+
+const toGiftQuestion = (question: ExportableQuestion, index: number) => {
+    const portable = toPortableQuestion(question);
+    const lines: string[] = [];
+
+    if (question.type === "MATH_EXPRESSION") lines.push("// type: MATH_EXPRESSION");
+    if (question.points !== 1) lines.push(`// points: ${question.points}`);
+    if (question.imageUrl) lines.push(`// image: ${question.imageUrl}`);
+
+    let answers: string;
+    if (question.type === "TRUE_FALSE") {
+        answers = question.correctAnswer === "true" ? "{T}" : "{F}";
+    } else if (question.type === "NUMERIC") {
+        const value = parseNumericAnswer(question.correctAnswer) ?? 0;
+        const tolerance = question.tolerance ?? 0;
+        // GIFT only knows absolute margins
+        const margin = question.toleranceType === "RELATIVE" ? Math.abs(value) * tolerance / 100 : tolerance;
+        answers = `{#${formatGiftNumber(value)}:${formatGiftNumber(margin)}}`;
+    } else if (question.type === "MULTIPLE_CHOICE" && portable.options) {
+        answers = `{\n${portable.options.map(option => `${option === portable.correctAnswer ? "=" : "~"}${escapeGift(option)}`).join("\n")}\n}`;
+    } else if (question.type === "MULTI_SELECT" && portable.options) {
+        const correct = portable.correctAnswer as string[];
+        const weight = formatGiftNumber(100 / Math.max(correct.length, 1));
+        answers = `{\n${portable.options.map(option => `~%${correct.includes(option) ? weight : "-100"}%${escapeGift(option)}`).join("\n")}\n}`;
+    } else {
+        answers = `{=${escapeGift(String(portable.correctAnswer))}}`;
+    }
+
+    lines.push(`::Q${index + 1}:: ${escapeGift(question.text)} ${answers}`);
+    return lines.join("\n");
+};
+
+/**
+ * Serializes the questions of a quiz into an export file
+ */
+export const exportQuizQuestions = (quiz: ExportableQuiz, format: QuizTransferFormat): string => {
+    if (format === "json") {
+        return JSON.stringify({
+            title: quiz.title,
+            description: quiz.description || "",
+            questions: quiz.questions.map(toPortableQuestion)
+        }, null, 2);
+    }
+
+    if (format === "csv") {
+        const rows = quiz.questions.map(question => {
+            const portable = toPortableQuestion(question);
+            const values: Record<typeof CSV_COLUMNS[number], string> = {
+                type: portable.type,
+                text: portable.text,
+                options: portable.options ? JSON.stringify(portable.options) : "",
+                correctAnswer: Array.isArray(portable.correctAnswer) ? JSON.stringify(portable.correctAnswer) : portable.correctAnswer,
+                points: String(portable.points),
+                imageUrl: portable.imageUrl || "",
+                tolerance: portable.tolerance !== undefined ? String(portable.tolerance) : "",
+                toleranceType: portable.toleranceType || ""
+            };
+            return CSV_COLUMNS.map(column => escapeCsvField(values[column])).join(",");
+        });
+
+        // The byte order mark makes Excel open the Arabic text as UTF-8
+        return `\uFEFF${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+    }
+
+    return `${quiz.questions.map(toGiftQuestion).join("\n\n")}\n`;
+};
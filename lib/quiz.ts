@@ -0,0 +1,752 @@
+import { parseQuizOptions, stringifyQuizOptions } from "@/lib/utils";
+import { areExpressionsEquivalent, normalizeMathInput, parseMathExpression } from "@/lib/math-expression";
+
+export const DEFAULT_PASSING_PERCENTAGE = 50;
+
+export const getPassingPercentage = (quiz?: { passingPercentage?: number | null } | null): number => {
+    return quiz?.passingPercentage ?? DEFAULT_PASSING_PERCENTAGE;
+};
+
+export const hasPassedQuiz = (percentage: number, passingPercentage: number): boolean => {
+    return percentage >= passingPercentage;
+};
+
+/**
+ * Normalizes a passing percentage coming from the teacher forms
+ * @param value - Raw value from the request body
+ * @returns A number between 0 and 100, or null if the value is invalid
+ */
+export const parsePassingPercentage = (value: unknown): number | null => {
+    if (value === undefined || value === null || value === "") {
+        return DEFAULT_PASSING_PERCENTAGE;
+    }
+
+    const percentage = Number(value);
+    if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+        return null;
+    }
+
+    return percentage;
+};
+
+/** Extra seconds accepted after a timed attempt's deadline to absorb network latency on submit */
+export const QUIZ_SUBMISSION_GRACE_SECONDS = 30;
+
+/**
+ * Computes the deadline of an attempt from the quiz timer
+ * @param startedAt - When the attempt started
+ * @param timerMinutes - Quiz timer in minutes (null means untimed)
+ * @returns The deadline, or null for untimed quizzes
+ */
+export const getAttemptDeadline = (startedAt: Date, timerMinutes: number | null | undefined): Date | null => {
+    if (!timerMinutes || timerMinutes <= 0) {
+        return null;
+    }
+
+    return new Date(startedAt.getTime() + timerMinutes * 60 * 1000);
+};
+
+export const getRemainingSeconds = (expiresAt: Date | null, now: Date = new Date()): number | null => {
+    if (!expiresAt) {
+        return null;
+    }
+
+    return Math.max(0, Math.floor((expiresAt.getTime() - now.getTime()) / 1000));
+};
+
+/**
+ * Whether an attempt can no longer be submitted (deadline plus grace period has passed)
+ */
+export const isAttemptExpired = (expiresAt: Date | null, now: Date = new Date()): boolean => {
+    if (!expiresAt) {
+        return false;
+    }
+
+    return now.getTime() > expiresAt.getTime() + QUIZ_SUBMISSION_GRACE_SECONDS * 1000;
+};
+
+export const QUESTION_TYPES = [
+    "MULTIPLE_CHOICE",
+    "MULTI_SELECT",
+    "TRUE_FALSE",
+    "SHORT_ANSWER",
+    "NUMERIC",
+    "MATH_EXPRESSION"
+] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    MULTIPLE_CHOICE: "اختيار من متعدد",
+    MULTI_SELECT: "اختيار عدة إجابات",
+    TRUE_FALSE: "صح أو خطأ",
+    SHORT_ANSWER: "إجابة قصيرة",
+    NUMERIC: "إجابة رقمية",
+    MATH_EXPRESSION: "تعبير رياضي"
+};
+
+/**
+ * Whether questions of this type store a list of options (and get their options shuffled)
+ */
+export const hasQuestionOptions = (type: string): boolean => {
+    return type === "MULTIPLE_CHOICE" || type === "MULTI_SELECT";
+};
+
+/**
+ * Question types whose answers wait in the grading queue for a teacher to review.
+ * The auto-grader still gives them a provisional grade by exact match until then.
+ */
+export const MANUALLY_GRADED_TYPES = ["SHORT_ANSWER"] as const;
+
+export const isManuallyGraded = (type: string): boolean => {
+    return (MANUALLY_GRADED_TYPES as readonly string[]).includes(type);
+};
+
+export const TOLERANCE_TYPES = ["ABSOLUTE", "RELATIVE"] as const;
+
+export type ToleranceType = typeof TOLERANCE_TYPES[number];
+
+/**
+ * Parses a numeric answer, accepting Arabic-Indic digits and a comma as decimal separator
+ * @returns The number, or null if the value is not a number
+ */
+export const parseNumericAnswer = (value: unknown): number | null => {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : null;
+    }
+
+    if (typeof value !== "string" || !value.trim()) {
+        return null;
+    }
+
+    const number = Number(normalizeMathInput(value).replace(/,/g, ".").replace(/\s/g, ""));
+    return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Whether a numeric answer is close enough to the expected value
+ * @param tolerance - Allowed difference; a percentage of the expected value for RELATIVE tolerances
+ */
+export const isWithinTolerance = (
+    value: number,
+    expected: number,
+    tolerance: number | null | undefined,
+    toleranceType: string | null | undefined
+): boolean => {
+    const allowed = toleranceType === "RELATIVE"
+        ? Math.abs(expected) * (tolerance ?? 0) / 100
+        : tolerance ?? 0;
+
+    // Small epsilon so answers exactly on the boundary are not rejected by floating point noise
+    return Math.abs(value - expected) <= allowed + 1e-9;
+};
+
+/**
+ * Formats the correct answer of a numeric question with its tolerance, e.g. "3.14 ± 0.01" or "50 ± 5%"
+ */
+export const formatNumericAnswer = (
+    correctAnswer: string,
+    tolerance: number | null | undefined,
+    toleranceType: string | null | undefined
+): string => {
+    if (!tolerance) {
+        return correctAnswer;
+    }
+
+    return `${correctAnswer} ± ${tolerance}${toleranceType === "RELATIVE" ? "%" : ""}`;
+};
+
+/**
+ * Parses a JSON array of option indices (multi-select answers)
+ * @returns Sorted unique indices, or an empty array if parsing fails
+ */
+export const parseOptionIndices = (value: string | null): number[] => {
+    if (!value) return [];
+
+    try {
+        const parsed = JSON.parse(value);
+        if (!Array.isArray(parsed)) return [];
+        return Array.from(new Set(parsed.filter((index): index is number => Number.isInteger(index) && index >= 0)))
+            .sort((a, b) => a - b);
+    } catch {
+        return [];
+    }
+};
+
+export interface SubmittedQuizAnswer {
+    questionId: string;
+    answer: string; // Multi-select answers are a JSON array of the displayed positions of the chosen options
+    optionIndex?: number; // Position of the chosen option as displayed, for multiple choice questions
+}
+
+/**
+ * Keeps only well-formed answers from a request body or stored draft
+ */
+export const normalizeSubmittedAnswers = (items: unknown): SubmittedQuizAnswer[] => {
+    if (!Array.isArray(items)) return [];
+
+    return items
+        .filter(item => item && typeof item.questionId === "string" && typeof item.answer === "string")
+        .map(item => ({
+            questionId: item.questionId,
+            answer: item.answer,
+            ...(Number.isInteger(item.optionIndex) && { optionIndex: item.optionIndex })
+        }));
+};
+
+/**
+ * Safely parses autosaved draft answers stored on a quiz attempt
+ * @param draft - JSON string of answers or null
+ * @returns Array of answers or empty array if parsing fails
+ */
+export const parseDraftAnswers = (draft: string | null): SubmittedQuizAnswer[] => {
+    if (!draft) return [];
+
+    try {
+        return normalizeSubmittedAnswers(JSON.parse(draft));
+    } catch {
+        return [];
+    }
+};
+
+export interface GradableQuestion {
+    id: string;
+    type: string;
+    options: string | null;
+    correctAnswer: string;
+    correctOptionIndex?: number | null;
+    tolerance?: number | null;
+    toleranceType?: string | null;
+    points: number;
+}
+
+export interface GradedQuizAnswer {
+    questionId: string;
+    studentAnswer: string;
+    selectedOptionIndex: number | null;
+    correctAnswer: string;
+    isCorrect: boolean;
+    pointsEarned: number;
+}
+
+/**
+ * Index of the correct option of a multiple choice question.
+ * Questions saved before option indices were stored fall back to the first option matching the answer text.
+ */
+export const getCorrectOptionIndex = (
+    question: { correctAnswer: string; correctOptionIndex?: number | null },
+    options: string[]
+): number | null => {
+    const storedIndex = question.correctOptionIndex;
+    if (typeof storedIndex === "number" && storedIndex >= 0 && storedIndex < options.length) {
+        return storedIndex;
+    }
+
+    const index = options.findIndex(option => option.trim() === question.correctAnswer.trim());
+    return index >= 0 ? index : null;
+};
+
+/**
+ * Maps a submitted multiple choice answer back to the option's authored index
+ * @param options - Options in their authored order
+ * @param answer - The submitted answer, if any
+ * @param order - Option order shown during the attempt
+ */
+const resolveSelectedOptionIndex = (
+    options: string[],
+    answer: SubmittedQuizAnswer | undefined,
+    order?: number[]
+): number | null => {
+    if (!answer) return null;
+
+    if (typeof answer.optionIndex === "number" && answer.optionIndex >= 0 && answer.optionIndex < options.length) {
+        const displayedIndices = applyOptionOrder(options.map((_, index) => index), order);
+        return displayedIndices[answer.optionIndex];
+    }
+
+    // Answers saved without an option index only carry the option text
+    const index = options.findIndex(option => option.trim() === answer.answer.trim());
+    return index >= 0 ? index : null;
+};
+
+/**
+ * Maps the displayed positions of a multi-select answer back to the options' authored indices
+ */
+const resolveSelectedOptionIndices = (
+    options: string[],
+    answer: SubmittedQuizAnswer | undefined,
+    order?: number[]
+): number[] => {
+    if (!answer) return [];
+
+    const displayedIndices = applyOptionOrder(options.map((_, index) => index), order);
+    return parseOptionIndices(answer.answer)
+        .filter(index => index < options.length)
+        .map(index => displayedIndices[index])
+        .sort((a, b) => a - b);
+};
+
+/**
+ * Partial credit of a multi-select answer: each correct option chosen earns a share,
+ * each wrong option chosen takes one away, never going below zero
+ * @returns The earned fraction between 0 and 1
+ */
+export const getMultiSelectCredit = (selected: number[], correct: number[]): number => {
+    if (correct.length === 0) return 0;
+
+    const hits = selected.filter(index => correct.includes(index)).length;
+    const misses = selected.length - hits;
+
+    return Math.max(0, (hits - misses) / correct.length);
+};
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+/**
+ * Grades a set of student answers against the quiz questions
+ * @param questions - The quiz questions including their correct answers
+ * @param answers - The answers submitted by the student (missing answers count as empty)
+ * @param optionOrder - Option order shown during the attempt, used to resolve multiple choice answers
+ * @returns Score, total points, percentage and the per-question results
+ */
+export const gradeQuizAnswers = (
+    questions: GradableQuestion[],
+    answers: SubmittedQuizAnswer[],
+    optionOrder: Record<string, number[]> = {}
+) => {
+    let score = 0;
+    let totalPoints = 0;
+    const gradedAnswers: GradedQuizAnswer[] = [];
+
+    for (const question of questions) {
+        totalPoints += question.points;
+        const submitted = answers.find(a => a.questionId === question.id);
+        let studentAnswer = submitted?.answer || "";
+        let selectedOptionIndex: number | null = null;
+
+        let isCorrect = false;
+        let credit: number | null = null;
+
+        if (question.type === "MULTIPLE_CHOICE") {
+            // Compare option positions rather than texts so identical options can't both count as correct
+            const options = parseQuizOptions(question.options);
+            selectedOptionIndex = resolveSelectedOptionIndex(options, submitted, optionOrder[question.id]);
+            if (selectedOptionIndex !== null) {
+                studentAnswer = options[selectedOptionIndex];
+            }
+
+            isCorrect = selectedOptionIndex !== null && selectedOptionIndex === getCorrectOptionIndex(question, options);
+        } else if (question.type === "TRUE_FALSE") {
+            isCorrect = studentAnswer.toLowerCase() === question.correctAnswer.toLowerCase();
+        } else if (question.type === "SHORT_ANSWER") {
+            // For short answer, do a case-insensitive comparison
+            isCorrect = studentAnswer.trim().toLowerCase() === question.correctAnswer.trim().toLowerCase();
+        } else if (question.type === "MULTI_SELECT") {
+            const options = parseQuizOptions(question.options);
+            const selected = resolveSelectedOptionIndices(options, submitted, optionOrder[question.id]);
+            studentAnswer = JSON.stringify(selected);
+            credit = getMultiSelectCredit(selected, parseOptionIndices(question.correctAnswer));
+            isCorrect = credit === 1;
+        } else if (question.type === "NUMERIC") {
+            const expected = parseNumericAnswer(question.correctAnswer);
+            const value = parseNumericAnswer(studentAnswer);
+            isCorrect = expected !== null && value !== null &&
+                isWithinTolerance(value, expected, question.tolerance, question.toleranceType);
+        } else if (question.type === "MATH_EXPRESSION") {
+            isCorrect = studentAnswer.trim() !== "" && areExpressionsEquivalent(question.correctAnswer, studentAnswer);
+        }
+
+        const pointsEarned = credit !== null
+            ? roundPoints(question.points * credit)
+            : isCorrect ? question.points : 0;
+        score += pointsEarned;
+
+        gradedAnswers.push({
+            questionId: question.id,
+            studentAnswer,
+            selectedOptionIndex,
+            correctAnswer: question.correctAnswer,
+            isCorrect,
+            pointsEarned
+        });
+    }
+
+    score = roundPoints(score);
+    const percentage = totalPoints > 0 ? (score / totalPoints) * 100 : 0;
+
+    return { score, totalPoints, percentage, answers: gradedAnswers };
+};
+
+/**
+ * Score and percentage of a quiz result from the points stored on its answers
+ */
+export const calculateQuizScore = (answers: { pointsEarned: number }[], totalPoints: number) => {
+    const score = roundPoints(answers.reduce((sum, answer) => sum + answer.pointsEarned, 0));
+    const percentage = totalPoints > 0 ? (score / totalPoints) * 100 : 0;
+
+    return { score, percentage };
+};
+
+/**
+ * Parses the points a teacher awards to an answer
+ * @returns The points rounded to two decimals, or null if they are not between 0 and the question's points
+ */
+export const parseAwardedPoints = (value: unknown, maxPoints: number): number | null => {
+    const points = parseNumericAnswer(value);
+    if (points === null || points < 0 || points > maxPoints) {
+        return null;
+    }
+
+    return roundPoints(points);
+};
+
+export const QUESTION_DIFFICULTIES = ["EASY", "MEDIUM", "HARD"] as const;
+
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+    EASY: "سهل",
+    MEDIUM: "متوسط",
+    HARD: "صعب"
+};
+
+export const isQuestionDifficulty = (value: unknown): value is QuestionDifficulty => {
+    return typeof value === "string" && (QUESTION_DIFFICULTIES as readonly string[]).includes(value);
+};
+
+/**
+ * Returns a shuffled copy of an array (Fisher-Yates)
+ */
+export const shuffleArray = <T>(items: T[]): T[] => {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+};
+
+/**
+ * Parses the frozen question selection stored on a quiz attempt
+ * @param value - JSON array of question ids or null
+ * @returns The question ids in display order, or null if the attempt uses the quiz's own questions
+ */
+export const parseAttemptQuestionIds = (value: string | null): string[] | null => {
+    if (!value) return null;
+
+    try {
+        const parsed = JSON.parse(value);
+        if (!Array.isArray(parsed)) return null;
+        return parsed.filter((id): id is string => typeof id === "string");
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Parses the per-question option order stored on a quiz attempt
+ * @param value - JSON object mapping question ids to option indices
+ * @returns The option order map, empty if nothing was stored
+ */
+export const parseOptionOrder = (value: string | null): Record<string, number[]> => {
+    if (!value) return {};
+
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+
+        const order: Record<string, number[]> = {};
+        for (const [questionId, indices] of Object.entries(parsed)) {
+            if (Array.isArray(indices) && indices.every(index => Number.isInteger(index))) {
+                order[questionId] = indices as number[];
+            }
+        }
+        return order;
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * Reorders options according to a stored permutation
+ * @param options - Options in their authored order
+ * @param order - Option indices in display order
+ * @returns The reordered options, or the original order if the permutation no longer matches the options
+ */
+export const applyOptionOrder = <T>(options: T[], order?: number[]): T[] => {
+    if (!order || order.length !== options.length) {
+        return options;
+    }
+
+    const isPermutation = [...order].sort((a, b) => a - b).every((value, index) => value === index);
+    if (!isPermutation) {
+        return options;
+    }
+
+    return order.map(index => options[index]);
+};
+
+/**
+ * Sorts questions to match the frozen selection of an attempt, dropping questions that are not part of it
+ */
+export const orderQuestionsByIds = <T extends { id: string }>(questions: T[], questionIds: string[]): T[] => {
+    const byId = new Map(questions.map(question => [question.id, question]));
+    return questionIds
+        .map(id => byId.get(id))
+        .filter((question): question is T => question !== undefined);
+};
+
+export interface QuizDrawRuleInput {
+    count: number;
+    chapterId: string | null;
+    topic: string | null;
+    difficulty: QuestionDifficulty | null;
+}
+
+/**
+ * Normalizes the draw rules sent by the teacher quiz forms
+ * @param value - Raw drawRules value from the request body
+ * @returns The cleaned rules, or an error message if a rule is invalid
+ */
+export const parseDrawRules = (value: unknown): { rules: QuizDrawRuleInput[]; error?: string } => {
+    if (value === undefined || value === null) {
+        return { rules: [] };
+    }
+
+    if (!Array.isArray(value)) {
+        return { rules: [], error: "Draw rules must be an array" };
+    }
+
+    const rules: QuizDrawRuleInput[] = [];
+    for (let i = 0; i < value.length; i++) {
+        const rule = value[i] || {};
+        const count = Number(rule.count);
+
+        if (!Number.isInteger(count) || count <= 0) {
+            return { rules: [], error: `Draw rule ${i + 1}: Count must be a positive whole number` };
+        }
+
+        if (rule.difficulty && !isQuestionDifficulty(rule.difficulty)) {
+            return { rules: [], error: `Draw rule ${i + 1}: Invalid difficulty` };
+        }
+
+        rules.push({
+            count,
+            chapterId: rule.chapterId || null,
+            topic: typeof rule.topic === "string" && rule.topic.trim() ? rule.topic.trim() : null,
+            difficulty: rule.difficulty || null
+        });
+    }
+
+    return { rules };
+};
+
+export interface QuestionInput {
+    id?: string; // Set when editing an existing question, new questions only have a temporary client id
+    text?: string;
+    type?: string;
+    options?: string[];
+    correctAnswer?: string | number | number[];
+    tolerance?: number | string | null;
+    toleranceType?: string | null;
+    points?: number;
+    imageUrl?: string | null;
+}
+
+const parseTolerance = (value: unknown): number | null => {
+    if (value === undefined || value === null || value === "") {
+        return 0;
+    }
+
+    const tolerance = Number(value);
+    return Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : null;
+};
+
+/**
+ * Validates a question coming from the teacher forms (multiple choice answers are option indices,
+ * multi-select answers arrays of option indices)
+ * @returns An error message, or null if the question is valid
+ */
+export const validateQuestionInput = (question: QuestionInput): string | null => {
+    if (!question.text || !question.text.trim()) {
+        return "Text is required";
+    }
+
+    if (question.type === "MULTIPLE_CHOICE") {
+        const validOptions = (question.options || []).filter(option => option && option.trim() !== "");
+        if (validOptions.length < 2) {
+            return "At least 2 valid options are required";
+        }
+
+        if (typeof question.correctAnswer !== "number" || question.correctAnswer < 0 || question.correctAnswer >= validOptions.length) {
+            return "Valid correct answer index is required";
+        }
+    } else if (question.type === "MULTI_SELECT") {
+        const validOptions = (question.options || []).filter(option => option && option.trim() !== "");
+        if (validOptions.length < 2) {
+            return "At least 2 valid options are required";
+        }
+
+        const correct = question.correctAnswer;
+        if (!Array.isArray(correct) || correct.length === 0 ||
+            correct.some(index => !Number.isInteger(index) || index < 0 || index >= validOptions.length)) {
+            return "At least one valid correct option index is required";
+        }
+    } else if (question.type === "TRUE_FALSE") {
+        if (question.correctAnswer !== "true" && question.correctAnswer !== "false") {
+            return 'Correct answer must be "true" or "false"';
+        }
+    } else if (question.type === "SHORT_ANSWER") {
+        if (question.correctAnswer === undefined || !question.correctAnswer.toString().trim()) {
+            return "Correct answer is required";
+        }
+    } else if (question.type === "NUMERIC") {
+        if (parseNumericAnswer(question.correctAnswer) === null) {
+            return "Correct answer must be a number";
+        }
+
+        if (parseTolerance(question.tolerance) === null) {
+            return "Tolerance must be a number greater than or equal to 0";
+        }
+
+        if (question.toleranceType && !(TOLERANCE_TYPES as readonly string[]).includes(question.toleranceType)) {
+            return "Invalid tolerance type";
+        }
+    } else if (question.type === "MATH_EXPRESSION") {
+        if (typeof question.correctAnswer !== "string" || !parseMathExpression(question.correctAnswer)) {
+            return "Correct answer must be a valid math expression";
+        }
+    } else {
+        return "Invalid question type";
+    }
+
+    if (!question.points || question.points <= 0) {
+        return "Points must be greater than 0";
+    }
+
+    return null;
+};
+
+/**
+ * Converts a validated question input into the stored format (options as JSON, correct option as its text,
+ * correct multi-select options as a JSON array of indices)
+ */
+export const toStoredQuestion = (question: QuestionInput) => {
+    let correctAnswer = String(question.correctAnswer ?? "");
+    let correctOptionIndex: number | null = null;
+    let options: string | null = null;
+    let tolerance: number | null = null;
+    let toleranceType: ToleranceType | null = null;
+
+    if (question.type === "MULTIPLE_CHOICE") {
+        const validOptions = (question.options || []).filter(option => option && option.trim() !== "");
+        correctOptionIndex = question.correctAnswer as number;
+        correctAnswer = validOptions[correctOptionIndex].trim();
+        options = stringifyQuizOptions(validOptions);
+    } else if (question.type === "MULTI_SELECT") {
+        const validOptions = (question.options || []).filter(option => option && option.trim() !== "");
+        correctAnswer = JSON.stringify(Array.from(new Set(question.correctAnswer as number[])).sort((a, b) => a - b));
+        options = stringifyQuizOptions(validOptions);
+    } else if (question.type === "NUMERIC") {
+        correctAnswer = String(parseNumericAnswer(question.correctAnswer));
+        tolerance = parseTolerance(question.tolerance);
+        toleranceType = question.toleranceType === "RELATIVE" ? "RELATIVE" : "ABSOLUTE";
+    }
+
+    return {
+        text: question.text!.trim(),
+        type: question.type!,
+        options,
+        correctAnswer,
+        correctOptionIndex,
+        tolerance,
+        toleranceType,
+        points: Number(question.points),
+        imageUrl: question.imageUrl || null
+    };
+};
+
+interface StoredResultAnswer {
+    questionId: string;
+    studentAnswer: string;
+    correctAnswer: string;
+    selectedOptionIndex?: number | null;
+    question: {
+        type: string;
+        options: string | null;
+        correctOptionIndex?: number | null;
+    };
+}
+
+/**
+ * Arranges the answers of a quiz result the way the student saw them during the attempt
+ * @param answers - Result answers including their question
+ * @param questionOrder - JSON question ids stored on the result (null keeps the given order)
+ * @param optionOrder - JSON option order stored on the result
+ * @returns Answers in display order; options are reordered and selectedOptionIndex / correctOptionIndex
+ * (multiple choice) and selectedOptionIndices / correctOptionIndices (multi-select) point at displayed positions
+ */
+export const arrangeAnswersAsShown = <T extends StoredResultAnswer>(
+    answers: T[],
+    questionOrder: string | null,
+    optionOrder: string | null
+) => {
+    const questionIds = parseAttemptQuestionIds(questionOrder);
+    const order = parseOptionOrder(optionOrder);
+
+    const sortedAnswers = questionIds
+        ? [...answers].sort((a, b) => {
+            const aIndex = questionIds.indexOf(a.questionId);
+            const bIndex = questionIds.indexOf(b.questionId);
+            return (aIndex === -1 ? Infinity : aIndex) - (bIndex === -1 ? Infinity : bIndex);
+        })
+        : answers;
+
+    return sortedAnswers.map(answer => {
+        if (!hasQuestionOptions(answer.question.type)) {
+            return { ...answer, correctOptionIndex: null, selectedOptionIndices: null, correctOptionIndices: null };
+        }
+
+        const options = parseQuizOptions(answer.question.options);
+        const displayedIndices = applyOptionOrder(options.map((_, index) => index), order[answer.questionId]);
+        const displayedOptions = stringifyQuizOptions(displayedIndices.map(index => options[index]));
+
+        if (answer.question.type === "MULTI_SELECT") {
+            const toDisplayed = (indices: number[]) => indices
+                .filter(index => displayedIndices.includes(index))
+                .map(index => displayedIndices.indexOf(index))
+                .sort((a, b) => a - b);
+
+            return {
+                ...answer,
+                correctOptionIndex: null,
+                selectedOptionIndices: toDisplayed(parseOptionIndices(answer.studentAnswer)),
+                correctOptionIndices: toDisplayed(parseOptionIndices(answer.correctAnswer)),
+                question: {
+                    ...answer.question,
+                    options: displayedOptions
+                }
+            };
+        }
+
+        const correctIndex = getCorrectOptionIndex(
+            { correctAnswer: answer.correctAnswer, correctOptionIndex: answer.question.correctOptionIndex },
+            options
+        );
+        const selectedIndex = answer.selectedOptionIndex ?? null;
+
+        return {
+            ...answer,
+            selectedOptionIndex: selectedIndex !== null && displayedIndices.includes(selectedIndex)
+                ? displayedIndices.indexOf(selectedIndex)
+                : null,
+            correctOptionIndex: correctIndex !== null ? displayedIndices.indexOf(correctIndex) : null,
+            selectedOptionIndices: null,
+            correctOptionIndices: null,
+            question: {
+                ...answer.question,
+                options: displayedOptions
+            }
+        };
+    });
+};
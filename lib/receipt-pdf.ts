@@ -0,0 +1,327 @@
+import path from "path";
+import PDFDocument from "pdfkit";
+import bidiFactory from "bidi-js";
+import type { MonthlyStatement, Receipt } from "@/lib/receipts";
+
+// DejaVu Sans covers Arabic and Latin text, digits included, and fontkit shapes the Arabic letters
+const FONT_DIR = path.join(process.cwd(), "node_modules", "dejavu-fonts-ttf", "ttf");
+const REGULAR_FONT = path.join(FONT_DIR, "DejaVuSans.ttf");
+const BOLD_FONT = path.join(FONT_DIR, "DejaVuSans-Bold.ttf");
+
+// Students and staff are in Egypt, the server may not be
+const TIME_ZONE = "Africa/Cairo";
+
+const MARGIN = 50;
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#4b5563";
+const CREDIT_COLOR = "#15803d";
+const DEBIT_COLOR = "#b91c1c";
+const BORDER_COLOR = "#d1d5db";
+
+const RECEIPT_TITLES: Record<string, string> = {
+    DEPOSIT: "إيصال شحن رصيد",
+    PURCHASE: "إيصال شراء"
+};
+
+const ARABIC_SCRIPT = /\p{Script=Arabic}/u;
+
+const bidi = bidiFactory();
+
+type Align = "right" | "left";
+
+interface TextStyle {
+    size?: number;
+    bold?: boolean;
+    color?: string;
+}
+
+/**
+ * Splits a line into runs of one direction, in the order they are drawn from left to right.
+ * fontkit shapes runs in the Arabic script and reverses them when it lays them out, Arabic-Indic digits included,
+ * so each run is only reversed here when fontkit would get its direction wrong
+ */
+const toVisualRuns = (text: string) => {
+    const { levels } = bidi.getEmbeddingLevels(text, "rtl");
+    const mirrored = bidi.getMirroredCharactersMap(text, levels);
+    const runs: { text: string; level: number }[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+        const char = mirrored.get(i) ?? text[i];
+        const last = runs[runs.length - 1];
+        if (last && last.level === levels[i]) {
+            last.text += char;
+        } else {
+            runs.push({ text: char, level: levels[i] });
+        }
+    }
+
+    // Reverses every sequence of runs at each level or above, from the highest level down to 1
+    const maxLevel = Math.max(0, ...runs.map(run => run.level));
+    for (let level = maxLevel; level >= 1; level--) {
+        for (let start = 0; start < runs.length; start++) {
+            if (runs[start].level < level) {
+                continue;
+            }
+            let end = start;
+            while (end < runs.length && runs[end].level >= level) {
+                end++;
+            }
+            runs.splice(start, end - start, ...runs.slice(start, end).reverse());
+            start = end;
+        }
+    }
+
+    return runs.map(run => (run.level % 2 === 1) !== ARABIC_SCRIPT.test(run.text)
+        ? Array.from(run.text).reverse().join("")
+        : run.text);
+};
+
+// An empty feature list makes pdfkit lay out the whole run at once instead of word by word
+const RUN_OPTIONS = { lineBreak: false, features: [] };
+
+const setStyle = (doc: PDFKit.PDFDocument, { size = 10, bold = false, color = TEXT_COLOR }: TextStyle) => {
+    doc.font(bold ? BOLD_FONT : REGULAR_FONT).fontSize(size).fillColor(color);
+};
+
+const measureLine = (doc: PDFKit.PDFDocument, line: string) => {
+    return toVisualRuns(line).reduce((width, run) => width + doc.widthOfString(run, RUN_OPTIONS), 0);
+};
+
+// Breaks text into lines that fit the width, at spaces
+const wrapText = (doc: PDFKit.PDFDocument, text: string, width: number) => {
+    const lines: string[] = [];
+    let line = "";
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureLine(doc, candidate) > width) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+
+    return line ? [...lines, line] : lines;
+};
+
+/**
+ * Draws right-to-left text in a box, wrapping it to the box's width
+ * @returns The height of the drawn text
+ */
+const drawText = (
+    doc: PDFKit.PDFDocument,
+    text: string,
+    box: { x: number; y: number; width: number; align?: Align },
+    style: TextStyle = {}
+) => {
+    setStyle(doc, style);
+    const lineHeight = doc.currentLineHeight(true);
+    const lines = wrapText(doc, text, box.width);
+
+    lines.forEach((line, index) => {
+        const runs = toVisualRuns(line);
+        const widths = runs.map(run => doc.widthOfString(run, RUN_OPTIONS));
+        const lineWidth = widths.reduce((sum, width) => sum + width, 0);
+        let x = box.align === "left" ? box.x : box.x + box.width - lineWidth;
+
+        runs.forEach((run, runIndex) => {
+            doc.text(run, x, box.y + index * lineHeight, RUN_OPTIONS);
+            x += widths[runIndex];
+        });
+    });
+
+    return lines.length * lineHeight;
+};
+
+const drawRule = (doc: PDFKit.PDFDocument, y: number) => {
+    doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+};
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)} جنيه`;
+
+const formatDate = (date: Date, options: Intl.DateTimeFormatOptions) => {
+    return new Date(date).toLocaleString("ar-EG", { timeZone: TIME_ZONE, ...options });
+};
+
+const createDocument = (title: string) => {
+    return new PDFDocument({
+        size: "A4",
+        margin: MARGIN,
+        font: REGULAR_FONT,
+        info: {
+            Title: title
+        }
+    });
+};
+
+const toBuffer = (doc: PDFKit.PDFDocument) => {
+    return new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+        doc.end();
+    });
+};
+
+// Labelled values laid out in columns from right to left
+const drawFields = (doc: PDFKit.PDFDocument, fields: { label: string; value: string; color?: string }[], y: number, columns: number) => {
+    const contentWidth = doc.page.width - MARGIN * 2;
+    const columnWidth = contentWidth / columns;
+    let rowY = y;
+
+    for (let start = 0; start < fields.length; start += columns) {
+        let rowHeight = 0;
+        fields.slice(start, start + columns).forEach((field, index) => {
+            const box = { x: doc.page.width - MARGIN - (index + 1) * columnWidth, y: rowY, width: columnWidth - 10 };
+            const labelHeight = drawText(doc, field.label, box, { size: 9, color: MUTED_COLOR });
+            const valueHeight = drawText(doc, field.value, { ...box, y: rowY + labelHeight + 2 }, { size: 11, bold: true, color: field.color });
+            rowHeight = Math.max(rowHeight, labelHeight + valueHeight + 2);
+        });
+        rowY += rowHeight + 12;
+    }
+
+    return rowY;
+};
+
+/**
+ * The receipt of a deposit or a purchase as a PDF
+ */
+export const renderReceiptPdf = (receipt: Receipt) => {
+    const title = RECEIPT_TITLES[receipt.type] ?? "إيصال";
+    const doc = createDocument(`${title} ${receipt.number}`);
+    const contentWidth = doc.page.width - MARGIN * 2;
+    const right = { x: MARGIN, width: contentWidth };
+
+    let y = MARGIN;
+    const titleHeight = drawText(doc, title, { ...right, y }, { size: 18, bold: true });
+    drawText(doc, "رقم الإيصال", { ...right, y, align: "left" }, { size: 9, color: MUTED_COLOR });
+    drawText(doc, receipt.number, { ...right, y: y + 14, align: "left" }, { size: 12, bold: true });
+    y += titleHeight + 4;
+    y += drawText(doc, formatDate(receipt.createdAt, {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit"
+    }), { ...right, y }, { size: 10, color: MUTED_COLOR });
+
+    y += 12;
+    drawRule(doc, y);
+    y += 16;
+
+    y = drawFields(doc, [
+        { label: "اسم الطالب", value: receipt.student.fullName },
+        { label: "رقم الهاتف", value: receipt.student.phoneNumber },
+        { label: "رقم هاتف ولي الأمر", value: receipt.student.parentPhoneNumber },
+        { label: "طريقة الدفع", value: receipt.paymentMethod }
+    ], y, 2);
+
+    const amountWidth = 120;
+    const descriptionBox = { x: MARGIN + amountWidth, width: contentWidth - amountWidth };
+    const amountBox = { x: MARGIN, width: amountWidth, align: "left" as const };
+
+    const drawRow = (description: string, amount: string, style: TextStyle = {}) => {
+        const height = Math.max(
+            drawText(doc, description, { ...descriptionBox, y }, style),
+            drawText(doc, amount, { ...amountBox, y }, style)
+        );
+        y += height + 8;
+        drawRule(doc, y - 4);
+    };
+
+    drawRow("البيان", "المبلغ", { bold: true });
+    for (const item of receipt.items) {
+        drawRow(item.title, formatAmount(item.price));
+    }
+    if (receipt.discount) {
+        drawRow(receipt.discount.label, `- ${formatAmount(receipt.discount.amount)}`, { color: CREDIT_COLOR });
+    }
+
+    y += 8;
+    const totalLabel = receipt.type === "DEPOSIT" ? "المبلغ المضاف للرصيد" : "الإجمالي المدفوع";
+    drawText(doc, totalLabel, { ...descriptionBox, y }, { size: 12, bold: true });
+    drawText(doc, formatAmount(receipt.total), { ...amountBox, y }, { size: 12, bold: true });
+
+    return toBuffer(doc);
+};
+
+/**
+ * A student's monthly statement as a PDF, its transactions table continued over as many pages as needed
+ */
+export const renderStatementPdf = (statement: MonthlyStatement) => {
+    const monthName = formatDate(new Date(Date.UTC(statement.year, statement.month - 1, 15)), { year: "numeric", month: "long" });
+    const doc = createDocument(`كشف حساب شهر ${monthName}`);
+    const contentWidth = doc.page.width - MARGIN * 2;
+    const right = { x: MARGIN, width: contentWidth };
+    const bottom = doc.page.height - MARGIN;
+
+    let y = MARGIN;
+    const titleHeight = drawText(doc, `كشف حساب شهر ${monthName}`, { ...right, y }, { size: 18, bold: true });
+    drawText(doc, statement.student.phoneNumber, { ...right, y, align: "left" }, { size: 10 });
+    drawText(doc, `ولي الأمر: ${statement.student.parentPhoneNumber}`, { ...right, y: y + 16, align: "left" }, { size: 10, color: MUTED_COLOR });
+    y += titleHeight + 4;
+    y += drawText(doc, statement.student.fullName, { ...right, y }, { size: 11, color: MUTED_COLOR });
+
+    y += 12;
+    drawRule(doc, y);
+    y += 16;
+
+    y = drawFields(doc, [
+        { label: "الرصيد في بداية الشهر", value: formatAmount(statement.openingBalance) },
+        { label: "إجمالي الإضافات", value: formatAmount(statement.totalCredits), color: CREDIT_COLOR },
+        { label: "إجمالي الخصومات", value: formatAmount(statement.totalDebits), color: DEBIT_COLOR },
+        { label: "الرصيد في نهاية الشهر", value: formatAmount(statement.closingBalance) }
+    ], y, 4);
+
+    if (statement.transactions.length === 0) {
+        drawText(doc, "لا توجد معاملات في هذا الشهر", { ...right, y: y + 12 }, { color: MUTED_COLOR });
+        return toBuffer(doc);
+    }
+
+    // Columns from right to left: date, description, amount, balance
+    const dateWidth = 80;
+    const amountWidth = 100;
+    const columns = {
+        date: { x: doc.page.width - MARGIN - dateWidth, width: dateWidth },
+        description: { x: MARGIN + amountWidth * 2, width: contentWidth - dateWidth - amountWidth * 2 - 10 },
+        amount: { x: MARGIN + amountWidth, width: amountWidth - 10, align: "left" as const },
+        balance: { x: MARGIN, width: amountWidth, align: "left" as const }
+    };
+
+    const drawHeader = () => {
+        const style = { bold: true };
+        const height = Math.max(
+            drawText(doc, "التاريخ", { ...columns.date, y }, style),
+            drawText(doc, "البيان", { ...columns.description, y }, style),
+            drawText(doc, "المبلغ", { ...columns.amount, y }, style),
+            drawText(doc, "الرصيد", { ...columns.balance, y }, style)
+        );
+        y += height + 8;
+        drawRule(doc, y - 4);
+    };
+
+    drawHeader();
+
+    for (const transaction of statement.transactions) {
+        setStyle(doc, {});
+        const rowHeight = wrapText(doc, transaction.description, columns.description.width).length * doc.currentLineHeight(true);
+        if (y + rowHeight > bottom) {
+            doc.addPage();
+            y = MARGIN;
+            drawHeader();
+        }
+
+        drawText(doc, formatDate(transaction.createdAt, { year: "numeric", month: "numeric", day: "numeric" }), { ...columns.date, y });
+        drawText(doc, transaction.description, { ...columns.description, y });
+        drawText(doc, `${transaction.amount > 0 ? "+" : ""}${formatAmount(transaction.amount)}`, { ...columns.amount, y }, {
+            color: transaction.amount > 0 ? CREDIT_COLOR : DEBIT_COLOR
+        });
+        drawText(doc, formatAmount(transaction.balance), { ...columns.balance, y });
+        y += rowHeight + 8;
+        drawRule(doc, y - 4);
+    }
+
+    return toBuffer(doc);
+};
@@ -0,0 +1,246 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { fromPiastres, ReceiptDetails, USER_WALLET_ACCOUNT } from "@/lib/ledger";
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
+import { formatVoucherCode } from "@/lib/vouchers";
+
+export class ReceiptError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "ReceiptError";
+    }
+}
+
+// Receipts are issued for money coming in and for purchases, refunds and adjustments appear on the statement
+const RECEIPT_TYPES = ["DEPOSIT", "PURCHASE"];
+
+export const hasReceipt = (type: string) => RECEIPT_TYPES.includes(type);
+
+const receiptStudentSelect = {
+    id: true,
+    fullName: true,
+    phoneNumber: true,
+    parentPhoneNumber: true
+} satisfies Prisma.UserSelect;
+
+export type ReceiptStudent = Prisma.UserGetPayload<{ select: typeof receiptStudentSelect }>;
+
+export interface Receipt {
+    id: string;
+    /** Short number printed on the receipt */
+    number: string;
+    type: string;
+    description: string;
+    createdAt: Date;
+    student: ReceiptStudent;
+    /** EGP */
+    items: ReceiptDetails["items"];
+    discount: ReceiptDetails["discount"];
+    total: number;
+    paymentMethod: string;
+}
+
+export const formatReceiptNumber = (transactionId: string) => transactionId.slice(0, 8).toUpperCase();
+
+// Where the money of the transaction came from, worked out from the event behind it
+const getPaymentMethod = async (type: string, reference: string | null) => {
+    if (type === "PURCHASE") {
+        return "الرصيد";
+    }
+
+    const [kind, id] = reference?.split(":") ?? [];
+
+    if (kind === "payment" && id) {
+        const payment = await db.payment.findUnique({
+            where: {
+                id
+            },
+            select: {
+                method: true
+            }
+        });
+        if (payment) {
+            return `دفع إلكتروني (${PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] ?? payment.method})`;
+        }
+    }
+
+    if (kind === "voucher" && id) {
+        const voucher = await db.voucher.findUnique({
+            where: {
+                id
+            },
+            select: {
+                code: true
+            }
+        });
+        if (voucher) {
+            return `كارت شحن (${formatVoucherCode(voucher.code)})`;
+        }
+    }
+
+    return "إيداع من الإدارة";
+};
+
+/**
+ * The receipt of a deposit or a purchase
+ * @throws ReceiptError if the transaction doesn't exist or has no receipt
+ */
+export const getReceipt = async (transactionId: string): Promise<Receipt> => {
+    const transaction: Prisma.LedgerTransactionGetPayload<{ include: { entries: true } }> | null = await db.ledgerTransaction.findUnique({
+        where: {
+            id: transactionId
+        },
+        include: {
+            entries: true
+        }
+    });
+
+    const entry = transaction?.entries.find(item => item.account === USER_WALLET_ACCOUNT && item.userId);
+
+    if (!transaction || !entry) {
+        throw new ReceiptError(404, "Transaction not found");
+    }
+
+    if (!hasReceipt(transaction.type)) {
+        throw new ReceiptError(400, "This transaction has no receipt");
+    }
+
+    const student: ReceiptStudent | null = await db.user.findUnique({
+        where: {
+            id: entry.userId!
+        },
+        select: receiptStudentSelect
+    });
+
+    if (!student) {
+        throw new ReceiptError(404, "Student not found");
+    }
+
+    const total = fromPiastres(Math.abs(entry.amount));
+    // Deposits and purchases made before details were kept show their description as the only item
+    const details = transaction.details as ReceiptDetails | null;
+
+    return {
+        id: transaction.id,
+        number: formatReceiptNumber(transaction.id),
+        type: transaction.type,
+        description: transaction.description,
+        createdAt: transaction.createdAt,
+        student,
+        items: details?.items ?? [{ title: transaction.description, price: total }],
+        discount: details?.discount ?? null,
+        total,
+        paymentMethod: await getPaymentMethod(transaction.type, transaction.reference)
+    };
+};
+
+/**
+ * Reads a "YYYY-MM" month, the current month when it is missing
+ * @throws ReceiptError if the month is invalid
+ */
+export const parseStatementMonth = (input?: string | null, now = new Date()) => {
+    if (!input) {
+        return { year: now.getFullYear(), month: now.getMonth() + 1 };
+    }
+
+    const match = /^(\d{4})-(\d{2})$/.exec(input);
+    const month = match ? Number(match[2]) : 0;
+
+    if (!match || month < 1 || month > 12) {
+        throw new ReceiptError(400, "Invalid month");
+    }
+
+    return { year: Number(match[1]), month };
+};
+
+/**
+ * A student's balance movements during a month, with the balance before and after it. Amounts in EGP.
+ * @param month 1 to 12
+ * @throws ReceiptError if the student doesn't exist
+ */
+export const getMonthlyStatement = async (userId: string, year: number, month: number) => {
+    const student: ReceiptStudent | null = await db.user.findUnique({
+        where: {
+            id: userId
+        },
+        select: receiptStudentSelect
+    });
+
+    if (!student) {
+        throw new ReceiptError(404, "Student not found");
+    }
+
+    const from = new Date(year, month - 1, 1);
+    const to = new Date(year, month, 1);
+
+    const [opening, entries]: [
+        { _sum: { amount: number | null } },
+        Prisma.LedgerEntryGetPayload<{ include: { transaction: true } }>[]
+    ] = await Promise.all([
+        db.ledgerEntry.aggregate({
+            where: {
+                userId,
+                account: USER_WALLET_ACCOUNT,
+                createdAt: {
+                    lt: from
+                }
+            },
+            _sum: {
+                amount: true
+            }
+        }),
+        db.ledgerEntry.findMany({
+            where: {
+                userId,
+                account: USER_WALLET_ACCOUNT,
+                createdAt: {
+                    gte: from,
+                    lt: to
+                }
+            },
+            include: {
+                transaction: true
+            },
+            orderBy: {
+                createdAt: "asc"
+            }
+        })
+    ]);
+
+    const openingBalance = opening._sum.amount ?? 0;
+    let balance = openingBalance;
+    let credits = 0;
+    let debits = 0;
+
+    const transactions = entries.map(entry => {
+        balance += entry.amount;
+        if (entry.amount > 0) {
+            credits += entry.amount;
+        } else {
+            debits -= entry.amount;
+        }
+
+        return {
+            id: entry.transaction.id,
+            type: entry.transaction.type,
+            description: entry.transaction.description,
+            amount: fromPiastres(entry.amount),
+            balance: fromPiastres(balance),
+            hasReceipt: hasReceipt(entry.transaction.type),
+            createdAt: entry.createdAt
+        };
+    });
+
+    return {
+        student,
+        year,
+        month,
+        openingBalance: fromPiastres(openingBalance),
+        totalCredits: fromPiastres(credits),
+        totalDebits: fromPiastres(debits),
+        closingBalance: fromPiastres(balance),
+        transactions
+    };
+};
+
+export type MonthlyStatement = Awaited<ReturnType<typeof getMonthlyStatement>>;
@@ -0,0 +1,431 @@
+import { spawn } from "node:child_process";
+import { createWriteStream } from "node:fs";
+import { mkdir, mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { VideoProcessingJob } from "@prisma/client";
+import { db } from "@/lib/db";
+import { r2Client, R2_BUCKET_NAME, R2_PUBLIC_URL } from "@/lib/r2/config";
+import { joinPublicUrl } from "@/lib/r2/upload";
+
+export type VideoStatus = "QUEUED" | "PROCESSING" | "READY" | "FAILED";
+
+interface Rendition {
+    name: string;
+    height: number;
+    videoBitrate: number;
+    audioBitrate: number;
+}
+
+// Highest first. Renditions taller than the uploaded video are skipped, the smallest one is always made
+const RENDITIONS: Rendition[] = [
+    { name: "1080p", height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+    { name: "720p", height: 720, videoBitrate: 2800, audioBitrate: 128 },
+    { name: "480p", height: 480, videoBitrate: 1400, audioBitrate: 96 },
+    { name: "360p", height: 360, videoBitrate: 800, audioBitrate: 64 }
+];
+
+const SEGMENT_SECONDS = 6;
+const MAX_ATTEMPTS = 3;
+// A job locked longer than this belongs to a worker that died, another worker takes it over
+const STALE_LOCK_MS = 2 * 60 * 60 * 1000;
+const UPLOAD_CONCURRENCY = 4;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".m3u8": "application/vnd.apple.mpegurl",
+    ".ts": "video/mp2t",
+    ".jpg": "image/jpeg"
+};
+
+export class VideoProcessingError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "VideoProcessingError";
+    }
+}
+
+/**
+ * Queues an uploaded chapter video for transcoding. Until it is ready the chapter keeps playing the MP4
+ */
+export const queueVideoProcessing = async (chapterId: string, sourceUrl: string) => {
+    const [, , job] = await db.$transaction([
+        // Jobs for a video the chapter no longer plays would be thrown away
+        db.videoProcessingJob.updateMany({
+            where: {
+                chapterId,
+                status: "QUEUED"
+            },
+            data: {
+                status: "CANCELED",
+                finishedAt: new Date()
+            }
+        }),
+        db.chapter.update({
+            where: {
+                id: chapterId
+            },
+            data: {
+                videoStatus: "QUEUED",
+                hlsUrl: null,
+                posterUrl: null,
+                videoDuration: null
+            }
+        }),
+        db.videoProcessingJob.create({
+            data: {
+                chapterId,
+                sourceUrl
+            }
+        })
+    ]);
+
+    return job;
+};
+
+/**
+ * Queues the chapter's uploaded video again after processing failed
+ * @throws VideoProcessingError if the chapter has no uploaded video
+ */
+export const retryVideoProcessing = async (chapterId: string) => {
+    const chapter = await db.chapter.findUnique({
+        where: {
+            id: chapterId
+        },
+        select: {
+            videoUrl: true,
+            videoType: true
+        }
+    });
+
+    if (!chapter?.videoUrl || chapter.videoType !== "UPLOAD") {
+        throw new VideoProcessingError(400, "The chapter has no uploaded video");
+    }
+
+    return queueVideoProcessing(chapterId, chapter.videoUrl);
+};
+
+/**
+ * Takes the oldest waiting job for this worker. Workers race for the same job, only one of them gets it
+ * @returns The job, or null when the queue is empty
+ */
+export const claimVideoJob = async (): Promise<VideoProcessingJob | null> => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const job: VideoProcessingJob | null = await db.videoProcessingJob.findFirst({
+            where: {
+                OR: [
+                    {
+                        status: "QUEUED"
+                    },
+                    {
+                        status: "PROCESSING",
+                        lockedAt: {
+                            lt: new Date(Date.now() - STALE_LOCK_MS)
+                        }
+                    }
+                ]
+            },
+            orderBy: {
+                createdAt: "asc"
+            }
+        });
+
+        if (!job) {
+            return null;
+        }
+
+        const lockedAt = new Date();
+        const { count } = await db.videoProcessingJob.updateMany({
+            where: {
+                id: job.id,
+                status: job.status,
+                lockedAt: job.lockedAt
+            },
+            data: {
+                status: "PROCESSING",
+                lockedAt,
+                attempts: {
+                    increment: 1
+                }
+            }
+        });
+
+        if (count > 0) {
+            await db.chapter.updateMany({
+                where: {
+                    id: job.chapterId,
+                    videoUrl: job.sourceUrl
+                },
+                data: {
+                    videoStatus: "PROCESSING"
+                }
+            });
+            return { ...job, status: "PROCESSING", lockedAt, attempts: job.attempts + 1 };
+        }
+    }
+
+    return null;
+};
+
+// Runs ffmpeg or ffprobe, the end of stderr is kept for the error message
+const run = (command: string, args: string[]) => {
+    return new Promise<string>((resolve, reject) => {
+        const child = spawn(command, args);
+        let stdout = "";
+        let stderr = "";
+
+        child.stdout.on("data", (chunk) => {
+            stdout += chunk;
+        });
+        child.stderr.on("data", (chunk) => {
+            stderr = (stderr + chunk).slice(-4000);
+        });
+        child.on("error", reject);
+        child.on("close", (code) => {
+            if (code === 0) {
+                resolve(stdout);
+            } else {
+                reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr.trim()}`));
+            }
+        });
+    });
+};
+
+const probe = async (file: string) => {
+    const output = await run(FFPROBE_PATH, [
+        "-v", "error",
+        "-print_format", "json",
+        "-show_format",
+        "-show_streams",
+        file
+    ]);
+    const info = JSON.parse(output) as {
+        format?: { duration?: string };
+        streams?: { codec_type?: string; height?: number }[];
+    };
+    const video = info.streams?.find(stream => stream.codec_type === "video");
+
+    if (!video?.height) {
+        throw new Error("The uploaded file has no video stream");
+    }
+
+    return {
+        duration: Math.round(Number(info.format?.duration) || 0),
+        height: video.height,
+        hasAudio: !!info.streams?.some(stream => stream.codec_type === "audio")
+    };
+};
+
+const download = async (url: string, file: string) => {
+    const response = await fetch(url);
+    if (!response.ok || !response.body) {
+        throw new Error(`Downloading the uploaded video failed with status ${response.status}`);
+    }
+    await pipeline(Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]), createWriteStream(file));
+};
+
+/**
+ * Transcodes into one HLS rendition per height with a master playlist listing them
+ */
+const transcode = async (source: string, outputDir: string, renditions: Rendition[], hasAudio: boolean) => {
+    for (const rendition of renditions) {
+        await mkdir(path.join(outputDir, rendition.name), { recursive: true });
+    }
+
+    const split = `[0:v]split=${renditions.length}${renditions.map((_, i) => `[s${i}]`).join("")}`;
+    const scales = renditions.map((rendition, i) => `[s${i}]scale=-2:${rendition.height}[v${i}]`);
+
+    const args = [
+        "-y",
+        "-i", source,
+        "-filter_complex", [split, ...scales].join(";")
+    ];
+
+    renditions.forEach((rendition, i) => {
+        args.push(
+            "-map", `[v${i}]`,
+            `-c:v:${i}`, "libx264",
+            `-b:v:${i}`, `${rendition.videoBitrate}k`,
+            `-maxrate:v:${i}`, `${Math.round(rendition.videoBitrate * 1.07)}k`,
+            `-bufsize:v:${i}`, `${rendition.videoBitrate * 1.5}k`
+        );
+    });
+
+    if (hasAudio) {
+        renditions.forEach((rendition, i) => {
+            args.push(
+                "-map", "0:a:0",
+                `-c:a:${i}`, "aac",
+                `-b:a:${i}`, `${rendition.audioBitrate}k`,
+                `-ac:a:${i}`, "2"
+            );
+        });
+    }
+
+    const streamMap = renditions
+        .map((rendition, i) => (hasAudio ? `v:${i},a:${i},name:${rendition.name}` : `v:${i},name:${rendition.name}`))
+        .join(" ");
+
+    args.push(
+        "-preset", "veryfast",
+        "-pix_fmt", "yuv420p",
+        // Every segment starts on a keyframe so players can switch renditions between segments
+        "-force_key_frames", `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+        "-sc_threshold", "0",
+        "-f", "hls",
+        "-hls_time", String(SEGMENT_SECONDS),
+        "-hls_playlist_type", "vod",
+        "-hls_flags", "independent_segments",
+        "-hls_segment_filename", path.join(outputDir, "%v", "segment_%04d.ts"),
+        "-master_pl_name", "master.m3u8",
+        "-var_stream_map", streamMap,
+        path.join(outputDir, "%v", "index.m3u8")
+    );
+
+    await run(FFMPEG_PATH, args);
+};
+
+const extractPoster = async (source: string, file: string, duration: number) => {
+    await run(FFMPEG_PATH, [
+        "-y",
+        "-ss", String(Math.min(5, Math.floor(duration / 2))),
+        "-i", source,
+        "-frames:v", "1",
+        "-vf", "scale=-2:720",
+        "-q:v", "3",
+        file
+    ]);
+};
+
+const listFiles = async (dir: string): Promise<string[]> => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(entries.map(entry => {
+        const full = path.join(dir, entry.name);
+        return entry.isDirectory() ? listFiles(full) : Promise.resolve([full]);
+    }));
+    return files.flat();
+};
+
+// Uploads the output folder under the prefix, keeping its layout so the playlists' relative paths work
+const uploadFolder = async (dir: string, prefix: string) => {
+    if (!R2_BUCKET_NAME) {
+        throw new Error("R2_BUCKET_NAME is not set");
+    }
+
+    const files = await listFiles(dir);
+    let next = 0;
+
+    const uploadNext = async (): Promise<void> => {
+        const file = files[next++];
+        if (!file) {
+            return;
+        }
+
+        const key = `${prefix}/${path.relative(dir, file).split(path.sep).join("/")}`;
+        await r2Client.send(new PutObjectCommand({
+            Bucket: R2_BUCKET_NAME,
+            Key: key,
+            Body: await readFile(file),
+            ContentType: CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream",
+            // Each job writes to its own prefix, so the files never change
+            CacheControl: "public, max-age=31536000, immutable"
+        }));
+        return uploadNext();
+    };
+
+    await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, uploadNext));
+};
+
+const failJob = async (job: VideoProcessingJob, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    const isFinal = job.attempts >= MAX_ATTEMPTS;
+
+    await db.$transaction([
+        db.videoProcessingJob.update({
+            where: {
+                id: job.id
+            },
+            data: {
+                status: isFinal ? "FAILED" : "QUEUED",
+                error: message,
+                lockedAt: null,
+                finishedAt: isFinal ? new Date() : null
+            }
+        }),
+        db.chapter.updateMany({
+            where: {
+                id: job.chapterId,
+                videoUrl: job.sourceUrl
+            },
+            data: {
+                videoStatus: isFinal ? "FAILED" : "QUEUED"
+            }
+        })
+    ]);
+};
+
+/**
+ * Downloads the uploaded video, transcodes it into HLS renditions with a poster frame, stores them in R2
+ * and switches the chapter to them. A failed job is queued again until it has run MAX_ATTEMPTS times
+ * @returns Whether the job succeeded
+ */
+export const processVideoJob = async (job: VideoProcessingJob) => {
+    const workDir = await mkdtemp(path.join(tmpdir(), "chapter-video-"));
+
+    try {
+        const source = path.join(workDir, "source");
+        const outputDir = path.join(workDir, "hls");
+        await download(job.sourceUrl, source);
+
+        const { duration, height, hasAudio } = await probe(source);
+        const renditions = RENDITIONS.filter(rendition => rendition.height <= height);
+        if (renditions.length === 0) {
+            renditions.push(RENDITIONS[RENDITIONS.length - 1]);
+        }
+
+        await transcode(source, outputDir, renditions, hasAudio);
+        await extractPoster(source, path.join(outputDir, "poster.jpg"), duration);
+
+        const prefix = `videos/hls/${job.chapterId}/${job.id}`;
+        await uploadFolder(outputDir, prefix);
+
+        await db.$transaction([
+            db.videoProcessingJob.update({
+                where: {
+                    id: job.id
+                },
+                data: {
+                    status: "DONE",
+                    error: null,
+                    finishedAt: new Date()
+                }
+            }),
+            // A teacher may have replaced the video while it was processing
+            db.chapter.updateMany({
+                where: {
+                    id: job.chapterId,
+                    videoUrl: job.sourceUrl
+                },
+                data: {
+                    videoStatus: "READY",
+                    hlsUrl: joinPublicUrl(R2_PUBLIC_URL, `${prefix}/master.m3u8`),
+                    posterUrl: joinPublicUrl(R2_PUBLIC_URL, `${prefix}/poster.jpg`),
+                    videoDuration: duration || null
+                }
+            })
+        ]);
+
+        return true;
+    } catch (error) {
+        console.error("[VIDEO_PROCESSING]", job.id, error);
+        await failJob(job, error);
+        return false;
+    } finally {
+        await rm(workDir, { recursive: true, force: true });
+    }
+};
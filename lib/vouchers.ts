@@ -0,0 +1,302 @@
+import { randomInt } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { fromPiastres, postLedgerTransaction } from "@/lib/ledger";
+
+// No 0/O or 1/I, so printed codes can't be misread
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+const CODE_GROUP_LENGTH = 4;
+
+export const MAX_BATCH_SIZE = 1000;
+
+// A user may make this many failed attempts in the window before redemption is blocked
+export const MAX_FAILED_REDEMPTIONS = 5;
+export const REDEMPTION_WINDOW_MINUTES = 15;
+
+export class VoucherError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "VoucherError";
+    }
+}
+
+const generateVoucherCode = () => {
+    return Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+};
+
+/**
+ * Normalizes a code as typed by a student: case, spaces and dashes don't matter
+ */
+export const normalizeVoucherCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/**
+ * Formats a stored code the way it is printed, e.g. ABCD-EFGH-JKLM
+ */
+export const formatVoucherCode = (code: string) => {
+    return code.match(new RegExp(`.{1,${CODE_GROUP_LENGTH}}`, "g"))?.join("-") ?? code;
+};
+
+export type VoucherStatus = "REDEEMED" | "EXPIRED" | "OUTSTANDING";
+
+export const getVoucherStatus = (voucher: { redeemedAt: Date | null }, expiresAt: Date, now = new Date()): VoucherStatus => {
+    if (voucher.redeemedAt) {
+        return "REDEEMED";
+    }
+    return expiresAt <= now ? "EXPIRED" : "OUTSTANDING";
+};
+
+/**
+ * Generates a batch of single-use codes
+ * @param value Piastres credited by each code
+ */
+export const createVoucherBatch = async ({ name, value, count, expiresAt, createdById }: {
+    name: string;
+    value: number;
+    count: number;
+    expiresAt: Date;
+    createdById: string;
+}) => {
+    if (!Number.isInteger(value) || value <= 0) {
+        throw new VoucherError(400, "Voucher value must be a positive number of piastres");
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+        throw new VoucherError(400, `A batch has between 1 and ${MAX_BATCH_SIZE} codes`);
+    }
+
+    if (expiresAt <= new Date()) {
+        throw new VoucherError(400, "The expiry date must be in the future");
+    }
+
+    const codes = new Set<string>();
+    while (codes.size < count) {
+        codes.add(generateVoucherCode());
+    }
+
+    return db.voucherBatch.create({
+        data: {
+            name: name.trim(),
+            value,
+            expiresAt,
+            createdById,
+            vouchers: {
+                create: Array.from(codes, code => ({ code }))
+            }
+        }
+    });
+};
+
+/**
+ * Every batch with the number of redeemed, expired and outstanding codes, newest first
+ */
+export const getVoucherBatchReports = async () => {
+    const batches: Prisma.VoucherBatchGetPayload<{ include: { _count: { select: { vouchers: true } } } }>[] = await db.voucherBatch.findMany({
+        include: {
+            _count: {
+                select: {
+                    vouchers: true
+                }
+            }
+        },
+        orderBy: {
+            createdAt: "desc"
+        }
+    });
+
+    const redeemedCounts = await db.voucher.groupBy({
+        by: ["batchId"],
+        where: {
+            redeemedAt: {
+                not: null
+            }
+        },
+        _count: {
+            _all: true
+        }
+    });
+
+    const redeemedByBatch = new Map(redeemedCounts.map(row => [row.batchId, row._count._all]));
+    const now = new Date();
+
+    return batches.map(batch => {
+        const total = batch._count.vouchers;
+        const redeemed = redeemedByBatch.get(batch.id) ?? 0;
+        const expired = batch.expiresAt <= now;
+
+        return {
+            id: batch.id,
+            name: batch.name,
+            value: fromPiastres(batch.value),
+            expiresAt: batch.expiresAt,
+            createdAt: batch.createdAt,
+            total,
+            redeemed,
+            // Unredeemed codes of an expired batch can no longer be used
+            outstanding: expired ? 0 : total - redeemed,
+            expired: expired ? total - redeemed : 0,
+            redeemedValue: fromPiastres(batch.value * redeemed)
+        };
+    });
+};
+
+export type VoucherBatchWithCodes = Prisma.VoucherBatchGetPayload<{
+    include: { vouchers: { include: { redeemedBy: { select: { fullName: true; phoneNumber: true } } } } };
+}>;
+
+/**
+ * A batch with its codes and who redeemed them
+ */
+export const getVoucherBatch = async (batchId: string) => {
+    const batch: VoucherBatchWithCodes | null = await db.voucherBatch.findUnique({
+        where: {
+            id: batchId
+        },
+        include: {
+            vouchers: {
+                include: {
+                    redeemedBy: {
+                        select: {
+                            fullName: true,
+                            phoneNumber: true
+                        }
+                    }
+                },
+                orderBy: {
+                    createdAt: "asc"
+                }
+            }
+        }
+    });
+
+    return batch;
+};
+
+const escapeCsvField = (value: string) => {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+};
+
+/**
+ * Exports a batch's codes as CSV, with a byte order mark so Excel shows Arabic text correctly
+ */
+export const exportVoucherBatchCsv = (batch: VoucherBatchWithCodes) => {
+    const rows = [["code", "value", "expiresAt", "status", "redeemedAt", "redeemedBy"]];
+
+    for (const voucher of batch.vouchers) {
+        rows.push([
+            formatVoucherCode(voucher.code),
+            String(fromPiastres(batch.value)),
+            batch.expiresAt.toISOString(),
+            getVoucherStatus(voucher, batch.expiresAt),
+            voucher.redeemedAt?.toISOString() ?? "",
+            voucher.redeemedBy ? `${voucher.redeemedBy.fullName} (${voucher.redeemedBy.phoneNumber})` : ""
+        ]);
+    }
+
+    return `\uFEFF${rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n")}\r\n`;
+};
+
+/**
+ * Records an attempt and checks the user's failed attempts in the rate limit window.
+ * The attempt is recorded before counting, so parallel guesses are counted too.
+ * @throws VoucherError 429 if the user made too many failed attempts
+ * @returns The id of the attempt, to mark it as succeeded
+ */
+const recordAttempt = async (userId: string) => {
+    const attempt = await db.voucherRedemptionAttempt.create({
+        data: {
+            userId
+        }
+    });
+
+    const failedAttempts = await db.voucherRedemptionAttempt.count({
+        where: {
+            userId,
+            succeeded: false,
+            createdAt: {
+                gte: new Date(Date.now() - REDEMPTION_WINDOW_MINUTES * 60 * 1000)
+            }
+        }
+    });
+
+    if (failedAttempts > MAX_FAILED_REDEMPTIONS) {
+        throw new VoucherError(429, `محاولات كثيرة خاطئة، يرجى المحاولة مرة أخرى بعد ${REDEMPTION_WINDOW_MINUTES} دقيقة`);
+    }
+
+    return attempt.id;
+};
+
+/**
+ * Redeems a code and credits its value to the user's wallet. The code is claimed with a conditional update
+ * in the same transaction as the ledger entry, so it can only be redeemed once.
+ * @throws VoucherError with the status and message to respond with when the code can't be redeemed
+ * @returns The credited value and the new balance, in EGP
+ */
+export const redeemVoucher = async (userId: string, input: string) => {
+    const code = normalizeVoucherCode(input);
+    const attemptId = await recordAttempt(userId);
+
+    const voucher = code.length === CODE_LENGTH
+        ? await db.voucher.findUnique({
+            where: {
+                code
+            },
+            include: {
+                batch: true
+            }
+        })
+        : null;
+
+    if (!voucher) {
+        throw new VoucherError(400, "رقم الكارت غير صحيح");
+    }
+
+    if (voucher.redeemedAt) {
+        throw new VoucherError(400, "تم استخدام هذا الكارت من قبل");
+    }
+
+    if (voucher.batch.expiresAt <= new Date()) {
+        throw new VoucherError(400, "هذا الكارت منتهي الصلاحية");
+    }
+
+    const result = await db.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { count } = await tx.voucher.updateMany({
+            where: {
+                id: voucher.id,
+                redeemedAt: null
+            },
+            data: {
+                redeemedById: userId,
+                redeemedAt: new Date()
+            }
+        });
+
+        if (count === 0) {
+            throw new VoucherError(400, "تم استخدام هذا الكارت من قبل");
+        }
+
+        const posted = await postLedgerTransaction({
+            userId,
+            type: "DEPOSIT",
+            amount: voucher.batch.value,
+            description: `شحن الرصيد بكارت: ${formatVoucherCode(voucher.code)}`,
+            reference: `voucher:${voucher.id}`
+        }, tx);
+
+        await tx.voucherRedemptionAttempt.update({
+            where: {
+                id: attemptId
+            },
+            data: {
+                succeeded: true
+            }
+        });
+
+        return {
+            value: fromPiastres(voucher.batch.value),
+            newBalance: fromPiastres(posted.balance)
+        };
+    });
+
+    return result;
+};
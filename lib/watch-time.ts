@@ -0,0 +1,514 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { activePurchaseWhere } from "@/lib/course-access";
+
+/** A [start, end] range of the video in whole seconds */
+export type WatchedSegment = [number, number];
+
+/** How often the player reports what was watched */
+export const HEARTBEAT_INTERVAL_SECONDS = 15;
+
+// Fastest speed the player offers
+const MAX_PLAYBACK_RATE = 2;
+
+// Most playback one heartbeat can report: the interval at the fastest speed with room for a late heartbeat.
+// Keeps a forged request from marking a whole video as watched at once
+const MAX_HEARTBEAT_SECONDS = HEARTBEAT_INTERVAL_SECONDS * MAX_PLAYBACK_RATE * 3;
+
+// Playback a heartbeat can report beyond the time that passed, for segments rounded to whole seconds
+const HEARTBEAT_ALLOWANCE_SECONDS = 2;
+
+export class WatchTimeError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = "WatchTimeError";
+    }
+}
+
+/**
+ * Sorts segments and merges the ones that overlap or touch
+ */
+export const mergeSegments = (segments: WatchedSegment[]): WatchedSegment[] => {
+    const sorted = [...segments].sort((a, b) => a[0] - b[0]);
+    const merged: WatchedSegment[] = [];
+
+    for (const [start, end] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            merged.push([start, end]);
+        }
+    }
+
+    return merged;
+};
+
+/**
+ * Cuts segments at the end of the video
+ */
+export const clipSegments = (segments: WatchedSegment[], duration: number | null): WatchedSegment[] => {
+    if (!duration) {
+        return segments;
+    }
+    return segments
+        .map(([start, end]): WatchedSegment => [start, Math.min(end, duration)])
+        .filter(([start, end]) => end > start);
+};
+
+/**
+ * Seconds covered by merged segments, each second counted once
+ */
+export const getWatchedSeconds = (segments: WatchedSegment[]) => {
+    return segments.reduce((sum, [start, end]) => sum + end - start, 0);
+};
+
+export const getWatchedPercentage = (watchedSeconds: number, duration: number | null) => {
+    if (!duration) {
+        return 0;
+    }
+    return Math.min(100, Math.round((watchedSeconds / duration) * 100));
+};
+
+/**
+ * Seconds of playback a heartbeat can report: what the fastest speed plays in the time since the last heartbeat,
+ * so forged heartbeats sent back to back can't add up to the whole video
+ * @param since When the last heartbeat was saved, or when the view session started
+ */
+export const getHeartbeatLimit = (since: Date, now: Date) => {
+    const elapsedSeconds = Math.max(0, (now.getTime() - since.getTime()) / 1000);
+    return Math.min(
+        MAX_HEARTBEAT_SECONDS,
+        Math.floor(elapsedSeconds * MAX_PLAYBACK_RATE) + HEARTBEAT_ALLOWANCE_SECONDS
+    );
+};
+
+/**
+ * Reads the segments a heartbeat reported: drops invalid ones, keeps them inside the video
+ * and limits them to what can be played between two heartbeats
+ * @param maxSeconds From getHeartbeatLimit
+ */
+export const parseReportedSegments = (
+    input: unknown,
+    duration: number | null,
+    maxSeconds = MAX_HEARTBEAT_SECONDS
+): WatchedSegment[] => {
+    if (!Array.isArray(input)) {
+        return [];
+    }
+
+    const segments = input
+        .filter((segment): segment is [number, number] =>
+            Array.isArray(segment) &&
+            segment.length === 2 &&
+            segment.every(value => typeof value === "number" && Number.isFinite(value))
+        )
+        .map(([start, end]): WatchedSegment => {
+            const upper = duration ?? Number.MAX_SAFE_INTEGER;
+            return [Math.max(0, Math.round(start)), Math.min(upper, Math.round(end))];
+        })
+        .filter(([start, end]) => end > start);
+
+    let budget = maxSeconds;
+    const allowed: WatchedSegment[] = [];
+
+    for (const [start, end] of mergeSegments(segments)) {
+        if (budget <= 0) {
+            break;
+        }
+        const length = Math.min(end - start, budget);
+        allowed.push([start, start + length]);
+        budget -= length;
+    }
+
+    return allowed;
+};
+
+/**
+ * Length of a chapter's video in seconds. The one measured when the video was processed is trusted over the player,
+ * and a heartbeat can only make the stored length longer, so a forged short duration can't complete a chapter
+ * @param reported Length reported by the player
+ */
+export const getVideoDuration = (
+    chapter: { videoDuration: number | null },
+    storedDuration: number | null,
+    reported: number | null
+) => {
+    if (chapter.videoDuration) {
+        return chapter.videoDuration;
+    }
+
+    const reportedDuration = reported && Number.isFinite(reported) && reported > 0 ? Math.round(reported) : null;
+    if (storedDuration === null || reportedDuration === null) {
+        return storedDuration ?? reportedDuration;
+    }
+    return Math.max(storedDuration, reportedDuration);
+};
+
+/**
+ * Whether a user can watch a chapter: staff, free chapters and courses, and students who bought the course or the chapter
+ */
+export const canWatchChapter = async (
+    user: { id: string; role?: string | null },
+    chapter: { id: string; courseId: string; isFree: boolean }
+) => {
+    if (user.role === "ADMIN" || user.role === "TEACHER" || chapter.isFree) {
+        return true;
+    }
+
+    const [course, purchase, chapterPurchase] = await Promise.all([
+        db.course.findUnique({
+            where: {
+                id: chapter.courseId
+            },
+            select: {
+                price: true
+            }
+        }),
+        db.purchase.findFirst({
+            where: {
+                userId: user.id,
+                courseId: chapter.courseId,
+                ...activePurchaseWhere()
+            },
+            select: {
+                id: true
+            }
+        }),
+        db.chapterPurchase.findFirst({
+            where: {
+                userId: user.id,
+                chapterId: chapter.id,
+                status: "ACTIVE"
+            },
+            select: {
+                id: true
+            }
+        })
+    ]);
+
+    return course?.price === 0 || purchase !== null || chapterPurchase !== null;
+};
+
+// Too close to the start or the end of the video to be worth resuming from
+const RESUME_MARGIN_SECONDS = 10;
+
+/**
+ * Where a student can pick the video back up
+ * @returns The second to resume from, or null when the video should start from the beginning
+ */
+export const getResumePosition = (progress: { lastPosition: number; duration: number | null } | null) => {
+    if (!progress || progress.lastPosition < RESUME_MARGIN_SECONDS) {
+        return null;
+    }
+    if (progress.duration && progress.lastPosition > progress.duration - RESUME_MARGIN_SECONDS) {
+        return null;
+    }
+    return progress.lastPosition;
+};
+
+/**
+ * Whether the watched part of the video is enough to complete a chapter
+ */
+export const hasWatchedEnough = (
+    chapter: { completionThreshold: number | null },
+    progress: { watchedSeconds: number; duration: number | null } | null
+) => {
+    if (!chapter.completionThreshold) {
+        return true;
+    }
+    return !!progress && getWatchedPercentage(progress.watchedSeconds, progress.duration) >= chapter.completionThreshold;
+};
+
+// Playback during one page load that counts as a view: a fifth of the video, at most a minute
+const MAX_VIEW_THRESHOLD_SECONDS = 60;
+const VIEW_THRESHOLD_RATIO = 0.2;
+
+export const getViewThresholdSeconds = (duration: number | null) => {
+    if (!duration) {
+        return MAX_VIEW_THRESHOLD_SECONDS;
+    }
+    return Math.min(MAX_VIEW_THRESHOLD_SECONDS, Math.ceil(duration * VIEW_THRESHOLD_RATIO));
+};
+
+/**
+ * How many times a student can watch a chapter's video: the student's own limit set by staff, else the chapter's
+ * @returns The number of views, or null when the student can watch it without limit
+ */
+export const getMaxViews = async (
+    user: { id: string; role?: string | null },
+    chapter: { id: string; maxViews: number | null }
+) => {
+    if (user.role === "ADMIN" || user.role === "TEACHER") {
+        return null;
+    }
+
+    const settings = await db.chapterStudentSettings.findUnique({
+        where: {
+            studentId_chapterId: {
+                studentId: user.id,
+                chapterId: chapter.id
+            }
+        },
+        select: {
+            maxViews: true
+        }
+    });
+
+    return settings?.maxViews ?? chapter.maxViews;
+};
+
+export const getViewStatus = (maxViews: number | null, viewCount: number) => {
+    if (maxViews === null) {
+        return null;
+    }
+    return {
+        max: maxViews,
+        used: viewCount,
+        remaining: Math.max(0, maxViews - viewCount)
+    };
+};
+
+const studentViewsChapterSelect = (studentId: string) => ({
+    id: true,
+    title: true,
+    maxViews: true,
+    course: {
+        select: {
+            id: true,
+            title: true
+        }
+    },
+    userProgress: {
+        where: {
+            userId: studentId
+        },
+        select: {
+            viewCount: true
+        }
+    },
+    studentSettings: {
+        where: {
+            studentId
+        },
+        select: {
+            maxViews: true
+        }
+    }
+}) satisfies Prisma.ChapterSelect;
+
+type StudentViewsChapter = Prisma.ChapterGetPayload<{ select: ReturnType<typeof studentViewsChapterSelect> }>;
+
+/**
+ * The chapters a student watched or was given views for that limit their views, for staff to grant extra views
+ */
+export const getStudentChapterViews = async (studentId: string) => {
+    const chapters: StudentViewsChapter[] = await db.chapter.findMany({
+        where: {
+            OR: [
+                {
+                    maxViews: {
+                        not: null
+                    },
+                    userProgress: {
+                        some: {
+                            userId: studentId
+                        }
+                    }
+                },
+                {
+                    studentSettings: {
+                        some: {
+                            studentId
+                        }
+                    }
+                }
+            ]
+        },
+        select: studentViewsChapterSelect(studentId),
+        orderBy: [
+            {
+                course: {
+                    title: "asc"
+                }
+            },
+            {
+                position: "asc"
+            }
+        ]
+    });
+
+    return chapters.map(chapter => {
+        const studentMaxViews = chapter.studentSettings[0]?.maxViews ?? null;
+        const used = chapter.userProgress[0]?.viewCount ?? 0;
+        const maxViews = studentMaxViews ?? chapter.maxViews;
+
+        return {
+            chapterId: chapter.id,
+            chapterTitle: chapter.title,
+            courseId: chapter.course.id,
+            courseTitle: chapter.course.title,
+            chapterMaxViews: chapter.maxViews,
+            studentMaxViews,
+            used,
+            remaining: maxViews === null ? null : Math.max(0, maxViews - used)
+        };
+    });
+};
+
+// How long a page load can keep reporting what it played, longer than any video someone watches in one go
+const VIEW_SESSION_HOURS = 6;
+
+/**
+ * Starts a view session for a user opening a chapter's video. Heartbeats must name a session the server issued,
+ * so every page load counts as its own view. Also clears the user's expired sessions
+ */
+export const createViewSession = async (userId: string, chapterId: string) => {
+    const now = new Date();
+
+    await db.videoViewSession.deleteMany({
+        where: {
+            userId,
+            expiresAt: {
+                lte: now
+            }
+        }
+    });
+
+    return db.videoViewSession.create({
+        data: {
+            userId,
+            chapterId,
+            expiresAt: new Date(now.getTime() + VIEW_SESSION_HOURS * 60 * 60 * 1000)
+        },
+        select: {
+            id: true,
+            expiresAt: true
+        }
+    });
+};
+
+/**
+ * Adds what the player reported to a student's watch time for a chapter, completes the chapter
+ * once the student watched its completion threshold, and counts a view once a page load played enough of the video
+ * @param sessionId The view session from createViewSession for the page load the heartbeat came from
+ * @param maxViews From getMaxViews, null for no limit
+ * @param duration Length of the video in seconds as reported by the player, only used until the video has a known length
+ * @throws WatchTimeError if the view session is unknown or expired, the student used all their views,
+ * or the progress kept changing while it was saved
+ */
+export const recordWatchHeartbeat = async ({ userId, chapter, sessionId, maxViews, segments: reported, position, duration }: {
+    userId: string;
+    chapter: { id: string; completionThreshold: number | null; videoDuration: number | null };
+    sessionId: string;
+    maxViews: number | null;
+    segments: unknown;
+    position: number;
+    duration: number | null;
+}) => {
+    const session = await db.videoViewSession.findFirst({
+        where: {
+            id: sessionId,
+            userId,
+            chapterId: chapter.id,
+            expiresAt: {
+                gt: new Date()
+            }
+        },
+        select: {
+            id: true,
+            createdAt: true
+        }
+    });
+
+    if (!session) {
+        throw new WatchTimeError(410, "انتهت جلسة المشاهدة، أعد تحميل الصفحة لمتابعة المشاهدة");
+    }
+
+    // Doesn't fail when a parallel heartbeat created the row first
+    await db.userProgress.createMany({
+        data: [{ userId, chapterId: chapter.id }],
+        skipDuplicates: true
+    });
+
+    // Heartbeats from two tabs can race, the update only applies to the progress it was computed from
+    for (let attempt = 0; attempt < 3; attempt++) {
+        const progress = await db.userProgress.findUniqueOrThrow({
+            where: {
+                userId_chapterId: {
+                    userId,
+                    chapterId: chapter.id
+                }
+            }
+        });
+
+        // Counted from the last heartbeat of any page load, so parallel sessions share the time that passed
+        const now = new Date();
+        const lastHeartbeatAt = progress.lastWatchedAt && progress.lastWatchedAt > session.createdAt
+            ? progress.lastWatchedAt
+            : session.createdAt;
+
+        const videoDuration = getVideoDuration(chapter, progress.duration, duration);
+        const reportedSegments = parseReportedSegments(
+            reported,
+            videoDuration,
+            getHeartbeatLimit(lastHeartbeatAt, now)
+        );
+
+        // A page load that was already counted keeps playing until it is left
+        const viewThreshold = getViewThresholdSeconds(videoDuration);
+        const isSameSession = progress.viewSessionId === sessionId;
+        const previousSessionSeconds = isSameSession ? progress.viewSessionSeconds : 0;
+        const wasCounted = isSameSession && previousSessionSeconds >= viewThreshold;
+
+        if (!wasCounted && maxViews !== null && progress.viewCount >= maxViews) {
+            throw new WatchTimeError(403, "لقد استنفدت عدد مرات المشاهدة المسموح بها لهذا الفصل");
+        }
+
+        const viewSessionSeconds = previousSessionSeconds + getWatchedSeconds(reportedSegments);
+        const viewCount = !wasCounted && viewSessionSeconds >= viewThreshold ? progress.viewCount + 1 : progress.viewCount;
+
+        // Segments saved before the processed length was known may run past it
+        const segments = clipSegments(mergeSegments([
+            ...(progress.watchedSegments as WatchedSegment[]),
+            ...reportedSegments
+        ]), videoDuration);
+        const watchedSeconds = getWatchedSeconds(segments);
+        const isCompleted = progress.isCompleted || (
+            chapter.completionThreshold !== null &&
+            hasWatchedEnough(chapter, { watchedSeconds, duration: videoDuration })
+        );
+
+        const data = {
+            watchedSegments: segments as Prisma.InputJsonValue,
+            watchedSeconds,
+            lastPosition: Math.max(0, Math.round(position)),
+            duration: videoDuration,
+            lastWatchedAt: now,
+            isCompleted,
+            viewCount,
+            viewSessionId: sessionId,
+            viewSessionSeconds
+        };
+
+        const { count } = await db.userProgress.updateMany({
+            where: {
+                id: progress.id,
+                updatedAt: progress.updatedAt
+            },
+            data
+        });
+
+        if (count > 0) {
+            return {
+                watchedSeconds,
+                duration: videoDuration,
+                watchedPercentage: getWatchedPercentage(watchedSeconds, videoDuration),
+                isCompleted,
+                views: getViewStatus(maxViews, viewCount)
+            };
+        }
+    }
+
+    throw new WatchTimeError(409, "The progress changed while saving it, please try again");
+};
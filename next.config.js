@@ -32,7 +32,11 @@ const nextConfig = {
       },
     ],
   },
-  serverExternalPackages: ['@prisma/client', 'bcrypt'],
+  serverExternalPackages: ['@prisma/client', 'bcrypt', 'pdfkit'],
+  // The receipt PDFs load the Arabic font from node_modules at runtime
+  outputFileTracingIncludes: {
+    '/api/balance/**': ['./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+  },
   compiler: {
     removeConsole: process.env.NODE_ENV === 'production',
   },
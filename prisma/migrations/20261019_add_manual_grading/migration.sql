@@ -0,0 +1,8 @@
+-- Teacher overrides of auto-graded answers
+ALTER TABLE "QuizAnswer" ADD COLUMN "isOverridden" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "QuizAnswer" ADD COLUMN "teacherComment" TEXT;
+ALTER TABLE "QuizAnswer" ADD COLUMN "gradedById" TEXT;
+ALTER TABLE "QuizAnswer" ADD COLUMN "gradedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "QuizAnswer_gradedAt_idx" ON "QuizAnswer"("gradedAt");
@@ -0,0 +1,35 @@
+-- Question bank: questions without a quiz, tagged by course, chapter, topic and difficulty
+ALTER TABLE "Question" ALTER COLUMN "quizId" DROP NOT NULL;
+ALTER TABLE "Question" ADD COLUMN "courseId" TEXT;
+ALTER TABLE "Question" ADD COLUMN "chapterId" TEXT;
+ALTER TABLE "Question" ADD COLUMN "topic" TEXT;
+ALTER TABLE "Question" ADD COLUMN "difficulty" TEXT;
+
+CREATE INDEX "Question_courseId_idx" ON "Question"("courseId");
+CREATE INDEX "Question_chapterId_idx" ON "Question"("chapterId");
+
+ALTER TABLE "Question" ADD CONSTRAINT "Question_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Question" ADD CONSTRAINT "Question_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Rules describing how many bank questions a quiz draws for each attempt
+CREATE TABLE "QuizDrawRule" (
+    "id" TEXT NOT NULL,
+    "quizId" TEXT NOT NULL,
+    "count" INTEGER NOT NULL,
+    "chapterId" TEXT,
+    "topic" TEXT,
+    "difficulty" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuizDrawRule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "QuizDrawRule_quizId_idx" ON "QuizDrawRule"("quizId");
+
+ALTER TABLE "QuizDrawRule" ADD CONSTRAINT "QuizDrawRule_quizId_fkey" FOREIGN KEY ("quizId") REFERENCES "Quiz"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Frozen question selection and option order of each attempt
+ALTER TABLE "QuizAttempt" ADD COLUMN "questionIds" TEXT;
+ALTER TABLE "QuizAttempt" ADD COLUMN "optionOrder" TEXT;
@@ -0,0 +1,7 @@
+-- Tolerance of numeric questions
+ALTER TABLE "Question" ADD COLUMN "tolerance" DOUBLE PRECISION;
+ALTER TABLE "Question" ADD COLUMN "toleranceType" TEXT;
+
+-- Multi-select questions earn partial credit
+ALTER TABLE "QuizAnswer" ALTER COLUMN "pointsEarned" SET DATA TYPE DOUBLE PRECISION;
+ALTER TABLE "QuizResult" ALTER COLUMN "score" SET DATA TYPE DOUBLE PRECISION;
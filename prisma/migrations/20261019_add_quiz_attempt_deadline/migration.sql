@@ -0,0 +1,2 @@
+-- Server-side deadline for timed quiz attempts
+ALTER TABLE "QuizAttempt" ADD COLUMN "expiresAt" TIMESTAMP(3);
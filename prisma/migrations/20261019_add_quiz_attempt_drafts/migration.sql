@@ -0,0 +1,3 @@
+-- Autosaved answers for in-progress quiz attempts
+ALTER TABLE "QuizAttempt" ADD COLUMN "draftAnswers" TEXT;
+ALTER TABLE "QuizAttempt" ADD COLUMN "currentQuestionIndex" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- Per-quiz passing threshold (previously hard-coded to 50%)
+ALTER TABLE "Quiz" ADD COLUMN "passingPercentage" DOUBLE PRECISION NOT NULL DEFAULT 50;
@@ -0,0 +1,11 @@
+-- Per-quiz shuffling of questions and options
+ALTER TABLE "Quiz" ADD COLUMN "shuffleQuestions" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Quiz" ADD COLUMN "shuffleOptions" BOOLEAN NOT NULL DEFAULT false;
+
+-- Multiple choice answers are graded by option position so identical option texts stay distinguishable
+ALTER TABLE "Question" ADD COLUMN "correctOptionIndex" INTEGER;
+ALTER TABLE "QuizAnswer" ADD COLUMN "selectedOptionIndex" INTEGER;
+
+-- Order shown to the student, kept with the result after the attempt row is replaced
+ALTER TABLE "QuizResult" ADD COLUMN "questionOrder" TEXT;
+ALTER TABLE "QuizResult" ADD COLUMN "optionOrder" TEXT;
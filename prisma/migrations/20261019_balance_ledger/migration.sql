@@ -0,0 +1,93 @@
+-- Double-entry balance ledger in integer piastres, replacing BalanceTransaction
+CREATE TABLE "LedgerTransaction" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "reason" TEXT,
+    "actorId" TEXT,
+    "reference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerTransaction_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" TEXT NOT NULL,
+    "userId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerTransaction_reference_key" ON "LedgerTransaction"("reference");
+
+-- CreateIndex
+CREATE INDEX "LedgerTransaction_type_idx" ON "LedgerTransaction"("type");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_transactionId_idx" ON "LedgerEntry"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_userId_idx" ON "LedgerEntry"("userId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_account_idx" ON "LedgerEntry"("account");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "LedgerTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Copy the existing balance transactions into the ledger
+INSERT INTO "LedgerTransaction" ("id", "type", "description", "createdAt")
+SELECT "id", "type", "description", "createdAt" FROM "BalanceTransaction";
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "userId", "amount", "createdAt")
+SELECT gen_random_uuid()::text, "id", 'USER_WALLET', "userId", ROUND("amount" * 100)::INTEGER, "createdAt" FROM "BalanceTransaction";
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "amount", "createdAt")
+SELECT gen_random_uuid()::text, "id", CASE WHEN "type" = 'PURCHASE' THEN 'SALES' ELSE 'PAYMENTS' END, -ROUND("amount" * 100)::INTEGER, "createdAt" FROM "BalanceTransaction";
+
+DROP TABLE "BalanceTransaction";
+
+-- Balances and top-ups are kept in piastres
+ALTER TABLE "User" ALTER COLUMN "balance" DROP DEFAULT;
+ALTER TABLE "User" ALTER COLUMN "balance" TYPE INTEGER USING ROUND("balance" * 100)::INTEGER;
+ALTER TABLE "User" ALTER COLUMN "balance" SET DEFAULT 0;
+
+ALTER TABLE "Payment" ALTER COLUMN "amount" TYPE INTEGER USING ROUND("amount" * 100)::INTEGER;
+
+-- Balances that were overwritten without a transaction get an opening adjustment, so every cached
+-- balance matches its ledger from the start
+CREATE TEMP TABLE "_OpeningBalance" AS
+SELECT u."id" AS "userId", u."balance" - COALESCE(SUM(e."amount"), 0) AS "difference", gen_random_uuid()::text AS "transactionId"
+FROM "User" u
+LEFT JOIN "LedgerEntry" e ON e."userId" = u."id" AND e."account" = 'USER_WALLET'
+GROUP BY u."id", u."balance"
+HAVING u."balance" - COALESCE(SUM(e."amount"), 0) <> 0;
+
+INSERT INTO "LedgerTransaction" ("id", "type", "description", "reason")
+SELECT "transactionId", 'ADJUSTMENT', 'رصيد افتتاحي', 'Balance changes made before the ledger existed' FROM "_OpeningBalance";
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "userId", "amount")
+SELECT gen_random_uuid()::text, "transactionId", 'USER_WALLET', "userId", "difference" FROM "_OpeningBalance";
+
+INSERT INTO "LedgerEntry" ("id", "transactionId", "account", "amount")
+SELECT gen_random_uuid()::text, "transactionId", 'ADJUSTMENTS', -"difference" FROM "_OpeningBalance";
+
+DROP TABLE "_OpeningBalance";
+
+-- The ledger is append-only
+CREATE FUNCTION "prevent_ledger_changes"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'The balance ledger is append-only, % on % is not allowed', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "LedgerTransaction_append_only" BEFORE UPDATE OR DELETE ON "LedgerTransaction"
+FOR EACH ROW EXECUTE FUNCTION "prevent_ledger_changes"();
+
+CREATE TRIGGER "LedgerEntry_append_only" BEFORE UPDATE OR DELETE ON "LedgerEntry"
+FOR EACH ROW EXECUTE FUNCTION "prevent_ledger_changes"();
@@ -0,0 +1,15 @@
+-- Amounts paid and refunded for purchases
+ALTER TABLE "Purchase" ADD COLUMN "amountPaid" INTEGER,
+ADD COLUMN "promoCodeId" TEXT,
+ADD COLUMN "refundedAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "refundReason" TEXT,
+ADD COLUMN "refundedById" TEXT,
+ADD COLUMN "refundedAt" TIMESTAMP(3);
+
+-- Purchases posted to the ledger with a reference get the amount their ledger transaction charged,
+-- older ones keep a NULL amount
+UPDATE "Purchase" AS p
+SET "amountPaid" = -e."amount"
+FROM "LedgerTransaction" AS t
+JOIN "LedgerEntry" AS e ON e."transactionId" = t."id" AND e."account" = 'USER_WALLET'
+WHERE t."reference" = 'purchase:' || p."id";
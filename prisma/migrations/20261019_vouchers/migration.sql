@@ -0,0 +1,49 @@
+-- Prepaid recharge cards
+CREATE TABLE "VoucherBatch" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VoucherBatch_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "Voucher" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "redeemedById" TEXT,
+    "redeemedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Voucher_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "VoucherRedemptionAttempt" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "succeeded" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VoucherRedemptionAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Voucher_code_key" ON "Voucher"("code");
+
+-- CreateIndex
+CREATE INDEX "Voucher_batchId_idx" ON "Voucher"("batchId");
+
+-- CreateIndex
+CREATE INDEX "VoucherRedemptionAttempt_userId_createdAt_idx" ON "VoucherRedemptionAttempt"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Voucher" ADD CONSTRAINT "Voucher_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "VoucherBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Voucher" ADD CONSTRAINT "Voucher_redeemedById_fkey" FOREIGN KEY ("redeemedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VoucherRedemptionAttempt" ADD CONSTRAINT "VoucherRedemptionAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
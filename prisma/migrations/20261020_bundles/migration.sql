@@ -0,0 +1,66 @@
+-- Course bundles
+CREATE TABLE "Bundle" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "imageUrl" TEXT,
+    "price" DOUBLE PRECISION NOT NULL,
+    "isPublished" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Bundle_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "BundleCourse" (
+    "id" TEXT NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BundleCourse_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "BundlePurchase" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "amountPaid" INTEGER NOT NULL,
+    "creditedAmount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BundlePurchase_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "Purchase" ADD COLUMN "bundlePurchaseId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Bundle_isPublished_idx" ON "Bundle"("isPublished");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BundleCourse_bundleId_courseId_key" ON "BundleCourse"("bundleId", "courseId");
+
+-- CreateIndex
+CREATE INDEX "BundleCourse_courseId_idx" ON "BundleCourse"("courseId");
+
+-- CreateIndex
+CREATE INDEX "BundlePurchase_userId_idx" ON "BundlePurchase"("userId");
+
+-- CreateIndex
+CREATE INDEX "BundlePurchase_bundleId_idx" ON "BundlePurchase"("bundleId");
+
+-- AddForeignKey
+ALTER TABLE "BundleCourse" ADD CONSTRAINT "BundleCourse_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BundleCourse" ADD CONSTRAINT "BundleCourse_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BundlePurchase" ADD CONSTRAINT "BundlePurchase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BundlePurchase" ADD CONSTRAINT "BundlePurchase_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Purchase" ADD CONSTRAINT "Purchase_bundlePurchaseId_fkey" FOREIGN KEY ("bundlePurchaseId") REFERENCES "BundlePurchase"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- Chapters sold on their own
+ALTER TABLE "Chapter" ADD COLUMN "price" DOUBLE PRECISION;
+
+CREATE TABLE "ChapterPurchase" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "amountPaid" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChapterPurchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChapterPurchase_userId_chapterId_key" ON "ChapterPurchase"("userId", "chapterId");
+
+-- CreateIndex
+CREATE INDEX "ChapterPurchase_chapterId_idx" ON "ChapterPurchase"("chapterId");
+
+-- AddForeignKey
+ALTER TABLE "ChapterPurchase" ADD CONSTRAINT "ChapterPurchase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChapterPurchase" ADD CONSTRAINT "ChapterPurchase_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
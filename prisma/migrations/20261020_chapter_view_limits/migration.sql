@@ -0,0 +1,32 @@
+-- Limits on how many times each student can watch a chapter's video
+ALTER TABLE "Chapter" ADD COLUMN "maxViews" INTEGER;
+
+ALTER TABLE "UserProgress" ADD COLUMN "viewCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "viewSessionId" TEXT,
+ADD COLUMN "viewSessionSeconds" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE "ChapterStudentSettings" (
+    "id" TEXT NOT NULL,
+    "studentId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "maxViews" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChapterStudentSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChapterStudentSettings_studentId_chapterId_key" ON "ChapterStudentSettings"("studentId", "chapterId");
+
+-- CreateIndex
+CREATE INDEX "ChapterStudentSettings_studentId_idx" ON "ChapterStudentSettings"("studentId");
+
+-- CreateIndex
+CREATE INDEX "ChapterStudentSettings_chapterId_idx" ON "ChapterStudentSettings"("chapterId");
+
+-- AddForeignKey
+ALTER TABLE "ChapterStudentSettings" ADD CONSTRAINT "ChapterStudentSettings_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChapterStudentSettings" ADD CONSTRAINT "ChapterStudentSettings_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Optional access windows of courses, existing courses and purchases keep lifetime access
+ALTER TABLE "Course" ADD COLUMN "accessEndsAt" TIMESTAMP(3),
+ADD COLUMN "accessDays" INTEGER;
+
+ALTER TABLE "Purchase" ADD COLUMN "expiresAt" TIMESTAMP(3);
@@ -0,0 +1,29 @@
+-- Uploaded chapter videos transcoded into HLS renditions by a queue worker
+ALTER TABLE "Chapter" ADD COLUMN "videoStatus" TEXT,
+ADD COLUMN "hlsUrl" TEXT,
+ADD COLUMN "posterUrl" TEXT,
+ADD COLUMN "videoDuration" INTEGER;
+
+CREATE TABLE "VideoProcessingJob" (
+    "id" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "sourceUrl" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VideoProcessingJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VideoProcessingJob_status_createdAt_idx" ON "VideoProcessingJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "VideoProcessingJob_chapterId_idx" ON "VideoProcessingJob"("chapterId");
+
+-- AddForeignKey
+ALTER TABLE "VideoProcessingJob" ADD CONSTRAINT "VideoProcessingJob_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
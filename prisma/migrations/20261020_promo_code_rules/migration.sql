@@ -0,0 +1,48 @@
+-- Promo codes limited per student, to first purchases, to a grade or division, or to specific students
+ALTER TABLE "PromoCode" ADD COLUMN "perUserLimit" INTEGER,
+ADD COLUMN "firstPurchaseOnly" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "grade" TEXT,
+ADD COLUMN "division" TEXT;
+
+CREATE TABLE "PromoCodeStudent" (
+    "id" TEXT NOT NULL,
+    "promocodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromoCodeStudent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "PromoCodeUsage" (
+    "id" TEXT NOT NULL,
+    "promocodeId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "usedCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCodeUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCodeStudent_promocodeId_userId_key" ON "PromoCodeStudent"("promocodeId", "userId");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeStudent_userId_idx" ON "PromoCodeStudent"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCodeUsage_promocodeId_userId_key" ON "PromoCodeUsage"("promocodeId", "userId");
+
+-- CreateIndex
+CREATE INDEX "PromoCodeUsage_userId_idx" ON "PromoCodeUsage"("userId");
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeStudent" ADD CONSTRAINT "PromoCodeStudent_promocodeId_fkey" FOREIGN KEY ("promocodeId") REFERENCES "PromoCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeStudent" ADD CONSTRAINT "PromoCodeStudent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeUsage" ADD CONSTRAINT "PromoCodeUsage_promocodeId_fkey" FOREIGN KEY ("promocodeId") REFERENCES "PromoCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoCodeUsage" ADD CONSTRAINT "PromoCodeUsage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- What was bought and the discount applied, for purchase receipts
+ALTER TABLE "LedgerTransaction" ADD COLUMN "details" JSONB;
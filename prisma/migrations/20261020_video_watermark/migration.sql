@@ -0,0 +1,3 @@
+-- Watermark with the student's identity over course videos
+ALTER TABLE "Course" ADD COLUMN "watermarkEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "watermarkOpacity" INTEGER NOT NULL DEFAULT 30;
@@ -0,0 +1,8 @@
+-- Watch time of chapter videos, and chapters completed by watching a percentage of the video
+ALTER TABLE "Chapter" ADD COLUMN "completionThreshold" INTEGER;
+
+ALTER TABLE "UserProgress" ADD COLUMN "watchedSegments" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN "watchedSeconds" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastPosition" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "duration" INTEGER,
+ADD COLUMN "lastWatchedAt" TIMESTAMP(3);
@@ -0,0 +1,22 @@
+-- View sessions of chapter videos, issued by the server and checked on every heartbeat
+CREATE TABLE "VideoViewSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "chapterId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VideoViewSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VideoViewSession_userId_expiresAt_idx" ON "VideoViewSession"("userId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "VideoViewSession_chapterId_idx" ON "VideoViewSession"("chapterId");
+
+-- AddForeignKey
+ALTER TABLE "VideoViewSession" ADD CONSTRAINT "VideoViewSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoViewSession" ADD CONSTRAINT "VideoViewSession_chapterId_fkey" FOREIGN KEY ("chapterId") REFERENCES "Chapter"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+import "dotenv/config";
+
+import { db } from "../lib/db";
+import { fromPiastres, reconcileBalances } from "../lib/ledger";
+
+// Flags users whose cached balance disagrees with the sum of their ledger entries.
+// Exits with code 1 when something is off, so it can run as a scheduled job that alerts on failure.
+async function main() {
+  const { checkedUsers, mismatches, unbalancedTransactionIds } = await reconcileBalances();
+
+  console.log(`Checked ${checkedUsers} users`);
+
+  for (const mismatch of mismatches) {
+    console.log(
+      `MISMATCH ${mismatch.userId} (${mismatch.fullName}, ${mismatch.phoneNumber}): ` +
+        `cached ${fromPiastres(mismatch.cachedBalance)} EGP, ledger ${fromPiastres(mismatch.ledgerBalance)} EGP, ` +
+        `difference ${fromPiastres(mismatch.difference)} EGP`
+    );
+  }
+
+  for (const transactionId of unbalancedTransactionIds) {
+    console.log(`UNBALANCED transaction ${transactionId}: its entries do not sum to zero`);
+  }
+
+  if (mismatches.length === 0 && unbalancedTransactionIds.length === 0) {
+    console.log("All balances match the ledger");
+    return;
+  }
+
+  console.log(`${mismatches.length} balance mismatches, ${unbalancedTransactionIds.length} unbalanced transactions`);
+  process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,188 @@
+import type { PricingStudent, PromoCodeWithRules } from "../lib/pricing";
+
+// Checks every promo code rule and the discount calculation. The rules are pure functions and need no database,
+// but lib/pricing creates the database client when it loads, so a placeholder URL is set if none is configured.
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(description: string, passed: boolean, details?: string) {
+  totalTests++;
+  if (passed) passedTests++;
+  console.log(`  ${passed ? "✅" : "❌"} ${description}`);
+  if (!passed && details) {
+    console.log(`    ${details}`);
+  }
+}
+
+const now = new Date("2026-06-15T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+const courseId = "course-1";
+
+function promoCode(rules: Partial<PromoCodeWithRules> = {}): PromoCodeWithRules {
+  return {
+    id: "promo-1",
+    code: "TEST",
+    discountType: "PERCENTAGE",
+    discountValue: 10,
+    minPurchase: null,
+    maxDiscount: null,
+    usageLimit: null,
+    usedCount: 0,
+    isActive: true,
+    validFrom: null,
+    validUntil: null,
+    description: null,
+    perUserLimit: null,
+    firstPurchaseOnly: false,
+    grade: null,
+    division: null,
+    createdAt: now,
+    updatedAt: now,
+    courses: [],
+    students: [],
+    ...rules,
+  };
+}
+
+function student(details: Partial<PricingStudent> = {}): PricingStudent {
+  return {
+    id: "student-1",
+    grade: "الصف الثالث الثانوي",
+    division: "علمي",
+    usedCount: 0,
+    hasPurchased: false,
+    ...details,
+  };
+}
+
+async function main() {
+  process.env.DATABASE_URL ??= "postgresql://localhost:5432/pricing-test";
+  const { applyPromoCode, calculateDiscount, checkPromoCodeRules, PricingError } = await import("../lib/pricing");
+
+  // Whether the rules refuse the code, with the error the student would see
+  const refuses = (
+    promocode: PromoCodeWithRules,
+    context: { price?: number; student?: PricingStudent; courseId?: string } = {}
+  ) => {
+    try {
+      checkPromoCodeRules(
+        promocode,
+        { courseId: context.courseId ?? courseId, price: context.price ?? 100, student: context.student ?? student() },
+        now
+      );
+      return false;
+    } catch (error) {
+      if (error instanceof PricingError && error.status === 400) {
+        return true;
+      }
+      throw error;
+    }
+  };
+
+  console.log("🧪 Testing promo code pricing...\n");
+
+  console.log("📋 Validity:");
+  check("a code without rules is accepted", !refuses(promoCode()));
+  check("an inactive code is refused", refuses(promoCode({ isActive: false })));
+  check("a code that hasn't started yet is refused", refuses(promoCode({ validFrom: new Date(now.getTime() + DAY_MS) })));
+  check("a code that has started is accepted", !refuses(promoCode({ validFrom: new Date(now.getTime() - DAY_MS) })));
+  check("an expired code is refused", refuses(promoCode({ validUntil: new Date(now.getTime() - DAY_MS) })));
+  check("a code before its end is accepted", !refuses(promoCode({ validUntil: new Date(now.getTime() + DAY_MS) })));
+
+  console.log("📋 Usage limits:");
+  check("a code used up to its limit is refused", refuses(promoCode({ usageLimit: 3, usedCount: 3 })));
+  check("a code under its limit is accepted", !refuses(promoCode({ usageLimit: 3, usedCount: 2 })));
+  check(
+    "a student who used the code up to the per student limit is refused",
+    refuses(promoCode({ perUserLimit: 2 }), { student: student({ usedCount: 2 }) })
+  );
+  check(
+    "a student under the per student limit is accepted",
+    !refuses(promoCode({ perUserLimit: 2 }), { student: student({ usedCount: 1 }) })
+  );
+
+  console.log("📋 Who and what the code is for:");
+  const forCourse = promoCode({ courses: [{ courseId }] });
+  check("a code for the course is accepted", !refuses(forCourse));
+  check("a code for other courses is refused", refuses(forCourse, { courseId: "course-2" }));
+  const forStudent = promoCode({ students: [{ userId: "student-1" }] });
+  check("a code for the student is accepted", !refuses(forStudent));
+  check("a code for other students is refused", refuses(forStudent, { student: student({ id: "student-2" }) }));
+  const forGrade = promoCode({ grade: "الصف الثالث الثانوي" });
+  check("a code for the student's grade is accepted", !refuses(forGrade));
+  check("a code for another grade is refused", refuses(forGrade, { student: student({ grade: "الصف الثاني الثانوي" }) }));
+  check("a code for a grade is refused to a student without one", refuses(forGrade, { student: student({ grade: null }) }));
+  const forDivision = promoCode({ division: "علمي" });
+  check("a code for the student's division is accepted", !refuses(forDivision));
+  check("a code for another division is refused", refuses(forDivision, { student: student({ division: "أدبي" }) }));
+
+  console.log("📋 Purchase conditions:");
+  const firstPurchase = promoCode({ firstPurchaseOnly: true });
+  check("a first purchase code is accepted on a first purchase", !refuses(firstPurchase));
+  check(
+    "a first purchase code is refused to a student who bought before",
+    refuses(firstPurchase, { student: student({ hasPurchased: true }) })
+  );
+  const minPurchase = promoCode({ minPurchase: 100 });
+  check("a price at the minimum purchase is accepted", !refuses(minPurchase, { price: 100 }));
+  check("a price under the minimum purchase is refused", refuses(minPurchase, { price: 99.99 }));
+
+  console.log("📋 Discounts:");
+  check("a percentage discount is a share of the price", calculateDiscount(promoCode({ discountValue: 25 }), 200) === 50);
+  check(
+    "a percentage discount is capped by the maximum discount",
+    calculateDiscount(promoCode({ discountValue: 50, maxDiscount: 30 }), 200) === 30
+  );
+  check(
+    "a percentage discount under the maximum discount is kept",
+    calculateDiscount(promoCode({ discountValue: 10, maxDiscount: 30 }), 200) === 20
+  );
+  check(
+    "a percentage discount is rounded to piastres",
+    calculateDiscount(promoCode({ discountValue: 33 }), 10.01) === 3.3
+  );
+  check("a fixed discount is its value", calculateDiscount(promoCode({ discountType: "FIXED", discountValue: 40 }), 100) === 40);
+  check(
+    "a fixed discount is capped at the price",
+    calculateDiscount(promoCode({ discountType: "FIXED", discountValue: 150 }), 100) === 100
+  );
+
+  console.log("📋 Applying a code:");
+  {
+    const quote = applyPromoCode(200, promoCode({ discountValue: 50, maxDiscount: 30 }), { courseId, student: student() }, now);
+    check(
+      "the quote subtracts the discount from the price",
+      quote.originalPrice === 200 && quote.discountAmount === 30 && quote.finalPrice === 170,
+      JSON.stringify({ ...quote, promocode: undefined })
+    );
+  }
+  {
+    const quote = applyPromoCode(100, promoCode({ discountType: "FIXED", discountValue: 150 }), { courseId, student: student() }, now);
+    check("a fixed discount over the price makes it free", quote.finalPrice === 0, `final price is ${quote.finalPrice}`);
+  }
+  {
+    let refused = false;
+    try {
+      applyPromoCode(100, promoCode({ isActive: false }), { courseId, student: student() }, now);
+    } catch (error) {
+      refused = error instanceof PricingError;
+    }
+    check("a code that breaks a rule is not applied", refused);
+  }
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests !== totalTests) {
+    console.log("⚠️  Some tests failed. Promo codes may be priced wrongly.");
+    process.exitCode = 1;
+  } else {
+    console.log("🎉 All tests passed!");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
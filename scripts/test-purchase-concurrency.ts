@@ -0,0 +1,281 @@
+import "dotenv/config";
+import { randomUUID } from "node:crypto";
+
+import { db } from "../lib/db";
+import { postLedgerTransaction, reconcileBalances, toPiastres } from "../lib/ledger";
+import { purchaseCourse, PurchaseError, refundPurchase } from "../lib/purchases";
+
+// Fires parallel purchases against the database in DATABASE_URL and checks that no wallet is overspent,
+// no course is bought twice, retries with the same idempotency key are charged once and promo code limits hold,
+// including first purchase codes.
+// It also checks renewals of courses with an access window.
+// It creates its own users, courses and promo code and deletes them afterwards; their ledger entries stay,
+// as the ledger is append-only, so run it against a development database.
+
+const PARALLEL_REQUESTS = 5;
+const runId = randomUUID().slice(0, 8);
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(description: string, passed: boolean, details?: string) {
+  totalTests++;
+  if (passed) passedTests++;
+  console.log(`  ${passed ? "✅" : "❌"} ${description}`);
+  if (!passed && details) {
+    console.log(`    ${details}`);
+  }
+}
+
+const created = {
+  userIds: [] as string[],
+  courseIds: [] as string[],
+  promoCodeIds: [] as string[],
+};
+
+async function createStudent(teacherId: string, balance: number) {
+  const student = await db.user.create({
+    data: {
+      fullName: `Concurrency test student ${runId}`,
+      phoneNumber: `test-${runId}-${created.userIds.length}`,
+      parentPhoneNumber: "00000000000",
+    },
+  });
+  created.userIds.push(student.id);
+
+  await postLedgerTransaction({
+    userId: student.id,
+    type: "ADJUSTMENT",
+    amount: toPiastres(balance),
+    description: "رصيد اختبار",
+    reason: "Purchase concurrency test",
+    actorId: teacherId,
+  });
+
+  return student;
+}
+
+async function createCourse(teacherId: string, price: number) {
+  const course = await db.course.create({
+    data: {
+      userId: teacherId,
+      title: `Concurrency test course ${runId}`,
+      price,
+      isPublished: true,
+    },
+  });
+  created.courseIds.push(course.id);
+  return course;
+}
+
+async function getBalance(userId: string) {
+  const user = await db.user.findUniqueOrThrow({ where: { id: userId }, select: { balance: true } });
+  return user.balance;
+}
+
+async function countPurchases(userId: string) {
+  return db.purchase.count({ where: { userId, status: "ACTIVE" } });
+}
+
+// Runs the purchases in parallel and sorts the outcomes into successes and refusals
+async function runInParallel(requests: Parameters<typeof purchaseCourse>[0][]) {
+  const outcomes = await Promise.allSettled(requests.map((request) => purchaseCourse(request)));
+  const unexpected = outcomes.filter(
+    (outcome) => outcome.status === "rejected" && !(outcome.reason instanceof PurchaseError)
+  );
+  for (const outcome of unexpected) {
+    console.log("    Unexpected error:", (outcome as PromiseRejectedResult).reason);
+  }
+
+  return {
+    results: outcomes.flatMap((outcome) => (outcome.status === "fulfilled" ? [outcome.value] : [])),
+    refused: outcomes.filter((outcome) => outcome.status === "rejected" && outcome.reason instanceof PurchaseError).length,
+    unexpected: unexpected.length,
+  };
+}
+
+async function runTests(teacherId: string) {
+  console.log(`📋 ${PARALLEL_REQUESTS} parallel purchases of the same course:`);
+  {
+    const student = await createStudent(teacherId, 100);
+    const course = await createCourse(teacherId, 80);
+    const { results, unexpected } = await runInParallel(
+      Array.from({ length: PARALLEL_REQUESTS }, () => ({ userId: student.id, courseId: course.id }))
+    );
+    check("exactly one purchase succeeds", results.length === 1, `${results.length} succeeded`);
+    check("no unexpected errors", unexpected === 0);
+    check("the balance is charged once", (await getBalance(student.id)) === toPiastres(20));
+    check("one active purchase exists", (await countPurchases(student.id)) === 1);
+  }
+
+  console.log(`📋 Parallel purchases of two courses the wallet can only afford one of:`);
+  {
+    const student = await createStudent(teacherId, 100);
+    const first = await createCourse(teacherId, 80);
+    const second = await createCourse(teacherId, 80);
+    const { results, unexpected } = await runInParallel([
+      { userId: student.id, courseId: first.id },
+      { userId: student.id, courseId: second.id },
+    ]);
+    const balance = await getBalance(student.id);
+    check("exactly one purchase succeeds", results.length === 1, `${results.length} succeeded`);
+    check("no unexpected errors", unexpected === 0);
+    check("the balance never goes negative", balance === toPiastres(20), `balance is ${balance} piastres`);
+  }
+
+  console.log(`📋 ${PARALLEL_REQUESTS} parallel retries with the same idempotency key:`);
+  {
+    const student = await createStudent(teacherId, 100);
+    const course = await createCourse(teacherId, 80);
+    const idempotencyKey = randomUUID();
+    const { results, unexpected } = await runInParallel(
+      Array.from({ length: PARALLEL_REQUESTS }, () => ({ userId: student.id, courseId: course.id, idempotencyKey }))
+    );
+    const purchaseIds = new Set(results.map(({ result }) => result.purchaseId));
+    check("every request returns a result", results.length === PARALLEL_REQUESTS, `${results.length} returned a result`);
+    check("all results are the same purchase", purchaseIds.size === 1, `${purchaseIds.size} different purchases`);
+    check("no unexpected errors", unexpected === 0);
+    check("the balance is charged once", (await getBalance(student.id)) === toPiastres(20));
+
+    const retry = await purchaseCourse({ userId: student.id, courseId: course.id, idempotencyKey });
+    check("a later retry replays the original result", retry.replayed && purchaseIds.has(retry.result.purchaseId));
+  }
+
+  console.log(`📋 Parallel purchases with a promo code limited to one use:`);
+  {
+    const course = await createCourse(teacherId, 80);
+    const promoCode = await db.promoCode.create({
+      data: {
+        code: `TEST${runId}`.toUpperCase(),
+        discountType: "PERCENTAGE",
+        discountValue: 50,
+        usageLimit: 1,
+      },
+    });
+    created.promoCodeIds.push(promoCode.id);
+
+    const students = await Promise.all(Array.from({ length: PARALLEL_REQUESTS }, () => createStudent(teacherId, 100)));
+    const { results, unexpected } = await runInParallel(
+      students.map((student) => ({ userId: student.id, courseId: course.id, promocode: promoCode.code }))
+    );
+    const { usedCount } = await db.promoCode.findUniqueOrThrow({ where: { id: promoCode.id } });
+    check("exactly one purchase uses the promo code", results.length === 1, `${results.length} succeeded`);
+    check("no unexpected errors", unexpected === 0);
+    check("the usage count stays within the limit", usedCount === 1, `usedCount is ${usedCount}`);
+  }
+
+  console.log(`📋 Purchases with a first purchase promo code:`);
+  {
+    const promoCode = await db.promoCode.create({
+      data: {
+        code: `FIRST${runId}`.toUpperCase(),
+        discountType: "PERCENTAGE",
+        discountValue: 50,
+        firstPurchaseOnly: true,
+      },
+    });
+    created.promoCodeIds.push(promoCode.id);
+
+    const student = await createStudent(teacherId, 100);
+    const first = await createCourse(teacherId, 40);
+    const second = await createCourse(teacherId, 40);
+    const { results, unexpected } = await runInParallel([
+      { userId: student.id, courseId: first.id, promocode: promoCode.code },
+      { userId: student.id, courseId: second.id, promocode: promoCode.code },
+    ]);
+    check("only one parallel purchase uses the code", results.length === 1, `${results.length} succeeded`);
+    check("no unexpected errors", unexpected === 0);
+
+    await refundPurchase({
+      purchaseId: results[0].result.purchaseId,
+      amount: toPiastres(20),
+      status: "REFUNDED",
+      reason: "Test refund",
+      actorId: teacherId,
+      restorePromoUsage: true,
+    });
+    const afterRefund = await purchaseCourse({ userId: student.id, courseId: first.id, promocode: promoCode.code })
+      .catch((error) => error);
+    check("a refund doesn't make the student a first time buyer again", afterRefund instanceof PurchaseError);
+  }
+
+  console.log(`📋 Renewals of a course with an access window:`);
+  {
+    const student = await createStudent(teacherId, 100);
+    const course = await createCourse(teacherId, 20);
+    await db.course.update({ where: { id: course.id }, data: { accessDays: 30 } });
+
+    const first = await purchaseCourse({ userId: student.id, courseId: course.id });
+    const renewed = await purchaseCourse({ userId: student.id, courseId: course.id });
+    const daysAdded = (Date.parse(renewed.result.expiresAt!) - Date.parse(first.result.expiresAt!)) / (24 * 60 * 60 * 1000);
+    check("renewing early extends the access", renewed.result.renewed && Math.round(daysAdded) === 30, `${daysAdded} days added`);
+
+    // The access ends, then the teacher removes the course's access window
+    await db.purchase.update({ where: { id: first.result.purchaseId }, data: { expiresAt: new Date(Date.now() - 1000) } });
+    await db.course.update({ where: { id: course.id }, data: { accessDays: null } });
+
+    const repurchased = await purchaseCourse({ userId: student.id, courseId: course.id }).catch((error) => error);
+    check(
+      "an ended purchase of a course without an access window is bought again",
+      !(repurchased instanceof Error) && repurchased.result.expiresAt === null && !repurchased.result.renewed,
+      repurchased instanceof Error ? repurchased.message : undefined
+    );
+    check("the new purchase gives lifetime access", (await db.purchase.findUniqueOrThrow({ where: { id: first.result.purchaseId } })).expiresAt === null);
+    check("every purchase is charged", (await getBalance(student.id)) === toPiastres(40));
+
+    const again = await purchaseCourse({ userId: student.id, courseId: course.id }).catch((error) => error);
+    check("a lifetime purchase is not bought twice", again instanceof PurchaseError);
+  }
+
+  console.log(`📋 Ledger reconciliation:`);
+  {
+    const { mismatches } = await reconcileBalances();
+    const testMismatches = mismatches.filter((mismatch) => created.userIds.includes(mismatch.userId));
+    check("every test wallet matches its ledger", testMismatches.length === 0, `${testMismatches.length} mismatches`);
+  }
+}
+
+async function cleanup() {
+  await db.promoCode.deleteMany({ where: { id: { in: created.promoCodeIds } } });
+  await db.course.deleteMany({ where: { id: { in: created.courseIds } } });
+  await db.user.deleteMany({ where: { id: { in: created.userIds } } });
+}
+
+async function main() {
+  console.log("🧪 Testing parallel course purchases...\n");
+
+  const teacher = await db.user.create({
+    data: {
+      fullName: `Concurrency test teacher ${runId}`,
+      phoneNumber: `test-${runId}-teacher`,
+      parentPhoneNumber: "00000000000",
+      role: "TEACHER",
+    },
+  });
+
+  try {
+    await runTests(teacher.id);
+  } finally {
+    await cleanup();
+    await db.user.delete({ where: { id: teacher.id } });
+  }
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests !== totalTests) {
+    console.log("⚠️  Some tests failed. Purchases are not safe under concurrency.");
+    process.exitCode = 1;
+  } else {
+    console.log("🎉 All tests passed!");
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
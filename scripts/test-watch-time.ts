@@ -0,0 +1,162 @@
+import type { WatchedSegment } from "../lib/watch-time";
+
+// Checks how heartbeats from the video player are turned into watch time, and that a forged heartbeat
+// can't complete a chapter. These are pure functions and need no database, but lib/watch-time creates
+// the database client when it loads, so a placeholder URL is set if none is configured.
+
+let passedTests = 0;
+let totalTests = 0;
+
+function check(description: string, passed: boolean, details?: string) {
+  totalTests++;
+  if (passed) passedTests++;
+  console.log(`  ${passed ? "✅" : "❌"} ${description}`);
+  if (!passed && details) {
+    console.log(`    ${details}`);
+  }
+}
+
+async function main() {
+  process.env.DATABASE_URL ??= "postgresql://localhost:5432/watch-time-test";
+  const {
+    clipSegments,
+    getHeartbeatLimit,
+    getVideoDuration,
+    getWatchedSeconds,
+    hasWatchedEnough,
+    mergeSegments,
+    parseReportedSegments,
+  } = await import("../lib/watch-time");
+
+  // What a heartbeat adds to the watch time, the way recordWatchHeartbeat computes it
+  const applyHeartbeat = (
+    chapter: { completionThreshold: number | null; videoDuration: number | null },
+    progress: { duration: number | null; watchedSegments: WatchedSegment[] },
+    heartbeat: { segments: unknown; duration: number | null; maxSeconds?: number }
+  ) => {
+    const duration = getVideoDuration(chapter, progress.duration, heartbeat.duration);
+    const segments = clipSegments(
+      mergeSegments([
+        ...progress.watchedSegments,
+        ...parseReportedSegments(heartbeat.segments, duration, heartbeat.maxSeconds),
+      ]),
+      duration
+    );
+    const watchedSeconds = getWatchedSeconds(segments);
+    return { duration, segments, watchedSeconds, isCompleted: hasWatchedEnough(chapter, { watchedSeconds, duration }) };
+  };
+
+  console.log("🧪 Testing video watch time...\n");
+
+  console.log("📋 Video length:");
+  check("the processed length is trusted over the player", getVideoDuration({ videoDuration: 600 }, null, 10) === 600);
+  check("the processed length replaces a stored one", getVideoDuration({ videoDuration: 600 }, 900, 900) === 600);
+  check("the player's length is used until one is known", getVideoDuration({ videoDuration: null }, null, 599.6) === 600);
+  check("a heartbeat can't shorten the stored length", getVideoDuration({ videoDuration: null }, 600, 10) === 600);
+  check("a heartbeat can make the stored length longer", getVideoDuration({ videoDuration: null }, 600, 700) === 700);
+  check("an invalid length keeps the stored one", getVideoDuration({ videoDuration: null }, 600, -5) === 600);
+  check("no length is known without one", getVideoDuration({ videoDuration: null }, null, null) === null);
+
+  console.log("📋 Reported segments:");
+  {
+    const segments = parseReportedSegments([[0, 10], [5, 20], ["a", 30], [40, 30]], 600);
+    check("invalid segments are dropped and overlaps merged", JSON.stringify(segments) === "[[0,20]]", JSON.stringify(segments));
+  }
+  {
+    const segments = parseReportedSegments([[590, 620]], 600);
+    check("segments are cut at the end of the video", JSON.stringify(segments) === "[[590,600]]", JSON.stringify(segments));
+  }
+  {
+    const segments = parseReportedSegments([[0, 600]], 600);
+    check("one heartbeat can't report the whole video", getWatchedSeconds(segments) < 600, `${getWatchedSeconds(segments)} seconds`);
+  }
+  {
+    const segments = clipSegments([[0, 100], [550, 700], [800, 900]], 600);
+    check("stored segments are cut at a shorter processed length", JSON.stringify(segments) === "[[0,100],[550,600]]", JSON.stringify(segments));
+  }
+
+  console.log("📋 Forged heartbeats:");
+  const chapter = { completionThreshold: 80, videoDuration: null };
+  {
+    const result = applyHeartbeat(chapter, { duration: 600, watchedSegments: [] }, { segments: [[0, 10]], duration: 10 });
+    check(
+      "a heartbeat shortening the stored length doesn't complete the chapter",
+      !result.isCompleted && result.duration === 600,
+      JSON.stringify(result)
+    );
+  }
+  {
+    const result = applyHeartbeat(
+      { ...chapter, videoDuration: 600 },
+      { duration: null, watchedSegments: [] },
+      { segments: [[0, 10]], duration: 10 }
+    );
+    check(
+      "a short length on the first heartbeat doesn't complete a processed video",
+      !result.isCompleted && result.duration === 600,
+      JSON.stringify(result)
+    );
+  }
+  {
+    const result = applyHeartbeat(chapter, { duration: 600, watchedSegments: [[0, 470]] }, { segments: [[470, 490]], duration: 600 });
+    check("watching up to the threshold completes the chapter", result.isCompleted, JSON.stringify(result));
+  }
+
+  console.log("📋 Heartbeats over time:");
+  const startedAt = new Date("2026-06-15T12:00:00Z");
+  const after = (seconds: number) => new Date(startedAt.getTime() + seconds * 1000);
+  check("a heartbeat right after the last one can report almost nothing", getHeartbeatLimit(startedAt, startedAt) === 2);
+  check(
+    "a heartbeat after the interval can report it at the fastest speed",
+    getHeartbeatLimit(startedAt, after(15)) === 32,
+    `${getHeartbeatLimit(startedAt, after(15))} seconds`
+  );
+  check("a heartbeat after a long pause is still limited", getHeartbeatLimit(startedAt, after(3600)) === 90);
+  {
+    // Forged heartbeats a tenth of a second apart, each claiming the next 90 seconds
+    let progress = { duration: 600 as number | null, watchedSegments: [] as WatchedSegment[] };
+    let result = applyHeartbeat(chapter, progress, { segments: [], duration: 600 });
+    for (let i = 0; i < 50; i++) {
+      result = applyHeartbeat(chapter, progress, {
+        segments: [[i * 90, (i + 1) * 90]],
+        duration: 600,
+        maxSeconds: getHeartbeatLimit(after(i / 10), after((i + 1) / 10)),
+      });
+      progress = { duration: result.duration, watchedSegments: result.segments };
+    }
+    check(
+      "back to back heartbeats don't complete the chapter",
+      !result.isCompleted && result.watchedSeconds <= 100,
+      `${result.watchedSeconds} seconds watched`
+    );
+  }
+  {
+    // A student watching at normal speed with a heartbeat every 15 seconds
+    let progress = { duration: 600 as number | null, watchedSegments: [] as WatchedSegment[] };
+    let result = applyHeartbeat(chapter, progress, { segments: [], duration: 600 });
+    for (let i = 0; i < 32; i++) {
+      result = applyHeartbeat(chapter, progress, {
+        segments: [[i * 15, (i + 1) * 15]],
+        duration: 600,
+        maxSeconds: getHeartbeatLimit(after(i * 15), after((i + 1) * 15)),
+      });
+      progress = { duration: result.duration, watchedSegments: result.segments };
+    }
+    check("watching at normal speed completes the chapter", result.isCompleted, `${result.watchedSeconds} seconds watched`);
+  }
+
+  console.log();
+  console.log(`📊 Test Results: ${passedTests}/${totalTests} tests passed`);
+
+  if (passedTests !== totalTests) {
+    console.log("⚠️  Some tests failed. Watch time may be recorded wrongly.");
+    process.exitCode = 1;
+  } else {
+    console.log("🎉 All tests passed!");
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
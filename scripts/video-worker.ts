@@ -0,0 +1,52 @@
+import "dotenv/config";
+
+import { db } from "../lib/db";
+import { claimVideoJob, processVideoJob } from "../lib/video-processing";
+
+// Transcodes uploaded chapter videos into HLS, one job at a time. Needs ffmpeg and ffprobe on the PATH
+// (or FFMPEG_PATH / FFPROBE_PATH). Run several workers to process videos in parallel.
+// With --once it empties the queue and exits, e.g. from a scheduled job.
+const POLL_INTERVAL_MS = 5000;
+
+let isStopping = false;
+
+const stop = () => {
+  console.log("Stopping after the current job");
+  isStopping = true;
+};
+
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+async function main() {
+  const once = process.argv.includes("--once");
+  console.log(once ? "Processing queued videos" : "Waiting for videos to process");
+
+  while (!isStopping) {
+    const job = await claimVideoJob();
+
+    if (!job) {
+      if (once) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    console.log(`Processing job ${job.id} for chapter ${job.chapterId} (attempt ${job.attempts})`);
+    const startedAt = Date.now();
+    const succeeded = await processVideoJob(job);
+    console.log(
+      `${succeeded ? "Finished" : "Failed"} job ${job.id} in ${Math.round((Date.now() - startedAt) / 1000)}s`
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });